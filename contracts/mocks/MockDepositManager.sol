@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "../VouchMinimal.sol";
+
+// Test double for the Tokamak DepositManager: stakes are set directly
+contract MockDepositManager is IDepositManager {
+    mapping(address => uint256) public stakes;
+
+    function setStake(address account, uint256 amount) external {
+        stakes[account] = amount;
+    }
+
+    function accStakedAccount(address account) external view returns (uint256 wtonAmount) {
+        return stakes[account];
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+// Test double for the OP-stack GasPriceOracle predeploy: a fixed L1 data fee.
+// The fee is immutable so the runtime code can be copied to the predeploy address.
+contract MockGasPriceOracle {
+    uint256 public immutable l1Fee;
+
+    constructor(uint256 fee) {
+        l1Fee = fee;
+    }
+
+    function getL1Fee(bytes calldata) external view returns (uint256) {
+        return l1Fee;
+    }
+}
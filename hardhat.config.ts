@@ -1,8 +1,9 @@
-require("@nomicfoundation/hardhat-toolbox");
-require("dotenv/config");
+import { HardhatUserConfig } from "hardhat/config";
+import "@nomicfoundation/hardhat-toolbox";
+import "dotenv/config";
+import "./tasks/syb";
 
-/** @type import('hardhat/config').HardhatUserConfig */
-module.exports = {
+const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.24",
     settings: {
@@ -86,6 +87,45 @@ module.exports = {
       },
     ],
   },
+  // Blockscout instances (mainnet and sepolia are built into hardhat-verify)
+  // No API key needed; used by scripts/verify-vouchminimal.ts alongside Etherscan
+  blockscout: {
+    enabled: true,
+    customChains: [
+      {
+        network: "arbitrumSepolia",
+        chainId: 421614,
+        urls: {
+          apiURL: "https://arbitrum-sepolia.blockscout.com/api",
+          browserURL: "https://arbitrum-sepolia.blockscout.com",
+        },
+      },
+      {
+        network: "arbitrum",
+        chainId: 42161,
+        urls: {
+          apiURL: "https://arbitrum.blockscout.com/api",
+          browserURL: "https://arbitrum.blockscout.com",
+        },
+      },
+      {
+        network: "baseSepolia",
+        chainId: 84532,
+        urls: {
+          apiURL: "https://base-sepolia.blockscout.com/api",
+          browserURL: "https://base-sepolia.blockscout.com",
+        },
+      },
+      {
+        network: "base",
+        chainId: 8453,
+        urls: {
+          apiURL: "https://base.blockscout.com/api",
+          browserURL: "https://base.blockscout.com",
+        },
+      },
+    ],
+  },
   // Sourcify configuration (optional, for decentralized verification)
   sourcify: {
     enabled: false,
@@ -96,3 +136,5 @@ module.exports = {
     coinmarketcap: process.env.COINMARKETCAP_API_KEY || "",
   },
 };
+
+export default config;
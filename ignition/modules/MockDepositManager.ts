@@ -0,0 +1,14 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * MockDepositManager for local chains, where there is no Tokamak staking to
+ * point VouchMinimal at. Stakes start at 0 and are set per account with
+ * setStake.
+ */
+const MockDepositManagerModule = buildModule("MockDepositManagerModule", (m) => {
+  const depositManager = m.contract("MockDepositManager");
+
+  return { depositManager };
+});
+
+export default MockDepositManagerModule;
@@ -0,0 +1,20 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import VouchMinimalModule from "./VouchMinimal";
+
+/**
+ * Follow-up step: change the minimum stake of the VouchMinimal in the same
+ * deployment. Deploying this module with the deployment's id (chain-<chainId>
+ * by default) reuses the recorded contract and only sends the call.
+ *
+ * Parameters:
+ *   SetMinimumStakeModule.minimumStake  new minimum stake, in WTON units
+ */
+const SetMinimumStakeModule = buildModule("SetMinimumStakeModule", (m) => {
+  const { vouchMinimal } = m.useModule(VouchMinimalModule);
+
+  m.call(vouchMinimal, "setMinimumStake", [m.getParameter<bigint>("minimumStake")]);
+
+  return { vouchMinimal };
+});
+
+export default SetMinimumStakeModule;
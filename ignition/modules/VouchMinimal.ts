@@ -0,0 +1,19 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * VouchMinimal against an existing DepositManager.
+ *
+ * Parameters (ignition/parameters/<network>.json):
+ *   VouchMinimalModule.depositManager  DepositManager the contract checks stakes against
+ *   VouchMinimalModule.minimumStake    stake required to vouch, in WTON units (default 0)
+ */
+const VouchMinimalModule = buildModule("VouchMinimalModule", (m) => {
+  const depositManager = m.getParameter<string>("depositManager");
+  const minimumStake = m.getParameter<bigint>("minimumStake", 0n);
+
+  const vouchMinimal = m.contract("VouchMinimal", [depositManager, minimumStake]);
+
+  return { vouchMinimal };
+});
+
+export default VouchMinimalModule;
@@ -1,48 +1,133 @@
-import { ethers, run, network } from "hardhat";
+import { ethers, ignition, network } from "hardhat";
+import * as path from "path";
+import { confirmationsFor, readDeployment, writeDeployment } from "../sdk/node";
+import MockDepositManagerModule from "../ignition/modules/MockDepositManager";
+import SetMinimumStakeModule from "../ignition/modules/SetMinimumStake";
+import VouchMinimalModule from "../ignition/modules/VouchMinimal";
+import { defaultDeploymentId, findDeployTransaction, isLocalNetwork, loadIgnitionParameters } from "./lib/ignition";
+import { DEPLOYMENTS_DIR } from "./lib/vouch-client";
+import { explorersFromEnv, printVerificationResults, verifyOnExplorers } from "./lib/verify";
+
+/**
+ * Deploy VouchMinimal with Hardhat Ignition.
+ *
+ * Parameters come from ignition/parameters/<network>.json (DEPOSIT_MANAGER_ADDRESS
+ * and MINIMUM_STAKE override them). Local chains without a depositManager get a
+ * MockDepositManager first. Follow-up modules run when the parameter file has a
+ * section for them. Ignition journals every step under
+ * ignition/deployments/<DEPLOYMENT_ID>, so re-running the script resumes an
+ * interrupted deployment instead of starting over.
+ */
+
+// Admin steps applied after the deployment, in order
+const FOLLOW_UP_MODULES = [SetMinimumStakeModule];
 
 async function main() {
   console.log("Starting VouchMinimal deployment...");
 
   const [deployer] = await ethers.getSigners();
+  const chainId = (await ethers.provider.getNetwork()).chainId;
+  const deploymentId = process.env.DEPLOYMENT_ID || defaultDeploymentId(chainId);
   console.log("Deploying contracts with account:", deployer.address);
   console.log("Account balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)));
 
-  // Configuration
-  // DepositManager contract address on your network
-  const DEPOSIT_MANAGER_ADDRESS = process.env.DEPOSIT_MANAGER_ADDRESS || "0x90ffcc7F168DceDBEF1Cb6c6eB00cA73F922956F";
-  // Minimum stake required (default: 0 for no minimum requirement)
-  const MINIMUM_STAKE = process.env.MINIMUM_STAKE || "0";
+  // ============================================
+  // STEP 1: Resolve parameters
+  // ============================================
+  const parameters = loadIgnitionParameters();
+  const vouchParameters = { ...parameters[VouchMinimalModule.id] };
+  if (process.env.DEPOSIT_MANAGER_ADDRESS) vouchParameters.depositManager = process.env.DEPOSIT_MANAGER_ADDRESS;
+  if (process.env.MINIMUM_STAKE) vouchParameters.minimumStake = BigInt(process.env.MINIMUM_STAKE);
+
+  if (!vouchParameters.depositManager) {
+    if (!isLocalNetwork()) {
+      throw new Error(
+        `No depositManager for ${network.name}: set ${VouchMinimalModule.id}.depositManager in ignition/parameters/${network.name}.json`
+      );
+    }
+    // Local chains have no Tokamak staking
+    console.log("\nDeploying MockDepositManager (local network)...");
+    const { depositManager } = await ignition.deploy(MockDepositManagerModule, { deploymentId });
+    vouchParameters.depositManager = await depositManager.getAddress();
+  }
+  const deployParameters = { ...parameters, [VouchMinimalModule.id]: vouchParameters };
 
   console.log("\n📋 Configuration:");
-  console.log("DepositManager Address:", DEPOSIT_MANAGER_ADDRESS);
-  console.log("Minimum Stake Required:", MINIMUM_STAKE, "WTON");
+  console.log("Deployment ID:", deploymentId);
+  console.log("DepositManager Address:", vouchParameters.depositManager);
+  console.log("Minimum Stake Required:", String(vouchParameters.minimumStake ?? 0n), "WTON");
 
-  // Deploy VouchMinimal
+  // ============================================
+  // STEP 2: Deploy (or resume) with Ignition
+  // ============================================
   console.log("\nDeploying VouchMinimal contract...");
-  const VouchMinimal = await ethers.getContractFactory("VouchMinimal");
-  const vouchMinimal = await VouchMinimal.deploy(DEPOSIT_MANAGER_ADDRESS, MINIMUM_STAKE);
-  
-  await vouchMinimal.waitForDeployment();
+  const { vouchMinimal } = await ignition.deploy(VouchMinimalModule, {
+    parameters: deployParameters,
+    deploymentId,
+    displayUi: true,
+  });
   const address = await vouchMinimal.getAddress();
-
   console.log("✅ VouchMinimal deployed to:", address);
 
-  // Save deployment info
-  const networkName = (await ethers.provider.getNetwork()).name;
-  const chainId = (await ethers.provider.getNetwork()).chainId;
-  
+  for (const module of FOLLOW_UP_MODULES) {
+    if (!parameters[module.id]) continue;
+    console.log(`\nApplying ${module.id}...`);
+    await ignition.deploy(module, { parameters: deployParameters, deploymentId, displayUi: true });
+  }
+
+  // ============================================
+  // STEP 3: Record the deployment
+  // ============================================
+  // The in-process hardhat network disappears with this script; there is nothing to record
+  if (network.name === "hardhat") {
+    console.log("\n⚠️  In-process hardhat network - nothing recorded");
+    console.log("Deployment complete!");
+    return;
+  }
+
+  const deployed = [];
+  for (const contract of ["MockDepositManager", "VouchMinimal"]) {
+    const tx = await findDeployTransaction(deploymentId, contract);
+    if (!tx) continue;
+    const receipt = (await ethers.provider.getTransactionReceipt(tx.txHash))!;
+    const record = {
+      contract,
+      address: tx.address,
+      network: network.name,
+      chainId: chainId.toString(),
+      constructorArgs: tx.constructorArgs,
+      deployer: tx.from,
+      blockNumber: receipt.blockNumber,
+      txHash: tx.txHash,
+      bytecodeHash: ethers.keccak256(await ethers.provider.getCode(tx.address)),
+      deployedAt: new Date().toISOString(),
+    };
+    // A resumed deployment keeps its original record (and verification results)
+    const existing = readDeployment(DEPLOYMENTS_DIR, network.name, contract);
+    const filePath = existing?.txHash === record.txHash ? null : writeDeployment(DEPLOYMENTS_DIR, record);
+    deployed.push({ ...record, filePath });
+  }
+  const vouchRecord = deployed.find((d) => d.contract === "VouchMinimal");
+  if (!vouchRecord) throw new Error(`VouchMinimal not found in the Ignition journal of ${deploymentId}`);
+
   console.log("\n📝 Deployment Summary:");
   console.log("========================");
   console.log("Contract: VouchMinimal");
-  console.log("Address:", address);
-  console.log("Network:", networkName);
+  console.log("Address:", vouchRecord.address);
+  console.log("Network:", network.name);
   console.log("Chain ID:", chainId);
-  console.log("Deployer:", deployer.address);
-  console.log("Block Number:", await ethers.provider.getBlockNumber());
+  console.log("Deployer:", vouchRecord.deployer);
+  console.log("Block Number:", vouchRecord.blockNumber);
+  console.log("Transaction:", vouchRecord.txHash);
   console.log("========================");
+  for (const record of deployed) {
+    if (record.filePath) {
+      console.log(`📝 Saved ${record.contract} to ${path.relative(process.cwd(), record.filePath)}`);
+    }
+  }
 
-  // Skip verification for localhost/hardhat networks
-  if (network.name === "localhost" || network.name === "hardhat") {
+  // Skip verification for local networks
+  if (isLocalNetwork()) {
     console.log("\n⚠️  Local network detected - skipping verification");
     console.log("Deployment complete!");
     return;
@@ -50,45 +135,36 @@ async function main() {
 
   // Wait for block confirmations before verification
   console.log("\n⏳ Waiting for block confirmations before verification...");
-  const confirmations = chainId === 1n ? 6 : 5; // More confirmations for mainnet
-  await vouchMinimal.deploymentTransaction()?.wait(Number(confirmations));
+  const confirmations = confirmationsFor(chainId); // More confirmations for mainnet
+  await ethers.provider.waitForTransaction(vouchRecord.txHash, confirmations);
   console.log(`✅ Waited for ${confirmations} confirmations`);
 
   // Automatic verification
   console.log("\n🔍 Starting automatic verification...");
   console.log("This may take a minute...");
-  
-  try {
-    await run("verify:verify", {
-      address: address,
-      constructorArguments: [DEPOSIT_MANAGER_ADDRESS, MINIMUM_STAKE],
-    });
-    console.log("✅ Contract verified successfully!");
-  } catch (error: any) {
-    if (error.message.includes("Already Verified")) {
-      console.log("✅ Contract is already verified!");
-    } else if (error.message.includes("does not have bytecode")) {
-      console.log("⚠️  Verification skipped - contract not yet indexed by block explorer");
-      console.log("   Please wait a minute and verify manually:");
-      console.log(`   npx hardhat verify --network ${network.name} ${address} ${DEPOSIT_MANAGER_ADDRESS} ${MINIMUM_STAKE}`);
-    } else {
-      console.log("⚠️  Verification failed:", error.message);
-      console.log("\n   You can verify manually with:");
-      console.log(`   npx hardhat verify --network ${network.name} ${address} ${DEPOSIT_MANAGER_ADDRESS} ${MINIMUM_STAKE}`);
-    }
+
+  const results = await verifyOnExplorers(address, vouchRecord.constructorArgs, explorersFromEnv());
+  printVerificationResults(results);
+  const record = readDeployment(DEPLOYMENTS_DIR, network.name);
+  if (record?.address === address) writeDeployment(DEPLOYMENTS_DIR, { ...record, verification: results });
+
+  if (results.some((r) => r.status === "failed")) {
+    // Usually the explorer has not indexed the contract yet
+    console.log("\n   Please wait a minute and retry with:");
+    console.log(`   npx hardhat run scripts/verify-vouchminimal.ts --network ${network.name}`);
   }
 
   console.log("\n🎉 Deployment and verification complete!");
   console.log("\n📋 Next Steps:");
   console.log("1. Interact with your contract:");
-  console.log(`   CONTRACT_ADDRESS=${address} npx hardhat run scripts/interact-vouchminimal.ts --network ${network.name}`);
+  console.log(`   npx hardhat run scripts/interact-vouchminimal.ts --network ${network.name}`);
   console.log("\n2. Query the network:");
-  console.log(`   CONTRACT_ADDRESS=${address} npm run query:network -- --network ${network.name}`);
+  console.log(`   npm run query:network -- --network ${network.name}`);
   console.log("\n⚠️  Important Notes:");
   console.log("• VouchMinimal uses a bootstrap mechanism - the first 5 vouches automatically seed the network.");
   console.log("• Users must have staked tokens in the DepositManager to vouch.");
-  console.log(`• Minimum stake required: ${MINIMUM_STAKE} WTON`);
-  console.log(`• DepositManager: ${DEPOSIT_MANAGER_ADDRESS}`);
+  console.log(`• Minimum stake required: ${vouchRecord.constructorArgs[1]} WTON`);
+  console.log(`• DepositManager: ${vouchRecord.constructorArgs[0]}`);
 }
 
 main()
@@ -97,4 +173,3 @@ main()
     console.error(error);
     process.exit(1);
   });
-
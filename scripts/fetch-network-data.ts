@@ -1,6 +1,8 @@
-import { ethers } from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
+import { addressesFromEvents, eventsNamed, graphExportFormats, graphExporter, writeGraphExport } from "../sdk/node";
+import { assembleIndexedGraph, indexedGraphDocument, syncIndexer } from "./lib/indexer";
+import { getVouchClient, requireContractAddress } from "./lib/vouch-client";
 
 /**
  * Fetch All Network Data for Frontend
@@ -9,44 +11,9 @@ import * as path from "path";
  * from the VouchMinimal contract for frontend visualization
  */
 
-// Type guard for EventLog
-function isEventLog(event: any): event is { args: any; blockNumber: number; transactionHash: string } {
-  return event && typeof event === 'object' && 'args' in event;
-}
-
-interface GraphNode {
-  id: string;
-  address: string;
-  rank: string;
-  score: string;
-  inCount: number;
-  outCount: number;
-  inNeighbors: string[];
-  outNeighbors: string[];
-  isSeed?: boolean;
-}
-
-interface GraphEdge {
-  from: string;
-  to: string;
-  id: string;
-}
-
-interface GraphData {
-  nodes: GraphNode[];
-  edges: GraphEdge[];
-}
-
 async function main() {
-  const contractAddress = process.env.CONTRACT_ADDRESS;
-  
-  if (!contractAddress) {
-    console.error("❌ Please provide CONTRACT_ADDRESS");
-    process.exit(1);
-  }
-
-  const VouchMinimal = await ethers.getContractFactory("VouchMinimal");
-  const contract = VouchMinimal.attach(contractAddress);
+  const contractAddress = requireContractAddress("fetch-network-data.ts");
+  const client = await getVouchClient(contractAddress);
 
   console.log("🔍 Fetching all network data...\n");
   console.log(`📍 Contract Address: ${contractAddress}\n`);
@@ -56,30 +23,15 @@ async function main() {
   // ============================================
   console.log("📊 Step 1: Fetching all addresses from events...");
   
-  const vouchCreatedFilter = contract.filters.VouchCreated();
-  const vouchRemovedFilter = contract.filters.VouchRemoved();
-  
-  const [vouchCreatedEvents, vouchRemovedEvents] = await Promise.all([
-    contract.queryFilter(vouchCreatedFilter, 0, "latest"),
-    contract.queryFilter(vouchRemovedFilter, 0, "latest"),
-  ]);
+  // Events come from the local index, which rolls back reorganized blocks
+  const indexer = await syncIndexer(contractAddress);
+  const vouchCreatedEvents = eventsNamed(indexer.events, "VouchCreated");
+  const vouchRemovedEvents = eventsNamed(indexer.events, "VouchRemoved");
 
   console.log(`   Found ${vouchCreatedEvents.length} VouchCreated events`);
   console.log(`   Found ${vouchRemovedEvents.length} VouchRemoved events`);
 
-  // Collect all unique addresses
-  const addressSet = new Set<string>();
-  
-  vouchCreatedEvents.forEach((event, index) => {
-    if (isEventLog(event) && event.args) {
-      addressSet.add(event.args.from.toLowerCase());
-      addressSet.add(event.args.to.toLowerCase());
-    } else {
-      console.log(`   ⚠️  Event ${index} is not a valid EventLog`);
-    }
-  });
-
-  const allAddresses = Array.from(addressSet);
+  const allAddresses = addressesFromEvents(vouchCreatedEvents);
   console.log(`✅ Found ${allAddresses.length} unique addresses from events\n`);
   
   // If no addresses found from events, try alternative discovery methods
@@ -87,12 +39,12 @@ async function main() {
     console.log("⚠️  No addresses found from events. Trying alternative discovery...\n");
     console.log("💡 Tip: If you just deployed, make sure vouches have been created.");
     console.log("   You can create vouches using:");
-    console.log(`   CONTRACT_ADDRESS=${contractAddress} npm run setup:sepolia\n`);
+    console.log(`   npm run setup:sepolia\n`);
     
     // Try to check if we can at least verify the contract is deployed
     try {
-      const defaultRank = await contract.DEFAULT_RANK();
-      console.log(`   Contract is deployed. DEFAULT_RANK: ${defaultRank.toString()}`);
+      const { defaultRank } = await client.getConstants();
+      console.log(`   Contract is deployed. DEFAULT_RANK: ${defaultRank}`);
     } catch (error: any) {
       console.log(`   ⚠️  Could not verify contract: ${error.message}`);
     }
@@ -103,71 +55,34 @@ async function main() {
   // ============================================
   console.log("📊 Step 2: Fetching node details...");
   
-  const nodes: GraphNode[] = [];
-  const edges: GraphEdge[] = [];
-  const edgeSet = new Set<string>(); // Track edges to avoid duplicates
-  
   // Identify seed nodes (from bootstrap events)
-  const bootstrapFilter = contract.filters.BootstrapVouchCreated();
-  const bootstrapEvents = await contract.queryFilter(bootstrapFilter, 0, "latest");
-  const seedAddresses = new Set<string>();
-  bootstrapEvents.forEach(event => {
-    if (isEventLog(event) && event.args) {
-      seedAddresses.add(event.args.from.toLowerCase());
-      seedAddresses.add(event.args.to.toLowerCase());
-    }
+  const seedAddresses = [...indexer.state.seeds];
+
+  // Batched through Multicall3: progress arrives once per batch. Edges are
+  // the created vouches minus the removed ones, checked against outNeighbors
+  const assembled = await assembleIndexedGraph(client, indexer, {
+    onProgress: (processed, total) => {
+      if (processed % 10 === 0 || processed === total) {
+        console.log(`   Processed ${processed}/${total} nodes...`);
+      }
+    },
   });
+  const { nodes, edges } = assembled;
 
-  // Fetch data for each address
-  for (let i = 0; i < allAddresses.length; i++) {
-    const address = allAddresses[i];
-    
-    try {
-      const nodeInfo = await contract.getNodeInfo(address);
-      const connections = await contract.getConnections(address);
-      
-      nodes.push({
-        id: address,
-        address: address,
-        rank: nodeInfo.rank.toString(),
-        score: nodeInfo.score.toString(),
-        inCount: Number(nodeInfo.inCount),
-        outCount: Number(nodeInfo.outCount),
-        inNeighbors: connections.inNeighbors.map((addr: string) => addr.toLowerCase()),
-        outNeighbors: connections.outNeighbors.map((addr: string) => addr.toLowerCase()),
-        isSeed: seedAddresses.has(address),
-      });
-
-      // Create edges from outgoing neighbors
-      connections.outNeighbors.forEach((toAddress: string) => {
-        const edgeId = `${address.toLowerCase()}-${toAddress.toLowerCase()}`;
-        if (!edgeSet.has(edgeId)) {
-          edges.push({
-            from: address.toLowerCase(),
-            to: toAddress.toLowerCase(),
-            id: edgeId,
-          });
-          edgeSet.add(edgeId);
-        }
-      });
-
-      if ((i + 1) % 10 === 0) {
-        console.log(`   Processed ${i + 1}/${allAddresses.length} nodes...`);
-      }
-    } catch (error: any) {
-      console.log(`   ⚠️  Error fetching ${address}: ${error.message}`);
+  console.log(`✅ Fetched ${nodes.length} nodes and ${edges.length} live edges (${assembled.removals} removed)\n`);
+  if (assembled.mismatches.length > 0) {
+    console.log(`⚠️  ${assembled.mismatches.length} edges differ between the events and getOutNeighbors:`);
+    for (const m of assembled.mismatches) {
+      console.log(`   ${m.from} → ${m.to}: ${m.inEdgeSet ? "only in the events" : "only in outNeighbors"}`);
     }
+    console.log("   (a vouch sent while fetching, or an incomplete index; run again)\n");
   }
 
-  console.log(`✅ Fetched ${nodes.length} nodes and ${edges.length} edges\n`);
-
   // ============================================
-  // STEP 3: Build Graph Data Structure
+  // STEP 3: Build the Export Document
   // ============================================
-  const graphData: GraphData = {
-    nodes,
-    edges,
-  };
+  // Versioned layout (schemas/graph-export.v1.schema.json), dated with block timestamps
+  const document = await indexedGraphDocument(indexer, assembled);
 
   // ============================================
   // STEP 4: Display Summary
@@ -176,11 +91,12 @@ async function main() {
   console.log("========================");
   console.log(`Total Nodes: ${nodes.length}`);
   console.log(`Total Edges: ${edges.length}`);
-  console.log(`Seed Nodes: ${nodes.filter(n => n.isSeed).length}`);
+  console.log(`Removed Edges: ${document.metadata.removedEdgeCount}`);
+  console.log(`Seed Nodes: ${document.metadata.seedCount}`);
   console.log(`\nTop 10 Nodes by Score:`);
   
-  nodes
-    .sort((a, b) => BigInt(b.score) > BigInt(a.score) ? 1 : -1)
+  [...nodes]
+    .sort((a, b) => b.score > a.score ? 1 : -1)
     .slice(0, 10)
     .forEach((node, i) => {
       console.log(`  ${i + 1}. ${node.address.substring(0, 10)}...`);
@@ -189,101 +105,27 @@ async function main() {
     });
 
   // ============================================
-  // STEP 5: Export Data for Frontend
-  // ============================================
-  console.log("\n💾 Graph Data Structure (for frontend):");
-  console.log("================================\n");
-  
-  // Format for common visualization libraries
-  const frontendData = {
-    // For D3.js, vis.js, or similar
-    nodes: nodes.map(node => ({
-      id: node.id,
-      label: node.address.substring(0, 10) + "...",
-      address: node.address,
-      rank: node.rank,
-      score: node.score,
-      inCount: node.inCount,
-      outCount: node.outCount,
-      isSeed: node.isSeed,
-      // Visual properties
-      size: Math.sqrt(Number(node.inCount) + Number(node.outCount)) * 5 + 10,
-      color: node.isSeed ? "#FFD700" : "#4A90E2",
-    })),
-    edges: edges.map(edge => ({
-      id: edge.id,
-      source: edge.from,
-      target: edge.to,
-      from: edge.from,
-      to: edge.to,
-    })),
-    // Metadata
-    metadata: {
-      contractAddress: contractAddress,
-      totalNodes: nodes.length,
-      totalEdges: edges.length,
-      seedCount: nodes.filter(n => n.isSeed).length,
-      exportedAt: new Date().toISOString(),
-    },
-    seeds: Array.from(seedAddresses),
-    timeline: vouchCreatedEvents.map((event, index) => {
-      if (isEventLog(event) && event.args) {
-        return {
-          index,
-          from: event.args.from,
-          to: event.args.to,
-          blockNumber: event.blockNumber,
-          txHash: event.transactionHash,
-        };
-      }
-      return null;
-    }).filter(Boolean),
-  };
-
-  console.log(JSON.stringify(frontendData, null, 2));
-  console.log("\n");
-
-  // ============================================
-  // STEP 6: Save to File
+  // STEP 5: Save to Files
   // ============================================
   const exportDir = path.join(__dirname, "..", "exports");
   
   // Create exports directory if it doesn't exist
   if (!fs.existsSync(exportDir)) {
     fs.mkdirSync(exportDir, { recursive: true });
-    console.log(`📁 Created exports directory\n`);
+    console.log(`\n📁 Created exports directory`);
   }
   
-  const timestamp = Date.now();
-  const filename = `network-graph-${timestamp}.json`;
-  const filepath = path.join(exportDir, filename);
-  
-  fs.writeFileSync(filepath, JSON.stringify(frontendData, null, 2));
-  console.log(`💾 Saved network data to: exports/${filename}\n`);
-
-  // ============================================
-  // STEP 7: Export Example Frontend Code
-  // ============================================
-  console.log("💻 Example Frontend Usage:");
-  console.log("================================\n");
-  console.log(`// Use this data with visualization libraries:`);
-  console.log(`// - D3.js: https://d3js.org/`);
-  console.log(`// - vis.js: https://visjs.org/`);
-  console.log(`// - react-force-graph: https://github.com/vasturiano/react-force-graph`);
-  console.log(`// - cytoscape.js: https://js.cytoscape.org/`);
-  console.log(`\n// Example with react-force-graph:`);
-  console.log(`import ForceGraph2D from 'react-force-graph-2d';`);
-  console.log(`\nconst graphData = ${JSON.stringify(frontendData, null, 2)};`);
-  console.log(`\n<ForceGraph2D`);
-  console.log(`  graphData={graphData}`);
-  console.log(`  nodeLabel={node => \`\${node.address}\\nRank: \${node.rank}\\nScore: \${node.score}\`}`);
-  console.log(`  nodeColor={node => node.isSeed ? "#FFD700" : "#4A90E2"}`);
-  console.log(`  nodeVal={node => node.size}`); 
-  console.log(`  linkDirectionalArrowLength={6}`); 
-  console.log(`  linkDirectionalArrowRelPos={1}`); 
-  console.log(`  onNodeClick={node => console.log("Clicked:", node.address)}`);
-  console.log(`/>`);
-  console.log("\n");
+  // The JSON document always, plus any of EXPORT_FORMATS (e.g. graphml,gexf,csv) next to it
+  const formats = ["json", ...(process.env.EXPORT_FORMATS ?? "").split(",").map((f) => f.trim()).filter((f) => f && f !== "json")];
+  const base = path.join(exportDir, `network-graph-${Date.now()}`);
+  console.log("");
+  for (const format of formats) {
+    const files = writeGraphExport(document, format, base + graphExporter(format).extension);
+    for (const file of files) console.log(`💾 Saved ${format} export to: ${path.relative(path.join(__dirname, ".."), file)}`);
+  }
+  console.log(`\n💡 Other formats: EXPORT_FORMATS=${graphExportFormats().filter((f) => f !== "json").join(",")}`);
+  console.log(`💡 Browse it offline: npx hardhat syb explore --graph ${path.relative(process.cwd(), base)}.json --out explorer.html`);
+  console.log("");
 }
 
 main()
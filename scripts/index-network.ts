@@ -0,0 +1,82 @@
+import { network } from "hardhat";
+import * as path from "path";
+import { SyncResult } from "../sdk";
+import { createIndexer, indexFilePath, logReorg } from "./lib/indexer";
+import { requireContractAddress } from "./lib/vouch-client";
+
+/**
+ * Incremental Event Indexer
+ *
+ * Replays every VouchMinimal event into a local JSON index under indexes/ and
+ * checkpoints the last processed block and log index, so later runs only
+ * fetch new blocks. Set INDEX_WATCH=true to keep following the chain head.
+ *
+ * Blocks within the network's confirmation depth (CONFIRMATIONS to override)
+ * are re-checked on every sync and rolled back if they were reorganized away.
+ */
+
+async function main() {
+  const contractAddress = requireContractAddress("index-network.ts");
+  const storePath = indexFilePath(contractAddress);
+  const watch = process.env.INDEX_WATCH === "true";
+
+  console.log("🗂️  VouchMinimal Event Indexer");
+  console.log("================================\n");
+  console.log(`📡 Network: ${network.name}`);
+  console.log(`📍 Contract: ${contractAddress}`);
+  console.log(`💾 Store: ${path.relative(process.cwd(), storePath)}\n`);
+
+  const indexer = await createIndexer(contractAddress);
+  console.log(`🔒 Confirmation depth: ${indexer.confirmations} blocks\n`);
+
+  const snapshot = await indexer.load();
+  if (snapshot.state.checkpoint) {
+    const { blockNumber, logIndex } = snapshot.state.checkpoint;
+    console.log(`⏩ Resuming after block ${blockNumber} (log index ${logIndex})\n`);
+  } else {
+    console.log(`🆕 Starting a new index from block ${snapshot.startBlock}\n`);
+  }
+
+  const printSync = (result: SyncResult) => {
+    logReorg(result);
+    const state = indexer.state;
+    console.log(
+      `✅ Blocks ${result.fromBlock}-${result.toBlock}: applied ${result.applied} events ` +
+      `(${Object.keys(state.nodes).length} nodes, ${state.edgeCount} edges)`
+    );
+  };
+
+  if (!watch) {
+    printSync(await indexer.sync());
+  } else {
+    const controller = new AbortController();
+    process.on("SIGINT", () => {
+      console.log("\n🛑 Stopping indexer...");
+      controller.abort();
+    });
+    console.log("👀 Watching for new blocks (Ctrl+C to stop)...\n");
+    await indexer.run({
+      pollIntervalMs: Number(process.env.POLL_INTERVAL_MS || 12000),
+      signal: controller.signal,
+      onSync: printSync,
+    });
+  }
+
+  const state = indexer.state;
+  console.log("\n📈 Indexed State:");
+  console.log("========================");
+  console.log(`Nodes: ${Object.keys(state.nodes).length}`);
+  console.log(`Edges: ${state.edgeCount}`);
+  console.log(`Seeds: ${state.seeds.length} (bootstrap ${state.bootstrapComplete ? "complete" : `${state.seedVouchCount} vouches`})`);
+  console.log(`Events: ${indexer.events.length}`);
+  console.log(`DepositManager: ${state.depositManager}`);
+  console.log(`Minimum Stake: ${state.minimumStake.toString()}`);
+  console.log(`Owner: ${state.owner}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,14 +1,9 @@
 import { ethers } from "hardhat";
+import { getVouchClient, requireContractAddress } from "./lib/vouch-client";
 
 async function main() {
-  // Get contract address from command line arguments
-  const contractAddress = process.env.CONTRACT_ADDRESS;
-
-  if (!contractAddress) {
-    console.error("❌ Please provide CONTRACT_ADDRESS environment variable");
-    console.log("Usage: CONTRACT_ADDRESS=0x... npx hardhat run scripts/interact-vouchminimal.ts --network <network>");
-    process.exit(1);
-  }
+  // Get contract address from the deployment registry (or CONTRACT_ADDRESS)
+  const contractAddress = requireContractAddress("interact-vouchminimal.ts");
 
   console.log("Interacting with VouchMinimal contract...");
   console.log("Contract address:", contractAddress);
@@ -17,48 +12,33 @@ async function main() {
   console.log("Signer address:", signer.address);
 
   // Connect to deployed contract
-  const VouchMinimal = await ethers.getContractFactory("VouchMinimal");
-  const vouchMinimal = VouchMinimal.attach(contractAddress);
+  const client = await getVouchClient(contractAddress);
 
   // Display contract info
+  const constants = await client.getConstants();
   console.log("\n📊 Contract Information:");
   console.log("========================");
-  console.log("DEFAULT_RANK:", (await vouchMinimal.DEFAULT_RANK()).toString());
-  console.log("R (weight window):", (await vouchMinimal.R()).toString());
-  console.log("BONUS_OUT:", (await vouchMinimal.BONUS_OUT()).toString());
-  console.log("BONUS_CAP:", (await vouchMinimal.BONUS_CAP()).toString());
+  console.log("DEFAULT_RANK:", constants.defaultRank.toString());
+  console.log("R (weight window):", constants.r.toString());
+  console.log("BONUS_OUT:", constants.bonusOut.toString());
+  console.log("BONUS_CAP:", constants.bonusCap.toString());
 
   // Check signer's node info
   console.log("\n👤 Your Node Information:");
   console.log("========================");
-  const nodeInfo = await vouchMinimal.getNodeInfo(signer.address);
-  console.log("Rank:", nodeInfo.rank.toString());
-  console.log("Score:", nodeInfo.score.toString());
-  console.log("Incoming vouches:", nodeInfo.inCount.toString());
-  console.log("Outgoing vouches:", nodeInfo.outCount.toString());
-
-  const connections = await vouchMinimal.getConnections(signer.address);
-  console.log("\nIncoming neighbors:", connections.inNeighbors);
-  console.log("Outgoing neighbors:", connections.outNeighbors);
-
-  // Example: Create a vouch (commented out for safety)
-  /*
-  const targetAddress = "0x..."; // Replace with actual address
-  console.log("\n📝 Creating vouch for:", targetAddress);
-  
-  const tx = await vouchMinimal.vouch(targetAddress);
-  console.log("Transaction hash:", tx.hash);
-  
-  const receipt = await tx.wait();
-  console.log("✅ Vouch created successfully!");
-  console.log("Gas used:", receipt?.gasUsed.toString());
-
-  // Display updated info
-  const updatedNode = await vouchMinimal.getNodeInfo(targetAddress);
-  console.log("\n📊 Target's Updated Info:");
-  console.log("Rank:", updatedNode.rank.toString());
-  console.log("Score:", updatedNode.score.toString());
-  */
+  const node = await client.getNodeInfo(signer.address);
+  console.log("Rank:", node.rank.toString());
+  console.log("Score:", node.score.toString());
+  console.log("Incoming vouches:", node.inCount);
+  console.log("Outgoing vouches:", node.outCount);
+
+  console.log("\nIncoming neighbors:", node.inNeighbors);
+  console.log("Outgoing neighbors:", node.outNeighbors);
+
+  // Writes go through the syb CLI, which simulates first with --dry-run
+  console.log("\n📝 To vouch or unvouch:");
+  console.log("   npx hardhat syb vouch <address> --dry-run --network <network>");
+  console.log("   npx hardhat syb unvouch <address> --network <network>");
 }
 
 main()
@@ -67,4 +47,3 @@ main()
     console.error(error);
     process.exit(1);
   });
-
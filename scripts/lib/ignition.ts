@@ -0,0 +1,83 @@
+import { artifacts, config, network } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { getAddress } from "ethers";
+import {
+  ArtifactResolver,
+  DeploymentParameters,
+  TransactionStatus,
+  listTransactions,
+} from "@nomicfoundation/ignition-core";
+
+/**
+ * Hardhat Ignition glue for the deploy script: per-network parameter files
+ * and the deployment journal Ignition keeps under ignition/deployments/.
+ */
+
+export const IGNITION_PARAMETERS_DIR = path.join(__dirname, "..", "..", "ignition", "parameters");
+
+export function isLocalNetwork(networkName = network.name): boolean {
+  return networkName === "hardhat" || networkName === "localhost";
+}
+
+export function parametersFilePath(networkName = network.name): string {
+  return path.join(IGNITION_PARAMETERS_DIR, `${networkName}.json`);
+}
+
+// Same "123n" convention as `hardhat ignition deploy --parameters`
+function bigintReviver(_key: string, value: unknown): unknown {
+  return typeof value === "string" && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value;
+}
+
+// ignition/parameters/<network>.json, or no parameters when the file does not exist
+export function loadIgnitionParameters(networkName = network.name): DeploymentParameters {
+  const filePath = parametersFilePath(networkName);
+  if (!fs.existsSync(filePath)) return {};
+  return JSON.parse(fs.readFileSync(filePath, "utf8"), bigintReviver);
+}
+
+// Ignition's own default, so the CLI and the deploy script resume the same deployment
+export function defaultDeploymentId(chainId: bigint): string {
+  return `chain-${chainId}`;
+}
+
+// hardhat-ignition does not export its resolver; this one reads the same artifacts
+const artifactResolver: ArtifactResolver = {
+  loadArtifact: (contractName) => artifacts.readArtifact(contractName),
+  getBuildInfo: async (contractName) => {
+    const { sourceName } = await artifacts.readArtifact(contractName);
+    return (await artifacts.getBuildInfo(`${sourceName}:${contractName}`)) ?? undefined;
+  },
+};
+
+export interface IgnitionDeployTransaction {
+  txHash: string;
+  from: string;
+  address: string;
+  constructorArgs: string[];
+}
+
+/**
+ * The successful deployment transaction of `contractName` in a journaled
+ * deployment, or null if the journal has none (the in-process hardhat
+ * network keeps no journal).
+ */
+export async function findDeployTransaction(
+  deploymentId: string,
+  contractName: string
+): Promise<IgnitionDeployTransaction | null> {
+  const deploymentDir = path.join(config.paths.ignition, "deployments", deploymentId);
+  if (!fs.existsSync(deploymentDir)) return null;
+
+  const transactions = await listTransactions(deploymentDir, artifactResolver);
+  const tx = transactions.find(
+    (t) => t.type === "DEPLOYMENT_EXECUTION_STATE" && t.name === contractName && t.status === TransactionStatus.SUCCESS
+  );
+  if (!tx || !tx.address) return null;
+  return {
+    txHash: tx.txHash,
+    from: getAddress(tx.from),
+    address: tx.address,
+    constructorArgs: (tx.params ?? []).map((p) => String(p)),
+  };
+}
@@ -0,0 +1,101 @@
+import { ethers, network } from "hardhat";
+import * as path from "path";
+import {
+  AssembleOptions,
+  AssembledGraph,
+  GraphDocument,
+  GraphEvents,
+  GraphHistory,
+  JsonFileStore,
+  SyncResult,
+  VouchClient,
+  VouchIndexer,
+  assembleGraph,
+  confirmationsFor,
+  eventsNamed,
+  graphDocument,
+  readBlockTimestamps,
+  writeBlockTimestamps,
+} from "../../sdk/node";
+import { logFetchOptions, startBlock } from "./vouch-client";
+
+/**
+ * Hardhat glue for the event indexer: one persisted index per network and
+ * contract under indexes/, shared by index-network.ts and the exporters so
+ * they all see the same reorg-checked event stream.
+ */
+
+export function indexFilePath(contractAddress: string): string {
+  return process.env.INDEX_FILE
+    || path.join(__dirname, "..", "..", "indexes", network.name, `${contractAddress.toLowerCase()}.json`);
+}
+
+export async function createIndexer(contractAddress: string): Promise<VouchIndexer> {
+  // CONFIRMATIONS overrides the per-network reorg depth
+  const { chainId } = await ethers.provider.getNetwork();
+  return new VouchIndexer(ethers.provider, contractAddress, new JsonFileStore(indexFilePath(contractAddress)), {
+    startBlock: startBlock(contractAddress),
+    batchSize: process.env.INDEX_BATCH_SIZE ? Number(process.env.INDEX_BATCH_SIZE) : undefined,
+    logs: logFetchOptions(),
+    confirmations: process.env.CONFIRMATIONS ? Number(process.env.CONFIRMATIONS) : confirmationsFor(chainId),
+  });
+}
+
+export function logReorg(result: SyncResult): void {
+  if (!result.reorg) return;
+  console.log(
+    `⚠️  Chain reorganization detected: rolled back ${result.reorg.removedEvents} events ` +
+    `after block ${result.reorg.forkBlock} and re-ingested`
+  );
+}
+
+// Brings the local index up to the chain head and returns it
+export async function syncIndexer(contractAddress: string): Promise<VouchIndexer> {
+  const indexer = await createIndexer(contractAddress);
+  logReorg(await indexer.sync());
+  return indexer;
+}
+
+/**
+ * Point-in-time history of an indexed contract. Block timestamps are cached
+ * next to the index (<index>.timestamps.json), so only blocks indexed since
+ * the last call are fetched.
+ */
+export async function loadHistory(indexer: VouchIndexer): Promise<GraphHistory> {
+  const cacheFile = indexFilePath(indexer.contractAddress).replace(/\.json$/, "") + ".timestamps.json";
+  const cache = readBlockTimestamps(cacheFile);
+  const known = cache.size;
+  const history = await GraphHistory.load(ethers.provider, indexer.events, cache);
+  if (cache.size !== known) writeBlockTimestamps(cacheFile, cache);
+  return history;
+}
+
+// The live graph of an indexed contract (see assembleGraph); EDGE_SOURCE=hasEdge asks the contract which edges are live
+export function assembleIndexedGraph(client: VouchClient, indexer: VouchIndexer, options: AssembleOptions = {}): Promise<AssembledGraph> {
+  const edges = process.env.EDGE_SOURCE;
+  if (edges !== undefined && edges !== "events" && edges !== "hasEdge") {
+    throw new Error(`EDGE_SOURCE must be events or hasEdge (got ${edges})`);
+  }
+  return assembleGraph(client, indexedGraphEvents(indexer), { edges, ...options });
+}
+
+// The export document of an assembled indexed graph, dated with the cached block timestamps
+export async function indexedGraphDocument(indexer: VouchIndexer, graph: AssembledGraph): Promise<GraphDocument> {
+  const history = await loadHistory(indexer);
+  const times = new Map(history.timeline().map((entry) => [entry.blockNumber, entry.timestamp]));
+  return graphDocument(graph, indexedGraphEvents(indexer), {
+    contractAddress: indexer.contractAddress,
+    chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+    network: network.name,
+    blockNumber: indexer.state.checkpoint?.blockNumber,
+    timestampOf: (block) => times.get(block),
+  });
+}
+
+function indexedGraphEvents(indexer: VouchIndexer): GraphEvents {
+  return {
+    created: eventsNamed(indexer.events, "VouchCreated"),
+    removed: eventsNamed(indexer.events, "VouchRemoved"),
+    seeds: indexer.state.seeds,
+  };
+}
@@ -0,0 +1,64 @@
+import { ethers } from "hardhat";
+import { CompiledScenario, VouchClient } from "../../sdk";
+import { isLocalNetwork } from "./ignition";
+
+/**
+ * Hardhat glue for running scenarios on --network: gas money for the actors
+ * that send, and their DepositManager stakes. Local networks get both for
+ * free (hardhat_setBalance, MockDepositManager.setStake); on live networks
+ * the deployer tops up balances and stakes can only be checked.
+ */
+
+export interface StakeShortfall {
+  actor: string;
+  address: string;
+  required: bigint;
+  staked: bigint;
+}
+
+// Gives every sender at least `amount` ETH
+export async function fundScenarioSenders(compiled: CompiledScenario, amount: bigint): Promise<number> {
+  let funded = 0;
+  const [deployer] = await ethers.getSigners();
+  for (const address of compiled.senders) {
+    const balance = await ethers.provider.getBalance(address);
+    if (balance >= amount) continue;
+    if (isLocalNetwork()) {
+      await ethers.provider.send("hardhat_setBalance", [address, ethers.toQuantity(amount)]);
+    } else {
+      if (!deployer) throw new Error("No funded account to pay for the actors' gas; set PRIVATE_KEY");
+      await (await deployer.sendTransaction({ to: address, value: amount - balance })).wait();
+    }
+    funded++;
+  }
+  return funded;
+}
+
+/**
+ * Sets the scenario's stakes on a MockDepositManager (local networks), or
+ * reports the actors whose real stake is below what the scenario declares.
+ */
+export async function applyScenarioStakes(client: VouchClient, compiled: CompiledScenario): Promise<StakeShortfall[]> {
+  const names = new Map(Object.entries(compiled.actors).map(([name, address]) => [address, name]));
+  const entries = Object.entries(compiled.stakes);
+  if (entries.length === 0) return [];
+
+  if (isLocalNetwork()) {
+    const mock = await ethers.getContractAt("MockDepositManager", await client.contract.depositManager());
+    for (const [address, amount] of entries) {
+      try {
+        await (await mock.setStake(address, amount)).wait();
+      } catch (error: any) {
+        throw new Error(`Cannot set stakes: the DepositManager is not a MockDepositManager (${error.shortMessage ?? error.message})`);
+      }
+    }
+    return [];
+  }
+
+  const shortfalls: StakeShortfall[] = [];
+  for (const [address, required] of entries) {
+    const { stakedAmount } = await client.getStakeInfo(address);
+    if (stakedAmount < required) shortfalls.push({ actor: names.get(address)!, address, required, staked: stakedAmount });
+  }
+  return shortfalls;
+}
@@ -0,0 +1,105 @@
+import { config, network, run } from "hardhat";
+import { Blockscout } from "@nomicfoundation/hardhat-verify/blockscout";
+import { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import { ExplorerName, VerificationResult } from "../../sdk";
+
+/**
+ * Hardhat glue for explorer verification: runs hardhat-verify's Etherscan and
+ * Blockscout subtasks for the current --network and turns their outcome into
+ * one VerificationResult per explorer.
+ */
+
+export const ALL_EXPLORERS: ExplorerName[] = ["etherscan", "blockscout"];
+
+// VERIFY_EXPLORERS=etherscan,blockscout (default: both)
+export function explorersFromEnv(): ExplorerName[] {
+  const requested = process.env.VERIFY_EXPLORERS?.split(",").map((e) => e.trim()).filter(Boolean);
+  if (!requested?.length) return ALL_EXPLORERS;
+  for (const explorer of requested) {
+    if (!ALL_EXPLORERS.includes(explorer as ExplorerName)) {
+      throw new Error(`Unknown explorer "${explorer}" in VERIFY_EXPLORERS (expected ${ALL_EXPLORERS.join(", ")})`);
+    }
+  }
+  return requested as ExplorerName[];
+}
+
+async function contractUrl(explorer: ExplorerName, address: string): Promise<string> {
+  if (explorer === "etherscan") {
+    const chain = await Etherscan.getCurrentChainConfig(network.name, network.provider, config.etherscan.customChains);
+    return Etherscan.fromChainConfig(config.etherscan.apiKey, chain).getContractUrl(address);
+  }
+  const chain = await Blockscout.getCurrentChainConfig(network.name, network.provider, config.blockscout.customChains);
+  return Blockscout.fromChainConfig(chain).getContractUrl(address);
+}
+
+async function verifyOn(explorer: ExplorerName, address: string, constructorArgs: string[]): Promise<VerificationResult> {
+  const checkedAt = new Date().toISOString();
+  let url: string;
+  try {
+    url = await contractUrl(explorer, address);
+  } catch (error: any) {
+    // ChainConfigNotFoundError / HardhatNetworkNotSupportedError
+    return { explorer, status: "unsupported", error: error.message, checkedAt };
+  }
+
+  try {
+    // Blockscout reads the constructor arguments from the creation transaction itself
+    await run(`verify:${explorer}`, explorer === "etherscan" ? { address, constructorArgsParams: constructorArgs } : { address });
+    return { explorer, status: "verified", url, checkedAt };
+  } catch (error: any) {
+    if (/already verified/i.test(error.message)) return { explorer, status: "verified", url, checkedAt };
+    return { explorer, status: "failed", url, error: error.message, checkedAt };
+  }
+}
+
+export async function verifyOnExplorers(
+  address: string,
+  constructorArgs: string[],
+  explorers: ExplorerName[] = ALL_EXPLORERS
+): Promise<VerificationResult[]> {
+  const results: VerificationResult[] = [];
+  // one at a time: both subtasks print their own progress
+  for (const explorer of explorers) results.push(await verifyOn(explorer, address, constructorArgs));
+  return results;
+}
+
+export function printVerificationResults(results: VerificationResult[]): void {
+  const icons = { verified: "✅", failed: "❌", unsupported: "⚪" };
+  console.log(`\n📋 Verification results (${network.name}):`);
+  console.log("========================");
+  for (const result of results) {
+    console.log(`${icons[result.status]} ${result.explorer}: ${result.status}${result.url ? ` - ${result.url}` : ""}`);
+    if (result.error) console.log(`   ${result.error.split("\n")[0]}`);
+  }
+}
+
+/**
+ * Looks up the transaction that created `address` through the explorers'
+ * Etherscan-compatible getcontractcreation endpoint. Used when the contract is
+ * not in the deployment registry.
+ */
+export async function findCreationTx(address: string): Promise<string | undefined> {
+  const chainId = Number(await network.provider.send("eth_chainId"));
+  const endpoints: string[] = [];
+  if (typeof config.etherscan.apiKey === "string" && config.etherscan.apiKey) {
+    endpoints.push(`https://api.etherscan.io/v2/api?chainid=${chainId}&apikey=${config.etherscan.apiKey}`);
+  }
+  try {
+    const chain = await Blockscout.getCurrentChainConfig(network.name, network.provider, config.blockscout.customChains);
+    endpoints.push(`${chain.urls.apiURL}?`);
+  } catch {
+    // no Blockscout instance for this chain
+  }
+
+  for (const endpoint of endpoints) {
+    try {
+      const response = await fetch(`${endpoint}&module=contract&action=getcontractcreation&contractaddresses=${address}`);
+      const body: any = await response.json();
+      const txHash = Array.isArray(body.result) ? body.result[0]?.txHash : undefined;
+      if (txHash) return txHash;
+    } catch {
+      // try the next explorer
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,72 @@
+import { artifacts, ethers, network } from "hardhat";
+import * as path from "path";
+import {
+  DeploymentRecord,
+  FetchLogsOptions,
+  MULTICALL3_ADDRESS,
+  VouchClient,
+  hasMulticall,
+  readDeployment,
+} from "../../sdk/node";
+
+/**
+ * Hardhat glue shared by the scripts: resolves the contract address (from
+ * CONTRACT_ADDRESS or the deployment registry) and connects a VouchClient
+ * with the first configured signer.
+ */
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+// The VouchMinimal deployment recorded for --network, if any
+export function currentDeployment(): DeploymentRecord | null {
+  return readDeployment(DEPLOYMENTS_DIR, network.name);
+}
+
+export function requireContractAddress(script: string, networkName = network.name): string {
+  const contractAddress = process.env.CONTRACT_ADDRESS || currentDeployment()?.address;
+
+  if (!contractAddress) {
+    console.error(`❌ No deployment recorded in deployments/${network.name}.json and no CONTRACT_ADDRESS set`);
+    console.log(`Deploy first, or run: CONTRACT_ADDRESS=0x... npx hardhat run scripts/${script} --network ${networkName}`);
+    process.exit(1);
+  }
+
+  return contractAddress;
+}
+
+// First block to scan for events: START_BLOCK, else the recorded deploy block
+export function startBlock(contractAddress: string): number {
+  if (process.env.START_BLOCK) return Number(process.env.START_BLOCK);
+  const deployment = currentDeployment();
+  if (deployment && deployment.address.toLowerCase() === contractAddress.toLowerCase()) {
+    return deployment.blockNumber;
+  }
+  return 0;
+}
+
+// eth_getLogs chunking for public RPCs: LOGS_CHUNK_SIZE, LOGS_CONCURRENCY, LOGS_MAX_RETRIES
+export function logFetchOptions(): Omit<FetchLogsOptions, "fromBlock" | "toBlock"> {
+  return {
+    chunkSize: process.env.LOGS_CHUNK_SIZE ? Number(process.env.LOGS_CHUNK_SIZE) : undefined,
+    concurrency: process.env.LOGS_CONCURRENCY ? Number(process.env.LOGS_CONCURRENCY) : undefined,
+    maxRetries: process.env.LOGS_MAX_RETRIES ? Number(process.env.LOGS_MAX_RETRIES) : undefined,
+  };
+}
+
+// Local chains have no Multicall3; install ours at the canonical address so batching works the same
+export async function ensureLocalMulticall(): Promise<void> {
+  if (network.name !== "hardhat" && network.name !== "localhost") return;
+  if (await hasMulticall(ethers.provider)) return;
+  const { deployedBytecode } = await artifacts.readArtifact("Multicall3");
+  await ethers.provider.send("hardhat_setCode", [MULTICALL3_ADDRESS, deployedBytecode]);
+}
+
+export async function getVouchClient(contractAddress: string): Promise<VouchClient> {
+  await ensureLocalMulticall();
+  // Read-only networks (no PRIVATE_KEY) have no signers; fall back to the provider
+  const [signer] = await ethers.getSigners();
+  return VouchClient.connect(contractAddress, signer ?? ethers.provider, {
+    startBlock: startBlock(contractAddress),
+    logs: logFetchOptions(),
+  });
+}
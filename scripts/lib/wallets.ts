@@ -0,0 +1,123 @@
+import { ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { HDNodeWallet, Wallet } from "ethers";
+import {
+  WalletSetManifest,
+  createWalletSet,
+  nextMnemonicIndex,
+  readWalletSet,
+  seededWallets,
+  unlockWalletSet,
+  walletSetDir,
+} from "../../sdk/node";
+import { isLocalNetwork } from "./ignition";
+
+/**
+ * Hardhat glue for the wallet sets in wallets/<network>/ (gitignored):
+ * passwords come from KEYSTORE_PASSWORD or a terminal prompt, mnemonics
+ * from MNEMONIC.
+ */
+
+export const WALLETS_DIR = path.join(__dirname, "..", "..", "wallets");
+
+// WALLETS_DIR moves the whole tree (tests use a temporary directory)
+export function networkWalletsDir(networkName = network.name): string {
+  return path.join(process.env.WALLETS_DIR || WALLETS_DIR, networkName);
+}
+
+export async function walletPassword(question = "Wallet password: "): Promise<string> {
+  return process.env.KEYSTORE_PASSWORD ?? (await readPassword(question));
+}
+
+// Reads a line from the terminal without echoing it: raw mode, one keypress at a time
+export function readPassword(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error("Set KEYSTORE_PASSWORD to unlock a keystore without a terminal"));
+  }
+  process.stdout.write(question);
+  readline.emitKeypressEvents(stdin);
+  stdin.setRawMode(true);
+  stdin.resume();
+  return new Promise((resolve, reject) => {
+    let answer = "";
+    const done = (error?: Error) => {
+      stdin.off("keypress", onKeypress);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\n");
+      if (error) reject(error);
+      else resolve(answer);
+    };
+    const onKeypress = (text: string | undefined, key: readline.Key | undefined) => {
+      if (key?.ctrl && (key.name === "c" || key.name === "d")) done(new Error("Password prompt cancelled"));
+      else if (key?.name === "return" || key?.name === "enter") done();
+      else if (key?.name === "backspace") answer = answer.slice(0, -1);
+      else if (text && !key?.ctrl && !key?.meta) answer += text;
+    };
+    stdin.on("keypress", onKeypress);
+  });
+}
+
+// Unlocks a wallet set of --network, asking for what it needs
+export async function openWalletSet(name: string): Promise<{ manifest: WalletSetManifest; wallets: (Wallet | HDNodeWallet)[] }> {
+  const dir = networkWalletsDir();
+  const manifest = readWalletSet(dir, name);
+  const needsPassword = manifest.kind === "keystore" || manifest.mnemonic === "keystore";
+  const wallets = await unlockWalletSet(
+    dir,
+    manifest,
+    {
+      mnemonic: process.env.MNEMONIC,
+      password: needsPassword ? await walletPassword(`Password for wallet set ${name}: `) : undefined,
+    },
+    ethers.provider
+  );
+  return { manifest, wallets };
+}
+
+/**
+ * The generated wallets a script works with. On local networks they are
+ * throwaway wallets, since the chain does not outlive the node; with a
+ * `seed` they are derived from it, so a run can be repeated. Elsewhere
+ * they are the wallet set `name`, created on first use and unlocked on the
+ * next runs, so funded wallets can be reused and swept
+ * (`npx hardhat syb wallets sweep --name <name>`). New sets are derived from
+ * MNEMONIC when it is set, and from a fresh mnemonic encrypted with
+ * KEYSTORE_PASSWORD (or a prompted password) otherwise.
+ */
+export async function scriptWallets(
+  name: string,
+  count: number,
+  seed?: number
+): Promise<{ wallets: (Wallet | HDNodeWallet)[]; set: WalletSetManifest | null; created: boolean }> {
+  if (isLocalNetwork()) {
+    const wallets =
+      seed === undefined
+        ? Array.from({ length: count }, () => Wallet.createRandom().connect(ethers.provider))
+        : seededWallets(seed, count).map((w) => w.connect(ethers.provider));
+    return { wallets, set: null, created: false };
+  }
+
+  const dir = networkWalletsDir();
+  if (fs.existsSync(path.join(walletSetDir(dir, name), "manifest.json"))) {
+    const { manifest, wallets } = await openWalletSet(name);
+    if (wallets.length < count) {
+      throw new Error(`Wallet set "${name}" has ${wallets.length} wallets, ${count} needed; pick another WALLET_SET`);
+    }
+    return { wallets: wallets.slice(0, count), set: manifest, created: false };
+  }
+
+  const mnemonic = process.env.MNEMONIC;
+  const { manifest, wallets } = await createWalletSet(dir, name, {
+    kind: "hd",
+    count,
+    network: network.name,
+    mnemonic,
+    firstIndex: mnemonic ? nextMnemonicIndex(dir) : undefined,
+    password: mnemonic ? undefined : await walletPassword(`New password for wallet set ${name}: `),
+  });
+  return { wallets: wallets.map((w) => w.connect(ethers.provider)), set: manifest, created: true };
+}
@@ -1,76 +1,62 @@
-import { ethers } from "hardhat";
+import * as path from "path";
+import { HistoryPoint, Node, addressesFromEvents, eventsNamed, writeGraphExport } from "../sdk/node";
+import { assembleIndexedGraph, indexedGraphDocument, loadHistory, syncIndexer } from "./lib/indexer";
+import { getVouchClient, requireContractAddress } from "./lib/vouch-client";
 
 /**
  * Query and display the VouchMinimal network graph
  * This script demonstrates how to build zoom-out and zoom-in views
  */
 
-// Type guard for EventLog
-function isEventLog(event: any): event is { args: any; blockNumber: number; transactionHash: string } {
-  return event && typeof event === 'object' && 'args' in event;
-}
-
-interface NodeData {
-  address: string;
-  rank: string;
-  score: string;
-  inCount: number;
-  outCount: number;
-  inNeighbors: string[];
-  outNeighbors: string[];
-  isSeed?: boolean;
-}
-
-interface VouchEvent {
-  from: string;
-  to: string;
-  timestamp: number;
-  rankTo: string;
-  scoreFrom: string;
-  scoreTo: string;
-  blockNumber: number;
-  txHash: string;
+// AT_BLOCK (a block number) or AT_DATE (anything Date understands) for STEP 6
+function historyPointFromEnv(): HistoryPoint | null {
+  const { AT_BLOCK, AT_DATE } = process.env;
+  if (AT_BLOCK && AT_DATE) {
+    console.error("❌ Set either AT_BLOCK or AT_DATE, not both");
+    process.exit(1);
+  }
+  if (AT_BLOCK) {
+    if (!/^\d+$/.test(AT_BLOCK)) {
+      console.error(`❌ AT_BLOCK is not a block number: ${AT_BLOCK}`);
+      process.exit(1);
+    }
+    return { block: Number(AT_BLOCK) };
+  }
+  if (!AT_DATE) return null;
+  const date = new Date(AT_DATE);
+  if (Number.isNaN(date.getTime())) {
+    console.error(`❌ AT_DATE is not a date: ${AT_DATE} (try 2025-06-01 or 2025-06-01T12:00:00Z)`);
+    process.exit(1);
+  }
+  return { date };
 }
 
 async function main() {
-  const contractAddress = process.env.CONTRACT_ADDRESS;
-
-  if (!contractAddress) {
-    console.error("❌ Please provide CONTRACT_ADDRESS environment variable");
-    console.log("Usage: CONTRACT_ADDRESS=0x... npx hardhat run scripts/query-network.ts --network <network>");
-    process.exit(1);
-  }
+  const contractAddress = requireContractAddress("query-network.ts");
+  // checked before any querying, so a typo fails fast
+  const at = historyPointFromEnv();
 
   console.log("🔍 Querying VouchMinimal Network...");
   console.log("Contract:", contractAddress);
   console.log("");
 
-  const VouchMinimal = await ethers.getContractFactory("VouchMinimal");
-  const vouchMinimal = VouchMinimal.attach(contractAddress);
+  const client = await getVouchClient(contractAddress);
 
   // ============================================
   // STEP 1: Get All Network Events (Zoom-Out Data)
   // ============================================
   console.log("📊 Fetching all vouching events...");
   
-  const vouchFilter = vouchMinimal.filters.VouchCreated();
-  const vouchEvents = await vouchMinimal.queryFilter(vouchFilter, 0, "latest");
-  
-  const bootstrapFilter = vouchMinimal.filters.BootstrapVouchCreated();
-  const bootstrapEvents = await vouchMinimal.queryFilter(bootstrapFilter, 0, "latest");
+  // Events come from the local index, which rolls back reorganized blocks
+  const indexer = await syncIndexer(contractAddress);
+  const vouchEvents = eventsNamed(indexer.events, "VouchCreated");
+  // Created and removed vouches with their block timestamps
+  const history = await loadHistory(indexer);
+  const timeline = history.timeline();
+  const removed = timeline.filter((entry) => entry.action === "unvouch").length;
   
-  const seeds: string[] = [];
-  // Extract seed addresses from bootstrap events (first 4 vouches)
-  for (const event of bootstrapEvents) {
-    if (isEventLog(event) && event.args) {
-      if (event.args.from && !seeds.includes(event.args.from)) {
-        seeds.push(event.args.from);
-      }
-      if (event.args.to && !seeds.includes(event.args.to)) {
-        seeds.push(event.args.to);
-      }
-    }
-  }
+  // Extract seed addresses from bootstrap events
+  const seeds = [...indexer.state.seeds];
   
   console.log(`✅ Found ${vouchEvents.length} vouches`);
   console.log(`✅ Found ${seeds.length} seed accounts from bootstrap phase`);
@@ -79,66 +65,34 @@ async function main() {
   // ============================================
   // Build Network Graph
   // ============================================
-  const allAddresses = new Set<string>();
-  const vouches: VouchEvent[] = [];
-
-  for (const event of vouchEvents) {
-    if (isEventLog(event) && event.args) {
-      const from = event.args.from;
-      const to = event.args.to;
-      const rankTo = event.args.toRank;
-      const scoreFrom = event.args.fromScore;
-      const scoreTo = event.args.toScore;
-
-      allAddresses.add(from);
-      allAddresses.add(to);
-
-      vouches.push({
-        from,
-        to,
-        timestamp: event.blockNumber ? 0 : 0, // Use block number as proxy if timestamp not available
-        rankTo: rankTo.toString(),
-        scoreFrom: scoreFrom.toString(),
-        scoreTo: scoreTo.toString(),
-        blockNumber: event.blockNumber,
-        txHash: event.transactionHash,
-      });
-    }
-  }
-
-  console.log("🌐 Network Overview:");
-  console.log("========================");
-  console.log(`Total Addresses: ${allAddresses.size}`);
-  console.log(`Total Vouches: ${vouches.length}`);
-  console.log(`Seed Accounts: ${seeds.length}`);
-  console.log("");
+  const allAddresses = addressesFromEvents(vouchEvents);
 
   // ============================================
   // STEP 2: Get Detailed Node Information
   // ============================================
   console.log("👥 Fetching detailed node information...");
   
-  const nodes: Map<string, NodeData> = new Map();
-
-  for (const address of allAddresses) {
-    const nodeInfo = await vouchMinimal.getNodeInfo(address);
-    const connections = await vouchMinimal.getConnections(address);
-
-    nodes.set(address, {
-      address,
-      rank: nodeInfo.rank.toString(),
-      score: nodeInfo.score.toString(),
-      inCount: Number(nodeInfo.inCount),
-      outCount: Number(nodeInfo.outCount),
-      inNeighbors: connections.inNeighbors,
-      outNeighbors: connections.outNeighbors,
-      isSeed: seeds.includes(address),
-    });
+  // Live edges replayed from created and removed vouches, checked against outNeighbors
+  const graph = await assembleIndexedGraph(client, indexer);
+  const nodes = new Map<string, Node>();
+  for (const node of graph.nodes) {
+    nodes.set(node.address, node);
   }
 
   console.log("✅ Loaded data for all nodes");
   console.log("");
 
+  console.log("🌐 Network Overview:");
+  console.log("========================");
+  console.log(`Total Addresses: ${allAddresses.length}`);
+  console.log(`Live Vouches: ${graph.edges.length}`);
+  console.log(`Removed Vouches: ${removed}`);
+  console.log(`Seed Accounts: ${seeds.length}`);
+  if (graph.mismatches.length > 0) {
+    console.log(`⚠️  Edges differing between events and getOutNeighbors: ${graph.mismatches.length}`);
+  }
+  console.log("");
+
   // ============================================
   // STEP 3: Display Network Statistics
   // ============================================
@@ -147,7 +101,7 @@ async function main() {
 
   // Top nodes by score
   const sortedByScore = Array.from(nodes.values())
-    .sort((a, b) => BigInt(b.score) > BigInt(a.score) ? 1 : -1)
+    .sort((a, b) => b.score > a.score ? 1 : -1)
     .slice(0, 10);
 
   console.log("\n🏆 Top 10 Nodes by Score:");
@@ -159,7 +113,7 @@ async function main() {
 
   // Top nodes by rank (lower is better)
   const sortedByRank = Array.from(nodes.values())
-    .sort((a, b) => BigInt(a.rank) > BigInt(b.rank) ? 1 : -1)
+    .sort((a, b) => a.rank > b.rank ? 1 : -1)
     .slice(0, 10);
 
   console.log("\n🎖️ Top 10 Nodes by Rank (Lower = Better):");
@@ -172,20 +126,20 @@ async function main() {
   // ============================================
   // STEP 4: Timeline of Network Growth
   // ============================================
-  console.log("\n⏰ Network Growth Timeline (First 10 vouches):");
+  console.log("\n⏰ Network Growth Timeline (First 10 vouches and unvouches):");
   console.log("========================");
 
-  vouches.slice(0, 10).forEach((vouch, i) => {
-    const date = new Date(vouch.timestamp * 1000);
-    console.log(`${i + 1}. ${date.toISOString()}`);
-    console.log(`   ${vouch.from.substring(0, 8)}... → ${vouch.to.substring(0, 8)}...`);
-    console.log(`   Block: ${vouch.blockNumber}, Tx: ${vouch.txHash.substring(0, 10)}...`);
+  timeline.slice(0, 10).forEach((entry, i) => {
+    const date = new Date(entry.timestamp * 1000);
+    console.log(`${i + 1}. ${date.toISOString()} ${entry.action === "vouch" ? "➕" : "➖"} ${entry.action}`);
+    console.log(`   ${entry.from.substring(0, 8)}... → ${entry.to.substring(0, 8)}...`);
+    console.log(`   Block: ${entry.blockNumber}, Tx: ${entry.txHash.substring(0, 10)}...`);
   });
 
   // ============================================
   // STEP 5: Zoom-In Example (Specific Address)
   // ============================================
-  const focusAddress = process.env.FOCUS_ADDRESS || Array.from(allAddresses)[0];
+  const focusAddress = process.env.FOCUS_ADDRESS?.toLowerCase() || allAddresses[0];
   
   if (focusAddress && nodes.has(focusAddress)) {
     console.log("\n🔍 Zoom-In View:");
@@ -219,37 +173,40 @@ async function main() {
   }
 
   // ============================================
-  // STEP 6: Export Data for Visualization
+  // STEP 6: Time Travel (AT_BLOCK or AT_DATE)
+  // ============================================
+  if (at && focusAddress) {
+    const then = history.nodeAt(focusAddress, at);
+    const past = history.graphAt(at).graph;
+    console.log(`\n🕰️  At ${"block" in at ? `block ${at.block}` : at.date.toISOString()}:`);
+    console.log("========================");
+    console.log(`Network: ${past.nodes.length} nodes, ${past.edges.length} vouches`);
+    if (then.timestamp !== null) {
+      console.log(`Last change before: block ${then.blockNumber} (${new Date(then.timestamp * 1000).toISOString()})`);
+    }
+    if (then.node) {
+      console.log(`Rank: ${then.node.rank}, Score: ${then.node.score}`);
+      console.log(`Incoming: ${then.inNeighbors.map((n) => `${n.address} (rank ${n.rank})`).join(", ") || "none"}`);
+      console.log(`Outgoing: ${then.outNeighbors.map((n) => `${n.address} (rank ${n.rank})`).join(", ") || "none"}`);
+    } else {
+      console.log(`${focusAddress} had not joined the network yet`);
+    }
+  }
+
+  // ============================================
+  // STEP 7: Export Data for Visualization
   // ============================================
   console.log("\n💾 Exporting data for visualization...");
   
-  const graphData = {
-    metadata: {
-      contractAddress,
-      totalNodes: allAddresses.size,
-      totalEdges: vouches.length,
-      seedCount: seeds.length,
-      exportedAt: new Date().toISOString(),
-    },
-    nodes: Array.from(nodes.values()),
-    edges: vouches.map(v => ({
-      source: v.from,
-      target: v.to,
-      timestamp: v.timestamp,
-    })),
-    seeds: seeds,
-    timeline: vouches,
-  };
-
-  // Save to file
-  const fs = require("fs");
-  const outputPath = `./network-graph-${Date.now()}.json`;
-  fs.writeFileSync(outputPath, JSON.stringify(graphData, null, 2));
+  // The same versioned document as fetch-network-data.ts, in exports/ rather than the working directory
+  const document = await indexedGraphDocument(indexer, graph);
+  const outputPath = path.join(__dirname, "..", "exports", `network-graph-${Date.now()}.json`);
+  writeGraphExport(document, "json", outputPath);
   
-  console.log(`✅ Graph data exported to: ${outputPath}`);
+  console.log(`✅ Graph data exported to: ${path.relative(process.cwd(), outputPath)}`);
   console.log("");
   console.log("📊 You can now:");
-  console.log("1. Import this JSON into D3.js, Cytoscape.js, or other graph visualization tools");
+  console.log("1. Import this JSON into D3.js, or export GraphML / GEXF / CSV with `syb export --format`");
   console.log("2. Use it to build interactive network explorer");
   console.log("3. Create timeline animations");
   console.log("");
@@ -0,0 +1,59 @@
+import { network } from "hardhat";
+import * as path from "path";
+import { GraphApi, apiUrl } from "../sdk/node";
+import { createIndexer, indexFilePath, logReorg } from "./lib/indexer";
+import { getVouchClient, requireContractAddress } from "./lib/vouch-client";
+
+/**
+ * Local Query API
+ *
+ * Serves the event index (the same one index-network.ts keeps under
+ * indexes/) as read-only JSON over HTTP: nodes, paginated neighbors, k-hop
+ * neighborhoods, leaderboards, per-address event history and network
+ * metadata. The index is synced at most every SYNC_INTERVAL_MS (default
+ * 5000) before answering. PORT (default 4000) and HOST (default 127.0.0.1)
+ * pick where it listens.
+ */
+
+async function main() {
+  const contractAddress = requireContractAddress("serve-network.ts");
+  const port = Number(process.env.PORT || 4000);
+  const host = process.env.HOST || "127.0.0.1";
+
+  console.log("🛰️  VouchMinimal Query API");
+  console.log("================================\n");
+  console.log(`📡 Network: ${network.name}`);
+  console.log(`📍 Contract: ${contractAddress}`);
+  console.log(`💾 Store: ${path.relative(process.cwd(), indexFilePath(contractAddress))}\n`);
+
+  const client = await getVouchClient(contractAddress);
+  const indexer = await createIndexer(contractAddress);
+  const result = await indexer.sync();
+  logReorg(result);
+  console.log(`✅ Indexed through block ${result.toBlock} (${Object.keys(indexer.state.nodes).length} nodes, ${indexer.state.edgeCount} edges)\n`);
+
+  const api = new GraphApi(indexer, {
+    constants: await client.getConstants(),
+    syncIntervalMs: Number(process.env.SYNC_INTERVAL_MS || 5000),
+    onRequest: (method, url, status) => console.log(`${status} ${method} ${url}`),
+  });
+  const server = await api.listen(port, host);
+  const url = apiUrl(server);
+  console.log(`🌐 Listening on ${url} (Ctrl+C to stop)`);
+  console.log(`   try: curl ${url}/network\n`);
+
+  await new Promise<void>((resolve) => {
+    process.on("SIGINT", () => {
+      console.log("\n🛑 Stopping API...");
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  });
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
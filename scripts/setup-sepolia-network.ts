@@ -1,10 +1,14 @@
 import { ethers } from "hardhat";
+import { VouchOperation, executePlan } from "../sdk";
+import { getVouchClient, requireContractAddress } from "./lib/vouch-client";
+import { scriptWallets } from "./lib/wallets";
 
 /**
  * Sepolia Network Setup Script
  * 
  * This script:
- * 1. Creates new wallets
+ * 1. Creates new wallets (the encrypted wallet set WALLET_SET, default
+ *    "sepolia-setup"; reused on later runs)
  * 2. Shows funding instructions
  * 3. Creates vouches between wallets to bootstrap the network
  * 4. Displays the network graph
@@ -12,7 +16,6 @@ import { ethers } from "hardhat";
 
 interface WalletInfo {
   address: string;
-  privateKey: string;
   balance: string;
 }
 
@@ -20,14 +23,8 @@ async function main() {
   console.log("🚀 Sepolia Network Setup Script");
   console.log("================================\n");
 
-  // Get contract address from environment
-  const contractAddress = process.env.CONTRACT_ADDRESS;
-  
-  if (!contractAddress) {
-    console.error("❌ Please provide CONTRACT_ADDRESS environment variable");
-    console.log("Usage: CONTRACT_ADDRESS=0x... npx hardhat run scripts/setup-sepolia-network.ts --network sepolia");
-    process.exit(1);
-  }
+  // Get contract address from the deployment registry (or CONTRACT_ADDRESS)
+  const contractAddress = requireContractAddress("setup-sepolia-network.ts", "sepolia");
 
   const network = await ethers.provider.getNetwork();
   console.log(`📡 Network: ${network.name}`);
@@ -44,25 +41,22 @@ async function main() {
   // ============================================
   // STEP 1: Create New Wallets
   // ============================================
-  console.log("🔑 Creating 5 new wallets...\n");
-  
+  const walletSet = process.env.WALLET_SET || "sepolia-setup";
+  console.log(`🔑 Loading wallet set "${walletSet}" (5 wallets)...\n`);
+
+  // Kept encrypted under wallets/<network>/, never printed
+  const { wallets: connectedWallets, set, created } = await scriptWallets(walletSet, 5);
   const wallets: WalletInfo[] = [];
-  for (let i = 0; i < 5; i++) {
-    const wallet = ethers.Wallet.createRandom();
+  for (const [i, wallet] of connectedWallets.entries()) {
     const balance = await ethers.provider.getBalance(wallet.address);
-    
-    wallets.push({
-      address: wallet.address,
-      privateKey: wallet.privateKey,
-      balance: ethers.formatEther(balance),
-    });
-    
+    wallets.push({ address: wallet.address, balance: ethers.formatEther(balance) });
+
     console.log(`Wallet ${i + 1}:`);
     console.log(`   Address: ${wallet.address}`);
-    console.log(`   Private Key: ${wallet.privateKey}`);
     console.log(`   Current Balance: ${ethers.formatEther(balance)} ETH`);
     console.log("");
   }
+  if (set) console.log(`${created ? "🆕 Created" : "🔓 Unlocked"} wallet set "${set.name}"\n`);
 
   // ============================================
   // STEP 2: Funding Instructions
@@ -79,19 +73,21 @@ async function main() {
     
     console.log("2. Or send ETH from deployer:");
     const totalNeeded = ethers.parseEther("0.01"); // 0.01 ETH per wallet
-    const totalNeededForAll = totalNeeded * BigInt(wallets.length);
+    // Wallets reused from an earlier run may already be funded
+    const unfunded = wallets.filter((w) => ethers.parseEther(w.balance) < totalNeeded);
+    const totalNeededForAll = totalNeeded * BigInt(unfunded.length);
     
     if (deployerBalance >= totalNeededForAll) {
       console.log(`   Deployer has enough balance to fund all wallets (${ethers.formatEther(totalNeededForAll)} ETH needed)`);
       console.log("\n   Funding wallets now...\n");
       
       // Fund each wallet
-      for (let i = 0; i < wallets.length; i++) {
+      for (const wallet of unfunded) {
         const tx = await deployer.sendTransaction({
-          to: wallets[i].address,
+          to: wallet.address,
           value: totalNeeded,
         });
-        console.log(`   Funding wallet ${i + 1}... tx: ${tx.hash}`);
+        console.log(`   Funding wallet ${wallets.indexOf(wallet) + 1}... tx: ${tx.hash}`);
         await tx.wait();
       }
       console.log("\n✅ All wallets funded!\n");
@@ -109,26 +105,21 @@ async function main() {
   // ============================================
   console.log("📝 Connecting to VouchMinimal contract...\n");
   
-  const VouchMinimal = await ethers.getContractFactory("VouchMinimal");
-  const vouchMinimal = VouchMinimal.attach(contractAddress);
+  const client = await getVouchClient(contractAddress);
 
   // Display contract constants
+  const constants = await client.getConstants();
   console.log("📊 Contract Constants:");
-  console.log(`   DEFAULT_RANK: ${(await vouchMinimal.DEFAULT_RANK()).toString()}`);
-  console.log(`   R: ${(await vouchMinimal.R()).toString()}`);
-  console.log(`   BONUS_OUT: ${(await vouchMinimal.BONUS_OUT()).toString()}`);
-  console.log(`   BONUS_CAP: ${(await vouchMinimal.BONUS_CAP()).toString()}\n`);
+  console.log(`   DEFAULT_RANK: ${constants.defaultRank}`);
+  console.log(`   R: ${constants.r}`);
+  console.log(`   BONUS_OUT: ${constants.bonusOut}`);
+  console.log(`   BONUS_CAP: ${constants.bonusCap}\n`);
 
   // ============================================
   // STEP 4: Create Vouches (Bootstrap Network)
   // ============================================
   console.log("🔗 Creating vouches to bootstrap the network...\n");
   
-  // Connect wallets to provider
-  const connectedWallets = wallets.map(w => 
-    new ethers.Wallet(w.privateKey, ethers.provider)
-  );
-
   // Create vouches in a chain pattern: wallet0 -> wallet1 -> wallet2 -> wallet3 -> wallet4
   // Also create some cross-vouches for a richer network
   const vouchPattern = [
@@ -146,51 +137,41 @@ async function main() {
   });
   console.log("");
 
-  // Check if wallets have balance before creating vouches
-  let vouchesCreated = 0;
+  // Senders without gas money are left out of the plan
+  const plan: VouchOperation[] = [];
   let vouchesFailed = 0;
-
   for (const vouch of vouchPattern) {
     const fromWallet = connectedWallets[vouch.from];
-    const toAddress = wallets[vouch.to].address;
-    
     const balance = await ethers.provider.getBalance(fromWallet.address);
-    
     if (balance < ethers.parseEther("0.0001")) {
       console.log(`⚠️  Skipping vouch ${vouch.from} → ${vouch.to} (insufficient balance)`);
       vouchesFailed++;
       continue;
     }
-
-    try {
-      const contractWithSigner = vouchMinimal.connect(fromWallet);
-      console.log(`Creating vouch: Wallet ${vouch.from} → Wallet ${vouch.to}...`);
-      
-      const tx = await contractWithSigner.vouch(toAddress);
-      console.log(`   Transaction: ${tx.hash}`);
-      
-      const receipt = await tx.wait();
-      console.log(`   ✅ Success! Gas used: ${receipt?.gasUsed.toString()}`);
-      
-      // Get updated ranks
-      const fromRank = await vouchMinimal.getRank(fromWallet.address);
-      const toRank = await vouchMinimal.getRank(toAddress);
-      
-      console.log(`   From rank: ${fromRank.toString()}, To rank: ${toRank.toString()}\n`);
-      
-      vouchesCreated++;
-      
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    } catch (error: any) {
-      console.log(`   ❌ Failed: ${error.message}`);
-      vouchesFailed++;
-    }
+    plan.push({ action: "vouch", from: fromWallet.address, to: wallets[vouch.to].address });
   }
 
+  // One queue per wallet, all wallets at once
+  const walletIndex = (address: string) => wallets.findIndex((w) => w.address.toLowerCase() === address);
+  const report = await executePlan(client, plan, {
+    signers: connectedWallets,
+    onResult: (result) => {
+      const label = `Wallet ${walletIndex(result.from)} → Wallet ${walletIndex(result.to)}`;
+      if (result.status === "confirmed") {
+        console.log(`   ✅ ${label}: gas used ${result.gasUsed} (${result.txHash})`);
+      } else if (result.status === "skipped") {
+        console.log(`   ⏭️  ${label}: already present`);
+      } else {
+        console.log(`   ❌ ${label}: ${result.reason}`);
+      }
+    },
+  });
+
   console.log(`\n📊 Summary:`);
-  console.log(`   ✅ Vouches created: ${vouchesCreated}`);
-  console.log(`   ❌ Vouches failed: ${vouchesFailed}\n`);
+  console.log(`   ✅ Vouches created: ${report.confirmed}`);
+  console.log(`   ⏭️  Vouches already present: ${report.skipped}`);
+  console.log(`   ❌ Vouches failed: ${vouchesFailed + report.reverted}`);
+  console.log(`   ⛽ Gas used: ${report.gasUsed}\n`);
 
   // ============================================
   // STEP 5: Display Network Graph
@@ -202,24 +183,23 @@ async function main() {
     const address = wallets[i].address;
     
     try {
-      const nodeInfo = await vouchMinimal.getNodeInfo(address);
-      const connections = await vouchMinimal.getConnections(address);
+      const node = await client.getNodeInfo(address);
       
       console.log(`Wallet ${i} (${address.substring(0, 10)}...):`);
-      console.log(`   Rank: ${nodeInfo.rank.toString()}`);
-      console.log(`   Score: ${nodeInfo.score.toString()}`);
-      console.log(`   Incoming vouches: ${nodeInfo.inCount}`);
-      console.log(`   Outgoing vouches: ${nodeInfo.outCount}`);
+      console.log(`   Rank: ${node.rank}`);
+      console.log(`   Score: ${node.score}`);
+      console.log(`   Incoming vouches: ${node.inCount}`);
+      console.log(`   Outgoing vouches: ${node.outCount}`);
       
-      if (connections.inNeighbors.length > 0) {
-        console.log(`   Vouched by: ${connections.inNeighbors.map((addr: string) => {
+      if (node.inNeighbors.length > 0) {
+        console.log(`   Vouched by: ${node.inNeighbors.map((addr) => {
           const idx = wallets.findIndex(w => w.address.toLowerCase() === addr.toLowerCase());
           return idx >= 0 ? `Wallet ${idx}` : addr.substring(0, 8);
         }).join(", ")}`);
       }
       
-      if (connections.outNeighbors.length > 0) {
-        console.log(`   Vouches for: ${connections.outNeighbors.map((addr: string) => {
+      if (node.outNeighbors.length > 0) {
+        console.log(`   Vouches for: ${node.outNeighbors.map((addr) => {
           const idx = wallets.findIndex(w => w.address.toLowerCase() === addr.toLowerCase());
           return idx >= 0 ? `Wallet ${idx}` : addr.substring(0, 8);
         }).join(", ")}`);
@@ -232,35 +212,30 @@ async function main() {
   }
 
   // ============================================
-  // STEP 6: Export Wallet Info (to console only, not file)
+  // STEP 6: Wallet Set
   // ============================================
   console.log("💾 Wallet Information:");
   console.log("================================\n");
-  console.log("⚠️  SECURITY WARNING: Private keys are shown below. Copy them securely and DO NOT commit to git!\n");
-  
-  const walletExport = wallets.map((w, i) => ({
-    id: i,
-    address: w.address,
-    privateKey: w.privateKey,
-  }));
-
-  console.log(JSON.stringify(walletExport, null, 2));
-  console.log("\n⚠️  SECURITY REMINDER:");
-  console.log("   - Never commit private keys to git");
-  console.log("   - Store keys securely (password manager, encrypted storage)");
-  console.log("   - If these wallets have funds, consider moving them immediately");
-  console.log("   - This file was NOT saved to disk for security\n");
+  if (set) {
+    const source = set.mnemonic === "env" ? "derived from MNEMONIC" : "encrypted mnemonic (KEYSTORE_PASSWORD)";
+    console.log(`Wallet set "${set.name}" is saved in wallets/${set.network}/${set.name}/ (${source}).`);
+    console.log("Private keys are not printed; the sets directory is gitignored.\n");
+  } else {
+    console.log("Local network: the wallets were throwaway and are not saved.\n");
+  }
 
   // ============================================
   // STEP 7: Next Steps
   // ============================================
   console.log("📋 Next Steps:");
   console.log("================================\n");
-  console.log("1. Save the wallet information above");
+  console.log("1. Check the wallets' balances and roles, and sweep their ETH back when done:");
+  console.log(`   npx hardhat syb wallets list --name ${walletSet} --network sepolia`);
+  console.log(`   npx hardhat syb wallets sweep --name ${walletSet} --network sepolia`);
   console.log("2. Continue creating vouches:");
-  console.log(`   CONTRACT_ADDRESS=${contractAddress} npx hardhat run scripts/interact-vouchminimal.ts --network sepolia`);
+  console.log(`   npx hardhat run scripts/interact-vouchminimal.ts --network sepolia`);
   console.log("\n3. Query the full network:");
-  console.log(`   CONTRACT_ADDRESS=${contractAddress} npm run query:network -- --network sepolia`);
+  console.log(`   npm run query:network -- --network sepolia`);
   console.log("\n4. Create more vouches using:");
   console.log("   - The interact-vouchminimal.ts script");
   console.log("   - Your frontend application");
@@ -1,43 +1,75 @@
-import { ethers } from "hardhat";
+import { ethers, network as hardhatNetwork } from "hardhat";
+import * as path from "path";
+import {
+  InvariantViolation,
+  Prng,
+  RunLog,
+  RunLogEntry,
+  VouchModel,
+  checkInvariants,
+  decodeRevertReason,
+  randomSeed,
+  readInvariantSnapshot,
+  readRunLog,
+  separateStale,
+} from "../sdk/node";
+import { isLocalNetwork } from "./lib/ignition";
+import { getVouchClient, requireContractAddress } from "./lib/vouch-client";
+import { scriptWallets } from "./lib/wallets";
 
 /**
  * Comprehensive Vouch Network Test Script
  * 
  * This script:
- * 1. Creates 50 wallets
+ * 1. Creates 50 wallets (or unlocks them: on live networks they are kept as
+ *    the encrypted wallet set WALLET_SET, default "test-network")
  * 2. Funds them (if deployer has balance)
  * 3. Creates vouches in multiple patterns
  * 4. Tests unvouching
  * 5. Performs multiple rounds of vouch/unvouch operations
  * 6. Displays network statistics
+ *
+ * Every random choice comes from a seeded PRNG (TEST_SEED, random when
+ * unset), and on local networks the wallets are derived from the same seed.
+ * Each attempted operation is written to logs/test-vouch-network-<network>-<seed>.jsonl.
+ * TEST_REPLAY=<log> replays a logged run operation by operation, on a fresh
+ * local node, and reports where the outcomes differ from the log.
+ *
+ * After the chain, the random vouches and every round, the wallets' nodes are
+ * checked against the contract's invariants (edge arrays vs. hasEdge,
+ * outdegree, rank and score formulas). Ranks and scores that only miss the
+ * formula because the contract does not propagate updates downstream are
+ * reported as stale; with STRICT_INVARIANTS=1 they fail the run too. The
+ * script exits non-zero on any violation or failed operation, so it can be
+ * used as a regression gate.
  */
 
+const LOGS_DIR = path.join(__dirname, "..", "logs");
+
 interface WalletInfo {
   address: string;
-  privateKey: string;
   balance: string;
 }
 
 interface TestStats {
+  seed: number;
   totalWallets: number;
   vouchesCreated: number;
   vouchesRemoved: number;
   roundsCompleted: number;
   errors: number;
+  invariantChecks: number;
+  invariantViolations: number;
+  staleValues: number;
+  logFile: string;
 }
 
-async function main() {
+async function main(): Promise<number> {
   console.log("🧪 VouchMinimal Network Test Script");
   console.log("====================================\n");
 
-  // Get contract address from environment
-  const contractAddress = process.env.CONTRACT_ADDRESS;
-  
-  if (!contractAddress) {
-    console.error("❌ Please provide CONTRACT_ADDRESS environment variable");
-    console.log("Usage: CONTRACT_ADDRESS=0x... npx hardhat run scripts/test-vouch-network.ts --network <network>");
-    process.exit(1);
-  }
+  // Get contract address from the deployment registry (or CONTRACT_ADDRESS)
+  const contractAddress = requireContractAddress("test-vouch-network.ts");
 
   const network = await ethers.provider.getNetwork();
   console.log(`📡 Network: ${network.name}`);
@@ -51,27 +83,38 @@ async function main() {
   console.log(`   Balance: ${ethers.formatEther(deployerBalance)} ETH\n`);
 
   // Connect to contract
-  const VouchMinimal = await ethers.getContractFactory("VouchMinimal");
-  const contract = VouchMinimal.attach(contractAddress) as any;
+  const client = await getVouchClient(contractAddress);
+
+  // Seed: from the replayed log, TEST_SEED, or a fresh one
+  const replayFile = process.env.TEST_REPLAY;
+  const replay = replayFile ? readRunLog(replayFile) : null;
+  if (replay && !isLocalNetwork()) {
+    throw new Error("TEST_REPLAY only runs on a local network (--network localhost or hardhat)");
+  }
+  const seed = replay ? replay.header.seed : process.env.TEST_SEED ? Number(process.env.TEST_SEED) >>> 0 : randomSeed();
+  const rng = new Prng(seed);
+  console.log(`🎲 Seed: ${seed}${replay ? ` (replaying ${replayFile}, ${replay.entries.length} operations)` : ""}\n`);
 
   // ============================================
   // STEP 1: Create 50 Wallets
   // ============================================
-  console.log("🔑 Creating 50 wallets...\n");
-  
+  const walletSet = process.env.WALLET_SET || "test-network";
+  const walletCount = replay ? replay.header.actors.length : 50;
+  console.log(`🔑 Loading ${walletCount} wallets...\n`);
+
+  // Kept as an encrypted wallet set on live networks, so funded wallets can be reused and swept
+  const { wallets: connectedWallets, set, created } = await scriptWallets(walletSet, walletCount, seed);
   const wallets: WalletInfo[] = [];
-  for (let i = 0; i < 50; i++) {
-    const wallet = ethers.Wallet.createRandom();
+  for (const wallet of connectedWallets) {
     const balance = await ethers.provider.getBalance(wallet.address);
-    
-    wallets.push({
-      address: wallet.address,
-      privateKey: wallet.privateKey,
-      balance: ethers.formatEther(balance),
-    });
+    wallets.push({ address: wallet.address, balance: ethers.formatEther(balance) });
+  }
+
+  if (set) {
+    console.log(`✅ ${created ? "Created" : "Unlocked"} wallet set "${set.name}" (${wallets.length} wallets)\n`);
+  } else {
+    console.log(`✅ Derived ${wallets.length} throwaway wallets from the seed\n`);
   }
-  
-  console.log(`✅ Created ${wallets.length} wallets\n`);
 
   // ============================================
   // STEP 2: Fund Wallets
@@ -79,18 +122,27 @@ async function main() {
   console.log("💰 Funding wallets...\n");
   
   const fundingAmount = ethers.parseEther("0.01"); // 0.01 ETH per wallet
-  const totalNeeded = fundingAmount * BigInt(wallets.length);
+  // Wallets reused from an earlier run are only topped up
+  const shortfalls = wallets.map((w) => {
+    const balance = ethers.parseEther(w.balance);
+    return balance < fundingAmount ? fundingAmount - balance : 0n;
+  });
+  const totalNeeded = shortfalls.reduce((sum, s) => sum + s, 0n);
   
   let fundedCount = 0;
   
   if (deployerBalance >= totalNeeded) {
-    console.log(`   Funding ${wallets.length} wallets with ${ethers.formatEther(fundingAmount)} ETH each...`);
+    console.log(`   Funding ${wallets.length} wallets up to ${ethers.formatEther(fundingAmount)} ETH each...`);
     
     for (let i = 0; i < wallets.length; i++) {
+      if (shortfalls[i] === 0n) {
+        fundedCount++;
+        continue;
+      }
       try {
         const tx = await deployer.sendTransaction({
           to: wallets[i].address,
-          value: fundingAmount,
+          value: shortfalls[i],
         });
         await tx.wait();
         fundedCount++;
@@ -111,192 +163,204 @@ async function main() {
     console.log(`   Please fund wallets manually or use a faucet\n`);
   }
 
-  // Connect wallets to provider
-  const connectedWallets = wallets.map(w => 
-    new ethers.Wallet(w.privateKey, ethers.provider)
-  );
+  const chainId = (await ethers.provider.getNetwork()).chainId;
+  const logFile = path.join(LOGS_DIR, `test-vouch-network-${hardhatNetwork.name}-${seed}${replay ? "-replay" : ""}.jsonl`);
+  const log = RunLog.create(logFile, {
+    type: "run",
+    script: "test-vouch-network",
+    seed,
+    network: hardhatNetwork.name,
+    chainId,
+    contract: contractAddress.toLowerCase(),
+    startedAt: new Date().toISOString(),
+    actors: wallets.map((w) => w.address.toLowerCase()),
+    replayOf: replayFile,
+  });
 
-  // ============================================
-  // STEP 3: Create Initial Vouches (Chain Pattern)
-  // ============================================
-  console.log("🔗 Creating initial vouches (chain pattern)...\n");
-  
   const stats: TestStats = {
+    seed,
     totalWallets: wallets.length,
     vouchesCreated: 0,
     vouchesRemoved: 0,
     roundsCompleted: 0,
     errors: 0,
+    invariantChecks: 0,
+    invariantViolations: 0,
+    staleValues: 0,
+    logFile,
   };
 
-  // Create a chain: wallet0 -> wallet1 -> wallet2 -> ... -> wallet49
-  for (let i = 0; i < wallets.length - 1; i++) {
-    const fromWallet = connectedWallets[i];
-    const toAddress = wallets[i + 1].address;
-    
-    const balance = await ethers.provider.getBalance(fromWallet.address);
-    if (balance < ethers.parseEther("0.0001")) {
-      console.log(`   ⚠️  Skipping wallet ${i} (insufficient balance)`);
-      stats.errors++;
-      continue;
-    }
+  // The model follows the contract through the run, telling stale ranks and scores from broken ones
+  const constants = await client.getConstants();
+  const actors = wallets.map((w) => w.address.toLowerCase());
+  const model = new VouchModel({ constants });
+  model.seedVouchCount = await client.contract.seedVouchCount();
+  for (const node of (await readInvariantSnapshot(client, actors)).nodes.values()) model.restoreNode(node.address, node);
+  const strict = process.env.STRICT_INVARIANTS === "1";
+  const violating: { check: string; violation: InvariantViolation }[] = [];
+  let touched: [string, string][] = [];
+  // Small delay between transactions to avoid rate limiting (not needed locally)
+  const delayMs = isLocalNetwork() ? 0 : 500;
+
+  // Sends one operation unless the sender has no gas money or it would be a no-op, and logs the outcome
+  async function attempt(step: string, action: "vouch" | "unvouch", fromIdx: number, toIdx: number): Promise<RunLogEntry> {
+    const entry: RunLogEntry = { type: "op", step, action, from: fromIdx, to: toIdx, outcome: "skipped" };
+    const fromWallet = connectedWallets[fromIdx];
+    const toAddress = wallets[toIdx].address;
 
     try {
-      const contractWithSigner = contract.connect(fromWallet);
-      const tx = await contractWithSigner.vouch(toAddress);
-      await tx.wait();
-      stats.vouchesCreated++;
-      
-      if ((i + 1) % 10 === 0) {
-        console.log(`   Created ${i + 1} vouches...`);
+      const balance = await ethers.provider.getBalance(fromWallet.address);
+      if (balance < ethers.parseEther("0.0001")) {
+        entry.reason = "insufficient balance";
+      } else if ((await client.hasEdge(fromWallet.address, toAddress)) !== (action === "unvouch")) {
+        entry.reason = action === "vouch" ? "exists" : "not exists";
+      } else {
+        const tx = await client.withRunner(fromWallet)[action](toAddress);
+        await tx.wait();
+        entry.outcome = "confirmed";
+        entry.txHash = tx.hash;
+        try {
+          model.apply({ action, from: actors[fromIdx], to: actors[toIdx] });
+        } catch (error) {
+          console.log(`   ⚠️  The model rejects a confirmed ${action} ${fromIdx} → ${toIdx}: ${decodeRevertReason(error)}`);
+          stats.errors++;
+        }
+        if (action === "vouch") stats.vouchesCreated++;
+        else stats.vouchesRemoved++;
+        if (delayMs) await new Promise((resolve) => setTimeout(resolve, delayMs));
       }
-      
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 500));
     } catch (error: any) {
-      console.log(`   ❌ Error creating vouch ${i} -> ${i + 1}: ${error.message}`);
+      entry.outcome = "failed";
+      entry.reason = decodeRevertReason(error);
       stats.errors++;
     }
+    touched.push([actors[fromIdx], actors[toIdx]]);
+    log.append(entry);
+    return entry;
   }
-  
-  console.log(`✅ Initial vouches created: ${stats.vouchesCreated}\n`);
 
-  // ============================================
-  // STEP 4: Create Additional Vouches (Random Pattern)
-  // ============================================
-  console.log("🔗 Creating additional vouches (random pattern)...\n");
-  
-  const additionalVouches = 50; // Create 50 more random vouches
-  
-  for (let i = 0; i < additionalVouches; i++) {
-    const fromIdx = Math.floor(Math.random() * wallets.length);
-    const toIdx = Math.floor(Math.random() * wallets.length);
-    
-    // Don't vouch to self
-    if (fromIdx === toIdx) continue;
-    
-    const fromWallet = connectedWallets[fromIdx];
-    const toAddress = wallets[toIdx].address;
-    
-    const balance = await ethers.provider.getBalance(fromWallet.address);
-    if (balance < ethers.parseEther("0.0001")) {
-      continue;
+  // Checks the invariants on every wallet's node, plus hasEdge for the pairs touched since the last check
+  async function checkRound(label: string): Promise<void> {
+    const snapshot = await readInvariantSnapshot(client, actors, { pairs: touched });
+    touched = [];
+    const { stale, violations } = separateStale(checkInvariants(snapshot, constants), model);
+    const failing = strict ? [...violations, ...stale] : violations;
+    stats.invariantChecks++;
+    stats.staleValues += stale.length;
+    stats.invariantViolations += failing.length;
+    for (const violation of failing) violating.push({ check: label, violation });
+    const staleNote = stale.length ? ` (${stale.length} ${strict ? "of them " : ""}stale rank/score values)` : "";
+    console.log(`   ${failing.length ? "❌" : "🔍"} Invariants after ${label}: ${failing.length ? `${failing.length} violations` : "ok"}${staleNote}`);
+  }
+
+  // A random ordered pair of distinct wallets, or null when the PRNG picks the same one twice
+  function randomPair(): [number, number] | null {
+    const fromIdx = rng.int(wallets.length);
+    const toIdx = rng.int(wallets.length);
+    return fromIdx === toIdx ? null : [fromIdx, toIdx];
+  }
+
+  if (replay) {
+    // ============================================
+    // STEPS 3-5: Replay the Logged Operations
+    // ============================================
+    console.log(`🔁 Replaying ${replay.entries.length} operations...\n`);
+    let divergences = 0;
+    // checked where the original run checked: after the chain, the random vouches and each round
+    const phaseOf = (step: string) => step.replace(/ (un)?vouch$/, "");
+    for (const [i, logged] of replay.entries.entries()) {
+      const next = replay.entries[i + 1];
+      const entry = await attempt(logged.step, logged.action, logged.from, logged.to);
+      if (!next || phaseOf(next.step) !== phaseOf(logged.step)) await checkRound(phaseOf(logged.step));
+      if (entry.outcome === logged.outcome && entry.reason === logged.reason) continue;
+      divergences++;
+      console.log(`   ⚠️  Operation ${i + 1} (${logged.step}: ${logged.action} ${logged.from} → ${logged.to}):`);
+      console.log(`      logged ${logged.outcome}${logged.reason ? ` (${logged.reason})` : ""}, now ${entry.outcome}${entry.reason ? ` (${entry.reason})` : ""}`);
     }
+    console.log(divergences ? `❌ ${divergences} operations differ from the log\n` : "✅ Every operation matched the log\n");
+    stats.roundsCompleted = new Set(replay.entries.map((e) => e.step.match(/^round (\d+)/)?.[1]).filter(Boolean)).size;
+  } else {
+    // ============================================
+    // STEP 3: Create Initial Vouches (Chain Pattern)
+    // ============================================
+    console.log("🔗 Creating initial vouches (chain pattern)...\n");
 
-    try {
-      const contractWithSigner = contract.connect(fromWallet);
-      
-      // Check if vouch already exists
-      const exists = await contract.hasEdge(fromWallet.address, toAddress);
-      if (exists) continue;
-      
-      const tx = await contractWithSigner.vouch(toAddress);
-      await tx.wait();
-      stats.vouchesCreated++;
-      
-      if ((i + 1) % 10 === 0) {
-        console.log(`   Created ${i + 1} additional vouches...`);
-      }
-      
-      await new Promise(resolve => setTimeout(resolve, 500));
-    } catch (error: any) {
-      // Ignore "already exists" errors
-      if (!error.message.includes("exists")) {
+    // Create a chain: wallet0 -> wallet1 -> wallet2 -> ... -> wallet49
+    for (let i = 0; i < wallets.length - 1; i++) {
+      const entry = await attempt("chain", "vouch", i, i + 1);
+      if (entry.reason === "insufficient balance") {
+        console.log(`   ⚠️  Skipping wallet ${i} (insufficient balance)`);
         stats.errors++;
+      } else if (entry.outcome === "failed") {
+        console.log(`   ❌ Error creating vouch ${i} -> ${i + 1}: ${entry.reason}`);
+      } else if ((i + 1) % 10 === 0) {
+        console.log(`   Created ${i + 1} vouches...`);
       }
     }
-  }
-  
-  console.log(`✅ Additional vouches created\n`);
 
-  // ============================================
-  // STEP 5: Test Multiple Rounds of Vouch/Unvouch
-  // ============================================
-  console.log("🔄 Testing multiple rounds of vouch/unvouch...\n");
-  
-  const rounds = 5; // Number of test rounds
-  
-  for (let round = 1; round <= rounds; round++) {
-    console.log(`📊 Round ${round}/${rounds}:`);
-    
-    // Select random wallets for this round
-    const testPairs = 10; // Test 10 pairs per round
-    
-    // UNVOUCH Phase
-    console.log(`   Unvouching phase...`);
-    let unvouchCount = 0;
-    
-    for (let i = 0; i < testPairs; i++) {
-      const fromIdx = Math.floor(Math.random() * wallets.length);
-      const toIdx = Math.floor(Math.random() * wallets.length);
-      
-      if (fromIdx === toIdx) continue;
-      
-      const fromWallet = connectedWallets[fromIdx];
-      const toAddress = wallets[toIdx].address;
-      
-      const balance = await ethers.provider.getBalance(fromWallet.address);
-      if (balance < ethers.parseEther("0.0001")) continue;
+    console.log(`✅ Initial vouches created: ${stats.vouchesCreated}`);
+    await checkRound("chain");
+    console.log("");
 
-      try {
-        const contractWithSigner = contract.connect(fromWallet);
-        
-        // Check if vouch exists
-        const exists = await contract.hasEdge(fromWallet.address, toAddress);
-        if (!exists) continue;
-        
-        const tx = await contractWithSigner.unvouch(toAddress);
-        await tx.wait();
-        stats.vouchesRemoved++;
-        unvouchCount++;
-        
-        await new Promise(resolve => setTimeout(resolve, 500));
-      } catch (error: any) {
-        stats.errors++;
+    // ============================================
+    // STEP 4: Create Additional Vouches (Random Pattern)
+    // ============================================
+    console.log("🔗 Creating additional vouches (random pattern)...\n");
+
+    const additionalVouches = 50; // Create 50 more random vouches
+
+    for (let i = 0; i < additionalVouches; i++) {
+      // Don't vouch to self
+      const pair = randomPair();
+      if (!pair) continue;
+      await attempt("random", "vouch", ...pair);
+
+      if ((i + 1) % 10 === 0) {
+        console.log(`   Tried ${i + 1} additional vouches...`);
       }
     }
-    
-    console.log(`     ✅ Removed ${unvouchCount} vouches`);
-    
-    // VOUCH Phase
-    console.log(`   Vouching phase...`);
-    let vouchCount = 0;
-    
-    for (let i = 0; i < testPairs; i++) {
-      const fromIdx = Math.floor(Math.random() * wallets.length);
-      const toIdx = Math.floor(Math.random() * wallets.length);
-      
-      if (fromIdx === toIdx) continue;
-      
-      const fromWallet = connectedWallets[fromIdx];
-      const toAddress = wallets[toIdx].address;
-      
-      const balance = await ethers.provider.getBalance(fromWallet.address);
-      if (balance < ethers.parseEther("0.0001")) continue;
 
-      try {
-        const contractWithSigner = contract.connect(fromWallet);
-        
-        // Check if vouch already exists
-        const exists = await contract.hasEdge(fromWallet.address, toAddress);
-        if (exists) continue;
-        
-        const tx = await contractWithSigner.vouch(toAddress);
-        await tx.wait();
-        stats.vouchesCreated++;
-        vouchCount++;
-        
-        await new Promise(resolve => setTimeout(resolve, 500));
-      } catch (error: any) {
-        if (!error.message.includes("exists")) {
-          stats.errors++;
-        }
+    console.log(`✅ Additional vouches created`);
+    await checkRound("random");
+    console.log("");
+
+    // ============================================
+    // STEP 5: Test Multiple Rounds of Vouch/Unvouch
+    // ============================================
+    console.log("🔄 Testing multiple rounds of vouch/unvouch...\n");
+
+    const rounds = 5; // Number of test rounds
+
+    for (let round = 1; round <= rounds; round++) {
+      console.log(`📊 Round ${round}/${rounds}:`);
+
+      // Select random wallets for this round
+      const testPairs = 10; // Test 10 pairs per round
+
+      // UNVOUCH Phase
+      console.log(`   Unvouching phase...`);
+      let unvouchCount = 0;
+      for (let i = 0; i < testPairs; i++) {
+        const pair = randomPair();
+        if (!pair) continue;
+        if ((await attempt(`round ${round} unvouch`, "unvouch", ...pair)).outcome === "confirmed") unvouchCount++;
+      }
+      console.log(`     ✅ Removed ${unvouchCount} vouches`);
+
+      // VOUCH Phase
+      console.log(`   Vouching phase...`);
+      let vouchCount = 0;
+      for (let i = 0; i < testPairs; i++) {
+        const pair = randomPair();
+        if (!pair) continue;
+        if ((await attempt(`round ${round} vouch`, "vouch", ...pair)).outcome === "confirmed") vouchCount++;
       }
+      console.log(`     ✅ Created ${vouchCount} vouches`);
+      await checkRound(`round ${round}`);
+
+      stats.roundsCompleted++;
+      console.log("");
     }
-    
-    console.log(`     ✅ Created ${vouchCount} vouches`);
-    stats.roundsCompleted++;
-    console.log("");
   }
 
   // ============================================
@@ -305,12 +369,17 @@ async function main() {
   console.log("📈 Network Statistics:");
   console.log("================================\n");
   
+  console.log(`Seed: ${stats.seed}`);
   console.log(`Total Wallets: ${stats.totalWallets}`);
   console.log(`Vouches Created: ${stats.vouchesCreated}`);
   console.log(`Vouches Removed: ${stats.vouchesRemoved}`);
   console.log(`Net Vouches: ${stats.vouchesCreated - stats.vouchesRemoved}`);
   console.log(`Test Rounds Completed: ${stats.roundsCompleted}`);
-  console.log(`Errors: ${stats.errors}\n`);
+  console.log(`Errors: ${stats.errors}`);
+  console.log(`Invariant Checks: ${stats.invariantChecks}`);
+  console.log(`Invariant Violations: ${stats.invariantViolations}`);
+  console.log(`Stale Ranks/Scores: ${stats.staleValues}${strict ? " (counted as violations)" : ""}`);
+  console.log(`Operation Log: ${path.relative(process.cwd(), stats.logFile)}\n`);
 
   // Get network stats from contract
   console.log("📊 Contract Network Stats:");
@@ -318,8 +387,10 @@ async function main() {
   
   try {
     // Count total vouches from events
-    const vouchEvents = await contract.queryFilter(contract.filters.VouchCreated(), 0, "latest");
-    const unvouchEvents = await contract.queryFilter(contract.filters.VouchRemoved(), 0, "latest");
+    const [vouchEvents, unvouchEvents] = await Promise.all([
+      client.queryVouchCreated(),
+      client.queryVouchRemoved(),
+    ]);
     
     console.log(`Total VouchCreated Events: ${vouchEvents.length}`);
     console.log(`Total VouchRemoved Events: ${unvouchEvents.length}`);
@@ -330,8 +401,8 @@ async function main() {
     
     for (let i = 0; i < sampleSize; i++) {
       try {
-        const nodeInfo = await contract.getNodeInfo(wallets[i].address);
-        const connections = await contract.getConnections(wallets[i].address);
+        const nodeInfo = await client.getNodeInfo(wallets[i].address);
+        const connections = await client.getConnections(wallets[i].address);
         
         console.log(`\n  Wallet ${i} (${wallets[i].address.substring(0, 10)}...):`);
         console.log(`    Rank: ${nodeInfo.rank.toString()}`);
@@ -347,11 +418,37 @@ async function main() {
     console.log(`⚠️  Error fetching network stats: ${error.message}`);
   }
 
-  console.log("\n✅ Test Complete!\n");
+  // Diff of the violating nodes, grouped by node
+  if (violating.length) {
+    console.log("\n❌ Invariant Violations:");
+    console.log("================================");
+    const byNode = new Map<string, typeof violating>();
+    for (const v of violating) byNode.set(v.violation.node, [...(byNode.get(v.violation.node) ?? []), v]);
+    for (const [node, list] of byNode) {
+      const index = actors.indexOf(node);
+      console.log(`\n  ${index >= 0 ? `Wallet ${index}` : "Node"} (${node}):`);
+      for (const { check, violation } of list) {
+        console.log(`    [${check}] ${violation.kind}: expected ${violation.expected}, actual ${violation.actual}`);
+        if (violation.detail) console.log(`      ${violation.detail}`);
+      }
+    }
+  }
+
+  const failed = stats.invariantViolations > 0 || stats.errors > 0;
+  console.log(failed ? "\n❌ Test Failed!\n" : "\n✅ Test Complete!\n");
+
+  console.log("🔁 To replay this run on a fresh local node:");
+  console.log(`   TEST_REPLAY=${path.relative(process.cwd(), stats.logFile)} npx hardhat run scripts/test-vouch-network.ts --network localhost\n`);
+
+  if (set) {
+    console.log("🧹 To return the wallets' leftover ETH to the deployer:");
+    console.log(`   npx hardhat syb wallets sweep --name ${set.name} --network ${set.network}\n`);
+  }
+  return failed ? 1 : 0;
 }
 
 main()
-  .then(() => process.exit(0))
+  .then((code) => process.exit(code))
   .catch((error) => {
     console.error(error);
     process.exit(1);
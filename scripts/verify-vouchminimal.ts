@@ -1,31 +1,50 @@
-import { run } from "hardhat";
+import { ethers, network } from "hardhat";
+import { resolveConstructorArgs, writeDeployment } from "../sdk/node";
+import { DEPLOYMENTS_DIR, currentDeployment, requireContractAddress } from "./lib/vouch-client";
+import { explorersFromEnv, findCreationTx, printVerificationResults, verifyOnExplorers } from "./lib/verify";
 
-async function main() {
-  // Get contract address from command line arguments
-  const contractAddress = process.env.CONTRACT_ADDRESS;
+/**
+ * Verify a deployed VouchMinimal on the block explorers of --network.
+ *
+ * Constructor arguments come from deployments/<network>.json, or are decoded
+ * from the creation transaction (DEPLOY_TX_HASH, or looked up on the
+ * explorer) when the contract is not in the registry. Etherscan and
+ * Blockscout are tried in turn (VERIFY_EXPLORERS to choose); the script exits
+ * non-zero if any of them failed.
+ */
 
-  if (!contractAddress) {
-    console.error("❌ Please provide CONTRACT_ADDRESS environment variable");
-    console.log("Usage: CONTRACT_ADDRESS=0x... npx hardhat run scripts/verify-vouchminimal.ts --network <network>");
-    process.exit(1);
-  }
+async function main() {
+  // Get contract address from the deployment registry (or CONTRACT_ADDRESS)
+  const contractAddress = requireContractAddress("verify-vouchminimal.ts");
+  const deployment = currentDeployment();
+  const recorded = deployment?.address.toLowerCase() === contractAddress.toLowerCase() ? deployment : null;
 
   console.log("Starting verification process...");
+  console.log("Network:", network.name);
   console.log("Contract address:", contractAddress);
 
-  try {
-    await run("verify:verify", {
-      address: contractAddress,
-      constructorArguments: [],
-    });
-    console.log("✅ Contract verified successfully!");
-  } catch (error: any) {
-    if (error.message.includes("Already Verified")) {
-      console.log("✅ Contract is already verified!");
-    } else {
-      console.error("❌ Verification failed:", error);
-      throw error;
-    }
+  const creationTxHash = recorded ? undefined : process.env.DEPLOY_TX_HASH || (await findCreationTx(contractAddress));
+  const { args, source } = await resolveConstructorArgs(ethers.provider, contractAddress, {
+    deployment: recorded,
+    creationTxHash,
+  });
+  console.log(`Constructor arguments (${source === "registry" ? "deployment registry" : `decoded from ${creationTxHash}`}):`);
+  console.log(`   _depositManager: ${args[0]}`);
+  console.log(`   _minimumStake:   ${args[1]}`);
+
+  const results = await verifyOnExplorers(contractAddress, args, explorersFromEnv());
+  printVerificationResults(results);
+
+  if (recorded) {
+    writeDeployment(DEPLOYMENTS_DIR, { ...recorded, verification: results });
+    console.log(`\n📝 Recorded results in deployments/${network.name}.json`);
+  }
+
+  if (results.some((r) => r.status === "failed")) {
+    throw new Error("Verification failed on at least one explorer");
+  }
+  if (!results.some((r) => r.status === "verified")) {
+    throw new Error(`No configured explorer supports ${network.name}`);
   }
 }
 
@@ -35,4 +54,3 @@ main()
     console.error(error);
     process.exit(1);
   });
-
@@ -0,0 +1,275 @@
+import { VOUCH_MINIMAL_CONSTANTS, rankWeight } from "./model";
+import type { ContractConstants, Graph } from "./types";
+
+/**
+ * Sybil-resistance statistics over a graph snapshot (live, or read back
+ * from an export). The "core" is the set of nodes whose rank still carries
+ * score weight (rank ≤ R): their vouches are what a Sybil cluster needs to
+ * gain score, so a dense cluster with few vouches from the core is suspect
+ * however well connected it is internally.
+ */
+
+export interface AnalyticsOptions {
+  constants?: ContractConstants;
+  // smallest strongly connected component considered as a cluster
+  minClusterSize?: number;
+  // internal edges / n(n − 1) above which a cluster counts as dense
+  minDensity?: number;
+  // a dense cluster is suspicious with at most this many vouches from the core per member
+  maxCoreVouchesPerMember?: number;
+  // share of the score from the outdegree bonus above which a node is flagged
+  bonusShare?: number;
+}
+
+// Ranks in [min, max]
+export interface RankBucket {
+  min: bigint;
+  max: bigint;
+  count: number;
+}
+
+export interface SuspiciousCluster {
+  members: string[];
+  internalEdges: number;
+  density: number;
+  // share of internal edges vouched back
+  reciprocity: number;
+  // edges into the cluster from outside, and how many of them come from the core
+  inEdges: number;
+  coreInEdges: number;
+  // members whose rank is in the core themselves
+  coreMembers: number;
+}
+
+export interface BonusInflatedNode {
+  address: string;
+  score: bigint;
+  outBonus: bigint;
+  share: number;
+}
+
+export interface SybilReport {
+  nodes: number;
+  edges: number;
+  seeds: number;
+  core: number;
+  components: {
+    count: number;
+    largest: number;
+    singletons: number;
+    // sizes of the components with more than one node, largest first
+    sizes: number[];
+  };
+  ranks: RankBucket[];
+  // out-edge hops from the nearest seed; nodes no seed reaches are counted in `unreachable`
+  seedDistance: { hops: number; count: number }[];
+  unreachable: number;
+  reciprocity: {
+    // edges whose reverse edge exists too
+    reciprocal: number;
+    ratio: number;
+  };
+  clusters: SuspiciousCluster[];
+  bonusInflated: BonusInflatedNode[];
+}
+
+const DEFAULT_OPTIONS = {
+  minClusterSize: 3,
+  minDensity: 0.5,
+  maxCoreVouchesPerMember: 0.25,
+  bonusShare: 0.5,
+};
+
+/**
+ * Strongly connected components of the out-edge graph (iterative Tarjan),
+ * each listed in discovery order.
+ */
+export function stronglyConnectedComponents(graph: Graph): string[][] {
+  const successors = adjacency(graph);
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of successors.keys()) {
+    if (index.has(root)) continue;
+    // frames of [node, position of the next successor to visit]
+    const frames: [string, number][] = [[root, 0]];
+    index.set(root, counter);
+    low.set(root, counter++);
+    stack.push(root);
+    onStack.add(root);
+
+    while (frames.length) {
+      const frame = frames[frames.length - 1];
+      const [v, i] = frame;
+      const next = successors.get(v)!;
+      if (i < next.length) {
+        frame[1]++;
+        const w = next[i];
+        if (!index.has(w)) {
+          index.set(w, counter);
+          low.set(w, counter++);
+          stack.push(w);
+          onStack.add(w);
+          frames.push([w, 0]);
+        } else if (onStack.has(w)) {
+          low.set(v, Math.min(low.get(v)!, index.get(w)!));
+        }
+        continue;
+      }
+      frames.pop();
+      if (frames.length) {
+        const parent = frames[frames.length - 1][0];
+        low.set(parent, Math.min(low.get(parent)!, low.get(v)!));
+      }
+      if (low.get(v) === index.get(v)) {
+        const component: string[] = [];
+        let w: string;
+        do {
+          w = stack.pop()!;
+          onStack.delete(w);
+          component.push(w);
+        } while (w !== v);
+        components.push(component.reverse());
+      }
+    }
+  }
+  return components;
+}
+
+export function analyzeSybilResistance(graph: Graph, options: AnalyticsOptions = {}): SybilReport {
+  const constants = options.constants ?? VOUCH_MINIMAL_CONSTANTS;
+  const { minClusterSize, minDensity, maxCoreVouchesPerMember, bonusShare } = { ...DEFAULT_OPTIONS, ...options };
+  const successors = adjacency(graph);
+  const byAddress = new Map(graph.nodes.map((n) => [n.address, n]));
+  const seeds = new Set(graph.seeds.map((a) => a.toLowerCase()));
+  const inCore = (address: string) => {
+    const node = byAddress.get(address);
+    return node !== undefined && rankWeight(node.rank, constants) > 0n;
+  };
+  const hasEdge = (from: string, to: string) => successors.get(from)?.includes(to) ?? false;
+  const edgeCount = [...successors.values()].reduce((n, next) => n + next.length, 0);
+
+  const components = stronglyConnectedComponents(graph);
+  const sizes = components.map((c) => c.length).sort((a, b) => b - a);
+
+  const clusters: SuspiciousCluster[] = [];
+  for (const members of components) {
+    if (members.length < minClusterSize || members.some((a) => seeds.has(a))) continue;
+    const inside = new Set(members);
+    let internalEdges = 0;
+    let reciprocal = 0;
+    for (const from of members) {
+      for (const to of successors.get(from)!) {
+        if (!inside.has(to)) continue;
+        internalEdges++;
+        if (hasEdge(to, from)) reciprocal++;
+      }
+    }
+    let inEdges = 0;
+    let coreInEdges = 0;
+    for (const to of members) {
+      for (const from of byAddress.get(to)?.inNeighbors ?? []) {
+        if (inside.has(from)) continue;
+        inEdges++;
+        if (inCore(from)) coreInEdges++;
+      }
+    }
+    const density = internalEdges / (members.length * (members.length - 1));
+    if (density < minDensity || coreInEdges > maxCoreVouchesPerMember * members.length) continue;
+    clusters.push({
+      members,
+      internalEdges,
+      density,
+      reciprocity: internalEdges ? reciprocal / internalEdges : 0,
+      inEdges,
+      coreInEdges,
+      coreMembers: members.filter(inCore).length,
+    });
+  }
+  clusters.sort((a, b) => b.members.length - a.members.length || b.density - a.density);
+
+  // breadth-first from every seed at once
+  const distance = new Map<string, number>();
+  let layer = [...seeds].filter((a) => successors.has(a));
+  layer.forEach((a) => distance.set(a, 0));
+  for (let hops = 1; layer.length; hops++) {
+    const next: string[] = [];
+    for (const from of layer) {
+      for (const to of successors.get(from)!) {
+        if (distance.has(to)) continue;
+        distance.set(to, hops);
+        next.push(to);
+      }
+    }
+    layer = next;
+  }
+  const seedDistance: { hops: number; count: number }[] = [];
+  for (const hops of distance.values()) {
+    seedDistance[hops] ??= { hops, count: 0 };
+    seedDistance[hops].count++;
+  }
+
+  let reciprocalEdges = 0;
+  for (const [from, next] of successors) for (const to of next) if (hasEdge(to, from)) reciprocalEdges++;
+
+  const bonusInflated: BonusInflatedNode[] = [];
+  for (const node of graph.nodes) {
+    const outdegree = BigInt(node.outNeighbors.length);
+    const outBonus = constants.bonusOut * (outdegree > constants.bonusCap ? constants.bonusCap : outdegree);
+    if (node.score === 0n || outBonus === 0n) continue;
+    const share = Number(outBonus) / Number(node.score);
+    if (share > bonusShare) bonusInflated.push({ address: node.address, score: node.score, outBonus, share });
+  }
+  bonusInflated.sort((a, b) => b.share - a.share || (b.score > a.score ? 1 : b.score < a.score ? -1 : 0));
+
+  return {
+    nodes: graph.nodes.length,
+    edges: edgeCount,
+    seeds: seeds.size,
+    core: graph.nodes.filter((n) => inCore(n.address)).length,
+    components: {
+      count: components.length,
+      largest: sizes[0] ?? 0,
+      singletons: sizes.filter((s) => s === 1).length,
+      sizes: sizes.filter((s) => s > 1),
+    },
+    ranks: rankDistribution(graph.nodes.map((n) => n.rank), constants),
+    seedDistance: seedDistance.filter(Boolean),
+    unreachable: graph.nodes.length - distance.size,
+    reciprocity: { reciprocal: reciprocalEdges, ratio: edgeCount ? reciprocalEdges / edgeCount : 0 },
+    clusters,
+    bonusInflated,
+  };
+}
+
+/**
+ * Counts per rank up to DEFAULT_RANK, then per power of three above it
+ * (one bucket per hop, since each hop roughly triples a rank).
+ */
+export function rankDistribution(ranks: bigint[], constants: ContractConstants = VOUCH_MINIMAL_CONSTANTS): RankBucket[] {
+  const buckets = new Map<bigint, RankBucket>();
+  for (const rank of ranks) {
+    let min = rank;
+    let max = rank;
+    if (rank > constants.defaultRank) {
+      let power = 3n;
+      while (power < rank) power *= 3n;
+      min = power / 3n < constants.defaultRank ? constants.defaultRank + 1n : power / 3n + 1n;
+      max = power;
+    }
+    const bucket = buckets.get(max) ?? { min, max, count: 0 };
+    bucket.count++;
+    buckets.set(max, bucket);
+  }
+  return [...buckets.values()].sort((a, b) => (a.max < b.max ? -1 : 1));
+}
+
+// Out-neighbors of every node, restricted to nodes in the snapshot
+function adjacency(graph: Graph): Map<string, string[]> {
+  const known = new Set(graph.nodes.map((n) => n.address));
+  return new Map(graph.nodes.map((n) => [n.address, n.outNeighbors.filter((to) => known.has(to))]));
+}
@@ -0,0 +1,268 @@
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { NeighborDirection, neighborhood } from "./graph";
+import { BlockTimestamps, fetchBlockTimestamps } from "./history";
+import { IndexedEvent, IndexedState, VouchIndexer, indexedNodeToNode } from "./indexer";
+import { toPlainJson } from "./json";
+import type { ContractConstants, Edge, Node } from "./types";
+
+/**
+ * Read-only HTTP API over an event index: nodes, neighbors, neighborhoods,
+ * leaderboards, per-address event history and network metadata, as JSON
+ * under /api/v1. Answers come from the indexed state (what the contract
+ * stored, as replayed from its events); the index is synced before a
+ * request once the last sync is older than `syncIntervalMs`. uint256
+ * values are decimal strings.
+ */
+
+export const API_PREFIX = "/api/v1";
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+export const MAX_NEIGHBORHOOD_DEPTH = 4;
+
+export interface Page<T> {
+  total: number;
+  offset: number;
+  limit: number;
+  items: T[];
+}
+
+export interface NetworkInfo {
+  contractAddress: string;
+  chainId: string;
+  // last block the index has processed
+  indexedBlock: number | null;
+  nodes: number;
+  edges: number;
+  seeds: string[];
+  owner: string | null;
+  depositManager: string | null;
+  minimumStake: bigint;
+  bootstrap: {
+    seedVouchCount: number;
+    maxSeedVouches: number;
+    complete: boolean;
+    // seed vouches left before the bootstrap ends
+    remaining: number;
+  };
+}
+
+export interface NeighborhoodResponse {
+  root: string;
+  direction: NeighborDirection;
+  depth: number;
+  layers: string[][];
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export type HistoryEvent = IndexedEvent & { timestamp: number };
+
+export type LeaderboardOrder = "score" | "rank";
+
+export interface GraphApiOptions {
+  // maxSeedVouches, for the bootstrap status
+  constants: ContractConstants;
+  // sync the index before answering when the last sync is older than this (0: before every request)
+  syncIntervalMs?: number;
+  onRequest?: (method: string, url: string, status: number) => void;
+}
+
+export class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+type Query = URLSearchParams;
+type Route = [RegExp, (api: GraphApi, params: string[], query: Query) => Promise<unknown> | unknown];
+
+const ADDRESS = "(0x[0-9a-fA-F]{40})";
+
+const ROUTES: Route[] = [
+  [/^$/, () => ({ endpoints: ENDPOINTS })],
+  [/^\/network$/, (api) => api.network()],
+  [new RegExp(`^/nodes/${ADDRESS}$`), (api, [address]) => api.node(address)],
+  [new RegExp(`^/nodes/${ADDRESS}/in-neighbors$`), (api, [address], q) => api.neighbors(address, "in", page(q))],
+  [new RegExp(`^/nodes/${ADDRESS}/out-neighbors$`), (api, [address], q) => api.neighbors(address, "out", page(q))],
+  [
+    new RegExp(`^/nodes/${ADDRESS}/neighborhood$`),
+    (api, [address], q) =>
+      api.neighborhood(address, integer(q, "depth", 1, 1, MAX_NEIGHBORHOOD_DEPTH), oneOf(q, "direction", ["both", "in", "out"] as const)),
+  ],
+  [new RegExp(`^/nodes/${ADDRESS}/events$`), (api, [address], q) => api.events(address, page(q))],
+  [/^\/leaderboard$/, (api, _, q) => api.leaderboard(oneOf(q, "by", ["score", "rank"] as const), page(q))],
+];
+
+const ENDPOINTS = [
+  "GET /network",
+  "GET /nodes/:address",
+  "GET /nodes/:address/in-neighbors?offset&limit",
+  "GET /nodes/:address/out-neighbors?offset&limit",
+  `GET /nodes/:address/neighborhood?depth (1-${MAX_NEIGHBORHOOD_DEPTH})&direction (both|in|out)`,
+  "GET /nodes/:address/events?offset&limit",
+  "GET /leaderboard?by (score|rank)&offset&limit",
+].map((endpoint) => endpoint.replace(" /", ` ${API_PREFIX}/`));
+
+export class GraphApi {
+  readonly indexer: VouchIndexer;
+  private readonly options: GraphApiOptions;
+  private readonly timestamps: BlockTimestamps = new Map();
+  private lastSync = -Infinity;
+  private syncing: Promise<void> | null = null;
+
+  constructor(indexer: VouchIndexer, options: GraphApiOptions) {
+    this.indexer = indexer;
+    this.options = options;
+  }
+
+  // Starts an HTTP server on `port` (0: any free port) and resolves once it listens
+  async listen(port: number, host = "127.0.0.1"): Promise<http.Server> {
+    const server = http.createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, resolve);
+    });
+    return server;
+  }
+
+  async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    let status = 200;
+    let body: unknown;
+    try {
+      if (req.method !== "GET") throw new ApiError(405, `${req.method} is not supported; the API is read-only`);
+      if (url.pathname !== API_PREFIX && !url.pathname.startsWith(API_PREFIX + "/")) throw new ApiError(404, `Not found: ${url.pathname}`);
+      const path = url.pathname.slice(API_PREFIX.length).replace(/\/$/, "");
+      const route = ROUTES.map(([pattern, handler]) => [pattern.exec(path), handler] as const).find(([match]) => match);
+      if (!route) throw new ApiError(404, `Not found: ${url.pathname}`);
+      await this.refresh();
+      body = await route[1](this, route[0]!.slice(1), url.searchParams);
+    } catch (error: any) {
+      status = error instanceof ApiError ? error.status : 500;
+      body = { error: { status, message: error.message } };
+    }
+    res.writeHead(status, {
+      "Content-Type": "application/json; charset=utf-8",
+      // a local frontend on another port may read it
+      "Access-Control-Allow-Origin": "*",
+    });
+    res.end(toPlainJson(body, 2) + "\n");
+    this.options.onRequest?.(req.method ?? "", req.url ?? "", status);
+  }
+
+  // Syncs the index if it is older than syncIntervalMs; concurrent requests share one sync
+  async refresh(): Promise<void> {
+    if (Date.now() - this.lastSync < (this.options.syncIntervalMs ?? 5000)) return;
+    this.syncing ??= this.indexer
+      .sync()
+      .then(() => {
+        this.lastSync = Date.now();
+      })
+      .finally(() => {
+        this.syncing = null;
+      });
+    await this.syncing;
+  }
+
+  async network(): Promise<NetworkInfo> {
+    const state = this.indexer.state;
+    const maxSeedVouches = Number(this.options.constants.maxSeedVouches);
+    return {
+      contractAddress: this.indexer.contractAddress,
+      chainId: (await this.indexer.load()).chainId,
+      indexedBlock: state.checkpoint?.blockNumber ?? null,
+      nodes: Object.keys(state.nodes).length,
+      edges: state.edgeCount,
+      seeds: [...state.seeds],
+      owner: state.owner,
+      depositManager: state.depositManager,
+      minimumStake: state.minimumStake,
+      bootstrap: {
+        seedVouchCount: state.seedVouchCount,
+        maxSeedVouches,
+        complete: state.bootstrapComplete,
+        remaining: state.bootstrapComplete ? 0 : Math.max(0, maxSeedVouches - state.seedVouchCount),
+      },
+    };
+  }
+
+  node(address: string): Node {
+    return indexedNodeToNode(this.indexedNode(address));
+  }
+
+  neighbors(address: string, direction: "in" | "out", { offset, limit }: { offset: number; limit: number }): Page<Node> {
+    const node = this.indexedNode(address);
+    const list = direction === "in" ? node.inNeighbors : node.outNeighbors;
+    return { total: list.length, offset, limit, items: list.slice(offset, offset + limit).map((a) => this.node(a)) };
+  }
+
+  async neighborhood(address: string, depth: number, direction: NeighborDirection): Promise<NeighborhoodResponse> {
+    const root = this.indexedNode(address);
+    const state = this.indexer.state;
+    const walk = await neighborhood(root.address, depth, direction, async (a) => {
+      const node = state.nodes[a];
+      return { inNeighbors: node?.inNeighbors ?? [], outNeighbors: node?.outNeighbors ?? [] };
+    });
+    return { ...walk, depth, nodes: walk.layers.flat().map((a) => this.node(a)) };
+  }
+
+  // Every vouch, activation and rank change the address took part in, oldest first, with block timestamps
+  async events(address: string, { offset, limit }: { offset: number; limit: number }): Promise<Page<HistoryEvent>> {
+    const { address: a } = this.indexedNode(address);
+    const involved = this.indexer.events.filter((e) => ("from" in e ? e.from === a || e.to === a : "node" in e && e.node === a));
+    const items = involved.slice(offset, offset + limit);
+    await fetchBlockTimestamps(this.indexer.provider, items, this.timestamps);
+    return { total: involved.length, offset, limit, items: items.map((e) => ({ ...e, timestamp: this.timestamps.get(e.blockHash)! })) };
+  }
+
+  // By score: highest first; by rank: lowest first. Ties go to the other value, then the address
+  leaderboard(by: LeaderboardOrder, { offset, limit }: { offset: number; limit: number }): Page<Node> {
+    const nodes = Object.values(this.indexer.state.nodes);
+    const byScore = (a: IndexedState["nodes"][string], b: IndexedState["nodes"][string]) => compare(b.score, a.score);
+    const byRank = (a: IndexedState["nodes"][string], b: IndexedState["nodes"][string]) => compare(a.rank, b.rank);
+    const [first, second] = by === "score" ? [byScore, byRank] : [byRank, byScore];
+    nodes.sort((a, b) => first(a, b) || second(a, b) || a.address.localeCompare(b.address));
+    return { total: nodes.length, offset, limit, items: nodes.slice(offset, offset + limit).map(indexedNodeToNode) };
+  }
+
+  private indexedNode(address: string) {
+    const node = this.indexer.state.nodes[address.toLowerCase()];
+    if (!node) throw new ApiError(404, `${address.toLowerCase()} has not taken part in the network`);
+    return node;
+  }
+}
+
+function compare(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function integer(query: Query, name: string, fallback: number, min: number, max: number): number {
+  const text = query.get(name);
+  if (text === null || text === "") return fallback;
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new ApiError(400, `${name} must be an integer from ${min} to ${max} (got ${text})`);
+  }
+  return value;
+}
+
+function oneOf<T extends string>(query: Query, name: string, values: readonly T[]): T {
+  const text = query.get(name) ?? values[0];
+  if (!values.includes(text as T)) throw new ApiError(400, `${name} must be one of ${values.join(", ")} (got ${text})`);
+  return text as T;
+}
+
+function page(query: Query): { offset: number; limit: number } {
+  return {
+    offset: integer(query, "offset", 0, 0, Number.MAX_SAFE_INTEGER),
+    limit: integer(query, "limit", DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE),
+  };
+}
+
+// The URL a listening server answers on
+export function apiUrl(server: http.Server): string {
+  const { address, port } = server.address() as AddressInfo;
+  return `http://${address.includes(":") ? `[${address}]` : address}:${port}${API_PREFIX}`;
+}
@@ -0,0 +1,134 @@
+import type { VouchClient } from "./client";
+import { addressesFromEvents, edgeId } from "./graph";
+import type { Edge, Graph, VouchEventRecord } from "./types";
+
+/**
+ * The one place exports build their graph: nodes as the contract holds them,
+ * and the live edge set replayed from created and removed vouches (or taken
+ * from hasEdge), checked against the nodes' outNeighbors.
+ */
+
+export interface LabeledEdge extends Edge {
+  // the VouchCreated that made the current edge
+  createdAtBlock: number;
+  txHash: string;
+  // blocks where earlier vouches between the same pair were removed, oldest first
+  priorRemovals: number[];
+}
+
+export interface EdgeInterval {
+  startBlock: number;
+  // the block of the VouchRemoved; null while the vouch stands
+  endBlock: number | null;
+}
+
+export interface EdgeMismatch {
+  from: string;
+  to: string;
+  inEdgeSet: boolean;
+  inOutNeighbors: boolean;
+}
+
+export interface AssembledGraph extends Graph {
+  edges: LabeledEdge[];
+  // VouchRemoved events seen
+  removals: number;
+  // differences between the edge set and getOutNeighbors; empty when consistent
+  mismatches: EdgeMismatch[];
+}
+
+export interface GraphEvents {
+  created: readonly VouchEventRecord[];
+  removed: readonly VouchEventRecord[];
+  seeds: readonly string[];
+}
+
+export interface AssembleOptions {
+  // where the live edge set comes from: the event replay, or hasEdge for every pair that was ever vouched
+  edges?: "events" | "hasEdge";
+  onProgress?: (processed: number, total: number) => void;
+}
+
+/**
+ * Replays created and removed vouches in chain order and returns the edges
+ * that are still live, in the order they were (last) created.
+ */
+export function liveEdges(created: readonly VouchEventRecord[], removed: readonly VouchEventRecord[]): LabeledEdge[] {
+  return [...replayEdges(created, removed).values()].filter((e) => e.live).map(({ live, ...edge }) => edge);
+}
+
+/**
+ * The block spans each pair's vouches existed in, oldest first; the last
+ * span is open (endBlock null) while the edge is live.
+ */
+export function edgeIntervals(
+  created: readonly VouchEventRecord[],
+  removed: readonly VouchEventRecord[]
+): Map<string, EdgeInterval[]> {
+  const intervals = new Map<string, EdgeInterval[]>();
+  for (const { event, live } of chainOrder(created, removed)) {
+    const id = edgeId(event.from, event.to);
+    const spans = intervals.get(id) ?? [];
+    intervals.set(id, spans);
+    if (live) spans.push({ startBlock: event.blockNumber, endBlock: null });
+    else if (spans.length > 0) spans[spans.length - 1].endBlock = event.blockNumber;
+  }
+  return intervals;
+}
+
+function chainOrder(created: readonly VouchEventRecord[], removed: readonly VouchEventRecord[]) {
+  return [
+    ...created.map((event) => ({ event, live: true })),
+    ...removed.map((event) => ({ event, live: false })),
+  ].sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.logIndex - b.event.logIndex);
+}
+
+// Every pair ever vouched, labeled with its last creation, in order of that creation
+function replayEdges(
+  created: readonly VouchEventRecord[],
+  removed: readonly VouchEventRecord[]
+): Map<string, LabeledEdge & { live: boolean }> {
+  const edges = new Map<string, LabeledEdge & { live: boolean }>();
+  for (const { event, live } of chainOrder(created, removed)) {
+    const id = edgeId(event.from, event.to);
+    const previous = edges.get(id);
+    if (!live) {
+      if (previous) previous.live = false;
+      previous?.priorRemovals.push(event.blockNumber);
+      continue;
+    }
+    // re-inserted so the map keeps creation order; the removals so far become prior removals
+    edges.delete(id);
+    const { from, to, blockNumber, txHash } = event;
+    edges.set(id, { id, from, to, createdAtBlock: blockNumber, txHash, priorRemovals: previous?.priorRemovals ?? [], live });
+  }
+  return edges;
+}
+
+/**
+ * Reads every address that ever took part and assembles the live graph.
+ * Events and node reads should cover the same blocks (sync the events right
+ * before), or vouches in between show up as mismatches.
+ */
+export async function assembleGraph(client: VouchClient, source: GraphEvents, options: AssembleOptions = {}): Promise<AssembledGraph> {
+  const seeds = [...source.seeds];
+  const nodes = await client.getNodes(addressesFromEvents([...source.created]), seeds, options.onProgress);
+  const replayed = replayEdges(source.created, source.removed);
+  // which pairs are live comes from the events, or from the contract; the labels always come from the events
+  const live =
+    options.edges === "hasEdge"
+      ? await client.hasEdges([...replayed.values()].map((e): [string, string] => [e.from, e.to]))
+      : [...replayed.values()].map((e) => e.live);
+  const edges: LabeledEdge[] = [...replayed.values()].filter((_, i) => live[i]).map(({ live, ...edge }) => edge);
+
+  const fromEdgeSet = new Set(edges.map((e) => e.id));
+  const fromNodes = new Set(nodes.flatMap((n) => n.outNeighbors.map((to) => edgeId(n.address, to))));
+  const mismatches: EdgeMismatch[] = [];
+  for (const id of new Set([...fromEdgeSet, ...fromNodes])) {
+    if (fromEdgeSet.has(id) && fromNodes.has(id)) continue;
+    const [from, to] = id.split("-");
+    mismatches.push({ from, to, inEdgeSet: fromEdgeSet.has(id), inOutNeighbors: fromNodes.has(id) });
+  }
+
+  return { nodes, edges, seeds, removals: source.removed.length, mismatches };
+}
@@ -0,0 +1,457 @@
+// Network explorer for a syb-graph export (see sdk/explorer.ts). Runs offline:
+// the document is embedded in the page and nothing is loaded from elsewhere.
+(function () {
+  "use strict";
+
+  const doc = JSON.parse(document.getElementById("graph-data").textContent);
+  const DEFAULT_RANK = 6n;
+
+  // ============================================
+  // Graph
+  // ============================================
+  const nodes = doc.nodes.map((n, i) => {
+    // golden-angle spiral, so the layout starts spread out and is the same on every load
+    const angle = i * 2.399963;
+    const radius = 12 * Math.sqrt(i + 1);
+    return {
+      ...n,
+      rank: BigInt(n.rank),
+      score: BigInt(n.score),
+      rankText: n.rank,
+      x: radius * Math.cos(angle),
+      y: radius * Math.sin(angle),
+      vx: 0,
+      vy: 0,
+      firstBlock: Infinity,
+      visible: true,
+    };
+  });
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const edges = [...doc.edges.map((e) => ({ ...e, live: true })), ...doc.removedEdges.map((e) => ({ ...e, live: false }))]
+    .filter((e) => byId.has(e.source) && byId.has(e.target))
+    .map((e) => ({ ...e, from: byId.get(e.source), to: byId.get(e.target), existed: e.live, visible: e.live }));
+  for (const e of edges) {
+    const start = e.intervals.length ? e.intervals[0].startBlock : Infinity;
+    e.from.firstBlock = Math.min(e.from.firstBlock, start);
+    e.to.firstBlock = Math.min(e.to.firstBlock, start);
+  }
+  for (const n of nodes) n.radius = 4 + 2 * Math.sqrt(n.inCount + n.outCount) + (n.isSeed ? 2 : 0);
+
+  // ============================================
+  // Colors: rank on a log3 scale, green (rank 1) to red (the worst rank)
+  // ============================================
+  const log3 = (value) => Math.log(Number(value)) / Math.log(3);
+  const maxRank = nodes.reduce((max, n) => (n.rank > max ? n.rank : max), DEFAULT_RANK);
+  const rankColor = (rank) => {
+    const t = maxRank > 1n ? Math.min(1, log3(rank) / log3(maxRank)) : 0;
+    return `hsl(${Math.round(130 * (1 - t))}, 65%, 45%)`;
+  };
+
+  // ============================================
+  // Header, legend and search
+  // ============================================
+  const $ = (id) => document.getElementById(id);
+  const meta = doc.metadata;
+  $("contract").textContent = meta.contractAddress;
+  $("meta").textContent = [
+    meta.network ? `${meta.network}${meta.chainId ? ` (chain ${meta.chainId})` : ""}` : meta.chainId ? `chain ${meta.chainId}` : null,
+    meta.blockNumber !== null ? `block ${meta.blockNumber}` : null,
+    `exported ${meta.exportedAt}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  $("legend-bar").style.background = `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map((t) => `hsl(${Math.round(130 * (1 - t))}, 65%, 45%)`).join(", ")})`;
+  $("legend-max").textContent = `rank ${maxRank}`;
+
+  const addresses = $("addresses");
+  for (const n of nodes) {
+    const option = document.createElement("option");
+    option.value = n.id;
+    addresses.appendChild(option);
+  }
+  $("search").addEventListener("change", (event) => {
+    const query = event.target.value.trim().toLowerCase();
+    if (!query) return;
+    const node = byId.get(query) || nodes.find((n) => n.id.startsWith(query)) || nodes.find((n) => n.id.includes(query));
+    if (!node) {
+      $("search-result").textContent = "No such address";
+      return;
+    }
+    $("search-result").textContent = "";
+    select(node, true);
+  });
+
+  // ============================================
+  // Filters and timeline
+  // ============================================
+  const blocks = [...new Set(doc.timeline.map((e) => e.blockNumber))].sort((a, b) => a - b);
+  const blockTimes = new Map(doc.timeline.map((e) => [e.blockNumber, e.timestamp]));
+  const slider = $("time");
+  slider.max = String(blocks.length);
+  slider.value = slider.max;
+  slider.disabled = blocks.length === 0;
+
+  // null: now (the live edges)
+  function currentBlock() {
+    const index = Number(slider.value);
+    return index >= blocks.length ? null : blocks[index];
+  }
+
+  function bound(id) {
+    const text = $(id).value.trim();
+    if (!text) return null;
+    try {
+      return BigInt(text);
+    } catch {
+      $(id).setCustomValidity("Not a whole number");
+      $(id).reportValidity();
+      return null;
+    }
+  }
+
+  function applyFilters() {
+    for (const id of ["rank-min", "rank-max", "score-min", "score-max"]) $(id).setCustomValidity("");
+    const [rankMin, rankMax, scoreMin, scoreMax] = ["rank-min", "rank-max", "score-min", "score-max"].map(bound);
+    const block = currentBlock();
+    for (const n of nodes) {
+      n.visible =
+        (block === null || n.firstBlock <= block) &&
+        (rankMin === null || n.rank >= rankMin) &&
+        (rankMax === null || n.rank <= rankMax) &&
+        (scoreMin === null || n.score >= scoreMin) &&
+        (scoreMax === null || n.score <= scoreMax);
+    }
+    for (const e of edges) {
+      e.existed =
+        block === null ? e.live : e.intervals.some((i) => i.startBlock <= block && (i.endBlock === null || i.endBlock > block));
+      e.visible = e.existed && e.from.visible && e.to.visible;
+    }
+    if (block === null) {
+      $("time-label").textContent = `now · ${doc.edges.length} live vouches`;
+    } else {
+      const time = blockTimes.get(block);
+      const date = time === null || time === undefined ? "" : ` · ${new Date(time * 1000).toISOString().replace("T", " ").slice(0, 19)} UTC`;
+      // the export has ranks and scores as of now only
+      $("time-label").textContent = `block ${block}${date} · colors show current ranks`;
+    }
+    const shownNodes = nodes.filter((n) => n.visible).length;
+    const shownEdges = edges.filter((e) => e.visible).length;
+    $("stats").textContent = `${shownNodes} of ${nodes.length} nodes, ${shownEdges} vouches shown`;
+    heat(0.3);
+    // the panel's neighbor lists follow the timeline
+    if (selected) select(selected, false);
+  }
+
+  for (const id of ["rank-min", "rank-max", "score-min", "score-max"]) $(id).addEventListener("input", applyFilters);
+  slider.addEventListener("input", applyFilters);
+  $("reset").addEventListener("click", () => {
+    for (const id of ["rank-min", "rank-max", "score-min", "score-max"]) $(id).value = "";
+    slider.value = slider.max;
+    applyFilters();
+  });
+
+  // ============================================
+  // Zoom-in panel (as in query-network.ts)
+  // ============================================
+  let selected = null;
+  // the selected node's neighbors over the edges that existed at the timeline's block
+  let selectedIn = [];
+  let selectedOut = [];
+
+  function neighborList(title, list) {
+    const section = document.createDocumentFragment();
+    const heading = document.createElement("h2");
+    heading.textContent = `${title} (${list.length})`;
+    section.appendChild(heading);
+    if (list.length === 0) {
+      const empty = document.createElement("div");
+      empty.className = "empty";
+      empty.textContent = "none";
+      section.appendChild(empty);
+      return section;
+    }
+    const ol = document.createElement("ol");
+    for (const neighbor of list) {
+      const li = document.createElement("li");
+      const link = document.createElement("a");
+      link.textContent = neighbor.id;
+      link.addEventListener("click", () => select(neighbor, true));
+      const info = document.createElement("span");
+      info.className = "info";
+      const now = currentBlock() === null ? "" : " now";
+      info.textContent = `Rank${now}: ${neighbor.rankText}, Score${now}: ${neighbor.score}${neighbor.isSeed ? " ⭐" : ""}`;
+      li.append(link, info);
+      ol.appendChild(li);
+    }
+    section.appendChild(ol);
+    return section;
+  }
+
+  function select(node, center) {
+    selected = node;
+    selectedIn = node ? edges.filter((e) => e.existed && e.to === node).map((e) => e.from) : [];
+    selectedOut = node ? edges.filter((e) => e.existed && e.from === node).map((e) => e.to) : [];
+    const block = currentBlock();
+    const panel = $("panel");
+    panel.textContent = "";
+    if (!node) {
+      panel.innerHTML = '<h2>Zoom-in view</h2><div class="empty">Click a node or search for an address.</div>';
+      draw();
+      return;
+    }
+    const heading = document.createElement("h2");
+    heading.textContent = block === null ? "Zoom-in view" : `Zoom-in view at block ${block}`;
+    const address = document.createElement("div");
+    address.className = "address";
+    address.textContent = node.id;
+    const facts = document.createElement("dl");
+    for (const [term, value] of [
+      [block === null ? "Rank" : "Rank (now)", node.rankText],
+      [block === null ? "Score" : "Score (now)", String(node.score)],
+      ["Is Seed", node.isSeed ? "Yes ⭐" : "No"],
+      ["In / Out", block === null ? `${node.inCount} / ${node.outCount}` : `${selectedIn.length} / ${selectedOut.length}`],
+    ]) {
+      const dt = document.createElement("dt");
+      dt.textContent = term;
+      const dd = document.createElement("dd");
+      dd.textContent = value;
+      facts.append(dt, dd);
+    }
+    panel.append(heading, address, facts, neighborList("Incoming Vouches", selectedIn), neighborList("Outgoing Vouches", selectedOut));
+    if (center) {
+      view.x = -node.x * view.scale;
+      view.y = -node.y * view.scale;
+    }
+    draw();
+  }
+
+  // ============================================
+  // Force layout
+  // ============================================
+  let alpha = 1;
+  const CELL = 90;
+
+  function heat(value) {
+    alpha = Math.max(alpha, value);
+  }
+
+  function tick() {
+    const shown = nodes.filter((n) => n.visible);
+    // repulsion between nodes in neighboring grid cells only, so a tick stays linear in the node count
+    const grid = new Map();
+    for (const n of shown) {
+      const key = `${Math.floor(n.x / CELL)},${Math.floor(n.y / CELL)}`;
+      if (!grid.has(key)) grid.set(key, []);
+      grid.get(key).push(n);
+    }
+    for (const n of shown) {
+      const cx = Math.floor(n.x / CELL);
+      const cy = Math.floor(n.y / CELL);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (const m of grid.get(`${cx + dx},${cy + dy}`) || []) {
+            if (m === n) continue;
+            let ddx = n.x - m.x;
+            let ddy = n.y - m.y;
+            let d2 = ddx * ddx + ddy * ddy;
+            if (d2 === 0) {
+              ddx = Math.random() - 0.5;
+              ddy = Math.random() - 0.5;
+              d2 = 0.25;
+            }
+            if (d2 > CELL * CELL) continue;
+            const force = (600 * alpha) / d2;
+            n.vx += ddx * force;
+            n.vy += ddy * force;
+          }
+        }
+      }
+      // weak pull to the center keeps unconnected parts on screen
+      n.vx -= n.x * 0.002 * alpha;
+      n.vy -= n.y * 0.002 * alpha;
+    }
+    for (const e of edges) {
+      if (!e.visible) continue;
+      const dx = e.to.x - e.from.x;
+      const dy = e.to.y - e.from.y;
+      const d = Math.sqrt(dx * dx + dy * dy) || 1;
+      const force = ((d - 50) / d) * 0.05 * alpha;
+      e.from.vx += dx * force;
+      e.from.vy += dy * force;
+      e.to.vx -= dx * force;
+      e.to.vy -= dy * force;
+    }
+    for (const n of shown) {
+      if (n === dragged) continue;
+      n.vx *= 0.6;
+      n.vy *= 0.6;
+      n.x += n.vx;
+      n.y += n.vy;
+    }
+    alpha *= 0.985;
+  }
+
+  // ============================================
+  // Drawing, pan and zoom
+  // ============================================
+  const canvas = $("canvas");
+  const context = canvas.getContext("2d");
+  const view = { x: 0, y: 0, scale: 1 };
+
+  function resize() {
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.clientWidth * ratio;
+    canvas.height = canvas.clientHeight * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    draw();
+  }
+
+  function toScreen(n) {
+    return [canvas.clientWidth / 2 + view.x + n.x * view.scale, canvas.clientHeight / 2 + view.y + n.y * view.scale];
+  }
+
+  function toWorld(sx, sy) {
+    return [(sx - canvas.clientWidth / 2 - view.x) / view.scale, (sy - canvas.clientHeight / 2 - view.y) / view.scale];
+  }
+
+  function draw() {
+    context.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+    const focus = selected ? new Set([selected, ...selectedIn, ...selectedOut]) : null;
+
+    for (const e of edges) {
+      if (!e.visible) continue;
+      const [x1, y1] = toScreen(e.from);
+      const [x2, y2] = toScreen(e.to);
+      const near = focus && (e.from === selected || e.to === selected);
+      context.strokeStyle = near ? "rgba(37, 99, 235, 0.9)" : focus ? "rgba(82, 96, 109, 0.08)" : "rgba(82, 96, 109, 0.35)";
+      context.lineWidth = near ? 1.6 : 1;
+      context.beginPath();
+      context.moveTo(x1, y1);
+      context.lineTo(x2, y2);
+      context.stroke();
+      // arrowhead at the target's rim
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const r = e.to.radius * view.scale;
+      const tipX = x2 - Math.cos(angle) * r;
+      const tipY = y2 - Math.sin(angle) * r;
+      const size = Math.max(3, 5 * Math.min(view.scale, 1.5));
+      context.fillStyle = context.strokeStyle;
+      context.beginPath();
+      context.moveTo(tipX, tipY);
+      context.lineTo(tipX - size * Math.cos(angle - 0.4), tipY - size * Math.sin(angle - 0.4));
+      context.lineTo(tipX - size * Math.cos(angle + 0.4), tipY - size * Math.sin(angle + 0.4));
+      context.fill();
+    }
+
+    for (const n of nodes) {
+      if (!n.visible) continue;
+      const [x, y] = toScreen(n);
+      const r = n.radius * view.scale;
+      context.globalAlpha = focus && !focus.has(n) ? 0.2 : 1;
+      context.fillStyle = rankColor(n.rank);
+      context.beginPath();
+      context.arc(x, y, r, 0, 2 * Math.PI);
+      context.fill();
+      if (n.isSeed) {
+        context.strokeStyle = "#d4a017";
+        context.lineWidth = 3;
+        context.stroke();
+      }
+      if (n === selected) {
+        context.strokeStyle = "#1f2933";
+        context.lineWidth = 2;
+        context.beginPath();
+        context.arc(x, y, r + 4, 0, 2 * Math.PI);
+        context.stroke();
+      }
+    }
+    context.globalAlpha = 1;
+  }
+
+  function nodeAt(sx, sy) {
+    const [wx, wy] = toWorld(sx, sy);
+    let best = null;
+    let bestDistance = Infinity;
+    for (const n of nodes) {
+      if (!n.visible) continue;
+      const d = Math.hypot(n.x - wx, n.y - wy);
+      if (d <= n.radius + 3 / view.scale && d < bestDistance) {
+        best = n;
+        bestDistance = d;
+      }
+    }
+    return best;
+  }
+
+  let dragged = null;
+  let panning = null;
+  let moved = false;
+  canvas.addEventListener("mousedown", (event) => {
+    moved = false;
+    dragged = nodeAt(event.offsetX, event.offsetY);
+    if (!dragged) panning = { x: event.clientX - view.x, y: event.clientY - view.y };
+    canvas.classList.add("dragging");
+  });
+  window.addEventListener("mousemove", (event) => {
+    if (dragged) {
+      const rect = canvas.getBoundingClientRect();
+      [dragged.x, dragged.y] = toWorld(event.clientX - rect.left, event.clientY - rect.top);
+      moved = true;
+      heat(0.1);
+      draw();
+    } else if (panning) {
+      view.x = event.clientX - panning.x;
+      view.y = event.clientY - panning.y;
+      moved = true;
+      draw();
+    }
+  });
+  window.addEventListener("mouseup", (event) => {
+    if (!moved && event.target === canvas) select(nodeAt(event.offsetX, event.offsetY), false);
+    dragged = null;
+    panning = null;
+    canvas.classList.remove("dragging");
+  });
+  canvas.addEventListener("mousemove", (event) => {
+    const tooltip = $("tooltip");
+    const node = nodeAt(event.offsetX, event.offsetY);
+    if (!node) {
+      tooltip.style.display = "none";
+      return;
+    }
+    tooltip.textContent = `${node.label} · rank ${node.rankText} · score ${node.score}${node.isSeed ? " · seed" : ""}`;
+    tooltip.style.left = `${event.offsetX + 12}px`;
+    tooltip.style.top = `${event.offsetY + 12}px`;
+    tooltip.style.display = "block";
+  });
+  canvas.addEventListener(
+    "wheel",
+    (event) => {
+      event.preventDefault();
+      const factor = Math.exp(-event.deltaY * 0.0015);
+      const scale = Math.min(8, Math.max(0.05, view.scale * factor));
+      // keep the point under the cursor in place
+      const [wx, wy] = toWorld(event.offsetX, event.offsetY);
+      view.scale = scale;
+      view.x = event.offsetX - canvas.clientWidth / 2 - wx * scale;
+      view.y = event.offsetY - canvas.clientHeight / 2 - wy * scale;
+      draw();
+    },
+    { passive: false }
+  );
+
+  function frame() {
+    if (alpha > 0.005) {
+      tick();
+      draw();
+    }
+    requestAnimationFrame(frame);
+  }
+
+  window.addEventListener("resize", resize);
+  resize();
+  applyFilters();
+  heat(1);
+  select(null, false);
+  requestAnimationFrame(frame);
+})();
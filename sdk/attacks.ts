@@ -0,0 +1,269 @@
+import { id } from "ethers";
+import { VouchModel } from "./model";
+import { Prng } from "./random";
+import { computeFixpoint } from "./staleness";
+import type { ContractConstants, Graph, VouchOperation } from "./types";
+
+/**
+ * Attack simulations on the off-chain model: how good a rank and score an
+ * attacker's identities reach under the ranking rules, and what that costs
+ * in edges, transactions and stake. Everything runs on a clone of an honest
+ * network, so one network can be attacked with every strategy in turn.
+ */
+
+export type SybilTopology = "ring" | "clique" | "none";
+
+export type AttackStrategy =
+  // Sybils vouching only for each other
+  | { kind: "sybilRing"; sybils: number; topology?: SybilTopology }
+  // a seed's key is stolen: the seed vouches for every Sybil
+  | { kind: "compromisedSeed"; sybils: number; topology?: SybilTopology; seed?: number }
+  // `vouches` honest nodes are paid to vouch for an entry identity, which vouches for every Sybil
+  | { kind: "boughtVouches"; vouches: number; sybils: number; topology?: SybilTopology; sellers?: "best" | "random" }
+  // as boughtVouches, but the vouches are only rented: withdrawn once the Sybils hold their ranks, which then go stale
+  | { kind: "churn"; rented: number; sybils: number; topology?: SybilTopology };
+
+export interface AttackNetwork {
+  model: VouchModel;
+  honest: string[];
+  seeds: string[];
+}
+
+export interface HonestNetworkOptions {
+  // nodes, including the 6 bootstrap seeds
+  size: number;
+  // vouches each joining node receives from earlier nodes
+  degree?: number;
+  seed?: number;
+  constants?: ContractConstants;
+}
+
+export interface AttackIdentity {
+  name: string;
+  address: string;
+  rank: bigint;
+  score: bigint;
+  // where the rank ends up once everything is recomputed; null when no seed reaches the identity
+  fixpointRank: bigint | null;
+}
+
+export interface AttackCost {
+  // identities the attacker controls (including a compromised seed)
+  identities: number;
+  // vouches sent by those identities
+  attackerEdges: number;
+  // vouches bought or rented from honest nodes
+  honestVouches: number;
+  // every vouch and unvouch the attack sends
+  transactions: number;
+  // identities that send a vouch, each of which needs the minimum stake
+  stakedIdentities: number;
+  stake: bigint;
+}
+
+export interface AttackResult {
+  strategy: AttackStrategy;
+  identities: AttackIdentity[];
+  best: { rank: bigint; score: bigint };
+  // identities ranked at least as well as the median honest node
+  atHonestMedian: number;
+  // identities whose rank is better than their fixpoint rank (or that have none)
+  stale: number;
+  cost: AttackCost;
+}
+
+export interface AttackReport {
+  honest: { nodes: number; edges: number; medianRank: bigint; medianScore: bigint };
+  minimumStake: bigint;
+  results: AttackResult[];
+}
+
+// One of each strategy, with `vouches` bought or rented vouches
+export function defaultAttacks(sybils: number, vouches = 3): AttackStrategy[] {
+  return [
+    { kind: "sybilRing", sybils, topology: "clique" },
+    { kind: "compromisedSeed", sybils, topology: "ring" },
+    { kind: "boughtVouches", vouches, sybils, topology: "ring", sellers: "random" },
+    { kind: "boughtVouches", vouches, sybils, topology: "ring", sellers: "best" },
+    { kind: "churn", rented: vouches, sybils, topology: "ring" },
+  ];
+}
+
+export function describeAttack(strategy: AttackStrategy): string {
+  const sybils = `${strategy.sybils} Sybils, ${strategy.topology ?? "ring"}`;
+  switch (strategy.kind) {
+    case "sybilRing":
+      return `Sybil ring (${sybils})`;
+    case "compromisedSeed":
+      return `compromised seed #${strategy.seed ?? 0} (${sybils})`;
+    case "boughtVouches":
+      return `${strategy.vouches} bought vouches from ${strategy.sellers === "random" ? "random" : "the best"} honest nodes (${sybils})`;
+    case "churn":
+      return `${strategy.rented} rented vouches, withdrawn afterwards (${sybils})`;
+  }
+}
+
+/**
+ * A random honest network: the bootstrap chain of seeds, then nodes that
+ * each receive `degree` vouches from random earlier nodes.
+ */
+export function honestNetwork(options: HonestNetworkOptions): AttackNetwork {
+  const { size, degree = 2, seed = 1 } = options;
+  const model = new VouchModel({ constants: options.constants });
+  const seedCount = Number(model.constants.maxSeedVouches) + 1;
+  if (!Number.isInteger(size) || size < seedCount) throw new Error(`An honest network needs at least ${seedCount} nodes (got ${size})`);
+  const rng = new Prng(seed);
+  const honest = Array.from({ length: size }, (_, i) => identityAddress(`honest[${i}]`));
+
+  for (let i = 1; i < seedCount; i++) model.vouch(honest[i - 1], honest[i]);
+  for (let i = seedCount; i < size; i++) {
+    const vouchers = new Set<string>();
+    while (vouchers.size < Math.min(degree, i)) vouchers.add(honest[rng.int(i)]);
+    for (const from of vouchers) model.vouch(from, honest[i]);
+  }
+  return { model, honest, seeds: honest.slice(0, seedCount) };
+}
+
+// An attack network from a graph snapshot (e.g. an export of the live graph)
+export function networkFromGraph(graph: Graph, constants?: ContractConstants): AttackNetwork {
+  const model = new VouchModel({ constants });
+  model.seedVouchCount = model.constants.maxSeedVouches;
+  for (const node of graph.nodes) model.restoreNode(node.address, node);
+  return { model, honest: graph.nodes.map((n) => n.address), seeds: graph.seeds.map((a) => a.toLowerCase()) };
+}
+
+/**
+ * Runs each strategy on its own copy of `network`. Stake is counted as
+ * `minimumStake` per identity that sends a vouch; `seed` picks the sellers
+ * of `sellers: "random"`.
+ */
+export function simulateAttacks(
+  network: AttackNetwork,
+  strategies: AttackStrategy[],
+  options: { minimumStake?: bigint; seed?: number } = {}
+): AttackReport {
+  const minimumStake = options.minimumStake ?? 0n;
+  const seed = options.seed ?? 1;
+  const ranks = network.honest.map((a) => network.model.getRank(a));
+  const scores = network.honest.map((a) => network.model.getScore(a));
+  const honest = {
+    nodes: network.honest.length,
+    edges: network.honest.reduce((n, a) => n + Number(network.model.getOutdegree(a)), 0),
+    medianRank: median(ranks),
+    medianScore: median(scores),
+  };
+  return { honest, minimumStake, results: strategies.map((s) => runAttack(network, s, { minimumStake, seed, medianRank: honest.medianRank })) };
+}
+
+function runAttack(
+  network: AttackNetwork,
+  strategy: AttackStrategy,
+  { minimumStake, seed, medianRank }: { minimumStake: bigint; seed: number; medianRank: bigint }
+): AttackResult {
+  if (!Number.isInteger(strategy.sybils) || strategy.sybils < 1) throw new Error(`${strategy.kind}: needs at least one Sybil`);
+  const model = network.model.clone();
+  const sybils = Array.from({ length: strategy.sybils }, (_, i) => identityAddress(`sybil[${i}]`));
+  const names = new Map<string, string>();
+  const attackers = new Set(sybils);
+  const operations: VouchOperation[] = [];
+  let honestVouches = 0;
+  const send = (action: VouchOperation["action"], from: string, to: string) => {
+    model.apply({ action, from, to });
+    operations.push({ action, from, to });
+  };
+
+  if (strategy.kind === "compromisedSeed") {
+    const seed = network.seeds[strategy.seed ?? 0];
+    if (!seed) throw new Error(`compromisedSeed: no seed #${strategy.seed ?? 0}`);
+    names.set(seed, "seed");
+    attackers.add(seed);
+    for (const sybil of sybils) send("vouch", seed, sybil);
+  } else if (strategy.kind === "boughtVouches" || strategy.kind === "churn") {
+    const count = strategy.kind === "churn" ? strategy.rented : strategy.vouches;
+    const sellers =
+      strategy.kind === "boughtVouches" && strategy.sellers === "random"
+        ? randomSellers(network, count, seed)
+        : bestSellers(network, count);
+    const entry = identityAddress("entry");
+    names.set(entry, "entry");
+    attackers.add(entry);
+    for (const seller of sellers) send("vouch", seller, entry);
+    honestVouches = sellers.length;
+    for (const sybil of sybils) send("vouch", entry, sybil);
+    wire(strategy.topology, sybils, send);
+    if (strategy.kind === "churn") for (const seller of sellers) send("unvouch", seller, entry);
+  }
+  if (strategy.kind !== "boughtVouches" && strategy.kind !== "churn") wire(strategy.topology, sybils, send);
+  sybils.forEach((a, i) => names.set(a, `sybil[${i}]`));
+
+  const nodes = model.addresses().map((a) => model.getNodeInfo(a));
+  const fixpoint = computeFixpoint({ nodes, edges: [], seeds: network.seeds }, model.constants);
+  const identities: AttackIdentity[] = [...names].map(([address, name]) => ({
+    name,
+    address,
+    rank: model.getRank(address),
+    score: model.getScore(address),
+    fixpointRank: fixpoint.ranks.get(address) ?? null,
+  }));
+  const senders = new Set(operations.filter((op) => op.action === "vouch" && attackers.has(op.from)).map((op) => op.from));
+
+  return {
+    strategy,
+    identities,
+    best: {
+      rank: identities.reduce((best, i) => (i.rank < best ? i.rank : best), identities[0].rank),
+      score: identities.reduce((best, i) => (i.score > best ? i.score : best), identities[0].score),
+    },
+    atHonestMedian: identities.filter((i) => i.rank <= medianRank).length,
+    stale: identities.filter((i) => i.fixpointRank === null || i.rank < i.fixpointRank).length,
+    cost: {
+      identities: attackers.size,
+      attackerEdges: operations.filter((op) => op.action === "vouch" && attackers.has(op.from)).length,
+      honestVouches,
+      transactions: operations.length,
+      stakedIdentities: senders.size,
+      stake: BigInt(senders.size) * minimumStake,
+    },
+  };
+}
+
+function wire(
+  topology: SybilTopology = "ring",
+  sybils: string[],
+  send: (action: "vouch", from: string, to: string) => void
+): void {
+  if (topology === "none" || sybils.length < 2) return;
+  if (topology === "ring") {
+    sybils.forEach((from, i) => send("vouch", from, sybils[(i + 1) % sybils.length]));
+    return;
+  }
+  for (const from of sybils) for (const to of sybils) if (from !== to) send("vouch", from, to);
+}
+
+// The honest nodes with the lowest ranks (ties: highest score)
+function bestSellers(network: AttackNetwork, count: number): string[] {
+  const { model } = network;
+  return [...network.honest]
+    .sort((a, b) => {
+      const [ra, rb, sa, sb] = [model.getRank(a), model.getRank(b), model.getScore(a), model.getScore(b)];
+      return ra !== rb ? (ra < rb ? -1 : 1) : sa !== sb ? (sa > sb ? -1 : 1) : 0;
+    })
+    .slice(0, count);
+}
+
+function randomSellers(network: AttackNetwork, count: number, seed: number): string[] {
+  const rng = new Prng(seed);
+  const sellers = new Set<string>();
+  while (sellers.size < Math.min(count, network.honest.length)) sellers.add(rng.pick(network.honest));
+  return [...sellers];
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)] ?? 0n;
+}
+
+// Stand-in address for a simulated identity
+function identityAddress(name: string): string {
+  return id(`syb-attack:${name}`).slice(0, 42);
+}
@@ -0,0 +1,328 @@
+import { Result, zeroPadValue } from "ethers";
+import type { ContractRunner, ContractTransactionResponse, Interface, Log, Provider } from "ethers";
+import { VouchMinimal, VouchMinimal__factory } from "../typechain-types";
+import { addressesFromEvents, edgesFromNodes } from "./graph";
+import { FetchLogsOptions, fetchLogs } from "./logs";
+import { aggregate, hasMulticall } from "./multicall";
+import {
+  BootstrapVouchRecord,
+  Connections,
+  ContractConstants,
+  Graph,
+  Node,
+  StakeInfo,
+  VouchEventRecord,
+} from "./types";
+
+type NodeInfoResult = Awaited<ReturnType<VouchMinimal["getNodeInfo"]>>;
+
+export interface VouchClientOptions {
+  // deployment block: where event queries start unless told otherwise
+  startBlock?: number;
+  // chunking, concurrency and retry settings for eth_getLogs
+  logs?: Omit<FetchLogsOptions, "fromBlock" | "toBlock">;
+  // Multicall3 used by getNodes (defaults to the canonical address); false reads node by node
+  multicall?: { address?: string; batchSize?: number } | false;
+}
+
+/**
+ * Typed wrapper around a deployed VouchMinimal contract.
+ *
+ * Works with any ethers v6 runner, so it can be used from Hardhat scripts
+ * (`ethers.getSigners()`) as well as from a browser provider.
+ */
+export class VouchClient {
+  readonly contract: VouchMinimal;
+  readonly options: VouchClientOptions;
+
+  private multicallAvailable?: Promise<boolean>;
+
+  constructor(contract: VouchMinimal, options: VouchClientOptions = {}) {
+    this.contract = contract;
+    this.options = options;
+  }
+
+  static connect(address: string, runner: ContractRunner, options: VouchClientOptions = {}): VouchClient {
+    return new VouchClient(VouchMinimal__factory.connect(address, runner), options);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  // Returns a client bound to another signer (e.g. a generated test wallet)
+  withRunner(runner: ContractRunner): VouchClient {
+    return new VouchClient(this.contract.connect(runner), this.options);
+  }
+
+  // ---- writes ----
+  vouch(to: string): Promise<ContractTransactionResponse> {
+    return this.contract.vouch(to);
+  }
+
+  unvouch(to: string): Promise<ContractTransactionResponse> {
+    return this.contract.unvouch(to);
+  }
+
+  // Owner only
+  setMinimumStake(minimumStake: bigint): Promise<ContractTransactionResponse> {
+    return this.contract.setMinimumStake(minimumStake);
+  }
+
+  setDepositManager(depositManager: string): Promise<ContractTransactionResponse> {
+    return this.contract.setDepositManager(depositManager);
+  }
+
+  // ---- views ----
+  async getConstants(): Promise<ContractConstants> {
+    const [defaultRank, r, bonusOut, bonusCap, maxSeedVouches] = await Promise.all([
+      this.contract.DEFAULT_RANK(),
+      this.contract.R(),
+      this.contract.BONUS_OUT(),
+      this.contract.BONUS_CAP(),
+      this.contract.MAX_SEEDVOUCHES(),
+    ]);
+    return { defaultRank, r, bonusOut, bonusCap, maxSeedVouches };
+  }
+
+  async getNodeInfo(address: string): Promise<Node> {
+    return toNode(address, await this.contract.getNodeInfo(address));
+  }
+
+  async getConnections(address: string): Promise<Connections> {
+    const connections = await this.contract.getConnections(address);
+    return {
+      inNeighbors: connections.inNeighbors.map((a) => a.toLowerCase()),
+      outNeighbors: connections.outNeighbors.map((a) => a.toLowerCase()),
+    };
+  }
+
+  getRank(address: string): Promise<bigint> {
+    return this.contract.getRank(address);
+  }
+
+  hasMinimumStake(address: string): Promise<boolean> {
+    return this.contract.hasMinimumStake(address);
+  }
+
+  async getStakeInfo(address: string): Promise<StakeInfo> {
+    const [stakedAmount, minimumStake, depositManager] = await Promise.all([
+      this.contract.getStakedAmount(address),
+      this.contract.minimumStake(),
+      this.contract.depositManager(),
+    ]);
+    return {
+      address: address.toLowerCase(),
+      stakedAmount,
+      minimumStake,
+      hasMinimumStake: stakedAmount >= minimumStake,
+      depositManager: depositManager.toLowerCase(),
+    };
+  }
+
+  hasEdge(from: string, to: string): Promise<boolean> {
+    return this.contract.hasEdge(from, to);
+  }
+
+  // hasEdge for many pairs, batched like getNodes and read at one block
+  async hasEdges(pairs: [string, string][]): Promise<boolean[]> {
+    return this.readMany("hasEdge", pairs, (data) => Boolean(data[0]));
+  }
+
+  // The stored outdegree counters, which getNodeInfo does not return
+  async getOutdegrees(addresses: string[]): Promise<bigint[]> {
+    return this.readMany("getOutdegree", addresses.map((a) => [a]), (data) => BigInt(data[0]));
+  }
+
+  // ---- event queries ----
+  // Blocks default to [startBlock, chain head]; ranges are fetched in chunks
+  async queryVouchCreated(fromBlock?: number, toBlock?: number): Promise<VouchEventRecord[]> {
+    return (await this.queryEvents("VouchCreated", fromBlock, toBlock)).map(({ log, args }) => ({
+      from: args.from.toLowerCase(),
+      to: args.to.toLowerCase(),
+      toRank: args.toRank,
+      fromScore: args.fromScore,
+      toScore: args.toScore,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+    }));
+  }
+
+  // Whether `to` was ever the target of a vouch (so its stored rank is no longer 0)
+  async hasReceivedVouch(to: string, fromBlock?: number, toBlock?: number): Promise<boolean> {
+    const toTopic = zeroPadValue(to.toLowerCase(), 32);
+    return (await this.queryEvents("VouchCreated", fromBlock, toBlock, [null, toTopic])).length > 0;
+  }
+
+  async queryVouchRemoved(fromBlock?: number, toBlock?: number): Promise<VouchEventRecord[]> {
+    return (await this.queryEvents("VouchRemoved", fromBlock, toBlock)).map(({ log, args }) => ({
+      from: args.from.toLowerCase(),
+      to: args.to.toLowerCase(),
+      toRank: args.toRank,
+      fromScore: args.fromScore,
+      toScore: args.toScore,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+    }));
+  }
+
+  async queryBootstrapVouches(fromBlock?: number, toBlock?: number): Promise<BootstrapVouchRecord[]> {
+    return (await this.queryEvents("BootstrapVouchCreated", fromBlock, toBlock)).map(({ log, args }) => ({
+      from: args.from.toLowerCase(),
+      to: args.to.toLowerCase(),
+      seedNumber: args.seedNumber,
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+    }));
+  }
+
+  // Both endpoints of every bootstrap vouch, in the order they were seeded
+  async getSeedAddresses(fromBlock?: number, toBlock?: number): Promise<string[]> {
+    const seeds: string[] = [];
+    for (const vouch of await this.queryBootstrapVouches(fromBlock, toBlock)) {
+      if (!seeds.includes(vouch.from)) seeds.push(vouch.from);
+      if (!seeds.includes(vouch.to)) seeds.push(vouch.to);
+    }
+    return seeds;
+  }
+
+  /**
+   * Fetches the given addresses, flagging the ones found in `seeds`. Reads
+   * are batched through Multicall3 (one eth_call per `batchSize` nodes, all
+   * at the same block) when the chain has it, and go node by node otherwise.
+   */
+  async getNodes(
+    addresses: string[],
+    seeds: string[] = [],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<Node[]> {
+    const seedSet = new Set(seeds.map((a) => a.toLowerCase()));
+    const nodes: Node[] = [];
+    const batched = await this.canMulticall();
+    const batchSize = batched ? (this.options.multicall || {}).batchSize ?? 200 : 1;
+    const blockTag = batched ? await this.provider.getBlockNumber() : undefined;
+
+    for (let i = 0; i < addresses.length; i += batchSize) {
+      const batch = addresses.slice(i, i + batchSize);
+      const read = batched ? await this.readNodesBatch(batch, blockTag!) : [await this.getNodeInfo(batch[0])];
+      for (const node of read) {
+        node.isSeed = seedSet.has(node.address);
+        nodes.push(node);
+      }
+      onProgress?.(nodes.length, addresses.length);
+    }
+    return nodes;
+  }
+
+  /**
+   * Loads every address that ever received or gave a vouch and builds the
+   * graph from their current on-chain state. Edges come from outNeighbors,
+   * so removed vouches are not included.
+   */
+  async getGraph(onProgress?: (processed: number, total: number) => void): Promise<Graph> {
+    const [created, seeds] = await Promise.all([this.queryVouchCreated(), this.getSeedAddresses()]);
+    const nodes = await this.getNodes(addressesFromEvents(created), seeds, onProgress);
+    return { nodes, edges: edgesFromNodes(nodes), seeds };
+  }
+
+  private async queryEvents(
+    name: "VouchCreated" | "VouchRemoved" | "BootstrapVouchCreated",
+    fromBlock?: number,
+    toBlock?: number,
+    // filters on the indexed arguments, in order (null matches any)
+    argTopics: (string | null)[] = []
+  ): Promise<{ log: Log; args: Result }[]> {
+    const logs = await fetchLogs(
+      this.provider,
+      { address: this.address, topics: [this.contract.interface.getEvent(name).topicHash, ...argTopics] },
+      { ...this.options.logs, fromBlock: fromBlock ?? this.options.startBlock ?? 0, toBlock }
+    );
+    return logs.map((log) => ({ log, args: this.contract.interface.parseLog(log)!.args }));
+  }
+
+  private get provider(): Provider {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("VouchClient needs a runner with a provider for this call");
+    return provider;
+  }
+
+  private canMulticall(): Promise<boolean> {
+    if (this.options.multicall === false) return Promise.resolve(false);
+    this.multicallAvailable ??= hasMulticall(this.provider, this.options.multicall?.address);
+    return this.multicallAvailable;
+  }
+
+  private async readNodesBatch(addresses: string[], blockTag: number): Promise<Node[]> {
+    const results = await this.callBatch("getNodeInfo", addresses.map((a) => [a]), blockTag);
+    return results.map((data, i) => toNode(addresses[i], data as unknown as NodeInfoResult));
+  }
+
+  // One view function over many argument lists: batches of `batchSize` at one block, or call by call without Multicall3
+  private async readMany<T>(
+    name: "hasEdge" | "getOutdegree",
+    argsList: string[][],
+    decode: (data: Result) => T
+  ): Promise<T[]> {
+    const batched = await this.canMulticall();
+    const out: T[] = [];
+    if (!batched) {
+      const fn = this.contract.getFunction(name);
+      for (const args of argsList) out.push(decode(Result.fromItems([await fn.staticCall(...args)])));
+      return out;
+    }
+    const batchSize = (this.options.multicall || {}).batchSize ?? 200;
+    const blockTag = await this.provider.getBlockNumber();
+    for (let i = 0; i < argsList.length; i += batchSize) {
+      for (const data of await this.callBatch(name, argsList.slice(i, i + batchSize), blockTag)) out.push(decode(data));
+    }
+    return out;
+  }
+
+  // One aggregate3 call; halves the batch when the node rejects it (gas or response size)
+  private async callBatch(
+    name: "getNodeInfo" | "hasEdge" | "getOutdegree",
+    argsList: string[][],
+    blockTag: number
+  ): Promise<Result[]> {
+    const iface: Interface = this.contract.interface;
+    const requests = argsList.map((args) => ({
+      target: this.address,
+      callData: iface.encodeFunctionData(name, args),
+    }));
+
+    let results;
+    try {
+      results = await aggregate(this.contract.runner!, requests, {
+        address: (this.options.multicall || {}).address,
+        blockTag,
+      });
+    } catch (error) {
+      if (argsList.length === 1) throw error;
+      const mid = Math.ceil(argsList.length / 2);
+      return [
+        ...(await this.callBatch(name, argsList.slice(0, mid), blockTag)),
+        ...(await this.callBatch(name, argsList.slice(mid), blockTag)),
+      ];
+    }
+
+    return results.map((result, i) => {
+      if (!result.success) throw new Error(`${name}(${argsList[i].join(", ")}) failed inside multicall`);
+      return iface.decodeFunctionResult(name, result.returnData);
+    });
+  }
+}
+
+function toNode(address: string, info: NodeInfoResult): Node {
+  return {
+    address: address.toLowerCase(),
+    rank: info.rank,
+    score: info.score,
+    inCount: Number(info.inCount),
+    outCount: Number(info.outCount),
+    inNeighbors: info.inNeighbors.map((a) => a.toLowerCase()),
+    outNeighbors: info.outNeighbors.map((a) => a.toLowerCase()),
+  };
+}
@@ -0,0 +1,53 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { VerificationResult } from "./verification";
+
+/**
+ * Deployment registry: one JSON file per network (deployments/<network>.json)
+ * holding the latest deployment of each contract, keyed by contract name.
+ * Written by the deploy script and read by every other script, so the
+ * address, constructor arguments and deploy block never have to be passed
+ * by hand.
+ */
+
+export interface DeploymentRecord {
+  contract: string;
+  address: string;
+  network: string;
+  chainId: string;
+  // exactly as passed to the constructor, for verification
+  constructorArgs: string[];
+  deployer: string;
+  blockNumber: number;
+  txHash: string;
+  // keccak256 of the deployed runtime bytecode (EXTCODEHASH)
+  bytecodeHash: string;
+  deployedAt: string;
+  // latest result per explorer, written by the verify script
+  verification?: VerificationResult[];
+}
+
+export type DeploymentFile = Record<string, DeploymentRecord>;
+
+export function deploymentFilePath(dir: string, network: string): string {
+  return path.join(dir, `${network}.json`);
+}
+
+export function readDeployments(dir: string, network: string): DeploymentFile {
+  const filePath = deploymentFilePath(dir, network);
+  if (!fs.existsSync(filePath)) return {};
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as DeploymentFile;
+}
+
+export function readDeployment(dir: string, network: string, contract = "VouchMinimal"): DeploymentRecord | null {
+  return readDeployments(dir, network)[contract] ?? null;
+}
+
+// Records `record` as the current deployment of its contract, keeping the other contracts
+export function writeDeployment(dir: string, record: DeploymentRecord): string {
+  const filePath = deploymentFilePath(dir, record.network);
+  const deployments = { ...readDeployments(dir, record.network), [record.contract]: record };
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(deployments, null, 2) + "\n");
+  return filePath;
+}
@@ -0,0 +1,68 @@
+/**
+ * Raised by the off-chain model with the same reason string the contract
+ * would revert with ("zero", "self", "exists", ...).
+ */
+export class VouchRevertError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`VouchMinimal reverted: ${reason}`);
+    this.name = "VouchRevertError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Extracts the revert reason from an ethers / Hardhat error, falling back to
+ * the error message when the call did not revert with a reason string.
+ */
+export function decodeRevertReason(error: any): string {
+  if (error instanceof VouchRevertError) return error.reason;
+  if (typeof error?.reason === "string" && error.reason.length > 0) return error.reason;
+  // custom errors (Ownable's OwnableUnauthorizedAccount) decode to their name
+  if (error?.revert?.name && error.revert.name !== "Error") return error.revert.name;
+  if (error?.revert?.args?.length) return String(error.revert.args[0]);
+
+  const message: string = error?.shortMessage ?? error?.message ?? String(error);
+  const match = message.match(/reverted with reason string '([^']*)'/) ?? message.match(/reverted with custom error '(\w+)\(/);
+  return match ? match[1] : message;
+}
+
+// True for contract reverts (from ethers or the Hardhat network), false for transport errors
+export function isRevertError(error: any): boolean {
+  if (error instanceof VouchRevertError || error?.code === "CALL_EXCEPTION") return true;
+  const message: string = error?.shortMessage ?? error?.message ?? "";
+  return /reverted/.test(message);
+}
+
+const REVERT_DESCRIPTIONS: Record<string, string> = {
+  zero: "the target is the zero address",
+  self: "an address cannot vouch for itself",
+  exists: "the sender already vouches for this address",
+  "not exists": "the sender does not vouch for this address",
+  "Insufficient stake to vouch": "the sender's stake in the DepositManager is below minimumStake",
+  "Invalid deposit manager": "the DepositManager cannot be the zero address",
+  OwnableUnauthorizedAccount: "only the contract owner can call this",
+};
+
+// Plain-language explanation of a VouchMinimal revert reason, or the reason itself
+export function describeRevertReason(reason: string): string {
+  return REVERT_DESCRIPTIONS[reason] ?? reason;
+}
+
+/**
+ * Raised by the indexer when none of the block hashes it still tracks is on
+ * the canonical chain: the reorg reached deeper than the confirmation depth,
+ * so the fork point is unknown and the index has to be rebuilt.
+ */
+export class ReorgTooDeepError extends Error {
+  readonly oldestTrackedBlock: number;
+
+  constructor(oldestTrackedBlock: number) {
+    super(
+      `Chain reorganization reached below block ${oldestTrackedBlock}, deeper than the tracked confirmation depth; delete the index and sync again`
+    );
+    this.name = "ReorgTooDeepError";
+    this.oldestTrackedBlock = oldestTrackedBlock;
+  }
+}
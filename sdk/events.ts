@@ -0,0 +1,77 @@
+import type { Log } from "ethers";
+import { VouchMinimal__factory } from "../typechain-types";
+
+/**
+ * Every VouchMinimal event as a plain tagged union, with addresses lowercased.
+ * The off-chain model produces the same shape, so the two can be compared
+ * field by field.
+ */
+export type VouchContractEvent =
+  | { name: "VouchCreated"; from: string; to: string; toRank: bigint; fromScore: bigint; toScore: bigint }
+  | { name: "VouchRemoved"; from: string; to: string; toRank: bigint; fromScore: bigint; toScore: bigint }
+  | { name: "NodeActivated"; node: string; initialRank: bigint }
+  | { name: "RankChanged"; node: string; oldRank: bigint; newRank: bigint }
+  | { name: "BootstrapVouchCreated"; from: string; to: string; seedNumber: bigint }
+  | { name: "BootstrapComplete" }
+  | { name: "DepositManagerUpdated"; oldManager: string; newManager: string }
+  | { name: "MinimumStakeUpdated"; oldMinimum: bigint; newMinimum: bigint }
+  | { name: "OwnershipTransferred"; previousOwner: string; newOwner: string };
+
+export type VouchContractEventName = VouchContractEvent["name"];
+
+const vouchInterface = VouchMinimal__factory.createInterface();
+
+// Decodes a raw log emitted by VouchMinimal; returns null for foreign logs
+export function decodeVouchEvent(log: Pick<Log, "topics" | "data">): VouchContractEvent | null {
+  const parsed = vouchInterface.parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+
+  const a = parsed.args;
+  switch (parsed.name) {
+    case "VouchCreated":
+    case "VouchRemoved":
+      return {
+        name: parsed.name,
+        from: a.from.toLowerCase(),
+        to: a.to.toLowerCase(),
+        toRank: a.toRank,
+        fromScore: a.fromScore,
+        toScore: a.toScore,
+      };
+    case "NodeActivated":
+      return { name: "NodeActivated", node: a.node.toLowerCase(), initialRank: a.initialRank };
+    case "RankChanged":
+      return { name: "RankChanged", node: a.node.toLowerCase(), oldRank: a.oldRank, newRank: a.newRank };
+    case "BootstrapVouchCreated":
+      return { name: "BootstrapVouchCreated", from: a.from.toLowerCase(), to: a.to.toLowerCase(), seedNumber: a.seedNumber };
+    case "BootstrapComplete":
+      return { name: "BootstrapComplete" };
+    case "DepositManagerUpdated":
+      return {
+        name: "DepositManagerUpdated",
+        oldManager: a.oldManager.toLowerCase(),
+        newManager: a.newManager.toLowerCase(),
+      };
+    case "MinimumStakeUpdated":
+      return { name: "MinimumStakeUpdated", oldMinimum: a.oldMinimum, newMinimum: a.newMinimum };
+    case "OwnershipTransferred":
+      return {
+        name: "OwnershipTransferred",
+        previousOwner: a.previousOwner.toLowerCase(),
+        newOwner: a.newOwner.toLowerCase(),
+      };
+    default:
+      return null;
+  }
+}
+
+// Decodes the VouchMinimal logs of a receipt, in emission order
+export function decodeVouchEvents(logs: readonly Pick<Log, "topics" | "data" | "address">[], contractAddress?: string): VouchContractEvent[] {
+  const events: VouchContractEvent[] = [];
+  for (const log of logs) {
+    if (contractAddress && log.address.toLowerCase() !== contractAddress.toLowerCase()) continue;
+    const event = decodeVouchEvent(log);
+    if (event) events.push(event);
+  }
+  return events;
+}
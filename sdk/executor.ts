@@ -0,0 +1,277 @@
+import { ZeroAddress } from "ethers";
+import type { Provider, Signer, TransactionReceipt, TransactionResponse } from "ethers";
+import type { VouchClient } from "./client";
+import { decodeRevertReason, isRevertError } from "./errors";
+import { JournalEntry, MemoryJournal, OperationResult, PlanJournal, planId } from "./plan";
+import type { VouchOperation } from "./types";
+
+/**
+ * Runs a batch plan against a deployed VouchMinimal.
+ *
+ * Each sender's operations go out in plan order from one queue that hands
+ * out nonces itself, so a signer keeps up to `maxPending` transactions in
+ * flight without waiting for every receipt; different senders run in
+ * parallel. Before a call is sent it is checked against the chain: a vouch
+ * whose edge already exists (or an unvouch whose edge is gone) is skipped,
+ * and calls that revert in gas estimation are reported without being sent.
+ * An operation on an edge the sender still has a transaction in flight for
+ * waits for that transaction first, since nodes estimate gas against the
+ * latest block, where the edge does not look the way it will.
+ *
+ * The journal makes runs resumable. Entries that already have a result are
+ * not touched again, transactions a previous run sent are waited for, and the
+ * edge check catches anything that was mined but never journaled, so an
+ * interrupted run never vouches twice.
+ */
+
+export interface ExecutePlanOptions {
+  // signers for every `from` in the plan
+  signers: Signer[];
+  journal?: PlanJournal;
+  // senders worked on at once
+  concurrency?: number;
+  // unconfirmed transactions per sender
+  maxPending?: number;
+  // headroom on top of the gas estimate, in percent (other senders change ranks in between)
+  gasMarginPercent?: number;
+  // how long to wait for a transaction a previous run left pending
+  pendingTimeoutMs?: number;
+  onResult?: (result: OperationResult) => void;
+}
+
+export interface PlanReport {
+  planId: string;
+  contract: string;
+  total: number;
+  confirmed: number;
+  reverted: number;
+  skipped: number;
+  // results that were already in the journal when the run started
+  resumed: number;
+  gasUsed: bigint;
+  results: OperationResult[];
+}
+
+export const DEFAULT_PLAN_CONCURRENCY = 8;
+export const DEFAULT_MAX_PENDING = 4;
+
+interface RunContext {
+  client: VouchClient;
+  provider: Provider;
+  operations: readonly VouchOperation[];
+  journal: PlanJournal;
+  results: (OperationResult | undefined)[];
+  sent: Map<number, Extract<JournalEntry, { type: "sent" }>>;
+  options: ExecutePlanOptions;
+}
+
+export async function executePlan(
+  client: VouchClient,
+  operations: readonly VouchOperation[],
+  options: ExecutePlanOptions
+): Promise<PlanReport> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) throw new Error("executePlan needs a client with a provider");
+  const journal = options.journal ?? new MemoryJournal();
+  const id = planId(operations);
+  const contract = client.address.toLowerCase();
+  const { chainId } = await provider.getNetwork();
+
+  const entries = await journal.load();
+  const header = entries.find((e) => e.type === "plan");
+  if (header) {
+    if (header.planId !== id) throw new Error("The journal belongs to a different plan; use a new journal file");
+    if (header.contract !== contract || header.chainId !== chainId) {
+      throw new Error(`The journal was written for ${header.contract} on chain ${header.chainId}`);
+    }
+  } else {
+    await journal.append({ type: "plan", planId: id, contract, chainId, operations: operations.length });
+  }
+
+  const ctx: RunContext = { client, provider, operations, journal, results: [], sent: new Map(), options };
+  for (const entry of entries) {
+    if (entry.type === "sent") ctx.sent.set(entry.index, entry);
+    if (entry.type === "result") {
+      const { type, ...result } = entry;
+      ctx.results[entry.index] = result;
+    }
+  }
+  const resumed = ctx.results.filter(Boolean).length;
+
+  // queue the remaining entries by sender, refusing to start with a sender nobody can sign for
+  const signers = new Map<string, Signer>();
+  for (const signer of options.signers) signers.set((await signer.getAddress()).toLowerCase(), signer);
+  const queues = new Map<string, number[]>();
+  operations.forEach((op, index) => {
+    if (ctx.results[index]) return;
+    const from = op.from.toLowerCase();
+    queues.set(from, [...(queues.get(from) ?? []), index]);
+  });
+  const missing = [...queues.keys()].filter((from) => !signers.has(from));
+  if (missing.length > 0) throw new Error(`No signer for plan senders: ${missing.join(", ")}`);
+
+  const pendingSenders = [...queues.entries()];
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_PLAN_CONCURRENCY);
+  let failed = false;
+  const worker = async (): Promise<void> => {
+    while (pendingSenders.length > 0 && !failed) {
+      const [from, indexes] = pendingSenders.shift()!;
+      try {
+        await runSender(ctx, from, signers.get(from)!, indexes);
+      } catch (error) {
+        failed = true; // let the other senders finish what they are doing, but start no new ones
+        throw error;
+      }
+    }
+  };
+  const outcomes = await Promise.allSettled(Array.from({ length: concurrency }, worker));
+  const failure = outcomes.find((o): o is PromiseRejectedResult => o.status === "rejected");
+  if (failure) throw failure.reason;
+
+  const results = ctx.results as OperationResult[];
+  const count = (status: OperationResult["status"]) => results.filter((r) => r.status === status).length;
+  return {
+    planId: id,
+    contract,
+    total: operations.length,
+    confirmed: count("confirmed"),
+    reverted: count("reverted"),
+    skipped: count("skipped"),
+    resumed,
+    gasUsed: results.reduce((sum, r) => sum + (r.gasUsed ?? 0n), 0n),
+    results,
+  };
+}
+
+async function runSender(ctx: RunContext, from: string, signer: Signer, indexes: number[]): Promise<void> {
+  const { client, provider } = ctx;
+  const contract = client.withRunner(signer).contract;
+  const maxPending = Math.max(1, ctx.options.maxPending ?? DEFAULT_MAX_PENDING);
+  const margin = BigInt(ctx.options.gasMarginPercent ?? 20);
+
+  // finish what a previous run sent before deciding anything else
+  for (const index of indexes) {
+    const sent = ctx.sent.get(index);
+    if (!sent) continue;
+    const tx = await provider.getTransaction(sent.txHash);
+    if (!tx) continue; // dropped: decided again below
+    const receipt = await receiptOf(tx, ctx.options.pendingTimeoutMs ?? 120_000);
+    if (!receipt) {
+      throw new Error(`Transaction ${sent.txHash} (plan entry ${index}) is still pending; run the plan again once it is mined`);
+    }
+    await record(ctx, await resultFromReceipt(ctx, index, receipt));
+  }
+
+  let nonce = await provider.getTransactionCount(from, "pending");
+  // edge state as this sender's queued transactions will leave it
+  const edges = new Map<string, boolean>();
+  const inFlight: Promise<void>[] = [];
+  // recipients of this sender's unconfirmed transactions
+  const pendingEdges = new Set<string>();
+  let failure: unknown = null;
+
+  for (const index of indexes) {
+    if (failure) break;
+    if (ctx.results[index]) continue;
+    const op = ctx.operations[index];
+    const to = op.to.toLowerCase();
+    const base = { index, action: op.action, from, to };
+
+    // reverts the contract is certain to give, without a round trip
+    const local = to === ZeroAddress ? "zero" : to === from ? "self" : null;
+    if (local) {
+      await record(ctx, { ...base, status: "reverted", reason: local });
+      continue;
+    }
+    if (!edges.has(to)) edges.set(to, await client.hasEdge(from, to));
+    if (op.action === "vouch" && edges.get(to)) {
+      await record(ctx, { ...base, status: "skipped", reason: "exists" });
+      continue;
+    }
+    if (op.action === "unvouch" && !edges.get(to)) {
+      await record(ctx, { ...base, status: "skipped", reason: "not exists" });
+      continue;
+    }
+
+    if (pendingEdges.has(to)) {
+      await Promise.all(inFlight.splice(0));
+      if (failure) break;
+    }
+
+    const method = op.action === "vouch" ? contract.vouch : contract.unvouch;
+    let gasEstimate: bigint;
+    try {
+      gasEstimate = await method.estimateGas(to);
+    } catch (error) {
+      if (!isRevertError(error)) throw error;
+      await record(ctx, { ...base, status: "reverted", reason: decodeRevertReason(error) });
+      continue;
+    }
+
+    const tx = await method(to, { nonce, gasLimit: (gasEstimate * (100n + margin)) / 100n });
+    nonce++;
+    edges.set(to, op.action === "vouch");
+    pendingEdges.add(to);
+    await ctx.journal.append({ type: "sent", index, from, txHash: tx.hash, nonce: tx.nonce });
+
+    inFlight.push(
+      receiptOf(tx)
+        .then((receipt) => resultFromReceipt(ctx, index, receipt!))
+        .then((result) => record(ctx, result))
+        .catch((error) => {
+          failure ??= error;
+        })
+        .finally(() => pendingEdges.delete(to))
+    );
+    if (inFlight.length >= maxPending) await inFlight.shift();
+  }
+
+  await Promise.all(inFlight);
+  if (failure) throw failure;
+}
+
+// wait() throws for a failed transaction, with the receipt attached; null once timeoutMs passes
+async function receiptOf(tx: TransactionResponse, timeoutMs?: number): Promise<TransactionReceipt | null> {
+  try {
+    return await tx.wait(1, timeoutMs);
+  } catch (error: any) {
+    if (error?.receipt) return error.receipt;
+    if (error?.code === "TIMEOUT") return null;
+    throw error;
+  }
+}
+
+async function resultFromReceipt(ctx: RunContext, index: number, receipt: TransactionReceipt): Promise<OperationResult> {
+  const op = ctx.operations[index];
+  const result: OperationResult = {
+    index,
+    action: op.action,
+    from: op.from.toLowerCase(),
+    to: op.to.toLowerCase(),
+    status: receipt.status === 1 ? "confirmed" : "reverted",
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    transactionIndex: receipt.index,
+    gasUsed: receipt.gasUsed,
+  };
+  if (result.status === "reverted") result.reason = await replayRevert(ctx, op, receipt.blockNumber);
+  return result;
+}
+
+// Receipts carry no revert reason: replay the call on the state before its block
+async function replayRevert(ctx: RunContext, op: VouchOperation, blockNumber: number): Promise<string> {
+  const iface = ctx.client.contract.interface;
+  const data = op.action === "vouch" ? iface.encodeFunctionData("vouch", [op.to]) : iface.encodeFunctionData("unvouch", [op.to]);
+  try {
+    await ctx.provider.call({ to: ctx.client.address, from: op.from, data, blockTag: blockNumber - 1 });
+    return "reverted on chain (the replayed call succeeds)";
+  } catch (error) {
+    return isRevertError(error) ? decodeRevertReason(error) : "reverted on chain";
+  }
+}
+
+async function record(ctx: RunContext, result: OperationResult): Promise<void> {
+  ctx.results[result.index] = result;
+  await ctx.journal.append({ type: "result", ...result });
+  ctx.options.onResult?.(result);
+}
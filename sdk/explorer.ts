@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as path from "path";
+import { GraphDocument, GraphExporter, registerGraphExporter } from "./exporters";
+
+/**
+ * A self-contained HTML explorer for a graph document: force-directed view
+ * colored by rank, seeds highlighted, search, a zoom-in panel with in and
+ * out neighbors, rank and score filters and a timeline slider. Script,
+ * styles and data are inlined, so the page works offline and from file://.
+ * The page is assembled from files next to this module, so the "html"
+ * export format exists only where this module is loaded (the sdk/node entry).
+ */
+
+const ASSETS = path.join(__dirname, "assets");
+
+export interface ExplorerOptions {
+  title?: string;
+}
+
+export function explorerHtml(document: GraphDocument, options: ExplorerOptions = {}): string {
+  const title = options.title ?? `Vouch network ${document.metadata.contractAddress}`;
+  const script = fs.readFileSync(path.join(ASSETS, "explorer.js"), "utf8");
+  const style = fs.readFileSync(path.join(ASSETS, "explorer.css"), "utf8");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+${style}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <span class="meta" id="contract"></span>
+  <span class="meta" id="meta"></span>
+</header>
+<aside id="controls">
+  <h2>Search</h2>
+  <input type="search" id="search" list="addresses" placeholder="0x… address or prefix">
+  <datalist id="addresses"></datalist>
+  <div id="search-result"></div>
+  <h2>Rank</h2>
+  <div class="range"><input type="text" id="rank-min" placeholder="min"><input type="text" id="rank-max" placeholder="max"></div>
+  <h2>Score</h2>
+  <div class="range"><input type="text" id="score-min" placeholder="min"><input type="text" id="score-max" placeholder="max"></div>
+  <p><button type="button" id="reset">Reset filters</button></p>
+  <div id="stats"></div>
+  <h2>Legend</h2>
+  <div id="legend">
+    <div class="bar" id="legend-bar"></div>
+    <div class="ends"><span>rank 1</span><span id="legend-max"></span></div>
+    <div class="seed">seed</div>
+  </div>
+</aside>
+<main id="view">
+  <canvas id="canvas"></canvas>
+  <div id="tooltip"></div>
+</main>
+<aside id="panel"></aside>
+<footer id="timeline">
+  <label for="time">Timeline</label>
+  <input type="range" id="time" min="0" step="1">
+  <output id="time-label"></output>
+</footer>
+<script type="application/json" id="graph-data">${embedJson(document)}</script>
+<script>
+${script}</script>
+</body>
+</html>
+`;
+}
+
+export const explorerExporter: GraphExporter = {
+  description: "offline HTML explorer (opens in a browser, no network access needed)",
+  extension: ".html",
+  write(document) {
+    return [{ suffix: ".html", content: explorerHtml(document) }];
+  },
+};
+
+registerGraphExporter("html", explorerExporter);
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// JSON inside a <script> element: "<" is escaped so no value can close the element
+function embedJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c").replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029");
+}
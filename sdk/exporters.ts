@@ -0,0 +1,393 @@
+import { AssembledGraph, GraphEvents, edgeIntervals } from "./assembly";
+
+/**
+ * Graph exports for analysis tools. Every export starts from one
+ * GraphDocument, the versioned JSON layout described by
+ * schemas/graph-export.v1.schema.json; each format is a GraphExporter that
+ * turns the document into one or more files. uint256 values are decimal
+ * strings in the document; formats with typed attributes declare them as
+ * 64-bit integers when every value fits, and as strings otherwise.
+ */
+
+export const GRAPH_DOCUMENT_FORMAT = "syb-graph";
+export const GRAPH_DOCUMENT_VERSION = 1;
+
+export interface DocumentNode {
+  // lowercased address
+  id: string;
+  label: string;
+  rank: string;
+  score: string;
+  inCount: number;
+  outCount: number;
+  isSeed: boolean;
+}
+
+export interface DocumentInterval {
+  startBlock: number;
+  endBlock: number | null;
+  // unix seconds of those blocks, when known
+  start: number | null;
+  end: number | null;
+}
+
+export interface DocumentEdge {
+  id: string;
+  source: string;
+  target: string;
+  // the VouchCreated of the last interval
+  createdAtBlock: number;
+  createdAt: number | null;
+  // blocks where earlier vouches between the pair were removed, oldest first
+  priorRemovals: number[];
+  // every span the vouch existed in, oldest first; the last is open while the edge is live
+  intervals: DocumentInterval[];
+}
+
+export interface DocumentTimelineEntry {
+  action: "vouch" | "unvouch";
+  from: string;
+  to: string;
+  toRank: string;
+  fromScore: string;
+  toScore: string;
+  blockNumber: number;
+  timestamp: number | null;
+  txHash: string;
+}
+
+export interface GraphDocument {
+  format: typeof GRAPH_DOCUMENT_FORMAT;
+  version: typeof GRAPH_DOCUMENT_VERSION;
+  metadata: {
+    contractAddress: string;
+    chainId: string | null;
+    network: string | null;
+    // last indexed block
+    blockNumber: number | null;
+    exportedAt: string;
+    nodeCount: number;
+    edgeCount: number;
+    removedEdgeCount: number;
+    seedCount: number;
+  };
+  nodes: DocumentNode[];
+  // live edges
+  edges: DocumentEdge[];
+  // pairs vouched before whose last vouch has been removed
+  removedEdges: DocumentEdge[];
+  seeds: string[];
+  timeline: DocumentTimelineEntry[];
+}
+
+export interface GraphDocumentOptions {
+  contractAddress: string;
+  chainId?: string;
+  network?: string;
+  blockNumber?: number;
+  // unix seconds of a block, for dates on edges and the timeline
+  timestampOf?: (blockNumber: number) => number | undefined;
+  exportedAt?: Date;
+}
+
+// A file of an export: `suffix` is appended to the base path when a format writes several files
+export interface ExportFile {
+  suffix: string;
+  content: string;
+}
+
+export interface GraphExporter {
+  description: string;
+  // of the file (or shared by the files) the format writes
+  extension: string;
+  write(document: GraphDocument): ExportFile[];
+}
+
+/**
+ * Builds the export document of an assembled graph. `events` are the
+ * created and removed vouches it was assembled from, which give the
+ * intervals and the timeline.
+ */
+export function graphDocument(graph: AssembledGraph, events: GraphEvents, options: GraphDocumentOptions): GraphDocument {
+  const time = (block: number | null) => (block === null ? null : options.timestampOf?.(block) ?? null);
+  const intervals = edgeIntervals(events.created, events.removed);
+  const toEdge = (id: string, source: string, target: string, priorRemovals: number[]): DocumentEdge => {
+    const spans = intervals.get(id)!.map(({ startBlock, endBlock }) => ({ startBlock, endBlock, start: time(startBlock), end: time(endBlock) }));
+    const createdAtBlock = spans[spans.length - 1].startBlock;
+    return { id, source, target, createdAtBlock, createdAt: time(createdAtBlock), priorRemovals, intervals: spans };
+  };
+
+  const live = new Set(graph.edges.map((e) => e.id));
+  const edges = graph.edges.map((e) => toEdge(e.id, e.from, e.to, e.priorRemovals));
+  const removedEdges: DocumentEdge[] = [];
+  for (const [id, spans] of intervals) {
+    if (live.has(id)) continue;
+    const [source, target] = id.split("-");
+    removedEdges.push(toEdge(id, source, target, spans.map((s) => s.endBlock!).slice(0, -1)));
+  }
+
+  const seeds = new Set(graph.seeds.map((a) => a.toLowerCase()));
+  const nodes = graph.nodes.map((node) => ({
+    id: node.address,
+    label: `${node.address.slice(0, 10)}…`,
+    rank: node.rank.toString(),
+    score: node.score.toString(),
+    inCount: node.inCount,
+    outCount: node.outCount,
+    isSeed: node.isSeed ?? seeds.has(node.address),
+  }));
+
+  const timeline: DocumentTimelineEntry[] = [
+    ...events.created.map((e) => ({ e, action: "vouch" as const })),
+    ...events.removed.map((e) => ({ e, action: "unvouch" as const })),
+  ]
+    .sort((a, b) => a.e.blockNumber - b.e.blockNumber || a.e.logIndex - b.e.logIndex)
+    .map(({ e, action }) => ({
+      action,
+      from: e.from,
+      to: e.to,
+      toRank: e.toRank.toString(),
+      fromScore: e.fromScore.toString(),
+      toScore: e.toScore.toString(),
+      blockNumber: e.blockNumber,
+      timestamp: time(e.blockNumber),
+      txHash: e.txHash,
+    }));
+
+  return {
+    format: GRAPH_DOCUMENT_FORMAT,
+    version: GRAPH_DOCUMENT_VERSION,
+    metadata: {
+      contractAddress: options.contractAddress.toLowerCase(),
+      chainId: options.chainId ?? null,
+      network: options.network ?? null,
+      blockNumber: options.blockNumber ?? null,
+      exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+      nodeCount: nodes.length,
+      edgeCount: edges.length,
+      removedEdgeCount: removedEdges.length,
+      seedCount: nodes.filter((n) => n.isSeed).length,
+    },
+    nodes,
+    edges,
+    removedEdges,
+    seeds: [...seeds],
+    timeline,
+  };
+}
+
+// ============================================
+// Formats
+// ============================================
+
+const INT64_MAX = 2n ** 63n - 1n;
+
+// "long" when every value fits a signed 64-bit integer, "string" otherwise
+function integerType(values: string[]): "long" | "string" {
+  return values.every((v) => BigInt(v) <= INT64_MAX) ? "long" : "string";
+}
+
+function xml(value: string | number | boolean): string {
+  return String(value).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const NODE_ATTRIBUTES = ["rank", "score", "inCount", "outCount", "isSeed"] as const;
+
+function nodeAttributeTypes(document: GraphDocument) {
+  return {
+    rank: integerType(document.nodes.map((n) => n.rank)),
+    score: integerType(document.nodes.map((n) => n.score)),
+    inCount: "int",
+    outCount: "int",
+    isSeed: "boolean",
+  } as const;
+}
+
+const graphml: GraphExporter = {
+  description: "GraphML (Gephi, Cytoscape, NetworkX read_graphml)",
+  extension: ".graphml",
+  write(document) {
+    const types = nodeAttributeTypes(document);
+    const lines = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+      `  <key id="label" for="node" attr.name="label" attr.type="string"/>`,
+      ...NODE_ATTRIBUTES.map((name) => `  <key id="${name}" for="node" attr.name="${name}" attr.type="${types[name]}"/>`),
+      `  <key id="createdAtBlock" for="edge" attr.name="createdAtBlock" attr.type="long"/>`,
+      `  <key id="priorRemovals" for="edge" attr.name="priorRemovals" attr.type="int"/>`,
+      `  <graph id="${xml(document.metadata.contractAddress)}" edgedefault="directed">`,
+    ];
+    for (const node of document.nodes) {
+      lines.push(`    <node id="${node.id}">`);
+      lines.push(`      <data key="label">${xml(node.label)}</data>`);
+      for (const name of NODE_ATTRIBUTES) lines.push(`      <data key="${name}">${node[name]}</data>`);
+      lines.push(`    </node>`);
+    }
+    for (const edge of document.edges) {
+      lines.push(`    <edge id="${edge.id}" source="${edge.source}" target="${edge.target}">`);
+      lines.push(`      <data key="createdAtBlock">${edge.createdAtBlock}</data>`);
+      lines.push(`      <data key="priorRemovals">${edge.priorRemovals.length}</data>`);
+      lines.push(`    </edge>`);
+    }
+    lines.push(`  </graph>`, `</graphml>`);
+    return [{ suffix: ".graphml", content: lines.join("\n") + "\n" }];
+  },
+};
+
+/**
+ * GEXF 1.3 as a dynamic graph: every pair ever vouched is an edge with one
+ * spell per interval, so Gephi's timeline shows vouches appear and go.
+ * Times are dates when every block's timestamp is known, block numbers
+ * otherwise.
+ */
+const gexf: GraphExporter = {
+  description: "GEXF 1.3 with dynamic edge intervals (Gephi)",
+  extension: ".gexf",
+  write(document) {
+    const types = nodeAttributeTypes(document);
+    const edges = [...document.edges, ...document.removedEdges];
+    const intervals = edges.flatMap((e) => e.intervals);
+    const dated = intervals.every((i) => i.start !== null && (i.endBlock === null || i.end !== null));
+    const bound = (block: number | null, time: number | null) =>
+      block === null ? null : dated ? new Date(time! * 1000).toISOString() : String(block);
+    const gexfType = (type: string) => (type === "int" ? "integer" : type);
+
+    const lines = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<gexf xmlns="http://gexf.net/1.3" version="1.3">`,
+      `  <meta lastmodifieddate="${document.metadata.exportedAt.slice(0, 10)}">`,
+      `    <creator>syb</creator>`,
+      `    <description>VouchMinimal ${xml(document.metadata.contractAddress)}</description>`,
+      `  </meta>`,
+      `  <graph defaultedgetype="directed" mode="dynamic" timeformat="${dated ? "dateTime" : "integer"}" timerepresentation="interval">`,
+      `    <attributes class="node" mode="static">`,
+      ...NODE_ATTRIBUTES.map((name) => `      <attribute id="${name}" title="${name}" type="${gexfType(types[name])}"/>`),
+      `    </attributes>`,
+      `    <attributes class="edge" mode="static">`,
+      `      <attribute id="createdAtBlock" title="createdAtBlock" type="long"/>`,
+      `      <attribute id="priorRemovals" title="priorRemovals" type="integer"/>`,
+      `    </attributes>`,
+      `    <nodes>`,
+    ];
+    for (const node of document.nodes) {
+      lines.push(`      <node id="${node.id}" label="${xml(node.label)}">`);
+      lines.push(`        <attvalues>`);
+      for (const name of NODE_ATTRIBUTES) lines.push(`          <attvalue for="${name}" value="${node[name]}"/>`);
+      lines.push(`        </attvalues>`);
+      lines.push(`      </node>`);
+    }
+    lines.push(`    </nodes>`, `    <edges>`);
+    for (const edge of edges) {
+      lines.push(`      <edge id="${edge.id}" source="${edge.source}" target="${edge.target}">`);
+      lines.push(`        <attvalues>`);
+      lines.push(`          <attvalue for="createdAtBlock" value="${edge.createdAtBlock}"/>`);
+      lines.push(`          <attvalue for="priorRemovals" value="${edge.priorRemovals.length}"/>`);
+      lines.push(`        </attvalues>`);
+      lines.push(`        <spells>`);
+      for (const i of edge.intervals) {
+        const end = bound(i.endBlock, i.end);
+        lines.push(`          <spell start="${bound(i.startBlock, i.start)}"${end === null ? "" : ` end="${end}"`}/>`);
+      }
+      lines.push(`        </spells>`);
+      lines.push(`      </edge>`);
+    }
+    lines.push(`    </edges>`, `  </graph>`, `</gexf>`);
+    return [{ suffix: ".gexf", content: lines.join("\n") + "\n" }];
+  },
+};
+
+// Cytoscape.js elements; ranks and scores are numbers while they fit exactly, strings otherwise
+const cytoscape: GraphExporter = {
+  description: "Cytoscape.js JSON (cy.json(), Cytoscape desktop)",
+  extension: ".cyjs",
+  write(document) {
+    const exact = (values: string[]) => values.every((v) => BigInt(v) <= BigInt(Number.MAX_SAFE_INTEGER));
+    const rankNumbers = exact(document.nodes.map((n) => n.rank));
+    const scoreNumbers = exact(document.nodes.map((n) => n.score));
+    const elements = {
+      nodes: document.nodes.map((n) => ({
+        data: {
+          ...n,
+          rank: rankNumbers ? Number(n.rank) : n.rank,
+          score: scoreNumbers ? Number(n.score) : n.score,
+        },
+      })),
+      edges: document.edges.map((e) => ({
+        data: { id: e.id, source: e.source, target: e.target, createdAtBlock: e.createdAtBlock, priorRemovals: e.priorRemovals.length },
+      })),
+    };
+    return [{ suffix: ".cyjs", content: JSON.stringify({ data: document.metadata, elements }, null, 2) + "\n" }];
+  },
+};
+
+// Graphviz DOT; seeds are filled gold like in the frontend
+const dot: GraphExporter = {
+  description: "Graphviz DOT",
+  extension: ".dot",
+  write(document) {
+    const lines = [`digraph "${document.metadata.contractAddress}" {`, `  node [shape=ellipse, style=filled, fillcolor="#4A90E2"];`];
+    for (const n of document.nodes) {
+      const seed = n.isSeed ? `, fillcolor="#FFD700"` : "";
+      lines.push(
+        `  "${n.id}" [label="${n.label}\\nrank ${n.rank}", rank="${n.rank}", score="${n.score}", inCount=${n.inCount}, outCount=${n.outCount}, isSeed=${n.isSeed}${seed}];`
+      );
+    }
+    for (const e of document.edges) {
+      lines.push(`  "${e.source}" -> "${e.target}" [createdAtBlock=${e.createdAtBlock}, priorRemovals=${e.priorRemovals.length}];`);
+    }
+    lines.push("}");
+    return [{ suffix: ".dot", content: lines.join("\n") + "\n" }];
+  },
+};
+
+// A node table and an edge table, with the column names Gephi's spreadsheet import recognizes
+const csv: GraphExporter = {
+  description: "node and edge CSV files (Gephi spreadsheet import, pandas / NetworkX)",
+  extension: ".csv",
+  write(document) {
+    const nodes = [
+      "id,label,rank,score,inCount,outCount,isSeed",
+      ...document.nodes.map((n) => [n.id, n.label, n.rank, n.score, n.inCount, n.outCount, n.isSeed].join(",")),
+    ];
+    const edges = [
+      "id,source,target,createdAtBlock,createdAt,priorRemovals",
+      ...document.edges.map((e) => [e.id, e.source, e.target, e.createdAtBlock, e.createdAt ?? "", e.priorRemovals.join(";")].join(",")),
+    ];
+    return [
+      { suffix: ".nodes.csv", content: nodes.join("\n") + "\n" },
+      { suffix: ".edges.csv", content: edges.join("\n") + "\n" },
+    ];
+  },
+};
+
+const json: GraphExporter = {
+  description: `the ${GRAPH_DOCUMENT_FORMAT} v${GRAPH_DOCUMENT_VERSION} document (schemas/graph-export.v1.schema.json)`,
+  extension: ".json",
+  write(document) {
+    return [{ suffix: ".json", content: JSON.stringify(document, null, 2) + "\n" }];
+  },
+};
+
+const exporters = new Map<string, GraphExporter>([
+  ["json", json],
+  ["graphml", graphml],
+  ["gexf", gexf],
+  ["cytoscape", cytoscape],
+  ["dot", dot],
+  ["csv", csv],
+]);
+
+// Adds a format (or replaces one) for every exporter that goes through graphExporter
+export function registerGraphExporter(name: string, exporter: GraphExporter): void {
+  exporters.set(name, exporter);
+}
+
+export function graphExportFormats(): string[] {
+  return [...exporters.keys()];
+}
+
+export function graphExporter(name: string): GraphExporter {
+  const exporter = exporters.get(name);
+  if (!exporter) throw new Error(`Unknown export format "${name}" (expected one of ${graphExportFormats().join(", ")})`);
+  return exporter;
+}
@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import * as path from "path";
+import { GRAPH_DOCUMENT_FORMAT, GRAPH_DOCUMENT_VERSION, GraphDocument, graphExporter } from "./exporters";
+import { parseGraph } from "./graph";
+import type { BlockTimestamps } from "./history";
+import { parseWithBigInt, stringifyWithBigInt } from "./json";
+import { JournalEntry, PlanFormat, PlanJournal, parsePlan } from "./plan";
+import { Scenario, parseScenario } from "./scenario";
+import type { Graph, VouchOperation } from "./types";
+
+/**
+ * The file side of the SDK's parsers and formats: graph exports, graph
+ * documents, timestamp caches, plans, plan journals and scenario files.
+ * Node only; the modules they wrap work on strings and stay browser-safe.
+ */
+
+export function readGraph(filePath: string): Graph {
+  return parseGraph(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Reads a graph document back (e.g. `syb export --format json` output),
+ * refusing other layouts and versions.
+ */
+export function readGraphDocument(filePath: string): GraphDocument {
+  const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (data?.format !== GRAPH_DOCUMENT_FORMAT || data?.version !== GRAPH_DOCUMENT_VERSION) {
+    throw new Error(`not a ${GRAPH_DOCUMENT_FORMAT} v${GRAPH_DOCUMENT_VERSION} document (got format ${data?.format}, version ${data?.version})`);
+  }
+  return data;
+}
+
+/**
+ * Writes `document` in `format` and returns the paths written. A single
+ * file goes to `out` as given; several files share `out` without its
+ * extension as their base (graph.csv → graph.nodes.csv, graph.edges.csv).
+ */
+export function writeGraphExport(document: GraphDocument, format: string, out: string): string[] {
+  const files = graphExporter(format).write(document);
+  const base = out.slice(0, out.length - path.extname(out).length);
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  return files.map((file) => {
+    const target = files.length === 1 ? out : base + file.suffix;
+    fs.writeFileSync(target, file.content);
+    return target;
+  });
+}
+
+// A timestamp cache kept as a JSON file (e.g. next to the index)
+export function readBlockTimestamps(filePath: string): BlockTimestamps {
+  if (!fs.existsSync(filePath)) return new Map();
+  return new Map(Object.entries(JSON.parse(fs.readFileSync(filePath, "utf8")) as Record<string, number>));
+}
+
+export function writeBlockTimestamps(filePath: string, timestamps: BlockTimestamps): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(Object.fromEntries(timestamps)));
+}
+
+// Reads a plan file; .csv files are CSV, anything else JSON
+export function readPlan(filePath: string): VouchOperation[] {
+  const format: PlanFormat = path.extname(filePath).toLowerCase() === ".csv" ? "csv" : "json";
+  return parsePlan(fs.readFileSync(filePath, "utf8"), format);
+}
+
+/**
+ * PlanJournal in a JSON-lines file, next to the plan by default
+ * (`<plan>.journal.jsonl`).
+ */
+export class FileJournal implements PlanJournal {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  static forPlan(planPath: string): FileJournal {
+    return new FileJournal(`${planPath}.journal.jsonl`);
+  }
+
+  async load(): Promise<JournalEntry[]> {
+    if (!fs.existsSync(this.filePath)) return [];
+    const text = await fs.promises.readFile(this.filePath, "utf8");
+    const lines = text.split("\n").filter((l) => l.trim().length > 0);
+    const entries: JournalEntry[] = [];
+    for (const [i, line] of lines.entries()) {
+      try {
+        entries.push(parseWithBigInt<JournalEntry>(line));
+      } catch (error) {
+        if (i < lines.length - 1) throw new Error(`Corrupt journal ${this.filePath} at line ${i + 1}`);
+        // a run killed while writing leaves a partial last line; cut it off so the next append starts a new line
+        await fs.promises.truncate(this.filePath, Buffer.byteLength(text.slice(0, text.lastIndexOf(line))));
+      }
+    }
+    return entries;
+  }
+
+  async append(entry: JournalEntry): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, stringifyWithBigInt(entry) + "\n");
+  }
+}
+
+export function readScenario(filePath: string): Scenario {
+  return parseScenario(fs.readFileSync(filePath, "utf8"));
+}
@@ -0,0 +1,164 @@
+import { isJsonObject } from "./json";
+import { Connections, Edge, Graph, Node, VouchEventRecord } from "./types";
+
+export function edgeId(from: string, to: string): string {
+  return `${from.toLowerCase()}-${to.toLowerCase()}`;
+}
+
+// Every address that appears as either endpoint, in first-seen order
+export function addressesFromEvents(events: VouchEventRecord[]): string[] {
+  const addressSet = new Set<string>();
+  for (const event of events) {
+    addressSet.add(event.from);
+    addressSet.add(event.to);
+  }
+  return Array.from(addressSet);
+}
+
+// Edges derived from each node's outNeighbors (the live edge set)
+export function edgesFromNodes(nodes: Node[]): Edge[] {
+  const edges: Edge[] = [];
+  const edgeSet = new Set<string>();
+  for (const node of nodes) {
+    for (const to of node.outNeighbors) {
+      const id = edgeId(node.address, to);
+      if (edgeSet.has(id)) continue;
+      edgeSet.add(id);
+      edges.push({ id, from: node.address, to });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Reads a graph back from JSON: `syb export --format json` output, or the
+ * frontend export of fetch-network-data (edges with source/target, no
+ * neighbor lists). Decimal strings become bigints again, and neighbor lists
+ * missing from the file are rebuilt from the edges.
+ */
+export function parseGraph(text: string): Graph {
+  const data: unknown = JSON.parse(text);
+  if (!isJsonObject(data) || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+    throw new Error("not a graph export (expected nodes and edges)");
+  }
+  const edges: Edge[] = data.edges.map((e: unknown, i) => {
+    const edge = jsonObject(e, `edge ${i}`);
+    const from = addressField(edge, ["from", "source"], `edge ${i}`);
+    const to = addressField(edge, ["to", "target"], `edge ${i}`);
+    return { id: edgeId(from, to), from, to };
+  });
+  const inFromEdges = new Map<string, string[]>();
+  const outFromEdges = new Map<string, string[]>();
+  for (const { from, to } of edges) {
+    if (!inFromEdges.has(to)) inFromEdges.set(to, []);
+    if (!outFromEdges.has(from)) outFromEdges.set(from, []);
+    inFromEdges.get(to)!.push(from);
+    outFromEdges.get(from)!.push(to);
+  }
+  const nodes: Node[] = data.nodes.map((n: unknown, i) => {
+    const node = jsonObject(n, `node ${i}`);
+    const address = addressField(node, ["address", "id"], `node ${i}`);
+    const inNeighbors = addressList(node, "inNeighbors", `node ${i}`) ?? inFromEdges.get(address) ?? [];
+    const outNeighbors = addressList(node, "outNeighbors", `node ${i}`) ?? outFromEdges.get(address) ?? [];
+    return {
+      address,
+      rank: integerField(node, "rank", `node ${i}`),
+      score: integerField(node, "score", `node ${i}`),
+      inCount: node.inCount === undefined ? inNeighbors.length : Number(integerField(node, "inCount", `node ${i}`)),
+      outCount: node.outCount === undefined ? outNeighbors.length : Number(integerField(node, "outCount", `node ${i}`)),
+      inNeighbors,
+      outNeighbors,
+      ...(node.isSeed === undefined ? {} : { isSeed: Boolean(node.isSeed) }),
+    };
+  });
+  return { nodes, edges, seeds: addressList(data, "seeds", "the file") ?? [] };
+}
+
+function jsonObject(value: unknown, where: string): Record<string, unknown> {
+  if (!isJsonObject(value)) throw new Error(`not a graph export: ${where} is not an object`);
+  return value;
+}
+
+// The first of `keys` present, lowercased (exports use from/to and address, the frontend source/target and id)
+function addressField(value: Record<string, unknown>, keys: string[], where: string): string {
+  const key = keys.find((k) => value[k] !== undefined);
+  const address = key === undefined ? undefined : value[key];
+  if (typeof address !== "string") throw new Error(`not a graph export: ${where} has no ${keys.join(" or ")}`);
+  return address.toLowerCase();
+}
+
+function addressList(value: Record<string, unknown>, key: string, where: string): string[] | undefined {
+  const list = value[key];
+  if (list === undefined) return undefined;
+  if (!Array.isArray(list) || !list.every((a) => typeof a === "string")) {
+    throw new Error(`not a graph export: ${key} of ${where} is not a list of addresses`);
+  }
+  return list.map((a: string) => a.toLowerCase());
+}
+
+// Decimal strings (or numbers) as written by toPlainJson
+function integerField(value: Record<string, unknown>, key: string, where: string): bigint {
+  const field = value[key];
+  if (field === undefined) throw new Error(`not a graph export: ${where} has no ${key}`);
+  if (typeof field === "string" && /^\d+$/.test(field)) return BigInt(field);
+  if (typeof field === "number" && Number.isSafeInteger(field)) return BigInt(field);
+  throw new Error(`not a graph export: ${key} of ${where} is not an integer`);
+}
+
+export type NeighborDirection = "in" | "out" | "both";
+
+export interface Neighborhood {
+  root: string;
+  direction: NeighborDirection;
+  // layers[k] holds the addresses first reached after k hops; layers[0] is [root]
+  layers: string[][];
+  // edges seen while expanding layers 0..depth-1
+  edges: Edge[];
+}
+
+/**
+ * Breadth-first walk from `root` up to `depth` hops, following out-edges,
+ * in-edges or both. `getConnections` is called once per expanded address.
+ */
+export async function neighborhood(
+  root: string,
+  depth: number,
+  direction: NeighborDirection,
+  getConnections: (address: string) => Promise<Connections>
+): Promise<Neighborhood> {
+  const start = root.toLowerCase();
+  const seen = new Set([start]);
+  const layers: string[][] = [[start]];
+  const edges: Edge[] = [];
+  const edgeSet = new Set<string>();
+  const addEdge = (from: string, to: string) => {
+    const id = edgeId(from, to);
+    if (edgeSet.has(id)) return;
+    edgeSet.add(id);
+    edges.push({ id, from, to });
+  };
+
+  for (let hop = 0; hop < depth; hop++) {
+    const next: string[] = [];
+    for (const address of layers[hop]) {
+      const { inNeighbors, outNeighbors } = await getConnections(address);
+      const reached: string[] = [];
+      if (direction !== "in") {
+        outNeighbors.forEach((to) => addEdge(address, to));
+        reached.push(...outNeighbors);
+      }
+      if (direction !== "out") {
+        inNeighbors.forEach((from) => addEdge(from, address));
+        reached.push(...inNeighbors);
+      }
+      for (const neighbor of reached) {
+        if (seen.has(neighbor)) continue;
+        seen.add(neighbor);
+        next.push(neighbor);
+      }
+    }
+    if (next.length === 0) break;
+    layers.push(next);
+  }
+  return { root: start, direction, layers, edges };
+}
@@ -0,0 +1,209 @@
+import type { Provider } from "ethers";
+import {
+  IndexedEvent,
+  IndexedState,
+  applyIndexedEvent,
+  emptyIndexedState,
+  indexedNodeToNode,
+  indexedStateToGraph,
+} from "./indexer";
+import type { Graph, Node } from "./types";
+
+/**
+ * Point-in-time views of the graph, rebuilt by replaying indexed events
+ * (created and removed vouches alike) up to a block or a date. Dates come
+ * from block timestamps, fetched once per block and cached by block hash,
+ * so a reorganized block never keeps the time of the block it replaced.
+ */
+
+// A block number, or a date (every event in a block mined at or before it)
+export type HistoryPoint = { block: number } | { date: Date };
+
+export interface TimelineEntry {
+  action: "vouch" | "unvouch";
+  from: string;
+  to: string;
+  toRank: bigint;
+  fromScore: bigint;
+  toScore: bigint;
+  blockNumber: number;
+  // unix seconds
+  timestamp: number;
+  txHash: string;
+}
+
+export interface GraphAt {
+  // the last block with events at or before the point; null before the first event
+  blockNumber: number | null;
+  timestamp: number | null;
+  graph: Graph;
+}
+
+export interface NodeAt {
+  blockNumber: number | null;
+  timestamp: number | null;
+  // null when the address had not taken part yet
+  node: Node | null;
+  inNeighbors: Node[];
+  outNeighbors: Node[];
+}
+
+export interface GraphFrame {
+  // end of the interval (unix seconds), and the last block with events before it
+  timestamp: number;
+  blockNumber: number | null;
+  graph: Graph;
+}
+
+// Block hash → unix seconds
+export type BlockTimestamps = Map<string, number>;
+
+/**
+ * Fetches the timestamps of the events' blocks that `cache` does not hold
+ * yet, `concurrency` blocks at a time, and adds them to it.
+ */
+export async function fetchBlockTimestamps(
+  provider: Provider,
+  events: readonly IndexedEvent[],
+  cache: BlockTimestamps = new Map(),
+  concurrency = 8
+): Promise<BlockTimestamps> {
+  const missing = [...new Map(events.filter((e) => !cache.has(e.blockHash)).map((e) => [e.blockHash, e.blockNumber]))];
+  for (let i = 0; i < missing.length; i += concurrency) {
+    await Promise.all(
+      missing.slice(i, i + concurrency).map(async ([hash, number]) => {
+        const block = await provider.getBlock(hash);
+        if (!block) throw new Error(`Block ${number} (${hash}) is no longer on the chain; sync the index again`);
+        cache.set(hash, block.timestamp);
+      })
+    );
+  }
+  return cache;
+}
+
+export class GraphHistory {
+  readonly events: readonly IndexedEvent[];
+  private readonly timestamps: BlockTimestamps;
+
+  // `events` in chain order (as the indexer keeps them); `timestamps` must cover their blocks
+  constructor(events: readonly IndexedEvent[], timestamps: BlockTimestamps) {
+    for (const event of events) {
+      if (!timestamps.has(event.blockHash)) throw new Error(`No timestamp for block ${event.blockNumber} (${event.blockHash})`);
+    }
+    this.events = events;
+    this.timestamps = timestamps;
+  }
+
+  static async load(provider: Provider, events: readonly IndexedEvent[], cache?: BlockTimestamps): Promise<GraphHistory> {
+    return new GraphHistory(events, await fetchBlockTimestamps(provider, events, cache));
+  }
+
+  timestampOf(event: IndexedEvent): number {
+    return this.timestamps.get(event.blockHash)!;
+  }
+
+  // Every created and removed vouch, in chain order
+  timeline(): TimelineEntry[] {
+    const entries: TimelineEntry[] = [];
+    for (const event of this.events) {
+      if (event.name !== "VouchCreated" && event.name !== "VouchRemoved") continue;
+      entries.push({
+        action: event.name === "VouchCreated" ? "vouch" : "unvouch",
+        from: event.from,
+        to: event.to,
+        toRank: event.toRank,
+        fromScore: event.fromScore,
+        toScore: event.toScore,
+        blockNumber: event.blockNumber,
+        timestamp: this.timestampOf(event),
+        txHash: event.txHash,
+      });
+    }
+    return entries;
+  }
+
+  // The indexed state after every event up to `point`
+  stateAt(point: HistoryPoint): IndexedState {
+    const state = emptyIndexedState();
+    for (const event of this.events.slice(0, this.countUntil(point))) applyIndexedEvent(state, event);
+    return state;
+  }
+
+  graphAt(point: HistoryPoint): GraphAt {
+    const last = this.events[this.countUntil(point) - 1];
+    return {
+      blockNumber: last?.blockNumber ?? null,
+      timestamp: last ? this.timestampOf(last) : null,
+      graph: indexedStateToGraph(this.stateAt(point)),
+    };
+  }
+
+  // One node with its rank, score and neighbors as they were at `point`
+  nodeAt(address: string, point: HistoryPoint): NodeAt {
+    const last = this.events[this.countUntil(point) - 1];
+    const state = this.stateAt(point);
+    const indexed = state.nodes[address.toLowerCase()];
+    const lookup = (a: string) => indexedNodeToNode(state.nodes[a]);
+    return {
+      blockNumber: last?.blockNumber ?? null,
+      timestamp: last ? this.timestampOf(last) : null,
+      node: indexed ? indexedNodeToNode(indexed) : null,
+      inNeighbors: indexed ? indexed.inNeighbors.map(lookup) : [],
+      outNeighbors: indexed ? indexed.outNeighbors.map(lookup) : [],
+    };
+  }
+
+  /**
+   * Graph snapshots every `intervalSeconds`, from the first event's time to
+   * the last one's (both included), in a single replay. Frames without a
+   * change repeat the previous graph.
+   */
+  frames(intervalSeconds: number, options: { from?: number; to?: number } = {}): GraphFrame[] {
+    if (!(intervalSeconds > 0)) throw new Error(`The frame interval must be positive (got ${intervalSeconds})`);
+    if (this.events.length === 0) return [];
+    const first = this.timestampOf(this.events[0]);
+    const last = this.timestampOf(this.events[this.events.length - 1]);
+    const from = options.from ?? first;
+    const to = options.to ?? last;
+
+    const state = emptyIndexedState();
+    const frames: GraphFrame[] = [];
+    let next = 0;
+    let blockNumber: number | null = null;
+    for (let time = from; ; time += intervalSeconds) {
+      const end = Math.min(time, to);
+      while (next < this.events.length && this.timestampOf(this.events[next]) <= end) {
+        applyIndexedEvent(state, this.events[next]);
+        blockNumber = this.events[next].blockNumber;
+        next++;
+      }
+      frames.push({ timestamp: end, blockNumber, graph: indexedStateToGraph(state) });
+      if (end >= to) break;
+    }
+    return frames;
+  }
+
+  // Events in blocks at or before the point (timestamps never decrease with block number)
+  private countUntil(point: HistoryPoint): number {
+    const included =
+      "block" in point
+        ? (e: IndexedEvent) => e.blockNumber <= point.block
+        : (e: IndexedEvent) => this.timestampOf(e) <= Math.floor(point.date.getTime() / 1000);
+    let low = 0;
+    let high = this.events.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (included(this.events[mid])) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
+
+// "90", "90s", "15m", "6h", "1d" or "2w" in seconds
+export function parseDuration(text: string): number {
+  const match = /^(\d+)\s*([smhdw]?)$/.exec(text.trim());
+  if (!match || Number(match[1]) === 0) throw new Error(`Not a duration: "${text}" (expected e.g. 3600, 15m, 6h, 1d, 2w)`);
+  const unit = { "": 1, s: 1, m: 60, h: 3600, d: 86400, w: 604800 }[match[2]]!;
+  return Number(match[1]) * unit;
+}
@@ -0,0 +1,29 @@
+// Browser-safe: nothing here imports fs, http or other Node built-ins, so a
+// frontend bundle can use the same client, model and analytics. File and
+// server helpers live in the sdk/node entry.
+export { VouchClient } from "./client";
+export type { VouchClientOptions } from "./client";
+export * from "./analytics";
+export * from "./assembly";
+export * from "./attacks";
+export * from "./errors";
+export * from "./events";
+export * from "./executor";
+export * from "./exporters";
+export * from "./graph";
+export * from "./history";
+export * from "./indexer";
+export * from "./invariants";
+export * from "./json";
+export * from "./logs";
+export * from "./model";
+export * from "./multicall";
+export * from "./networks";
+export * from "./plan";
+export * from "./random";
+export * from "./scenario";
+export * from "./simulate";
+export * from "./staleness";
+export * from "./types";
+export * from "./verification";
+export type { VouchMinimal } from "../typechain-types";
@@ -0,0 +1,450 @@
+import type { Log, Provider } from "ethers";
+import { ReorgTooDeepError } from "./errors";
+import { VouchContractEvent, VouchContractEventName, decodeVouchEvent } from "./events";
+import { edgesFromNodes } from "./graph";
+import { parseWithBigInt, stringifyWithBigInt } from "./json";
+import { FetchLogsOptions, fetchLogs } from "./logs";
+import { VOUCH_MINIMAL_CONSTANTS } from "./model";
+import { DEFAULT_CONFIRMATIONS } from "./networks";
+import type { Graph, Node } from "./types";
+
+/**
+ * Incremental event indexer.
+ *
+ * Rebuilds the full VouchMinimal graph from its event stream alone: neighbor
+ * arrays follow the contract's push / swap-and-pop order, and ranks and scores
+ * are taken from the event payloads, so no view function is ever called.
+ * Progress is checkpointed by (block number, log index) in an IndexStore.
+ *
+ * Blocks within the confirmation depth of the synced head may still be
+ * reorganized away, so their hashes are kept in the snapshot. Every sync first
+ * checks them against the chain; on a mismatch the events after the fork point
+ * are rolled back, the state is replayed and the new branch is ingested.
+ */
+
+export type IndexedEvent = VouchContractEvent & {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  blockHash: string;
+};
+
+export interface IndexCheckpoint {
+  blockNumber: number;
+  logIndex: number;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+export interface IndexedNode {
+  address: string;
+  rank: bigint;
+  score: bigint;
+  outdegree: number;
+  inNeighbors: string[];
+  outNeighbors: string[];
+  isSeed: boolean;
+  activatedAtBlock: number | null;
+}
+
+export interface IndexedState {
+  checkpoint: IndexCheckpoint | null;
+  nodes: Record<string, IndexedNode>;
+  seeds: string[];
+  seedVouchCount: number;
+  bootstrapComplete: boolean;
+  depositManager: string | null;
+  minimumStake: bigint;
+  owner: string | null;
+  edgeCount: number;
+}
+
+export const INDEX_SNAPSHOT_VERSION = 2;
+
+export interface IndexSnapshot {
+  version: typeof INDEX_SNAPSHOT_VERSION;
+  chainId: string;
+  contractAddress: string;
+  startBlock: number;
+  state: IndexedState;
+  events: IndexedEvent[];
+  // hashes of the processed blocks that are not yet final, oldest first
+  recentBlocks: BlockRef[];
+}
+
+export interface IndexStore {
+  load(): Promise<IndexSnapshot | null>;
+  save(snapshot: IndexSnapshot): Promise<void>;
+}
+
+// Keeps the snapshot in memory only (tests, one-off scripts)
+export class MemoryStore implements IndexStore {
+  private snapshot: IndexSnapshot | null = null;
+
+  async load(): Promise<IndexSnapshot | null> {
+    return this.snapshot ? parseWithBigInt<IndexSnapshot>(stringifyWithBigInt(this.snapshot)) : null;
+  }
+
+  async save(snapshot: IndexSnapshot): Promise<void> {
+    this.snapshot = parseWithBigInt<IndexSnapshot>(stringifyWithBigInt(snapshot));
+  }
+}
+
+export function emptyIndexedState(): IndexedState {
+  return {
+    checkpoint: null,
+    nodes: {},
+    seeds: [],
+    seedVouchCount: 0,
+    bootstrapComplete: false,
+    depositManager: null,
+    minimumStake: 0n,
+    owner: null,
+    edgeCount: 0,
+  };
+}
+
+function nodeOf(state: IndexedState, address: string): IndexedNode {
+  let node = state.nodes[address];
+  if (!node) {
+    node = {
+      address,
+      rank: VOUCH_MINIMAL_CONSTANTS.defaultRank,
+      score: 0n,
+      outdegree: 0,
+      inNeighbors: [],
+      outNeighbors: [],
+      isSeed: false,
+      activatedAtBlock: null,
+    };
+    state.nodes[address] = node;
+  }
+  return node;
+}
+
+function removeFromArray(arr: string[], toRemove: string): void {
+  const i = arr.indexOf(toRemove);
+  if (i < 0) return;
+  arr[i] = arr[arr.length - 1];
+  arr.pop();
+}
+
+// Applies one event to the state in place; events must arrive in chain order
+export function applyIndexedEvent(state: IndexedState, event: IndexedEvent): void {
+  switch (event.name) {
+    case "BootstrapVouchCreated": {
+      // emitted before the matching VouchCreated; both endpoints are set to rank 1
+      for (const address of [event.from, event.to]) {
+        const node = nodeOf(state, address);
+        node.rank = 1n;
+        node.isSeed = true;
+        if (!state.seeds.includes(address)) state.seeds.push(address);
+      }
+      state.seedVouchCount = Number(event.seedNumber) + 1;
+      break;
+    }
+    case "BootstrapComplete":
+      state.bootstrapComplete = true;
+      break;
+    case "VouchCreated": {
+      const from = nodeOf(state, event.from);
+      const to = nodeOf(state, event.to);
+      from.outdegree += 1;
+      from.outNeighbors.push(event.to);
+      to.inNeighbors.push(event.from);
+      to.rank = event.toRank;
+      from.score = event.fromScore;
+      to.score = event.toScore;
+      state.edgeCount += 1;
+      break;
+    }
+    case "VouchRemoved": {
+      const from = nodeOf(state, event.from);
+      const to = nodeOf(state, event.to);
+      from.outdegree -= 1;
+      removeFromArray(from.outNeighbors, event.to);
+      removeFromArray(to.inNeighbors, event.from);
+      to.rank = event.toRank;
+      from.score = event.fromScore;
+      to.score = event.toScore;
+      state.edgeCount -= 1;
+      break;
+    }
+    case "RankChanged":
+      nodeOf(state, event.node).rank = event.newRank;
+      break;
+    case "NodeActivated":
+      nodeOf(state, event.node).activatedAtBlock = event.blockNumber;
+      break;
+    case "DepositManagerUpdated":
+      state.depositManager = event.newManager;
+      break;
+    case "MinimumStakeUpdated":
+      state.minimumStake = event.newMinimum;
+      break;
+    case "OwnershipTransferred":
+      state.owner = event.newOwner;
+      break;
+  }
+  state.checkpoint = { blockNumber: event.blockNumber, logIndex: event.logIndex };
+}
+
+// Replays an event list from scratch
+export function replayIndexedEvents(events: readonly IndexedEvent[]): IndexedState {
+  const state = emptyIndexedState();
+  for (const event of events) applyIndexedEvent(state, event);
+  return state;
+}
+
+export function indexedNodeToNode(node: IndexedNode): Node {
+  return {
+    address: node.address,
+    rank: node.rank,
+    score: node.score,
+    inCount: node.inNeighbors.length,
+    outCount: node.outNeighbors.length,
+    inNeighbors: [...node.inNeighbors],
+    outNeighbors: [...node.outNeighbors],
+    isSeed: node.isSeed,
+  };
+}
+
+export function indexedStateToGraph(state: IndexedState): Graph {
+  const nodes = Object.values(state.nodes).map(indexedNodeToNode);
+  return { nodes, edges: edgesFromNodes(nodes), seeds: [...state.seeds] };
+}
+
+// Narrows an event list to one event type, keeping the positional fields
+export function eventsNamed<N extends VouchContractEventName>(
+  events: readonly IndexedEvent[],
+  name: N
+): Extract<IndexedEvent, { name: N }>[] {
+  return events.filter((e): e is Extract<IndexedEvent, { name: N }> => e.name === name);
+}
+
+function isAfter(log: { blockNumber: number; logIndex: number }, checkpoint: IndexCheckpoint | null): boolean {
+  if (!checkpoint) return true;
+  if (log.blockNumber !== checkpoint.blockNumber) return log.blockNumber > checkpoint.blockNumber;
+  return log.logIndex > checkpoint.logIndex;
+}
+
+export function toIndexedEvent(log: Log): IndexedEvent | null {
+  const event = decodeVouchEvent(log);
+  if (!event) return null;
+  return {
+    ...event,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    txHash: log.transactionHash,
+    blockHash: log.blockHash,
+  };
+}
+
+export interface VouchIndexerOptions {
+  // first block to scan when the store is empty (the deployment block)
+  startBlock?: number;
+  // blocks fetched (in chunks, see `logs`) between two saved checkpoints
+  batchSize?: number;
+  // chunking, concurrency and retry settings for eth_getLogs
+  logs?: Omit<FetchLogsOptions, "fromBlock" | "toBlock">;
+  // blocks behind the head that may still be reorganized (see confirmationsFor)
+  confirmations?: number;
+}
+
+export interface ReorgResult {
+  // last block the index and the chain still agree on
+  forkBlock: number;
+  removedEvents: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  applied: number;
+  reorg: ReorgResult | null;
+}
+
+export class VouchIndexer {
+  readonly provider: Provider;
+  readonly contractAddress: string;
+  readonly store: IndexStore;
+  readonly batchSize: number;
+  readonly confirmations: number;
+  readonly logOptions: Omit<FetchLogsOptions, "fromBlock" | "toBlock">;
+
+  private snapshot: IndexSnapshot | null = null;
+  private readonly startBlock: number;
+
+  constructor(provider: Provider, contractAddress: string, store: IndexStore, options: VouchIndexerOptions = {}) {
+    this.provider = provider;
+    this.contractAddress = contractAddress.toLowerCase();
+    this.store = store;
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 10_000;
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    this.logOptions = options.logs ?? {};
+  }
+
+  get state(): IndexedState {
+    if (!this.snapshot) throw new Error("Indexer not loaded; call load() or sync() first");
+    return this.snapshot.state;
+  }
+
+  get events(): readonly IndexedEvent[] {
+    return this.snapshot?.events ?? [];
+  }
+
+  toGraph(): Graph {
+    return indexedStateToGraph(this.state);
+  }
+
+  // Loads the persisted snapshot, or starts an empty one for this contract
+  async load(): Promise<IndexSnapshot> {
+    if (this.snapshot) return this.snapshot;
+
+    const chainId = (await this.provider.getNetwork()).chainId.toString();
+    const stored = await this.store.load();
+    if (stored) {
+      if (stored.contractAddress !== this.contractAddress || stored.chainId !== chainId) {
+        throw new Error(
+          `Index store belongs to ${stored.contractAddress} on chain ${stored.chainId}, not ${this.contractAddress} on chain ${chainId}`
+        );
+      }
+      this.snapshot = stored;
+    } else {
+      this.snapshot = {
+        version: INDEX_SNAPSHOT_VERSION,
+        chainId,
+        contractAddress: this.contractAddress,
+        startBlock: this.startBlock,
+        state: emptyIndexedState(),
+        events: [],
+        recentBlocks: [],
+      };
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Fetches and applies every event up to `toBlock` (default: chain head),
+   * after rolling back whatever a reorg since the last sync orphaned.
+   */
+  async sync(toBlock?: number): Promise<SyncResult> {
+    const snapshot = await this.load();
+    const reorg = await this.handleReorg(snapshot);
+    const head = toBlock ?? (await this.provider.getBlockNumber());
+    const checkpoint = snapshot.state.checkpoint;
+    const fromBlock = checkpoint ? checkpoint.blockNumber : snapshot.startBlock;
+
+    let applied = 0;
+    for (let start = fromBlock; start <= head; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, head);
+      const logs = await fetchLogs(
+        this.provider,
+        { address: this.contractAddress },
+        { ...this.logOptions, fromBlock: start, toBlock: end }
+      );
+
+      for (const log of logs) {
+        const event = toIndexedEvent(log);
+        if (!event || !isAfter(event, snapshot.state.checkpoint)) continue;
+        applyIndexedEvent(snapshot.state, event);
+        snapshot.events.push(event);
+        this.trackBlock(snapshot, { number: event.blockNumber, hash: event.blockHash });
+        applied++;
+      }
+      // the whole range is done even if it had no logs
+      if (!snapshot.state.checkpoint || snapshot.state.checkpoint.blockNumber < end) {
+        snapshot.state.checkpoint = { blockNumber: end, logIndex: -1 };
+      }
+      if (end === head) await this.trackHead(snapshot);
+      await this.store.save(snapshot);
+    }
+
+    return { fromBlock, toBlock: head, applied, reorg };
+  }
+
+  /**
+   * Walks the tracked block hashes from newest to oldest until one is still
+   * canonical. That block is the fork point: everything after it is dropped
+   * and the state is replayed from the remaining events.
+   */
+  private async handleReorg(snapshot: IndexSnapshot): Promise<ReorgResult | null> {
+    const recent = snapshot.recentBlocks;
+    for (let i = recent.length - 1; i >= 0; i--) {
+      const block = await this.provider.getBlock(recent[i].number);
+      if (block?.hash !== recent[i].hash) continue;
+      if (i === recent.length - 1) return null;
+
+      const forkBlock = recent[i].number;
+      const kept = snapshot.events.filter((e) => e.blockNumber <= forkBlock);
+      const removedEvents = snapshot.events.length - kept.length;
+      snapshot.events = kept;
+      snapshot.state = replayIndexedEvents(kept);
+      // the fork block itself was fully processed, including any events in it
+      const last = kept[kept.length - 1];
+      snapshot.state.checkpoint = last?.blockNumber === forkBlock
+        ? { blockNumber: forkBlock, logIndex: last.logIndex }
+        : { blockNumber: forkBlock, logIndex: -1 };
+      snapshot.recentBlocks = recent.slice(0, i + 1);
+      await this.store.save(snapshot);
+      return { forkBlock, removedEvents };
+    }
+    if (recent.length > 0) throw new ReorgTooDeepError(recent[0].number);
+    return null;
+  }
+
+  // Records the hash of the checkpoint block once a sync reaches the head
+  private async trackHead(snapshot: IndexSnapshot): Promise<void> {
+    const tip = snapshot.state.checkpoint!.blockNumber;
+    const last = snapshot.recentBlocks[snapshot.recentBlocks.length - 1];
+    if (last?.number === tip) return;
+    const block = await this.provider.getBlock(tip);
+    if (block?.hash) this.trackBlock(snapshot, { number: tip, hash: block.hash });
+  }
+
+  // Adds a block and forgets those that are now deeper than the confirmation depth
+  private trackBlock(snapshot: IndexSnapshot, ref: BlockRef): void {
+    const recent = snapshot.recentBlocks;
+    const last = recent[recent.length - 1];
+    if (last?.number === ref.number) return;
+    recent.push(ref);
+    const finalized = ref.number - this.confirmations;
+    // the newest block is always kept so the next sync has something to compare
+    while (recent.length > 1 && recent[0].number < finalized) recent.shift();
+  }
+
+  /**
+   * Keeps syncing until `signal` is aborted, polling the chain head every
+   * `pollIntervalMs`.
+   */
+  async run(options: {
+    pollIntervalMs?: number;
+    signal?: AbortSignal;
+    onSync?: (result: SyncResult) => void;
+  } = {}): Promise<void> {
+    const pollIntervalMs = options.pollIntervalMs ?? 12_000;
+    while (!options.signal?.aborted) {
+      const result = await this.sync();
+      options.onSync?.(result);
+      await sleep(pollIntervalMs, options.signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
@@ -0,0 +1,147 @@
+import type { VouchClient } from "./client";
+import { VOUCH_MINIMAL_CONSTANTS, VouchModel, computeRank, computeScore } from "./model";
+import type { ContractConstants, Node } from "./types";
+
+/**
+ * Consistency checks on a snapshot of VouchMinimal's storage:
+ *
+ *   edge       hasEdge(u, v) ⇔ v ∈ outNeighbors(u) ⇔ u ∈ inNeighbors(v); no duplicates, no self-loops
+ *   outdegree  the stored outdegree counter equals outNeighbors.length
+ *   rank       rank(v) = 3k + 1 − min(m, 3) over the current ranks of IN(v), DEFAULT_RANK
+ *              without in-neighbors (bootstrap seeds may keep rank 1)
+ *   score      score(v) = Σ c_rank(u) over IN(v) + BONUS_OUT · min(outdegree, BONUS_CAP)
+ *
+ * The contract recomputes only the target's rank and the two endpoints'
+ * scores on each call, so ranks and scores downstream of a change can fail
+ * the last two checks while every value is what the contract meant to store.
+ */
+
+export type InvariantKind = "edge" | "outdegree" | "rank" | "score";
+
+export interface InvariantViolation {
+  kind: InvariantKind;
+  node: string;
+  expected: string;
+  actual: string;
+  detail?: string;
+}
+
+export interface InvariantSnapshot {
+  // the checked nodes and their neighbors (whose ranks the formulas need)
+  nodes: Map<string, Node>;
+  // stored outdegree of the checked nodes
+  outdegrees: Map<string, bigint>;
+  // "from>to" → hasEdge(from, to)
+  edges: Map<string, boolean>;
+  seeds: Set<string>;
+  checked: string[];
+}
+
+/**
+ * Reads what checkInvariants needs about `addresses`: their nodes, their
+ * neighbors' nodes, their outdegree counters, and hasEdge for every listed
+ * edge plus the extra `pairs` (e.g. edges that were just removed).
+ */
+export async function readInvariantSnapshot(
+  client: VouchClient,
+  addresses: string[],
+  options: { pairs?: [string, string][]; seeds?: string[] } = {}
+): Promise<InvariantSnapshot> {
+  const checked = [...new Set(addresses.map((a) => a.toLowerCase()))];
+  const [seeds, own, outdegrees] = await Promise.all([
+    options.seeds ?? client.getSeedAddresses(),
+    client.getNodes(checked),
+    client.getOutdegrees(checked),
+  ]);
+  const nodes = new Map(own.map((n) => [n.address, n]));
+  const neighbors = [...new Set(own.flatMap((n) => [...n.inNeighbors, ...n.outNeighbors]))].filter((a) => !nodes.has(a));
+  for (const node of await client.getNodes(neighbors)) nodes.set(node.address, node);
+
+  const pairs = new Map<string, [string, string]>();
+  const addPair = (from: string, to: string) => pairs.set(`${from}>${to}`, [from, to]);
+  for (const node of own) {
+    for (const to of node.outNeighbors) addPair(node.address, to);
+    for (const from of node.inNeighbors) addPair(from, node.address);
+  }
+  for (const [from, to] of options.pairs ?? []) addPair(from.toLowerCase(), to.toLowerCase());
+  const flags = await client.hasEdges([...pairs.values()]);
+
+  return {
+    nodes,
+    outdegrees: new Map(checked.map((a, i) => [a, outdegrees[i]])),
+    edges: new Map([...pairs.keys()].map((key, i) => [key, flags[i]])),
+    seeds: new Set(seeds.map((a) => a.toLowerCase())),
+    checked,
+  };
+}
+
+export function checkInvariants(
+  snapshot: InvariantSnapshot,
+  constants: ContractConstants = VOUCH_MINIMAL_CONSTANTS
+): InvariantViolation[] {
+  const violations: InvariantViolation[] = [];
+  const checked = new Set(snapshot.checked);
+  const violation = (kind: InvariantKind, node: string, expected: unknown, actual: unknown, detail?: string) =>
+    violations.push({ kind, node, expected: String(expected), actual: String(actual), ...(detail ? { detail } : {}) });
+
+  for (const address of snapshot.checked) {
+    const node = snapshot.nodes.get(address)!;
+    for (const [side, list] of [["inNeighbors", node.inNeighbors], ["outNeighbors", node.outNeighbors]] as const) {
+      if (new Set(list).size !== list.length) violation("edge", address, "no duplicates", "duplicates", `${side}: ${list.join(", ")}`);
+      if (list.includes(address)) violation("edge", address, "no self-loop", "self-loop", side);
+    }
+    // each listed edge is in the other endpoint's array too
+    for (const to of node.outNeighbors) {
+      const other = snapshot.nodes.get(to);
+      if (other && !other.inNeighbors.includes(address)) {
+        violation("edge", address, `${address} in inNeighbors(${to})`, "missing", `${to} is in outNeighbors(${address})`);
+      }
+    }
+    for (const from of node.inNeighbors) {
+      const other = snapshot.nodes.get(from);
+      if (other && !other.outNeighbors.includes(address)) {
+        violation("edge", address, `${address} in outNeighbors(${from})`, "missing", `${from} is in inNeighbors(${address})`);
+      }
+    }
+
+    const outdegree = snapshot.outdegrees.get(address)!;
+    if (outdegree !== BigInt(node.outNeighbors.length)) violation("outdegree", address, node.outNeighbors.length, outdegree);
+
+    const inRanks = node.inNeighbors.map((from) => snapshot.nodes.get(from)?.rank ?? constants.defaultRank);
+    const detail = `IN ranks [${inRanks.join(", ")}]`;
+    const rank = computeRank(inRanks, constants);
+    if (node.rank !== rank && !(snapshot.seeds.has(address) && node.rank === 1n)) violation("rank", address, rank, node.rank, detail);
+    const score = computeScore(inRanks, outdegree, constants);
+    if (node.score !== score) violation("score", address, score, node.score, `${detail}, outdegree ${outdegree}`);
+  }
+
+  // hasEdge against the arrays, for every pair read
+  for (const [key, exists] of snapshot.edges) {
+    const [from, to] = key.split(">");
+    if (checked.has(from) && snapshot.nodes.get(from)!.outNeighbors.includes(to) !== exists) {
+      violation("edge", from, `hasEdge(${from}, ${to}) = ${!exists}`, exists, "outNeighbors disagree with hasEdge");
+    }
+    if (checked.has(to) && snapshot.nodes.get(to)!.inNeighbors.includes(from) !== exists) {
+      violation("edge", to, `hasEdge(${from}, ${to}) = ${!exists}`, exists, "inNeighbors disagree with hasEdge");
+    }
+  }
+  return violations;
+}
+
+/**
+ * Splits rank and score violations into the ones `model` (fed the same
+ * operations as the contract) predicts as well, i.e. values the contract
+ * left stale by design, and everything else.
+ */
+export function separateStale(
+  violations: InvariantViolation[],
+  model: VouchModel
+): { stale: InvariantViolation[]; violations: InvariantViolation[] } {
+  const stale: InvariantViolation[] = [];
+  const rest: InvariantViolation[] = [];
+  for (const v of violations) {
+    const predicted = v.kind === "rank" ? model.getRank(v.node) : v.kind === "score" ? model.getScore(v.node) : null;
+    (predicted !== null && predicted.toString() === v.actual ? stale : rest).push(v);
+  }
+  return { stale, violations: rest };
+}
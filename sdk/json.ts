@@ -0,0 +1,26 @@
+/**
+ * JSON helpers that round-trip bigint values as `{ "$bigint": "<decimal>" }`,
+ * used by the file-backed stores and journals.
+ */
+
+export function stringifyWithBigInt(value: unknown, space?: number): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? { $bigint: v.toString() } : v), space);
+}
+
+export function parseWithBigInt<T = unknown>(text: string): T {
+  return JSON.parse(text, (_, v) =>
+    v !== null && typeof v === "object" && typeof v.$bigint === "string" && Object.keys(v).length === 1
+      ? BigInt(v.$bigint)
+      : v
+  );
+}
+
+// Plain JSON for exports: bigint values become decimal strings
+export function toPlainJson(value: unknown, space?: number): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), space);
+}
+
+// A parsed JSON object (not an array or null), for narrowing `unknown` input
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
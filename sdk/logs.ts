@@ -0,0 +1,111 @@
+import type { Filter, Log, Provider } from "ethers";
+
+/**
+ * Chunked eth_getLogs.
+ *
+ * Public RPCs cap the block range (or result count) of a single eth_getLogs
+ * call and throttle bursts. fetchLogs walks a block range in chunks, a few at
+ * a time; when the node says a range is too large, that range is split in
+ * half and later chunks shrink too. Other failures (rate limits, timeouts)
+ * are retried with exponential backoff.
+ */
+
+export interface FetchLogsOptions {
+  // first block to scan (the deployment block); defaults to 0
+  fromBlock?: number;
+  // last block to scan; defaults to the chain head
+  toBlock?: number;
+  // initial block range per request, halved whenever the node rejects a range
+  chunkSize?: number;
+  // requests in flight at once
+  concurrency?: number;
+  // attempts per range for errors that are not "range too large"
+  maxRetries?: number;
+  // base backoff delay, doubled per attempt
+  retryDelayMs?: number;
+  onProgress?: (scannedBlocks: number, totalBlocks: number) => void;
+}
+
+export type LogFilter = Pick<Filter, "address" | "topics">;
+
+export const DEFAULT_LOG_CHUNK_SIZE = 2000;
+export const DEFAULT_LOG_CONCURRENCY = 4;
+export const DEFAULT_LOG_MAX_RETRIES = 5;
+
+// Provider messages for "narrow your query" across Geth, Erigon, Alchemy, Infura, QuickNode, ...
+const RANGE_TOO_LARGE =
+  /block range|range (is )?too (large|wide|big)|more than \d+ (results|logs)|response size|too many (blocks|results|logs)|max(imum)? (block )?range|query timeout|limit the query/i;
+
+function errorText(error: any): string {
+  return [error?.shortMessage, error?.message, error?.error?.message, error?.info?.error?.message]
+    .filter((m) => typeof m === "string")
+    .join(" | ");
+}
+
+export function isRangeTooLargeError(error: unknown): boolean {
+  return RANGE_TOO_LARGE.test(errorText(error));
+}
+
+/**
+ * Fetches every log matching `filter` in [fromBlock, toBlock], sorted by
+ * block number and log index.
+ */
+export async function fetchLogs(provider: Provider, filter: LogFilter, options: FetchLogsOptions = {}): Promise<Log[]> {
+  const fromBlock = options.fromBlock ?? 0;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_LOG_CONCURRENCY);
+  const maxRetries = options.maxRetries ?? DEFAULT_LOG_MAX_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? 500;
+  if (toBlock < fromBlock) return [];
+
+  const totalBlocks = toBlock - fromBlock + 1;
+  let chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_LOG_CHUNK_SIZE);
+  let next = fromBlock;
+  let scanned = 0;
+  const results: Log[][] = [];
+
+  const fetchRange = async (start: number, end: number): Promise<void> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        results.push(await provider.getLogs({ ...filter, fromBlock: start, toBlock: end }));
+        scanned += end - start + 1;
+        options.onProgress?.(scanned, totalBlocks);
+        return;
+      } catch (error) {
+        if (isRangeTooLargeError(error) && end > start) {
+          const size = end - start + 1;
+          chunkSize = Math.max(1, Math.min(chunkSize, Math.floor(size / 2)));
+          const mid = start + Math.floor(size / 2) - 1;
+          await fetchRange(start, mid);
+          await fetchRange(mid + 1, end);
+          return;
+        }
+        if (attempt >= maxRetries) throw error;
+        await sleep(retryDelayMs * 2 ** attempt);
+      }
+    }
+  };
+
+  // each worker claims the next chunk at the current (possibly reduced) size
+  let failed = false;
+  const worker = async (): Promise<void> => {
+    while (next <= toBlock && !failed) {
+      const start = next;
+      const end = Math.min(start + chunkSize - 1, toBlock);
+      next = end + 1;
+      try {
+        await fetchRange(start, end);
+      } catch (error) {
+        failed = true; // stop the other workers from claiming more chunks
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  return results.flat().sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,311 @@
+import { ZeroAddress } from "ethers";
+import { VouchRevertError } from "./errors";
+import type { VouchContractEvent } from "./events";
+import type { ContractConstants, Node, VouchOperation } from "./types";
+
+/**
+ * Pure TypeScript reference implementation of VouchMinimal.
+ *
+ * Mirrors the contract's storage layout (including the swap-and-pop order of
+ * the neighbor arrays and the raw `rank == 0` "never ranked" marker) so that
+ * it predicts exactly what the contract stores and emits. Use it to reason
+ * about graph changes without sending transactions.
+ */
+
+export const VOUCH_MINIMAL_CONSTANTS: ContractConstants = {
+  defaultRank: 6n,
+  r: 5n,
+  bonusOut: 1n,
+  bonusCap: 15n,
+  maxSeedVouches: 5n,
+};
+
+const UINT256_MASK = (1n << 256n) - 1n;
+
+// c_r = 2^(R - r) for r <= R; 0 otherwise or if r >= DEFAULT_RANK  (mirrors _w)
+export function rankWeight(rank: bigint, constants: ContractConstants = VOUCH_MINIMAL_CONSTANTS): bigint {
+  if (rank >= constants.defaultRank) return 0n;
+  if (rank <= constants.r) return 1n << (constants.r - rank);
+  return 0n;
+}
+
+// r[v] = 3k + 1 - min(m, 3) over the (defaulted) ranks of IN(v)  (mirrors _recomputeRankOnly)
+export function computeRank(inRanks: readonly bigint[], constants: ContractConstants = VOUCH_MINIMAL_CONSTANTS): bigint {
+  if (inRanks.length === 0) return constants.defaultRank;
+
+  let k = UINT256_MASK;
+  let m = 0n;
+  for (const ru of inRanks) {
+    if (ru < k) {
+      k = ru;
+      m = 1n;
+    } else if (ru === k && m < 3n) {
+      m += 1n;
+    }
+  }
+  // unchecked arithmetic in the contract
+  return (3n * k + 1n - m) & UINT256_MASK;
+}
+
+// score[a] = sum c_{r[u]} over IN(a) + BONUS_OUT * min(BONUS_CAP, outdeg(a))  (mirrors _recomputeScore)
+export function computeScore(
+  inRanks: readonly bigint[],
+  outdegree: bigint,
+  constants: ContractConstants = VOUCH_MINIMAL_CONSTANTS
+): bigint {
+  let s = 0n;
+  for (const ru of inRanks) s += rankWeight(ru, constants);
+  const capped = outdegree > constants.bonusCap ? constants.bonusCap : outdegree;
+  return (s + constants.bonusOut * capped) & UINT256_MASK;
+}
+
+interface ModelNode {
+  rank: bigint; // 0 => DEFAULT_RANK
+  score: bigint;
+  outdegree: bigint;
+  inNeighbors: string[];
+  outNeighbors: string[];
+}
+
+export interface VouchModelOptions {
+  constants?: ContractConstants;
+  minimumStake?: bigint;
+}
+
+export class VouchModel {
+  readonly constants: ContractConstants;
+  minimumStake: bigint;
+  seedVouchCount = 0n;
+
+  private readonly nodes = new Map<string, ModelNode>();
+  private readonly edges = new Set<string>();
+  private readonly stakes = new Map<string, bigint>();
+
+  constructor(options: VouchModelOptions = {}) {
+    this.constants = options.constants ?? VOUCH_MINIMAL_CONSTANTS;
+    this.minimumStake = options.minimumStake ?? 0n;
+  }
+
+  clone(): VouchModel {
+    const copy = new VouchModel({ constants: this.constants, minimumStake: this.minimumStake });
+    copy.seedVouchCount = this.seedVouchCount;
+    for (const [address, node] of this.nodes) {
+      copy.nodes.set(address, {
+        ...node,
+        inNeighbors: [...node.inNeighbors],
+        outNeighbors: [...node.outNeighbors],
+      });
+    }
+    for (const edge of this.edges) copy.edges.add(edge);
+    for (const [address, amount] of this.stakes) copy.stakes.set(address, amount);
+    return copy;
+  }
+
+  /**
+   * Loads one node as the contract stores it, so predictions can start from
+   * a partial view of a live graph. `rank` is the raw stored rank (0 = never
+   * ranked); the node's out-edges are registered too.
+   */
+  restoreNode(
+    address: string,
+    stored: { rank: bigint; score: bigint; inNeighbors: string[]; outNeighbors: string[] }
+  ): void {
+    const a = address.toLowerCase();
+    const outNeighbors = stored.outNeighbors.map((n) => n.toLowerCase());
+    this.nodes.set(a, {
+      rank: stored.rank,
+      score: stored.score,
+      outdegree: BigInt(outNeighbors.length),
+      inNeighbors: stored.inNeighbors.map((n) => n.toLowerCase()),
+      outNeighbors,
+    });
+    for (const to of outNeighbors) this.edges.add(edgeKey(a, to));
+  }
+
+  // ---- staking (stands in for the DepositManager) ----
+  setStake(account: string, amount: bigint): void {
+    this.stakes.set(account.toLowerCase(), amount);
+  }
+
+  getStakedAmount(account: string): bigint {
+    return this.stakes.get(account.toLowerCase()) ?? 0n;
+  }
+
+  hasMinimumStake(account: string): boolean {
+    return this.getStakedAmount(account) >= this.minimumStake;
+  }
+
+  // ---- views ----
+  hasEdge(from: string, to: string): boolean {
+    return this.edges.has(edgeKey(from.toLowerCase(), to.toLowerCase()));
+  }
+
+  getRank(address: string): bigint {
+    return this.rankOrDefault(address.toLowerCase());
+  }
+
+  getScore(address: string): bigint {
+    return this.nodes.get(address.toLowerCase())?.score ?? 0n;
+  }
+
+  getOutdegree(address: string): bigint {
+    return this.nodes.get(address.toLowerCase())?.outdegree ?? 0n;
+  }
+
+  // Raw stored rank: 0 means the node was never ranked
+  getStoredRank(address: string): bigint {
+    return this.nodes.get(address.toLowerCase())?.rank ?? 0n;
+  }
+
+  getNodeInfo(address: string): Node {
+    const a = address.toLowerCase();
+    const node = this.nodes.get(a);
+    return {
+      address: a,
+      rank: this.rankOrDefault(a),
+      score: node?.score ?? 0n,
+      inCount: node?.inNeighbors.length ?? 0,
+      outCount: node?.outNeighbors.length ?? 0,
+      inNeighbors: [...(node?.inNeighbors ?? [])],
+      outNeighbors: [...(node?.outNeighbors ?? [])],
+    };
+  }
+
+  // Every address that has been touched by a vouch, in first-seen order
+  addresses(): string[] {
+    return Array.from(this.nodes.keys());
+  }
+
+  get bootstrapComplete(): boolean {
+    return this.seedVouchCount >= this.constants.maxSeedVouches;
+  }
+
+  // ---- operations ----
+  apply(op: VouchOperation): VouchContractEvent[] {
+    return op.action === "vouch" ? this.vouch(op.from, op.to) : this.unvouch(op.from, op.to);
+  }
+
+  vouch(fromAddress: string, toAddress: string): VouchContractEvent[] {
+    const from = fromAddress.toLowerCase();
+    const to = toAddress.toLowerCase();
+    if (to === ZeroAddress) throw new VouchRevertError("zero");
+    if (to === from) throw new VouchRevertError("self");
+    if (this.hasEdge(from, to)) throw new VouchRevertError("exists");
+    if (!this.hasMinimumStake(from)) throw new VouchRevertError("Insufficient stake to vouch");
+
+    const u = this.node(from);
+    const v = this.node(to);
+    const events: VouchContractEvent[] = [];
+
+    this.edges.add(edgeKey(from, to));
+    u.outdegree += 1n;
+    u.outNeighbors.push(to);
+    v.inNeighbors.push(from);
+
+    if (this.seedVouchCount < this.constants.maxSeedVouches) {
+      const fromIsNew = u.rank === 0n;
+      const toIsNew = v.rank === 0n;
+
+      u.rank = 1n;
+      v.rank = 1n;
+      this.recomputeScore(from);
+      this.recomputeScore(to);
+
+      const seedNumber = this.seedVouchCount;
+      this.seedVouchCount += 1n;
+
+      if (fromIsNew) events.push({ name: "NodeActivated", node: from, initialRank: 1n });
+      if (toIsNew) events.push({ name: "NodeActivated", node: to, initialRank: 1n });
+      events.push({ name: "BootstrapVouchCreated", from, to, seedNumber });
+      events.push({ name: "VouchCreated", from, to, toRank: v.rank, fromScore: u.score, toScore: v.score });
+      if (this.seedVouchCount === this.constants.maxSeedVouches) {
+        events.push({ name: "BootstrapComplete" });
+      }
+      return events;
+    }
+
+    const fromFirstTime = u.rank === 0n && u.inNeighbors.length === 0 && u.outdegree === 1n;
+    const toFirstTime = v.rank === 0n && v.inNeighbors.length === 1 && v.outdegree === 0n;
+
+    const oldRankTo = this.rankOrDefault(to);
+    this.recomputeRankOnly(to);
+    this.recomputeScore(from);
+    this.recomputeScore(to);
+    const newRankTo = this.rankOrDefault(to);
+
+    if (fromFirstTime) events.push({ name: "NodeActivated", node: from, initialRank: this.constants.defaultRank });
+    if (toFirstTime && v.rank !== 0n) events.push({ name: "NodeActivated", node: to, initialRank: newRankTo });
+    if (oldRankTo !== newRankTo) events.push({ name: "RankChanged", node: to, oldRank: oldRankTo, newRank: newRankTo });
+    events.push({ name: "VouchCreated", from, to, toRank: newRankTo, fromScore: u.score, toScore: v.score });
+    return events;
+  }
+
+  unvouch(fromAddress: string, toAddress: string): VouchContractEvent[] {
+    const from = fromAddress.toLowerCase();
+    const to = toAddress.toLowerCase();
+    if (to === ZeroAddress) throw new VouchRevertError("zero");
+    if (to === from) throw new VouchRevertError("self");
+    if (!this.hasEdge(from, to)) throw new VouchRevertError("not exists");
+
+    const u = this.node(from);
+    const v = this.node(to);
+    const events: VouchContractEvent[] = [];
+
+    this.edges.delete(edgeKey(from, to));
+    u.outdegree -= 1n;
+
+    const oldRankTo = this.rankOrDefault(to);
+    removeFromArray(u.outNeighbors, to);
+    removeFromArray(v.inNeighbors, from);
+
+    this.recomputeRankOnly(to);
+    this.recomputeScore(from);
+    this.recomputeScore(to);
+    const newRankTo = this.rankOrDefault(to);
+
+    if (oldRankTo !== newRankTo) events.push({ name: "RankChanged", node: to, oldRank: oldRankTo, newRank: newRankTo });
+    events.push({ name: "VouchRemoved", from, to, toRank: newRankTo, fromScore: u.score, toScore: v.score });
+    return events;
+  }
+
+  // ---- internals ----
+  private node(address: string): ModelNode {
+    let node = this.nodes.get(address);
+    if (!node) {
+      node = { rank: 0n, score: 0n, outdegree: 0n, inNeighbors: [], outNeighbors: [] };
+      this.nodes.set(address, node);
+    }
+    return node;
+  }
+
+  private rankOrDefault(address: string): bigint {
+    const r = this.nodes.get(address)?.rank ?? 0n;
+    return r === 0n ? this.constants.defaultRank : r;
+  }
+
+  private recomputeRankOnly(address: string): void {
+    const node = this.node(address);
+    node.rank = computeRank(node.inNeighbors.map((u) => this.rankOrDefault(u)), this.constants);
+  }
+
+  private recomputeScore(address: string): void {
+    const node = this.node(address);
+    node.score = computeScore(
+      node.inNeighbors.map((u) => this.rankOrDefault(u)),
+      node.outdegree,
+      this.constants
+    );
+  }
+}
+
+function edgeKey(from: string, to: string): string {
+  return `${from}->${to}`;
+}
+
+// swap-and-pop, same order as the contract's _removeFromArray
+function removeFromArray(arr: string[], toRemove: string): void {
+  const i = arr.indexOf(toRemove);
+  if (i < 0) return;
+  arr[i] = arr[arr.length - 1];
+  arr.pop();
+}
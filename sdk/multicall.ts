@@ -0,0 +1,41 @@
+import type { BlockTag, ContractRunner, Provider } from "ethers";
+import { Multicall3__factory } from "../typechain-types";
+
+/**
+ * Multicall3 batching. Every public network in hardhat.config.ts has
+ * Multicall3 at its canonical address; local Hardhat chains get
+ * contracts/mocks/Multicall3.sol installed there by the scripts.
+ */
+
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export interface MulticallRequest {
+  target: string;
+  callData: string;
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+export interface MulticallOptions {
+  address?: string;
+  blockTag?: BlockTag;
+}
+
+export async function hasMulticall(provider: Provider, address: string = MULTICALL3_ADDRESS): Promise<boolean> {
+  return (await provider.getCode(address)) !== "0x";
+}
+
+// Runs every request in a single eth_call; a reverting request comes back with success = false
+export async function aggregate(
+  runner: ContractRunner,
+  requests: readonly MulticallRequest[],
+  options: MulticallOptions = {}
+): Promise<MulticallResult[]> {
+  const multicall = Multicall3__factory.connect(options.address ?? MULTICALL3_ADDRESS, runner);
+  const calls = requests.map((r) => ({ target: r.target, allowFailure: true, callData: r.callData }));
+  const results = await multicall.aggregate3.staticCall(calls, { blockTag: options.blockTag });
+  return results.map((r) => ({ success: r.success, returnData: r.returnData }));
+}
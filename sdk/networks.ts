@@ -0,0 +1,15 @@
+/**
+ * Per-network confirmation depth: how many blocks behind the head a block must
+ * be before we treat it as final. Used when waiting on deployments and as the
+ * reorg window tracked by the indexer.
+ */
+
+export const DEFAULT_CONFIRMATIONS = 5;
+
+const CONFIRMATIONS_BY_CHAIN: Record<string, number> = {
+  "1": 6, // Ethereum mainnet
+};
+
+export function confirmationsFor(chainId: bigint | number | string): number {
+  return CONFIRMATIONS_BY_CHAIN[chainId.toString()] ?? DEFAULT_CONFIRMATIONS;
+}
@@ -0,0 +1,10 @@
+// Node entry: everything in the browser-safe barrel plus the helpers that
+// read and write files or serve HTTP.
+export * from "./index";
+export * from "./api";
+export * from "./deployments";
+export * from "./explorer";
+export * from "./files";
+export * from "./runlog";
+export * from "./store";
+export * from "./wallets";
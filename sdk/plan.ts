@@ -0,0 +1,102 @@
+import { id, isAddress } from "ethers";
+import type { VouchOperation } from "./types";
+
+/**
+ * Batch plans: an ordered list of vouch/unvouch operations, read from JSON
+ * (an array of `{ from, to, action }`) or CSV (a `from,to,action` header),
+ * and the journal executePlan keeps while it runs one.
+ *
+ * The journal is append-only JSON lines, so a run killed mid-write loses at
+ * most its last line. It records every transaction before its receipt and
+ * every final result, which is what lets an interrupted run pick up where it
+ * stopped.
+ */
+
+export type PlanFormat = "json" | "csv";
+
+export type OperationStatus = "confirmed" | "reverted" | "skipped";
+
+// Final outcome of one plan entry
+export interface OperationResult extends VouchOperation {
+  index: number;
+  status: OperationStatus;
+  // revert reason, or why nothing was sent ("exists" for a vouch that is already on chain)
+  reason?: string;
+  // absent when the call reverted in gas estimation and was never sent
+  txHash?: string;
+  blockNumber?: number;
+  // position in the block; with blockNumber, the order the operations took effect
+  transactionIndex?: number;
+  gasUsed?: bigint;
+}
+
+export type JournalEntry =
+  | { type: "plan"; planId: string; contract: string; chainId: bigint; operations: number }
+  | { type: "sent"; index: number; from: string; txHash: string; nonce: number }
+  | ({ type: "result" } & OperationResult);
+
+export interface PlanJournal {
+  load(): Promise<JournalEntry[]>;
+  append(entry: JournalEntry): Promise<void>;
+}
+
+export function parsePlan(text: string, format: PlanFormat): VouchOperation[] {
+  const rows = format === "json" ? jsonRows(text) : csvRows(text);
+  return rows.map(({ line, row }) => {
+    const where = `Plan ${format === "json" ? "entry" : "line"} ${line}`;
+    const action = String(row.action ?? "").trim().toLowerCase();
+    if (action !== "vouch" && action !== "unvouch") {
+      throw new Error(`${where}: action must be vouch or unvouch (got "${row.action ?? ""}")`);
+    }
+    const from = String(row.from ?? "").trim();
+    const to = String(row.to ?? "").trim();
+    if (!isAddress(from)) throw new Error(`${where}: from is not an address: "${from}"`);
+    if (!isAddress(to)) throw new Error(`${where}: to is not an address: "${to}"`);
+    return { action, from: from.toLowerCase(), to: to.toLowerCase() };
+  });
+}
+
+export function formatPlan(operations: readonly VouchOperation[], format: PlanFormat): string {
+  if (format === "json") {
+    return JSON.stringify(operations.map(({ from, to, action }) => ({ from, to, action })), null, 2) + "\n";
+  }
+  return ["from,to,action", ...operations.map((op) => `${op.from},${op.to},${op.action}`)].join("\n") + "\n";
+}
+
+// Identifies a plan's content, so a journal is never resumed against a different plan
+export function planId(operations: readonly VouchOperation[]): string {
+  return id(formatPlan(operations.map((op) => ({ ...op, from: op.from.toLowerCase(), to: op.to.toLowerCase() })), "csv"));
+}
+
+function jsonRows(text: string): { line: number; row: Record<string, unknown> }[] {
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) throw new Error("A JSON plan must be an array of { from, to, action } objects");
+  return parsed.map((row, i) => ({ line: i, row: row ?? {} }));
+}
+
+function csvRows(text: string): { line: number; row: Record<string, unknown> }[] {
+  const lines = text.split(/\r?\n/).map((l, i) => ({ line: i + 1, cells: l.split(",").map((c) => c.trim()) }));
+  const content = lines.filter((l) => l.cells.some((c) => c.length > 0) && !l.cells[0].startsWith("#"));
+  if (content.length === 0) return [];
+  const header = content[0].cells.map((c) => c.toLowerCase());
+  for (const column of ["from", "to", "action"]) {
+    if (!header.includes(column)) throw new Error(`CSV plan header must name the columns from, to and action`);
+  }
+  return content.slice(1).map(({ line, cells }) => ({
+    line,
+    row: Object.fromEntries(header.map((name, i) => [name, cells[i]])),
+  }));
+}
+
+// Keeps the journal in memory only (tests, runs that never resume)
+export class MemoryJournal implements PlanJournal {
+  readonly entries: JournalEntry[] = [];
+
+  async load(): Promise<JournalEntry[]> {
+    return [...this.entries];
+  }
+
+  async append(entry: JournalEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+}
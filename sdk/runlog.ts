@@ -0,0 +1,73 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseWithBigInt, stringifyWithBigInt } from "./json";
+
+/**
+ * Operation log of a randomized run (JSON lines): a header with the seed and
+ * the actors, then one line per attempted operation and its outcome. Actors
+ * are referred to by index, so a log from a live network can be replayed on
+ * a local node, where the same seed derives other addresses.
+ */
+
+export interface RunLogHeader {
+  type: "run";
+  script: string;
+  seed: number;
+  network: string;
+  chainId: bigint;
+  contract: string;
+  startedAt: string;
+  actors: string[];
+  // set when the run was itself a replay of another log
+  replayOf?: string;
+}
+
+export type RunOutcome = "confirmed" | "skipped" | "failed";
+
+export interface RunLogEntry {
+  type: "op";
+  // phase of the run ("chain", "random", "round 2 unvouch", ...)
+  step: string;
+  action: "vouch" | "unvouch";
+  from: number;
+  to: number;
+  outcome: RunOutcome;
+  // why it was skipped or failed
+  reason?: string;
+  txHash?: string;
+}
+
+export class RunLog {
+  private constructor(readonly file: string) {}
+
+  // Starts a new log at `file`, replacing an older one
+  static create(file: string, header: RunLogHeader): RunLog {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, stringifyWithBigInt(header) + "\n");
+    return new RunLog(file);
+  }
+
+  // Written as it happens, so a crashed run still leaves its log behind
+  append(entry: RunLogEntry): void {
+    fs.appendFileSync(this.file, stringifyWithBigInt(entry) + "\n");
+  }
+}
+
+export function readRunLog(file: string): { header: RunLogHeader; entries: RunLogEntry[] } {
+  const lines = fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .filter((line) => line.trim());
+  const records = lines.map((line, i) => {
+    try {
+      return parseWithBigInt(line) as RunLogHeader | RunLogEntry;
+    } catch {
+      // the last line of a crashed run may be cut off
+      if (i === lines.length - 1) return null;
+      throw new Error(`${file}: line ${i + 1} is not valid JSON`);
+    }
+  });
+  const [header, ...entries] = records;
+  if (header?.type !== "run") throw new Error(`${file} is not a run log (no header line)`);
+  return { header, entries: entries.filter((e): e is RunLogEntry => e?.type === "op") };
+}
@@ -0,0 +1,483 @@
+import { load as loadYaml } from "js-yaml";
+import type { Signer } from "ethers";
+import type { VouchClient } from "./client";
+import { VouchRevertError } from "./errors";
+import { PlanReport, executePlan } from "./executor";
+import { VouchModel } from "./model";
+import { MemoryJournal } from "./plan";
+import { Prng } from "./random";
+import type { Node, VouchOperation } from "./types";
+
+/**
+ * Declarative test graphs. A scenario file (YAML, or JSON which is valid
+ * YAML) names the actors and their stakes, then lists steps:
+ *
+ *   vouch / unvouch   explicit [from, to] pairs (a group on either side expands to every member)
+ *   chain             a0 → a1 → … (cycle: true closes it)
+ *   star              center → each actor (direction: out | in | both)
+ *   clique            every ordered pair
+ *   random            Erdős–Rényi: each ordered pair with probability p
+ *   sybil             a cluster wired internally (clique | chain | random | none) and
+ *                     attached to the honest region by k edges from `attach` members
+ *   unvouchRound      removes a fraction (or count) of the scenario's edges, `repeat` times
+ *   checkpoint        expected rank / score / inCount / outCount per actor, and
+ *                     optionally a full comparison against the off-chain model
+ *
+ * Actors are referenced by name, by group ("honest"), member ("honest[2]")
+ * or slice ("honest[0:5]"). Random choices come from the scenario's seed, so
+ * a scenario always compiles to the same operations.
+ */
+
+export type ActorRef = string | string[];
+
+// exact value, or a range
+export type ValueExpectation = number | string | { min?: number | string; max?: number | string };
+
+export interface NodeExpectation {
+  rank?: ValueExpectation;
+  score?: ValueExpectation;
+  inCount?: ValueExpectation;
+  outCount?: ValueExpectation;
+}
+
+export type ScenarioStep =
+  | { vouch: [ActorRef, ActorRef][] }
+  | { unvouch: [ActorRef, ActorRef][] }
+  | { chain: { actors: ActorRef; cycle?: boolean } }
+  | { star: { center: ActorRef; actors: ActorRef; direction?: "out" | "in" | "both" } }
+  | { clique: { actors: ActorRef } }
+  | { random: { actors: ActorRef; p: number } }
+  | {
+      sybil: {
+        actors: ActorRef;
+        attach: ActorRef;
+        k: number;
+        internal?: "clique" | "chain" | "random" | "none";
+        p?: number;
+      };
+    }
+  | { unvouchRound: { fraction?: number; count?: number; among?: ActorRef; repeat?: number } }
+  | { checkpoint: { name: string; expect?: Record<string, NodeExpectation>; model?: boolean } };
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  seed?: number;
+  // stake in DepositManager units; numbers must be safe integers, use strings for larger amounts
+  actors?: Record<string, { stake?: number | string } | null>;
+  groups?: Record<string, { count: number; stake?: number | string }>;
+  steps: ScenarioStep[];
+}
+
+export interface CheckpointExpectation {
+  actor: string;
+  address: string;
+  field: keyof NodeExpectation;
+  expected: ValueExpectation;
+}
+
+export type ScenarioPhase =
+  | { kind: "operations"; label: string; operations: VouchOperation[] }
+  | { kind: "checkpoint"; name: string; expectations: CheckpointExpectation[]; model: boolean };
+
+export interface CompiledScenario {
+  name: string;
+  // actor name ("alice", "honest[0]") → lowercased address
+  actors: Record<string, string>;
+  stakes: Record<string, bigint>;
+  phases: ScenarioPhase[];
+  // actors that send at least one transaction (and need gas)
+  senders: string[];
+}
+
+export interface CheckpointFailure {
+  actor: string;
+  address: string;
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+export interface CheckpointResult {
+  name: string;
+  passed: boolean;
+  failures: CheckpointFailure[];
+}
+
+export interface ScenarioReport {
+  name: string;
+  confirmed: number;
+  reverted: number;
+  skipped: number;
+  gasUsed: bigint;
+  // operations that did not confirm, with the phase they belong to
+  problems: { phase: string; operation: VouchOperation; status: string; reason?: string }[];
+  checkpoints: CheckpointResult[];
+  passed: boolean;
+}
+
+export interface RunScenarioOptions {
+  signers: Signer[];
+  onPhase?: (phase: ScenarioPhase, index: number) => void;
+  onPlan?: (label: string, report: PlanReport) => void;
+  onCheckpoint?: (result: CheckpointResult) => void;
+}
+
+const NODE_FIELDS: (keyof NodeExpectation)[] = ["rank", "score", "inCount", "outCount"];
+const STEP_KINDS = ["vouch", "unvouch", "chain", "star", "clique", "random", "sybil", "unvouchRound", "checkpoint"];
+
+export function parseScenario(text: string): Scenario {
+  const scenario = loadYaml(text) as Scenario;
+  if (!scenario || typeof scenario !== "object") throw new Error("A scenario must be a mapping");
+  if (typeof scenario.name !== "string" || !scenario.name) throw new Error("A scenario needs a name");
+  if (!Array.isArray(scenario.steps)) throw new Error("A scenario needs a list of steps");
+  scenario.steps.forEach((step, i) => {
+    const keys = Object.keys(step ?? {});
+    if (keys.length !== 1 || !STEP_KINDS.includes(keys[0])) {
+      throw new Error(`Scenario step ${i + 1}: expected exactly one of ${STEP_KINDS.join(", ")} (got ${keys.join(", ") || "nothing"})`);
+    }
+  });
+  return scenario;
+}
+
+// Every individual actor, in the order addresses are assigned: named actors, then group members
+export function scenarioActorNames(scenario: Scenario): string[] {
+  const names = Object.keys(scenario.actors ?? {});
+  for (const [group, { count }] of Object.entries(scenario.groups ?? {})) {
+    if (names.includes(group)) throw new Error(`"${group}" is both an actor and a group`);
+    if (!Number.isInteger(count) || count < 1) throw new Error(`Group ${group} needs a positive count`);
+    for (let i = 0; i < count; i++) names.push(`${group}[${i}]`);
+  }
+  return names;
+}
+
+/**
+ * Turns a scenario into operations and checkpoints for the given actor
+ * addresses (one per scenarioActorNames entry). Generators only emit edges
+ * that do not exist yet, and unvouch rounds pick from the edges the scenario
+ * has made so far, assuming every earlier operation succeeds.
+ */
+export function compileScenario(scenario: Scenario, addresses: readonly string[]): CompiledScenario {
+  const names = scenarioActorNames(scenario);
+  if (addresses.length < names.length) throw new Error(`Scenario ${scenario.name} needs ${names.length} actors, got ${addresses.length}`);
+  const actors: Record<string, string> = {};
+  names.forEach((name, i) => (actors[name] = addresses[i].toLowerCase()));
+  const nameOf = new Map(Object.entries(actors).map(([name, address]) => [address, name]));
+
+  const stakes: Record<string, bigint> = {};
+  for (const [name, spec] of Object.entries(scenario.actors ?? {})) {
+    if (spec?.stake !== undefined) stakes[actors[name]] = toBigInt(spec.stake, `stake of ${name}`);
+  }
+  for (const [group, spec] of Object.entries(scenario.groups ?? {})) {
+    if (spec.stake === undefined) continue;
+    for (let i = 0; i < spec.count; i++) stakes[actors[`${group}[${i}]`]] = toBigInt(spec.stake, `stake of ${group}`);
+  }
+
+  const resolve = (ref: ActorRef, where: string): string[] => {
+    const out: string[] = [];
+    for (const item of Array.isArray(ref) ? ref : [ref]) {
+      const name = String(item).trim();
+      const slice = name.match(/^([\w.-]+)\[(\d*):(\d*)\]$/);
+      const group = scenario.groups?.[slice ? slice[1] : name];
+      if (actors[name]) out.push(actors[name]);
+      else if (group) {
+        const start = slice && slice[2] ? Number(slice[2]) : 0;
+        const end = slice && slice[3] ? Number(slice[3]) : group.count;
+        for (let i = start; i < Math.min(end, group.count); i++) out.push(actors[`${slice ? slice[1] : name}[${i}]`]);
+      } else throw new Error(`${where}: unknown actor or group "${name}"`);
+    }
+    return [...new Set(out)];
+  };
+
+  const rng = new Prng(scenario.seed ?? 1);
+  const edges = new Set<string>();
+  const phases: ScenarioPhase[] = [];
+  const senders = new Set<string>();
+
+  const operations = (label: string, ops: VouchOperation[]) => {
+    for (const op of ops) if (op.action === "vouch") senders.add(op.from);
+    phases.push({ kind: "operations", label, operations: ops });
+  };
+  // new edges only, in order, never to self
+  const vouches = (pairs: [string, string][]): VouchOperation[] => {
+    const ops: VouchOperation[] = [];
+    for (const [from, to] of pairs) {
+      if (from === to || edges.has(`${from}>${to}`)) continue;
+      edges.add(`${from}>${to}`);
+      ops.push({ action: "vouch", from, to });
+    }
+    return ops;
+  };
+  const unvouches = (pairs: [string, string][]): VouchOperation[] => {
+    const ops: VouchOperation[] = [];
+    for (const [from, to] of pairs) {
+      if (!edges.delete(`${from}>${to}`)) continue;
+      senders.add(from);
+      ops.push({ action: "unvouch", from, to });
+    }
+    return ops;
+  };
+  const allPairs = (members: string[]): [string, string][] =>
+    members.flatMap((from) => members.filter((to) => to !== from).map((to): [string, string] => [from, to]));
+  const cross = (pairs: [ActorRef, ActorRef][], where: string): [string, string][] =>
+    pairs.flatMap(([from, to]) =>
+      resolve(from, where).flatMap((f) => resolve(to, where).map((t): [string, string] => [f, t]))
+    );
+
+  scenario.steps.forEach((step, i) => {
+    const where = `Scenario step ${i + 1}`;
+    if ("vouch" in step) return operations(`vouch (${step.vouch.length} pairs)`, vouches(cross(step.vouch, where)));
+    if ("unvouch" in step) return operations(`unvouch (${step.unvouch.length} pairs)`, unvouches(cross(step.unvouch, where)));
+
+    if ("chain" in step) {
+      const members = resolve(step.chain.actors, where);
+      const pairs = members.slice(1).map((to, j): [string, string] => [members[j], to]);
+      if (step.chain.cycle && members.length > 2) pairs.push([members[members.length - 1], members[0]]);
+      return operations(`chain of ${members.length}`, vouches(pairs));
+    }
+    if ("star" in step) {
+      const [center] = resolve(step.star.center, where);
+      const direction = step.star.direction ?? "out";
+      const members = resolve(step.star.actors, where);
+      const pairs: [string, string][] = [];
+      for (const member of members) {
+        if (direction !== "in") pairs.push([center, member]);
+        if (direction !== "out") pairs.push([member, center]);
+      }
+      return operations(`star around ${nameOf.get(center)} (${direction})`, vouches(pairs));
+    }
+    if ("clique" in step) {
+      const members = resolve(step.clique.actors, where);
+      return operations(`clique of ${members.length}`, vouches(allPairs(members)));
+    }
+    if ("random" in step) {
+      const members = resolve(step.random.actors, where);
+      const p = probability(step.random.p, where);
+      return operations(`random graph G(${members.length}, ${p})`, vouches(allPairs(members).filter(() => rng.chance(p))));
+    }
+    if ("sybil" in step) {
+      const { k, internal = "clique" } = step.sybil;
+      const sybils = resolve(step.sybil.actors, where);
+      const honest = resolve(step.sybil.attach, where);
+      let inner: [string, string][] = [];
+      if (internal === "clique") inner = allPairs(sybils);
+      if (internal === "chain") inner = sybils.slice(1).map((to, j): [string, string] => [sybils[j], to]);
+      if (internal === "random") inner = allPairs(sybils).filter(() => rng.chance(probability(step.sybil.p, where)));
+      // k distinct attack edges, honest → sybil
+      const candidates = honest.flatMap((h) => sybils.filter((s) => s !== h).map((s): [string, string] => [h, s]));
+      if (!Number.isInteger(k) || k < 0 || k > candidates.length) {
+        throw new Error(`${where}: k must be an integer between 0 and ${candidates.length}`);
+      }
+      const attack = shuffle(rng, candidates).slice(0, k);
+      return operations(`sybil cluster of ${sybils.length} attached by ${k} edges`, vouches([...inner, ...attack]));
+    }
+    if ("unvouchRound" in step) {
+      const { fraction, count, repeat = 1 } = step.unvouchRound;
+      const among = step.unvouchRound.among ? new Set(resolve(step.unvouchRound.among, where)) : null;
+      for (let round = 1; round <= repeat; round++) {
+        const existing = [...edges].map((e) => e.split(">") as [string, string]).filter(([from]) => !among || among.has(from));
+        const n = count ?? Math.round(existing.length * probability(fraction, where));
+        const picked = shuffle(rng, existing).slice(0, Math.min(n, existing.length));
+        operations(`unvouch round ${round}/${repeat} (${picked.length} edges)`, unvouches(picked));
+      }
+      return;
+    }
+
+    const { name, expect = {}, model = false } = step.checkpoint;
+    const expectations: CheckpointExpectation[] = [];
+    for (const [ref, expectation] of Object.entries(expect)) {
+      for (const field of Object.keys(expectation) as (keyof NodeExpectation)[]) {
+        if (!NODE_FIELDS.includes(field)) throw new Error(`${where}: cannot check "${field}" (expected ${NODE_FIELDS.join(", ")})`);
+        for (const address of resolve(ref, where)) {
+          expectations.push({ actor: nameOf.get(address)!, address, field, expected: expectation[field]! });
+        }
+      }
+    }
+    phases.push({ kind: "checkpoint", name, expectations, model });
+  });
+
+  return { name: scenario.name, actors, stakes, phases, senders: [...senders] };
+}
+
+/**
+ * Applies a compiled scenario: each operations phase runs as a batch plan,
+ * each checkpoint reads the actors' nodes and compares them with the
+ * expectations. Checkpoints with `model: true` also compare every actor with
+ * an off-chain VouchModel fed the operations that confirmed, which is exact
+ * as long as the actors have no history outside the scenario.
+ */
+export async function runScenario(
+  client: VouchClient,
+  compiled: CompiledScenario,
+  options: RunScenarioOptions
+): Promise<ScenarioReport> {
+  const [constants, minimumStake, seedVouchCount] = await Promise.all([
+    client.getConstants(),
+    client.contract.minimumStake(),
+    client.contract.seedVouchCount(),
+  ]);
+  const model = new VouchModel({ constants, minimumStake });
+  model.seedVouchCount = seedVouchCount;
+  for (const address of Object.values(compiled.actors)) {
+    model.setStake(address, (await client.getStakeInfo(address)).stakedAmount);
+  }
+
+  const report: ScenarioReport = {
+    name: compiled.name,
+    confirmed: 0,
+    reverted: 0,
+    skipped: 0,
+    gasUsed: 0n,
+    problems: [],
+    checkpoints: [],
+    passed: true,
+  };
+
+  for (const [index, phase] of compiled.phases.entries()) {
+    options.onPhase?.(phase, index);
+    if (phase.kind === "operations") {
+      if (phase.operations.length === 0) continue;
+      const plan = await executePlan(client, phase.operations, { signers: options.signers, journal: new MemoryJournal() });
+      options.onPlan?.(phase.label, plan);
+      report.confirmed += plan.confirmed;
+      report.reverted += plan.reverted;
+      report.skipped += plan.skipped;
+      report.gasUsed += plan.gasUsed;
+      for (const result of plan.results) {
+        if (result.status === "confirmed") continue;
+        const operation = { action: result.action, from: result.from, to: result.to };
+        report.problems.push({ phase: phase.label, operation, status: result.status, reason: result.reason });
+      }
+      // senders run in parallel, so the chain's order is not the plan's, and ranks depend on it
+      const confirmed = plan.results
+        .filter((r) => r.status === "confirmed")
+        .sort((a, b) => a.blockNumber! - b.blockNumber! || a.transactionIndex! - b.transactionIndex!);
+      for (const result of confirmed) model.apply(result);
+      continue;
+    }
+
+    const result = await checkCheckpoint(client, compiled, phase, model);
+    report.checkpoints.push(result);
+    if (!result.passed) report.passed = false;
+    options.onCheckpoint?.(result);
+  }
+  return report;
+}
+
+/**
+ * Runs a compiled scenario on the off-chain model only (no chain), starting
+ * from an empty contract with the given stakes. Useful to check a scenario's
+ * expectations before spending gas on it. Operations are applied in plan
+ * order; on chain, different senders' operations within a phase may land in
+ * another order, which can change the ranks they assign.
+ */
+export function predictScenario(
+  compiled: CompiledScenario,
+  options: { minimumStake?: bigint; model?: VouchModel } = {}
+): CheckpointResult[] {
+  const model = options.model ?? new VouchModel({ minimumStake: options.minimumStake ?? 0n });
+  for (const [address, stake] of Object.entries(compiled.stakes)) model.setStake(address, stake);
+  const results: CheckpointResult[] = [];
+  for (const phase of compiled.phases) {
+    if (phase.kind === "operations") {
+      for (const op of phase.operations) {
+        try {
+          model.apply(op);
+        } catch (error) {
+          if (!(error instanceof VouchRevertError)) throw error;
+        }
+      }
+      continue;
+    }
+    const nodes = new Map(Object.values(compiled.actors).map((a) => [a, model.getNodeInfo(a)]));
+    results.push(compareCheckpoint(phase, nodes, null));
+  }
+  return results;
+}
+
+async function checkCheckpoint(
+  client: VouchClient,
+  compiled: CompiledScenario,
+  phase: Extract<ScenarioPhase, { kind: "checkpoint" }>,
+  model: VouchModel
+): Promise<CheckpointResult> {
+  const addresses = phase.model
+    ? Object.values(compiled.actors)
+    : [...new Set(phase.expectations.map((e) => e.address))];
+  const nodes = new Map((await client.getNodes(addresses)).map((n) => [n.address, n]));
+  return compareCheckpoint(phase, nodes, phase.model ? model : null, compiled);
+}
+
+function compareCheckpoint(
+  phase: Extract<ScenarioPhase, { kind: "checkpoint" }>,
+  nodes: Map<string, Node>,
+  model: VouchModel | null,
+  compiled?: CompiledScenario
+): CheckpointResult {
+  const failures: CheckpointFailure[] = [];
+  for (const expectation of phase.expectations) {
+    const actual = BigInt(nodes.get(expectation.address)![expectation.field]);
+    if (!matches(actual, expectation.expected)) {
+      failures.push({
+        actor: expectation.actor,
+        address: expectation.address,
+        field: expectation.field,
+        expected: describeExpectation(expectation.expected),
+        actual: actual.toString(),
+      });
+    }
+  }
+
+  if (model && compiled) {
+    for (const [actor, address] of Object.entries(compiled.actors)) {
+      const node = nodes.get(address)!;
+      const predicted = model.getNodeInfo(address);
+      for (const field of NODE_FIELDS) {
+        if (BigInt(node[field]) === BigInt(predicted[field])) continue;
+        failures.push({ actor, address, field, expected: `${predicted[field]} (model)`, actual: String(node[field]) });
+      }
+    }
+  }
+  return { name: phase.name, passed: failures.length === 0, failures };
+}
+
+function matches(actual: bigint, expected: ValueExpectation): boolean {
+  if (typeof expected === "object") {
+    if (expected.min !== undefined && actual < toBigInt(expected.min, "min")) return false;
+    if (expected.max !== undefined && actual > toBigInt(expected.max, "max")) return false;
+    return true;
+  }
+  return actual === toBigInt(expected, "expected value");
+}
+
+function describeExpectation(expected: ValueExpectation): string {
+  if (typeof expected !== "object") return String(expected);
+  if (expected.min !== undefined && expected.max !== undefined) return `${expected.min}..${expected.max}`;
+  return expected.min !== undefined ? `>= ${expected.min}` : `<= ${expected.max}`;
+}
+
+function toBigInt(value: number | string, what: string): bigint {
+  if (typeof value === "number" && !Number.isSafeInteger(value)) {
+    throw new Error(`${what} must be an integer (write amounts above 2^53 as strings): ${value}`);
+  }
+  try {
+    return BigInt(value);
+  } catch {
+    throw new Error(`${what} must be an integer: ${value}`);
+  }
+}
+
+function probability(p: number | undefined, where: string): number {
+  if (typeof p !== "number" || p < 0 || p > 1) throw new Error(`${where}: needs a probability between 0 and 1 (got ${p})`);
+  return p;
+}
+
+// Fisher–Yates on a copy
+function shuffle<T>(rng: Prng, items: readonly T[]): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
@@ -0,0 +1,157 @@
+import type { VouchClient } from "./client";
+import { VouchRevertError, decodeRevertReason, isRevertError } from "./errors";
+import type { VouchContractEvent } from "./events";
+import { VouchModel } from "./model";
+import type { VouchAction, VouchOperation } from "./types";
+
+/**
+ * What-if for a single vouch or unvouch: reads the state the call depends on
+ * (both endpoints, their in-neighbors' ranks, the bootstrap counter and the
+ * sender's stake), replays the call on the off-chain model and estimates its
+ * gas on the node. Nothing is sent.
+ */
+
+export interface NodeEffect {
+  address: string;
+  rank: { before: bigint; after: bigint };
+  score: { before: bigint; after: bigint };
+  // BONUS_OUT * min(outdegree, BONUS_CAP), part of the score
+  outBonus: { before: bigint; after: bigint };
+}
+
+export interface SimulationResult {
+  action: VouchAction;
+  from: string;
+  to: string;
+  // revert reason the contract would give, or null if the call succeeds
+  revertReason: string | null;
+  // predicted events, in emission order (empty if the call reverts)
+  events: VouchContractEvent[];
+  target: NodeEffect;
+  sender: NodeEffect;
+  gasEstimate: bigint | null;
+  bootstrap: {
+    // seed vouches still available before this call
+    slotsRemaining: bigint;
+    consumesSlot: boolean;
+    completesBootstrap: boolean;
+  };
+  // the model and the node disagree on whether the call reverts (stale read or unexpected state)
+  mismatch: string | null;
+  blockNumber: number;
+}
+
+export async function simulateOperation(client: VouchClient, op: VouchOperation): Promise<SimulationResult> {
+  const contract = client.contract;
+  const provider = contract.runner!.provider!;
+  const from = op.from.toLowerCase();
+  const to = op.to.toLowerCase();
+  const blockTag = await provider.getBlockNumber();
+  const call = { blockTag };
+
+  const [constants, seedVouchCount, minimumStake, stakedAmount, fromInfo, toInfo] = await Promise.all([
+    client.getConstants(),
+    contract.seedVouchCount(call),
+    contract.minimumStake(call),
+    contract.getStakedAmount(from, call),
+    contract.getNodeInfo(from, call),
+    contract.getNodeInfo(to, call),
+  ]);
+
+  const model = new VouchModel({ constants, minimumStake });
+  model.seedVouchCount = seedVouchCount;
+  model.setStake(from, stakedAmount);
+
+  // rank and score only depend on the in-neighbors' ranks
+  const neighbors = [...new Set([...fromInfo.inNeighbors, ...toInfo.inNeighbors].map((a) => a.toLowerCase()))];
+  const neighborRanks = await Promise.all(neighbors.map((a) => contract.getRank(a, call)));
+  neighbors.forEach((a, i) => {
+    if (a === from || a === to) return;
+    model.restoreNode(a, { rank: neighborRanks[i], score: 0n, inNeighbors: [], outNeighbors: [] });
+  });
+
+  for (const [address, info] of [[from, fromInfo], [to, toInfo]] as const) {
+    model.restoreNode(address, {
+      rank: await storedRank(client, address, info.rank, constants.defaultRank, blockTag),
+      score: info.score,
+      inNeighbors: [...info.inNeighbors],
+      outNeighbors: [...info.outNeighbors],
+    });
+  }
+
+  const before = { target: model.getNodeInfo(to), sender: model.getNodeInfo(from) };
+  const bonus = (outdegree: bigint) => constants.bonusOut * (outdegree > constants.bonusCap ? constants.bonusCap : outdegree);
+  const outBefore = { target: model.getOutdegree(to), sender: model.getOutdegree(from) };
+
+  let revertReason: string | null = null;
+  let events: VouchContractEvent[] = [];
+  try {
+    events = model.apply({ action: op.action, from, to });
+  } catch (error) {
+    if (!(error instanceof VouchRevertError)) throw error;
+    revertReason = error.reason;
+  }
+
+  // the node has the final word (e.g. a DepositManager that reverts)
+  let gasEstimate: bigint | null = null;
+  let mismatch: string | null = null;
+  try {
+    // through the provider: a signer runner refuses a different `from`
+    const iface = contract.interface;
+    const data =
+      op.action === "vouch" ? iface.encodeFunctionData("vouch", [to]) : iface.encodeFunctionData("unvouch", [to]);
+    gasEstimate = await provider.estimateGas({ to: client.address, from, data, blockTag });
+    if (revertReason) mismatch = `model predicts a revert (${revertReason}) but the node accepts the call`;
+  } catch (error) {
+    if (!isRevertError(error)) throw error;
+    const reason = decodeRevertReason(error);
+    if (revertReason === null) {
+      mismatch = `node reverts (${reason}) but the model predicts success`;
+      revertReason = reason;
+      events = [];
+    }
+  }
+
+  const effect = (address: string, node: typeof before.target, outdegree: bigint): NodeEffect => {
+    const after = revertReason ? node : model.getNodeInfo(address);
+    const outAfter = revertReason ? outdegree : model.getOutdegree(address);
+    return {
+      address,
+      rank: { before: node.rank, after: after.rank },
+      score: { before: node.score, after: after.score },
+      outBonus: { before: bonus(outdegree), after: bonus(outAfter) },
+    };
+  };
+
+  const slotsRemaining = constants.maxSeedVouches > seedVouchCount ? constants.maxSeedVouches - seedVouchCount : 0n;
+  const consumesSlot = op.action === "vouch" && revertReason === null && slotsRemaining > 0n;
+  return {
+    action: op.action,
+    from,
+    to,
+    revertReason,
+    events,
+    target: effect(to, before.target, outBefore.target),
+    sender: effect(from, before.sender, outBefore.sender),
+    gasEstimate,
+    bootstrap: { slotsRemaining, consumesSlot, completesBootstrap: consumesSlot && slotsRemaining === 1n },
+    mismatch,
+    blockNumber: blockTag,
+  };
+}
+
+/**
+ * getNodeInfo reports an unranked node as DEFAULT_RANK. The stored rank only
+ * stays 0 until the node first receives a vouch (bootstrap senders get 1), and
+ * it decides whether NodeActivated fires, so look that up in the event log.
+ */
+async function storedRank(
+  client: VouchClient,
+  address: string,
+  rank: bigint,
+  defaultRank: bigint,
+  blockTag: number
+): Promise<bigint> {
+  if (rank !== defaultRank) return rank;
+  return (await client.hasReceivedVouch(address, undefined, blockTag)) ? rank : 0n;
+}
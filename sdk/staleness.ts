@@ -0,0 +1,215 @@
+import { VOUCH_MINIMAL_CONSTANTS, VouchModel, computeRank, computeScore } from "./model";
+import type { ContractConstants, Graph, VouchOperation } from "./types";
+
+/**
+ * Stale ranks and scores, and how to repair them.
+ *
+ * vouch/unvouch recompute only the target's rank and the two endpoints'
+ * scores, so a rank change does not reach the nodes downstream until
+ * something touches them. The fixpoint is the state every node would reach
+ * if each were recomputed until nothing changes: seeds (bootstrap endpoints)
+ * that still hold rank 1 are anchored there, nodes without in-neighbors sit at DEFAULT_RANK,
+ * and every other rank follows 3k + 1 − min(m, 3) from its in-neighbors.
+ * Nodes that no anchor reaches (cycles fed only by themselves) have no
+ * fixpoint rank: each recompute raises their rank further.
+ *
+ * The only way to make the contract recompute a node is to send it a vouch
+ * or unvouch, so a repair refreshes an existing edge u → v (unvouch, then
+ * vouch again). That recomputes v's rank and the scores of u and v, and
+ * leaves the graph as it was. Refreshes run in waves: a node is refreshed
+ * once all its in-neighbors hold their fixpoint rank.
+ */
+
+export interface Fixpoint {
+  // null: not anchored
+  ranks: Map<string, bigint | null>;
+  scores: Map<string, bigint>;
+}
+
+export interface StaleNode {
+  address: string;
+  rank: bigint;
+  fixpointRank: bigint | null;
+  score: bigint;
+  fixpointScore: bigint;
+  rankStale: boolean;
+  scoreStale: boolean;
+  // repair wave after which the node is at its fixpoint; null when the plan cannot get it there
+  wave: number | null;
+}
+
+export interface RepairOptions {
+  constants?: ContractConstants;
+  // whether an address can send the refresh (e.g. it has the minimum stake); every address by default
+  canSend?: (address: string) => boolean;
+}
+
+export interface RepairPlan {
+  // refresh operations (unvouch + vouch pairs) per wave; run each wave after the previous one has confirmed
+  waves: VouchOperation[][];
+  // stale nodes the plan cannot fix: unanchored, behind an unanchored in-neighbor, or without an in-neighbor that can send
+  unrepaired: string[];
+}
+
+export interface StalenessReport {
+  nodes: number;
+  stale: StaleNode[];
+  // nodes without a fixpoint rank
+  unanchored: string[];
+  plan: RepairPlan;
+}
+
+/**
+ * Fixpoint ranks and scores of a graph snapshot. Starts every non-anchored
+ * rank at infinity and lowers ranks until nothing changes; the formula is
+ * monotone, so this ends at the greatest fixpoint.
+ */
+export function computeFixpoint(graph: Graph, constants: ContractConstants = VOUCH_MINIMAL_CONSTANTS): Fixpoint {
+  const byAddress = new Map(graph.nodes.map((n) => [n.address, n]));
+  const anchors = anchoredSeeds(graph);
+  const ranks = new Map<string, bigint | null>();
+  const queue: string[] = [];
+
+  for (const node of graph.nodes) {
+    if (anchors.has(node.address)) ranks.set(node.address, 1n);
+    else if (node.inNeighbors.length === 0) ranks.set(node.address, constants.defaultRank);
+    else {
+      ranks.set(node.address, null);
+      queue.push(node.address);
+    }
+  }
+  const queued = new Set(queue);
+  while (queue.length) {
+    const address = queue.shift()!;
+    queued.delete(address);
+    const node = byAddress.get(address)!;
+    const inRanks = node.inNeighbors.map((u) => ranks.get(u) ?? null).filter((r): r is bigint => r !== null);
+    if (inRanks.length === 0) continue;
+    const rank = computeRank(inRanks, constants);
+    const current = ranks.get(address)!;
+    if (current !== null && rank >= current) continue;
+    ranks.set(address, rank);
+    for (const next of node.outNeighbors) {
+      if (ranks.has(next) && !anchors.has(next) && !queued.has(next)) {
+        queued.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  const scores = new Map<string, bigint>();
+  for (const node of graph.nodes) {
+    // unanchored in-neighbors rank above DEFAULT_RANK and weigh nothing
+    const inRanks = node.inNeighbors.map((u) => ranks.get(u) ?? constants.defaultRank);
+    scores.set(node.address, computeScore(inRanks, BigInt(node.outNeighbors.length), constants));
+  }
+  return { ranks, scores };
+}
+
+/**
+ * Compares a graph snapshot with its fixpoint and plans the refreshes that
+ * bring it there: one per stale rank, in waves, then one per remaining
+ * stale score, shared between endpoints where an edge joins two of them.
+ * The senders' own scores are recomputed from whatever their in-neighbors
+ * hold at that moment, so run the analysis again after a repair. Requires a
+ * finished bootstrap (a re-vouch during bootstrap would be a seed vouch
+ * instead of a refresh).
+ */
+export function analyzeStaleness(graph: Graph, options: RepairOptions = {}): StalenessReport {
+  const constants = options.constants ?? VOUCH_MINIMAL_CONSTANTS;
+  const canSend = options.canSend ?? (() => true);
+  const fixpoint = computeFixpoint(graph, constants);
+  const anchors = anchoredSeeds(graph);
+  const byAddress = new Map(graph.nodes.map((n) => [n.address, n]));
+
+  // replays the refreshes on the model, so later waves see their effect on ranks and scores
+  const model = new VouchModel({ constants });
+  model.seedVouchCount = constants.maxSeedVouches;
+  for (const node of graph.nodes) model.restoreNode(node.address, node);
+
+  const rankFixed = (address: string) => model.getRank(address) === fixpoint.ranks.get(address);
+  const fixed = (address: string) => rankFixed(address) && model.getScore(address) === fixpoint.scores.get(address);
+  // refreshing u → v recomputes v's rank, which lands on the fixpoint once v's in-neighbors are there
+  const canRefresh = (from: string, to: string) => {
+    const inNeighbors = byAddress.get(to)!.inNeighbors;
+    if (!canSend(from) || !inNeighbors.every(rankFixed)) return false;
+    // an anchored seed would lose its bootstrap rank
+    return !anchors.has(to) || computeRank(inNeighbors.map((u) => model.getRank(u)), constants) === 1n;
+  };
+  const refresh = (ops: VouchOperation[], from: string, to: string) => {
+    for (const action of ["unvouch", "vouch"] as const) {
+      ops.push({ action, from, to });
+      model.apply({ action, from, to });
+    }
+  };
+
+  const candidates = graph.nodes.filter((n) => fixpoint.ranks.get(n.address) !== null && !fixed(n.address));
+  const waveOf = new Map<string, number>();
+  const waves: VouchOperation[][] = [];
+  const closeWave = (ops: VouchOperation[]) => {
+    waves.push(ops);
+    for (const node of candidates) if (!waveOf.has(node.address) && fixed(node.address)) waveOf.set(node.address, waves.length);
+  };
+
+  let pending = candidates.filter((n) => !anchors.has(n.address) && !rankFixed(n.address));
+  while (pending.length) {
+    // decided before refreshing: a wave's senders run in parallel, so no refresh may depend on another of the same wave
+    const ready = pending
+      .map((node) => ({ node, from: node.inNeighbors.find((u) => canRefresh(u, node.address)) }))
+      .filter(({ from }) => from !== undefined);
+    const ops: VouchOperation[] = [];
+    for (const { node, from } of ready) refresh(ops, from!, node.address);
+    if (ops.length === 0) break;
+    closeWave(ops);
+    pending = pending.filter((n) => !rankFixed(n.address));
+  }
+
+  // scores still off once the ranks are repaired: refresh an edge, preferring one whose other end is off too
+  const ops: VouchOperation[] = [];
+  for (const node of candidates) {
+    if (!rankFixed(node.address) || fixed(node.address)) continue;
+    const edges = [
+      ...node.outNeighbors.map((to): [string, string] => [node.address, to]),
+      ...node.inNeighbors.map((from): [string, string] => [from, node.address]),
+    ].filter(([from, to]) => canRefresh(from, to));
+    const other = ([from, to]: [string, string]) => (from === node.address ? to : from);
+    const edge = edges.find((e) => fixpoint.ranks.get(other(e)) !== null && !fixed(other(e))) ?? edges[0];
+    if (edge) refresh(ops, edge[0], edge[1]);
+  }
+  if (ops.length) closeWave(ops);
+
+  const stale: StaleNode[] = [];
+  const unanchored: string[] = [];
+  for (const node of graph.nodes) {
+    const fixpointRank = fixpoint.ranks.get(node.address)!;
+    const fixpointScore = fixpoint.scores.get(node.address)!;
+    if (fixpointRank === null) {
+      unanchored.push(node.address);
+      continue;
+    }
+    const rankStale = node.rank !== fixpointRank;
+    const scoreStale = node.score !== fixpointScore;
+    if (!rankStale && !scoreStale) continue;
+    const { address, rank, score } = node;
+    stale.push({ address, rank, fixpointRank, score, fixpointScore, rankStale, scoreStale, wave: waveOf.get(address) ?? null });
+  }
+  stale.sort((a, b) => (a.wave ?? Infinity) - (b.wave ?? Infinity) || a.address.localeCompare(b.address));
+
+  return {
+    nodes: graph.nodes.length,
+    stale,
+    unanchored,
+    plan: { waves, unrepaired: stale.filter((s) => s.wave === null).map((s) => s.address) },
+  };
+}
+
+// Seeds still holding their bootstrap rank; a seed that has been recomputed since follows the formula
+function anchoredSeeds(graph: Graph): Set<string> {
+  const seeds = new Set(graph.seeds.map((a) => a.toLowerCase()));
+  return new Set(graph.nodes.filter((n) => seeds.has(n.address) && n.rank === 1n).map((n) => n.address));
+}
+
+// How far a rank is from its fixpoint in formula hops (each hop roughly triples the rank); negative when below it
+export function rankDistance(node: Pick<StaleNode, "rank" | "fixpointRank">): number {
+  return Math.log(Number(node.rank) / Number(node.fixpointRank)) / Math.log(3);
+}
@@ -0,0 +1,46 @@
+import * as fs from "fs";
+import * as path from "path";
+import { INDEX_SNAPSHOT_VERSION, IndexSnapshot, IndexStore } from "./indexer";
+import { isJsonObject, parseWithBigInt, stringifyWithBigInt } from "./json";
+
+/**
+ * IndexStore backed by a single JSON file. Writes go to a temporary file that
+ * is renamed over the old one, so an interrupted run never leaves a
+ * half-written index behind.
+ */
+export class JsonFileStore implements IndexStore {
+  readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<IndexSnapshot | null> {
+    if (!fs.existsSync(this.filePath)) return null;
+    const data = parseWithBigInt<unknown>(await fs.promises.readFile(this.filePath, "utf8"));
+    const version = isJsonObject(data) ? data.version : undefined;
+    if (version !== INDEX_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported index version ${version} in ${this.filePath}`);
+    }
+    if (!isIndexSnapshot(data)) throw new Error(`Corrupt index ${this.filePath}`);
+    return data;
+  }
+
+  async save(snapshot: IndexSnapshot): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, stringifyWithBigInt(snapshot));
+    await fs.promises.rename(tmpPath, this.filePath);
+  }
+}
+
+// The top-level layout of a current snapshot; the events and state inside are the indexer's own output
+function isIndexSnapshot(data: unknown): data is IndexSnapshot {
+  return (
+    isJsonObject(data) &&
+    data.version === INDEX_SNAPSHOT_VERSION &&
+    isJsonObject(data.state) &&
+    Array.isArray(data.events) &&
+    Array.isArray(data.recentBlocks)
+  );
+}
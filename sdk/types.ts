@@ -0,0 +1,82 @@
+/**
+ * Canonical graph model shared by the SDK, the scripts and the frontend.
+ *
+ * Addresses are always lowercased so they can be used directly as map keys.
+ * uint256 values stay bigint: ranks grow by 3x per hop and pass 2^53 on long
+ * chains, so they cannot be represented exactly as numbers.
+ */
+
+export interface Node {
+  address: string;
+  rank: bigint;
+  score: bigint;
+  inCount: number;
+  outCount: number;
+  inNeighbors: string[];
+  outNeighbors: string[];
+  isSeed?: boolean;
+}
+
+export interface Edge {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface Graph {
+  nodes: Node[];
+  edges: Edge[];
+  seeds: string[];
+}
+
+export interface Connections {
+  inNeighbors: string[];
+  outNeighbors: string[];
+}
+
+// Stake of an account in the DepositManager against the contract's requirement
+export interface StakeInfo {
+  address: string;
+  stakedAmount: bigint;
+  minimumStake: bigint;
+  hasMinimumStake: boolean;
+  depositManager: string;
+}
+
+export interface ContractConstants {
+  defaultRank: bigint;
+  r: bigint;
+  bonusOut: bigint;
+  bonusCap: bigint;
+  maxSeedVouches: bigint;
+}
+
+// VouchCreated / VouchRemoved payload plus its position in the chain
+export interface VouchEventRecord {
+  from: string;
+  to: string;
+  toRank: bigint;
+  fromScore: bigint;
+  toScore: bigint;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+}
+
+export interface BootstrapVouchRecord {
+  from: string;
+  to: string;
+  seedNumber: bigint;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+}
+
+export type VouchAction = "vouch" | "unvouch";
+
+// A single vouch/unvouch call: `from` is the sender, `to` the target
+export interface VouchOperation {
+  action: VouchAction;
+  from: string;
+  to: string;
+}
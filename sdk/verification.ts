@@ -0,0 +1,58 @@
+import { AbiCoder, Provider, getAddress } from "ethers";
+import type { DeploymentRecord } from "./deployments";
+
+/**
+ * Explorer verification helpers: recovering VouchMinimal's constructor
+ * arguments for an already deployed contract, and the per-explorer result
+ * the verify script reports.
+ */
+
+export type ExplorerName = "etherscan" | "blockscout";
+
+export interface VerificationResult {
+  explorer: ExplorerName;
+  // "unsupported": the explorer has no instance for this chain
+  status: "verified" | "failed" | "unsupported";
+  url?: string;
+  error?: string;
+  checkedAt: string;
+}
+
+export type ConstructorArgsSource = "registry" | "creation-tx";
+
+/**
+ * VouchMinimal(address _depositManager, uint256 _minimumStake): both are
+ * static types, so the ABI encoding is always the last 64 bytes of the
+ * creation input, whatever compiler settings produced the bytecode before it.
+ */
+export function decodeConstructorArgs(creationInput: string): string[] {
+  const hex = creationInput.startsWith("0x") ? creationInput.slice(2) : creationInput;
+  if (hex.length < 128) throw new Error("Creation input is too short to contain the constructor arguments");
+  const [depositManager, minimumStake] = AbiCoder.defaultAbiCoder().decode(["address", "uint256"], "0x" + hex.slice(-128));
+  return [getAddress(depositManager), minimumStake.toString()];
+}
+
+// Takes the arguments from the deployment record, or decodes them from the creation transaction
+export async function resolveConstructorArgs(
+  provider: Provider,
+  address: string,
+  options: { deployment?: DeploymentRecord | null; creationTxHash?: string }
+): Promise<{ args: string[]; source: ConstructorArgsSource }> {
+  const { deployment, creationTxHash } = options;
+  if (deployment && deployment.address.toLowerCase() === address.toLowerCase()) {
+    return { args: deployment.constructorArgs, source: "registry" };
+  }
+  if (!creationTxHash) {
+    throw new Error(`No deployment record for ${address} and no creation transaction to decode its constructor arguments from`);
+  }
+
+  const [tx, receipt] = await Promise.all([
+    provider.getTransaction(creationTxHash),
+    provider.getTransactionReceipt(creationTxHash),
+  ]);
+  if (!tx || !receipt) throw new Error(`Transaction ${creationTxHash} not found`);
+  if (receipt.contractAddress?.toLowerCase() !== address.toLowerCase()) {
+    throw new Error(`Transaction ${creationTxHash} did not create ${address}`);
+  }
+  return { args: decodeConstructorArgs(tx.data), source: "creation-tx" };
+}
@@ -0,0 +1,302 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Contract, HDNodeWallet, Mnemonic, Transaction, Wallet, encryptKeystoreJson, id } from "ethers";
+import type { KeystoreAccount, Provider, Signer } from "ethers";
+import type { VouchClient } from "./client";
+
+/**
+ * Named sets of test wallets kept on disk (wallets/<network>/<set>/, which is
+ * gitignored), so generated wallets and the ETH sent to them outlive the
+ * script that made them. Private keys are never written in the clear:
+ *
+ *   hd        addresses derived from a mnemonic, m/44'/60'/0'/0/<index>. The
+ *             mnemonic is either generated and stored as an encrypted keystore
+ *             (mnemonic.json), or taken from MNEMONIC and not stored at all.
+ *   keystore  one random wallet per encrypted JSON keystore (<address>.json).
+ *
+ * manifest.json lists the addresses, so a set can be listed (and its balances
+ * read) without unlocking it.
+ */
+
+export type WalletSetKind = "hd" | "keystore";
+
+export interface WalletSetEntry {
+  address: string;
+  // HD index (hd sets) or keystore file name (keystore sets)
+  index?: number;
+  file?: string;
+}
+
+export interface WalletSetManifest {
+  name: string;
+  network: string;
+  kind: WalletSetKind;
+  // hd sets: "keystore" when mnemonic.json holds the phrase, "env" for MNEMONIC
+  mnemonic?: "keystore" | "env";
+  createdAt: string;
+  wallets: WalletSetEntry[];
+}
+
+export interface CreateWalletSetOptions {
+  kind: WalletSetKind;
+  count: number;
+  network: string;
+  // encrypts the generated mnemonic or the keystores; not needed for an hd set from `mnemonic`
+  password?: string;
+  // derive from this phrase instead of generating one (stored nowhere)
+  mnemonic?: string;
+  // first HD index; sets sharing one mnemonic need disjoint ranges
+  firstIndex?: number;
+  // scrypt cost; lower it only for tests
+  scryptN?: number;
+}
+
+export interface WalletSecrets {
+  password?: string;
+  mnemonic?: string;
+}
+
+// Role of a wallet in the vouch graph
+export type WalletRole = "seed" | "voucher" | "vouched" | "unconnected";
+
+export interface WalletStatus {
+  address: string;
+  balance: bigint;
+  roles: WalletRole[];
+}
+
+export interface SweepResult {
+  address: string;
+  balance: bigint;
+  // amount sent back, 0n when the balance does not cover the fee
+  swept: bigint;
+  txHash?: string;
+  error?: string;
+}
+
+// The GasPriceOracle predeploy of OP-stack chains (base, baseSepolia)
+export const GAS_PRICE_ORACLE_ADDRESS = "0x420000000000000000000000000000000000000F";
+
+const MANIFEST = "manifest.json";
+const MNEMONIC_KEYSTORE = "mnemonic.json";
+
+export function hdPath(index: number): string {
+  return `m/44'/60'/0'/0/${index}`;
+}
+
+/**
+ * Wallets derived from a numeric seed: the same seed gives the same wallets
+ * on every run, so a randomized run on a local chain can be replayed. The
+ * keys follow from the seed alone; use them for throwaway test wallets only.
+ */
+export function seededWallets(seed: number, count: number): HDNodeWallet[] {
+  const mnemonic = Mnemonic.fromEntropy(id(`syb-test-wallets:${seed >>> 0}`).slice(0, 34));
+  return Array.from({ length: count }, (_, index) => HDNodeWallet.fromMnemonic(mnemonic, hdPath(index)));
+}
+
+export function walletSetDir(dir: string, name: string): string {
+  return path.join(dir, name);
+}
+
+export function listWalletSets(dir: string): WalletSetManifest[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => fs.existsSync(path.join(dir, name, MANIFEST)))
+    .sort()
+    .map((name) => readWalletSet(dir, name));
+}
+
+export function readWalletSet(dir: string, name: string): WalletSetManifest {
+  const file = path.join(walletSetDir(dir, name), MANIFEST);
+  if (!fs.existsSync(file)) throw new Error(`No wallet set "${name}" in ${dir}`);
+  return JSON.parse(fs.readFileSync(file, "utf8")) as WalletSetManifest;
+}
+
+// First HD index not used by another set derived from MNEMONIC (index 0 is usually the deployer)
+export function nextMnemonicIndex(dir: string): number {
+  const used = listWalletSets(dir)
+    .filter((set) => set.mnemonic === "env")
+    .flatMap((set) => set.wallets.map((w) => w.index ?? 0));
+  return used.length ? Math.max(...used) + 1 : 1;
+}
+
+/**
+ * Creates the set `name` and returns its wallets (not connected to a
+ * provider). Refuses to overwrite an existing set.
+ */
+export async function createWalletSet(
+  dir: string,
+  name: string,
+  options: CreateWalletSetOptions
+): Promise<{ manifest: WalletSetManifest; wallets: (Wallet | HDNodeWallet)[] }> {
+  if (!/^[\w.-]+$/.test(name)) throw new Error(`Wallet set names may only use letters, digits, "-", "_" and ".": ${name}`);
+  const setDir = walletSetDir(dir, name);
+  if (fs.existsSync(path.join(setDir, MANIFEST))) throw new Error(`Wallet set "${name}" already exists in ${dir}`);
+  if (!options.password && !(options.kind === "hd" && options.mnemonic)) {
+    throw new Error("A password is needed to encrypt the new wallets");
+  }
+  const encrypt = (account: KeystoreAccount) =>
+    encryptKeystoreJson(account, options.password!, options.scryptN ? { scrypt: { N: options.scryptN } } : {});
+
+  fs.mkdirSync(setDir, { recursive: true });
+  const manifest: WalletSetManifest = {
+    name,
+    network: options.network,
+    kind: options.kind,
+    createdAt: new Date().toISOString(),
+    wallets: [],
+  };
+  const wallets: (Wallet | HDNodeWallet)[] = [];
+
+  if (options.kind === "hd") {
+    let mnemonic: Mnemonic;
+    if (options.mnemonic) {
+      mnemonic = Mnemonic.fromPhrase(options.mnemonic);
+      manifest.mnemonic = "env";
+    } else {
+      const root = HDNodeWallet.createRandom();
+      mnemonic = root.mnemonic!;
+      const account = { address: root.address, privateKey: root.privateKey };
+      const keystore = await encrypt({ ...account, mnemonic: { entropy: mnemonic.entropy, path: root.path! } });
+      fs.writeFileSync(path.join(setDir, MNEMONIC_KEYSTORE), keystore);
+      manifest.mnemonic = "keystore";
+    }
+    const first = options.firstIndex ?? (options.mnemonic ? 1 : 0);
+    for (let index = first; index < first + options.count; index++) {
+      const wallet = HDNodeWallet.fromMnemonic(mnemonic, hdPath(index));
+      wallets.push(wallet);
+      manifest.wallets.push({ address: wallet.address, index });
+    }
+  } else {
+    for (let i = 0; i < options.count; i++) {
+      const wallet = Wallet.createRandom();
+      const file = `${wallet.address.toLowerCase()}.json`;
+      fs.writeFileSync(path.join(setDir, file), await encrypt({ address: wallet.address, privateKey: wallet.privateKey }));
+      wallets.push(wallet);
+      manifest.wallets.push({ address: wallet.address, file });
+    }
+  }
+
+  fs.writeFileSync(path.join(setDir, MANIFEST), JSON.stringify(manifest, null, 2) + "\n");
+  return { manifest, wallets };
+}
+
+/**
+ * Decrypts (or re-derives) the wallets of a set, checking every address
+ * against the manifest, and connects them to `provider` if given.
+ */
+export async function unlockWalletSet(
+  dir: string,
+  manifest: WalletSetManifest,
+  secrets: WalletSecrets,
+  provider?: Provider
+): Promise<(Wallet | HDNodeWallet)[]> {
+  const setDir = walletSetDir(dir, manifest.name);
+  let wallets: (Wallet | HDNodeWallet)[];
+
+  if (manifest.kind === "hd") {
+    let mnemonic: Mnemonic;
+    if (manifest.mnemonic === "env") {
+      if (!secrets.mnemonic) throw new Error(`Wallet set "${manifest.name}" is derived from MNEMONIC, which is not set`);
+      mnemonic = Mnemonic.fromPhrase(secrets.mnemonic);
+    } else {
+      const json = fs.readFileSync(path.join(setDir, MNEMONIC_KEYSTORE), "utf8");
+      const root = await Wallet.fromEncryptedJson(json, requirePassword(manifest, secrets));
+      mnemonic = (root as HDNodeWallet).mnemonic!;
+    }
+    wallets = manifest.wallets.map((entry) => HDNodeWallet.fromMnemonic(mnemonic, hdPath(entry.index!)));
+  } else {
+    const password = requirePassword(manifest, secrets);
+    wallets = [];
+    for (const entry of manifest.wallets) {
+      wallets.push(await Wallet.fromEncryptedJson(fs.readFileSync(path.join(setDir, entry.file!), "utf8"), password));
+    }
+  }
+
+  manifest.wallets.forEach((entry, i) => {
+    if (wallets[i].address.toLowerCase() !== entry.address.toLowerCase()) {
+      throw new Error(`Wallet set "${manifest.name}" does not unlock to the addresses in its manifest (wrong mnemonic?)`);
+    }
+  });
+  return provider ? wallets.map((w) => w.connect(provider)) : wallets;
+}
+
+function requirePassword(manifest: WalletSetManifest, secrets: WalletSecrets): string {
+  if (secrets.password === undefined) throw new Error(`Wallet set "${manifest.name}" needs its password`);
+  return secrets.password;
+}
+
+/**
+ * Balance and graph roles of each address. Without a client (no contract
+ * on the network) every wallet is reported as unconnected.
+ */
+export async function walletStatuses(
+  provider: Provider,
+  addresses: string[],
+  client?: VouchClient
+): Promise<WalletStatus[]> {
+  const lowered = addresses.map((a) => a.toLowerCase());
+  const [balances, seeds, nodes] = await Promise.all([
+    Promise.all(lowered.map((a) => provider.getBalance(a))),
+    client ? client.getSeedAddresses() : Promise.resolve([]),
+    client ? client.getNodes(lowered) : Promise.resolve([]),
+  ]);
+  return lowered.map((address, i) => {
+    const node = nodes[i];
+    const roles: WalletRole[] = [];
+    if (seeds.includes(address)) roles.push("seed");
+    if (node?.outCount) roles.push("voucher");
+    if (node?.inCount) roles.push("vouched");
+    return { address, balance: balances[i], roles: roles.length ? roles : ["unconnected"] };
+  });
+}
+
+// OP-stack transactions also pay an L1 data fee, charged on top of the gas.
+// It follows the L1 base fee, so it is budgeted twice over in case that rises
+// before the sweep lands. 0n on chains without the GasPriceOracle predeploy.
+async function l1DataFee(provider: Provider, tx: Transaction): Promise<bigint> {
+  if ((await provider.getCode(GAS_PRICE_ORACLE_ADDRESS)) === "0x") return 0n;
+  const oracle = new Contract(GAS_PRICE_ORACLE_ADDRESS, ["function getL1Fee(bytes) view returns (uint256)"], provider);
+  const fee: bigint = await oracle.getL1Fee(tx.unsignedSerialized);
+  return fee * 2n;
+}
+
+/**
+ * Sends each wallet's balance minus the transfer fee to `to`. The fee
+ * budgets the gas at maxFeePerGas plus, on OP-stack chains, the L1 data fee,
+ * so what stays behind is the budget the transfer did not use. Failures are
+ * reported per wallet rather than thrown.
+ */
+export async function sweepWallets(wallets: Signer[], to: string): Promise<SweepResult[]> {
+  const results: SweepResult[] = [];
+  for (const wallet of wallets) {
+    const provider = wallet.provider!;
+    const address = (await wallet.getAddress()).toLowerCase();
+    const balance = await provider.getBalance(address);
+    const result: SweepResult = { address, balance, swept: 0n };
+    results.push(result);
+    if (balance === 0n) continue;
+
+    try {
+      const fees = await provider.getFeeData();
+      const gasLimit = await provider.estimateGas({ from: address, to, value: 1n });
+      const priced =
+        fees.maxFeePerGas !== null
+          ? { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }
+          : { gasPrice: fees.gasPrice };
+      // sized with the full balance as value, which never encodes shorter than the amount sent
+      const { from, ...populated } = await wallet.populateTransaction({ to, value: balance, gasLimit, ...priced });
+      const unsigned = Transaction.from(populated);
+      const fee = gasLimit * (fees.maxFeePerGas ?? fees.gasPrice ?? 0n) + (await l1DataFee(provider, unsigned));
+      if (balance <= fee) continue;
+      const tx = await wallet.sendTransaction({ to, value: balance - fee, gasLimit, ...priced });
+      await tx.wait();
+      result.swept = balance - fee;
+      result.txHash = tx.hash;
+    } catch (error: any) {
+      result.error = error?.shortMessage ?? error?.message ?? String(error);
+    }
+  }
+  return results;
+}
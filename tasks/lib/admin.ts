@@ -0,0 +1,39 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { requireSigner } from "./signer";
+import {
+  WriteArgs,
+  TransactionResult,
+  connect,
+  requireAddress,
+  parseWton,
+  emit,
+  explainReverts,
+  transact,
+  printTransaction,
+} from "./common";
+
+export const ADMIN_ACTIONS = ["set-min-stake", "set-deposit-manager"] as const;
+
+export type AdminAction = (typeof ADMIN_ACTIONS)[number];
+
+export async function adminCommand(
+  hre: HardhatRuntimeEnvironment,
+  args: WriteArgs & { action: string; value: string }
+): Promise<TransactionResult> {
+  const action = args.action as AdminAction;
+  if (!ADMIN_ACTIONS.includes(action)) {
+    throw new HardhatPluginError("syb", `Unknown admin action "${args.action}" (expected ${ADMIN_ACTIONS.join(", ")})`);
+  }
+  const signer = await requireSigner(hre, args);
+  const client = await connect(hre, args, signer);
+  const from = await signer.getAddress();
+
+  const result = await explainReverts(args.json, action, () => {
+    if (action === "set-min-stake") {
+      return transact(client, from, action, "setMinimumStake", [parseWton("Minimum stake", args.value)], args.dryRun);
+    }
+    return transact(client, from, action, "setDepositManager", [requireAddress("value", args.value)], args.dryRun);
+  });
+  return emit(args.json, result, printTransaction);
+}
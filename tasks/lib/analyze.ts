@@ -0,0 +1,74 @@
+import * as fs from "fs";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractConstants, Graph, SybilReport, analyzeSybilResistance, readGraph, toPlainJson } from "../../sdk/node";
+import { OutputArgs, connect, emit, indexedGraph } from "./common";
+
+export interface AnalyzeResult extends SybilReport {
+  // contract address, or the graph file the report was computed from
+  source: string;
+  out?: string;
+}
+
+function percent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+/**
+ * Sybil-resistance report over the live graph, or over an export with
+ * --graph: components, rank and seed-distance distributions, reciprocity,
+ * dense clusters the core barely vouches for, and bonus-inflated scores.
+ */
+export async function analyzeCommand(
+  hre: HardhatRuntimeEnvironment,
+  args: OutputArgs & { graph?: string; out?: string }
+): Promise<AnalyzeResult> {
+  let graph: Graph;
+  let source: string;
+  let constants: ContractConstants | undefined;
+  if (args.graph) {
+    try {
+      graph = readGraph(args.graph);
+    } catch (error: any) {
+      throw new HardhatPluginError("syb", `Cannot read graph ${args.graph}: ${error.message}`);
+    }
+    source = args.graph;
+  } else {
+    const client = await connect(hre, args);
+    [graph, constants] = await Promise.all([indexedGraph(client, args.json), client.getConstants()]);
+    source = client.address;
+  }
+  const result: AnalyzeResult = { source, ...analyzeSybilResistance(graph, { constants }) };
+  if (args.out) {
+    fs.writeFileSync(args.out, toPlainJson(result, 2) + "\n");
+    result.out = args.out;
+  }
+
+  return emit(args.json, result, (r) => {
+    console.log(`🛡️  Sybil-resistance report for ${r.source}`);
+    console.log(`   ${r.nodes} nodes, ${r.edges} edges, ${r.seeds} seeds, ${r.core} in the core (rank with score weight)`);
+    console.log(`\n   Strongly connected components: ${r.components.count} (largest ${r.components.largest}, ${r.components.singletons} single nodes)`);
+    if (r.components.sizes.length) console.log(`      Sizes: ${r.components.sizes.join(", ")}`);
+    console.log("\n   Ranks:");
+    for (const b of r.ranks) console.log(`      ${b.min === b.max ? `${b.min}` : `${b.min}–${b.max}`}: ${b.count}`);
+    console.log("\n   Hops from the nearest seed:");
+    for (const d of r.seedDistance) console.log(`      ${d.hops}: ${d.count}`);
+    if (r.unreachable) console.log(`      unreachable: ${r.unreachable}`);
+    console.log(`\n   Reciprocal vouches: ${r.reciprocity.reciprocal} of ${r.edges} edges (${percent(r.reciprocity.ratio)})`);
+
+    console.log(`\n   🚩 Suspicious clusters: ${r.clusters.length}`);
+    for (const c of r.clusters) {
+      console.log(
+        `      ${c.members.length} members, density ${percent(c.density)}, reciprocity ${percent(c.reciprocity)}, ` +
+          `${c.coreInEdges} of ${c.inEdges} incoming vouches from the core`
+      );
+      console.log(`         ${c.members.slice(0, 5).join(", ")}${c.members.length > 5 ? ", …" : ""}`);
+    }
+    console.log(`\n   🎈 Scores mostly from the outdegree bonus: ${r.bonusInflated.length}`);
+    for (const n of r.bonusInflated.slice(0, 10)) {
+      console.log(`      ${n.address}: ${n.outBonus} of ${n.score} (${percent(n.share)})`);
+    }
+    if (r.bonusInflated.length > 10) console.log(`      … and ${r.bonusInflated.length - 10} more`);
+    if (r.out) console.log(`\n   💾 Report written to ${r.out}`);
+  });
+}
@@ -0,0 +1,73 @@
+import { formatUnits } from "ethers";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  AttackReport,
+  AttackStrategy,
+  defaultAttacks,
+  describeAttack,
+  honestNetwork,
+  networkFromGraph,
+  readGraph,
+  simulateAttacks,
+} from "../../sdk/node";
+import { WTON_DECIMALS, parseWton, emit } from "./common";
+
+export interface AttackArgs {
+  json: boolean;
+  graph?: string;
+  honest: number;
+  degree: number;
+  seed: number;
+  sybils: number;
+  vouches: number;
+  // comma-separated strategy kinds
+  strategy?: string;
+  // WTON per vouching identity
+  minStake: string;
+}
+
+export const ATTACK_KINDS: AttackStrategy["kind"][] = ["sybilRing", "compromisedSeed", "boughtVouches", "churn"];
+
+/**
+ * Runs attack strategies on the off-chain model, against a random honest
+ * network or a graph export (--graph), and compares the rank and score the
+ * attacker's identities reach with what they cost. Sends nothing.
+ */
+export async function attackCommand(_hre: HardhatRuntimeEnvironment, args: AttackArgs): Promise<AttackReport> {
+  const kinds = args.strategy?.split(",").map((k) => k.trim()) ?? ATTACK_KINDS;
+  const unknown = kinds.filter((k) => !ATTACK_KINDS.includes(k as AttackStrategy["kind"]));
+  if (unknown.length) throw new HardhatPluginError("syb", `Unknown strategy ${unknown.join(", ")} (expected ${ATTACK_KINDS.join(", ")})`);
+
+  let network;
+  try {
+    network = args.graph
+      ? networkFromGraph(readGraph(args.graph))
+      : honestNetwork({ size: args.honest, degree: args.degree, seed: args.seed });
+  } catch (error: any) {
+    throw new HardhatPluginError("syb", args.graph ? `Cannot read graph ${args.graph}: ${error.message}` : error.message);
+  }
+  const strategies = defaultAttacks(args.sybils, args.vouches).filter((s) => kinds.includes(s.kind));
+  let report;
+  try {
+    report = simulateAttacks(network, strategies, { minimumStake: parseWton("minStake", args.minStake), seed: args.seed });
+  } catch (error: any) {
+    throw new HardhatPluginError("syb", error.message);
+  }
+
+  return emit(args.json, report, (r) => {
+    const { honest } = r;
+    console.log(`⚔️  Attacks on ${args.graph ?? "a random honest network"}: ${honest.nodes} honest nodes, ${honest.edges} edges`);
+    console.log(`   Median honest rank ${honest.medianRank}, score ${honest.medianScore}`);
+    for (const result of r.results) {
+      const { best, cost, identities } = result;
+      console.log(`\n   🎯 ${describeAttack(result.strategy)}`);
+      console.log(`      Best rank ${best.rank}, best score ${best.score}; ${result.atHonestMedian} of ${identities.length} identities rank at the honest median or better`);
+      console.log(
+        `      Cost: ${cost.attackerEdges} attacker vouches, ${cost.honestVouches} honest vouches, ${cost.transactions} transactions, ` +
+          `${cost.stakedIdentities} staked identities (${formatUnits(cost.stake, WTON_DECIMALS)} WTON)`
+      );
+      if (result.stale) console.log(`      ⏳ ${result.stale} identities rank better than their fixpoint (the ranks are stale)`);
+    }
+  });
+}
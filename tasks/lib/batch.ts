@@ -0,0 +1,85 @@
+import * as fs from "fs";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  FileJournal,
+  OperationResult,
+  PlanReport,
+  describeRevertReason,
+  executePlan,
+  readPlan,
+  toPlainJson,
+} from "../../sdk/node";
+import { resolveSigners } from "./signer";
+import { OutputArgs, connect, emit } from "./common";
+
+export interface BatchArgs extends OutputArgs {
+  plan: string;
+  journal?: string;
+  // comma-separated keystore files or directories
+  keystore?: string;
+  mnemonicAccounts: number;
+  // comma-separated wallet set names
+  wallets?: string;
+  concurrency: number;
+  maxPending: number;
+  report?: string;
+}
+
+function printOperation(result: OperationResult): void {
+  const call = `#${result.index} ${result.action} ${result.from} → ${result.to}`;
+  if (result.status === "confirmed") {
+    console.log(`   ✅ ${call} (gas ${result.gasUsed}, ${result.txHash})`);
+  } else if (result.status === "skipped") {
+    console.log(`   ⏭️  ${call}: already done (${result.reason})`);
+  } else {
+    const description = describeRevertReason(result.reason!);
+    console.log(`   ❌ ${call}: ${result.reason}${description === result.reason ? "" : ` (${description})`}`);
+  }
+}
+
+/**
+ * Executes a plan file. Progress goes to a journal (<plan>.journal.jsonl by
+ * default), so running the same command again after an interruption resumes
+ * the plan instead of starting over.
+ */
+export async function batchCommand(hre: HardhatRuntimeEnvironment, args: BatchArgs): Promise<PlanReport> {
+  let operations;
+  try {
+    operations = readPlan(args.plan);
+  } catch (error: any) {
+    throw new HardhatPluginError("syb", `Cannot read plan ${args.plan}: ${error.message}`);
+  }
+  const journal = args.journal ? new FileJournal(args.journal) : FileJournal.forPlan(args.plan);
+  const signers = await resolveSigners(hre, {
+    keystores: args.keystore?.split(",").map((k) => k.trim()),
+    mnemonicAccounts: args.mnemonicAccounts,
+    walletSets: args.wallets?.split(",").map((w) => w.trim()),
+  });
+  const client = await connect(hre, args);
+
+  if (!args.json) console.log(`📋 ${operations.length} operations from ${args.plan} (journal: ${journal.filePath})`);
+  const report = await executePlan(client, operations, {
+    signers,
+    journal,
+    concurrency: args.concurrency,
+    maxPending: args.maxPending,
+    onResult: args.json ? undefined : printOperation,
+  });
+  if (args.report) fs.writeFileSync(args.report, toPlainJson(report, 2) + "\n");
+
+  return emit(args.json, report, (r) => {
+    console.log(`\n📊 Plan ${r.planId.slice(0, 10)}… on ${r.contract}`);
+    if (r.resumed > 0) console.log(`   Resumed: ${r.resumed} of ${r.total} operations were already done`);
+    console.log(`   ✅ Confirmed: ${r.confirmed}`);
+    console.log(`   ❌ Reverted: ${r.reverted}`);
+    console.log(`   ⏭️  Skipped: ${r.skipped}`);
+    console.log(`   ⛽ Gas used: ${r.gasUsed}`);
+    const reasons = new Map<string, number>();
+    for (const result of r.results.filter((x) => x.status === "reverted")) {
+      reasons.set(result.reason!, (reasons.get(result.reason!) ?? 0) + 1);
+    }
+    for (const [reason, count] of reasons) console.log(`      ${count} × ${reason}`);
+    if (args.report) console.log(`   💾 Report written to ${args.report}`);
+  });
+}
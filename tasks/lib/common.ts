@@ -0,0 +1,180 @@
+import { ContractTransactionReceipt, Signer, isAddress, parseUnits } from "ethers";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  AssembledGraph,
+  VouchClient,
+  VouchIndexer,
+  decodeRevertReason,
+  decodeVouchEvents,
+  describeRevertReason,
+  isRevertError,
+  toPlainJson,
+} from "../../sdk/node";
+import { assembleIndexedGraph, createIndexer, logReorg } from "../../scripts/lib/indexer";
+import { currentDeployment, ensureLocalMulticall, logFetchOptions, startBlock } from "../../scripts/lib/vouch-client";
+import type { SignerOptions } from "./signer";
+
+/**
+ * Shared by the syb subcommands (one module each in tasks/lib/). Every command
+ * returns a plain result object (what --json prints) and prints a
+ * human-readable summary otherwise. Reverts surface as a HardhatPluginError
+ * naming the contract's reason and what it means.
+ */
+
+export interface OutputArgs {
+  contract?: string;
+  json: boolean;
+}
+
+export interface WriteArgs extends OutputArgs, SignerOptions {
+  dryRun: boolean;
+}
+
+export interface DecodedEvent {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface TransactionResult {
+  action: string;
+  contract: string;
+  from: string;
+  args: string[];
+  dryRun: boolean;
+  gasEstimate: bigint;
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: bigint;
+  events: DecodedEvent[];
+}
+
+type WriteMethod = "vouch" | "unvouch" | "setMinimumStake" | "setDepositManager";
+
+// WTON has 27 decimals
+export const WTON_DECIMALS = 27;
+
+function contractAddress(args: OutputArgs): string {
+  const address = args.contract || process.env.CONTRACT_ADDRESS || currentDeployment()?.address;
+  if (!address) {
+    throw new HardhatPluginError("syb", "No deployment recorded for this network; pass --contract or set CONTRACT_ADDRESS");
+  }
+  return address;
+}
+
+export async function connect(hre: HardhatRuntimeEnvironment, args: OutputArgs, signer?: Signer | null): Promise<VouchClient> {
+  const address = contractAddress(args);
+  await ensureLocalMulticall();
+  return VouchClient.connect(address, signer ?? hre.ethers.provider, {
+    startBlock: startBlock(address),
+    logs: logFetchOptions(),
+  });
+}
+
+export function requireAddress(name: string, value: string): string {
+  if (!isAddress(value)) throw new HardhatPluginError("syb", `${name} is not an address: ${value}`);
+  return value;
+}
+
+// A WTON amount as typed by an operator ("100", "0.5"), in base units
+export function parseWton(name: string, value: string): bigint {
+  if (!/^\d+(\.\d+)?$/.test(value)) throw new HardhatPluginError("syb", `${name} must be an amount in WTON: ${value}`);
+  return parseUnits(value, WTON_DECIMALS);
+}
+
+export function emit<T>(json: boolean, result: T, print: (result: T) => void): T {
+  if (json) console.log(toPlainJson(result, 2));
+  else print(result);
+  return result;
+}
+
+// Turns contract reverts into a readable error (and a JSON error object with --json)
+export async function explainReverts<T>(json: boolean, action: string, run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error: any) {
+    if (!isRevertError(error)) throw error;
+    const reason = decodeRevertReason(error);
+    const description = describeRevertReason(reason);
+    if (json) console.log(toPlainJson({ error: { action, reason, description } }, 2));
+    throw new HardhatPluginError("syb", `${action} reverted: ${reason}${description === reason ? "" : ` (${description})`}`);
+  }
+}
+
+// Decoded with the SDK's event decoder, so the CLI prints exactly what the indexer sees
+function decodeEvents(client: VouchClient, receipt: ContractTransactionReceipt): DecodedEvent[] {
+  return decodeVouchEvents(receipt.logs, client.address).map(({ name, ...args }) => ({ name, args }));
+}
+
+/**
+ * Simulates the call with staticCall and estimates its gas; unless dryRun,
+ * then sends it and waits for the receipt.
+ */
+export async function transact(
+  client: VouchClient,
+  from: string,
+  action: string,
+  method: WriteMethod,
+  args: (string | bigint)[],
+  dryRun: boolean
+): Promise<TransactionResult> {
+  const fn = client.contract.getFunction(method);
+  await fn.staticCall(...args);
+  const gasEstimate = await fn.estimateGas(...args);
+  const result: TransactionResult = {
+    action,
+    contract: client.address,
+    from: from.toLowerCase(),
+    args: args.map(String),
+    dryRun,
+    gasEstimate,
+    events: [],
+  };
+  if (dryRun) return result;
+
+  const tx = await fn.send(...args);
+  const receipt = (await tx.wait())!;
+  return {
+    ...result,
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    events: decodeEvents(client, receipt),
+  };
+}
+
+export function printTransaction(result: TransactionResult): void {
+  const call = `${result.action}(${result.args.join(", ")})`;
+  if (result.dryRun) {
+    console.log(`🧪 Dry run: ${call} from ${result.from} would succeed`);
+    console.log(`   Gas estimate: ${result.gasEstimate}`);
+    return;
+  }
+  console.log(`✅ ${call} from ${result.from}`);
+  console.log(`   Transaction: ${result.txHash}`);
+  console.log(`   Block: ${result.blockNumber}, gas used: ${result.gasUsed}`);
+  for (const event of result.events) {
+    const fields = Object.entries(event.args).map(([k, v]) => `${k}=${v}`);
+    console.log(`   📣 ${event.name}(${fields.join(", ")})`);
+  }
+}
+
+// Syncs the local event index and assembles the live graph from it
+export async function indexedGraph(client: VouchClient, json: boolean): Promise<AssembledGraph> {
+  return (await assembledIndex(client, json)).graph;
+}
+
+export async function assembledIndex(client: VouchClient, json: boolean): Promise<{ indexer: VouchIndexer; graph: AssembledGraph }> {
+  const indexer = await createIndexer(client.address);
+  const sync = await indexer.sync();
+  if (!json) logReorg(sync);
+
+  const graph = await assembleIndexedGraph(client, indexer);
+  if (!json && graph.mismatches.length > 0) {
+    console.log(`⚠️  ${graph.mismatches.length} edges differ between the events and getOutNeighbors (vouches sent while reading?):`);
+    for (const m of graph.mismatches) {
+      console.log(`   ${m.from} → ${m.to}: ${m.inEdgeSet ? "only in the events" : "only in outNeighbors"}`);
+    }
+  }
+  return { indexer, graph };
+}
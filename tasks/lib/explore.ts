@@ -0,0 +1,48 @@
+import * as fs from "fs";
+import * as path from "path";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { GraphDocument, explorerHtml, readGraphDocument } from "../../sdk/node";
+import { indexedGraphDocument } from "../../scripts/lib/indexer";
+import { OutputArgs, connect, emit, assembledIndex } from "./common";
+
+export interface ExploreResult {
+  // contract address, or the graph document the explorer was built from
+  source: string;
+  nodes: number;
+  edges: number;
+  out: string;
+}
+
+/**
+ * Writes the offline HTML explorer for the live graph, or for a graph
+ * document written before (--graph, no node connection needed).
+ */
+export async function exploreCommand(
+  hre: HardhatRuntimeEnvironment,
+  args: OutputArgs & { graph?: string; out: string }
+): Promise<ExploreResult> {
+  let document: GraphDocument;
+  let source: string;
+  if (args.graph) {
+    try {
+      document = readGraphDocument(args.graph);
+    } catch (error: any) {
+      throw new HardhatPluginError("syb", `Cannot read graph ${args.graph}: ${error.message}`);
+    }
+    source = args.graph;
+  } else {
+    const client = await connect(hre, args);
+    const { indexer, graph } = await assembledIndex(client, args.json);
+    document = await indexedGraphDocument(indexer, graph);
+    source = client.address;
+  }
+  fs.mkdirSync(path.dirname(args.out), { recursive: true });
+  fs.writeFileSync(args.out, explorerHtml(document));
+
+  const result: ExploreResult = { source, nodes: document.nodes.length, edges: document.edges.length, out: args.out };
+  return emit(args.json, result, (r) => {
+    console.log(`🗺️  Explorer for ${r.source} (${r.nodes} nodes, ${r.edges} edges) written to ${r.out}`);
+    console.log("   Open it in a browser; it needs no network access.");
+  });
+}
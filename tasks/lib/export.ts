@@ -0,0 +1,56 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { graphExportFormats, graphExporter, writeGraphExport } from "../../sdk/node";
+import { indexedGraphDocument } from "../../scripts/lib/indexer";
+import { OutputArgs, connect, emit, assembledIndex } from "./common";
+
+export interface ExportResult {
+  format: string;
+  contract: string;
+  nodes: number;
+  edges: number;
+  // VouchRemoved events, and edges on which the events and getOutNeighbors disagree
+  removals: number;
+  mismatches: number;
+  // the files written with --out
+  files?: string[];
+}
+
+/**
+ * Writes the live graph in one of the export formats to --out (stdout
+ * when omitted and the format is a single file). Formats that write
+ * several files use --out as their base name.
+ */
+export async function exportCommand(
+  hre: HardhatRuntimeEnvironment,
+  args: OutputArgs & { format: string; out?: string }
+): Promise<ExportResult> {
+  const { format } = args;
+  if (!graphExportFormats().includes(format)) {
+    throw new HardhatPluginError("syb", `--format must be one of ${graphExportFormats().join(", ")} (got ${format})`);
+  }
+  const client = await connect(hre, args);
+  const { indexer, graph } = await assembledIndex(client, args.json);
+  const document = await indexedGraphDocument(indexer, graph);
+
+  const result: ExportResult = {
+    format,
+    contract: client.address,
+    nodes: graph.nodes.length,
+    edges: graph.edges.length,
+    removals: graph.removals,
+    mismatches: graph.mismatches.length,
+  };
+  if (!args.out) {
+    const files = graphExporter(format).write(document);
+    if (files.length > 1) {
+      throw new HardhatPluginError("syb", `--format ${format} writes ${files.length} files; give --out as their base name`);
+    }
+    // the export itself is the output
+    process.stdout.write(files[0].content);
+    return result;
+  }
+  return emit(args.json, { ...result, files: writeGraphExport(document, format, args.out) }, (r) => {
+    console.log(`💾 Exported ${r.nodes} nodes and ${r.edges} edges as ${r.format} to ${r.files!.join(", ")}`);
+  });
+}
@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { GraphAt, HistoryPoint, NodeAt, parseDuration, toPlainJson } from "../../sdk/node";
+import { createIndexer, loadHistory, logReorg } from "../../scripts/lib/indexer";
+import { OutputArgs, connect, requireAddress, emit } from "./common";
+
+export interface HistoryArgs extends OutputArgs {
+  block?: number;
+  date?: string;
+  address?: string;
+  interval?: string;
+  out?: string;
+}
+
+export type HistoryResult =
+  | { contract: string; at: string; graph: GraphAt; node?: NodeAt }
+  | { contract: string; interval: number; frames: number; out?: string };
+
+function historyPoint(args: HistoryArgs): HistoryPoint | null {
+  if (args.block !== undefined && args.date) throw new HardhatPluginError("syb", "Pass either --block or --date, not both");
+  if (args.block !== undefined) return { block: args.block };
+  if (!args.date) return null;
+  // unix seconds or anything Date understands
+  const date = /^\d+$/.test(args.date) ? new Date(Number(args.date) * 1000) : new Date(args.date);
+  if (Number.isNaN(date.getTime())) throw new HardhatPluginError("syb", `--date is not a date: ${args.date}`);
+  return { date };
+}
+
+/**
+ * The graph as it was at --block or --date (and one --address in it), or
+ * with --interval a snapshot per interval for growth animations, written to
+ * --out (stdout when omitted).
+ */
+export async function historyCommand(hre: HardhatRuntimeEnvironment, args: HistoryArgs): Promise<HistoryResult> {
+  const point = historyPoint(args);
+  if (!point && !args.interval) throw new HardhatPluginError("syb", "Pass --block or --date for a point in time, or --interval for snapshots");
+  let interval: number | undefined;
+  if (args.interval) {
+    try {
+      interval = parseDuration(args.interval);
+    } catch (error: any) {
+      throw new HardhatPluginError("syb", `--interval: ${error.message}`);
+    }
+  }
+  const client = await connect(hre, args);
+  const indexer = await createIndexer(client.address);
+  const sync = await indexer.sync();
+  if (!args.json) logReorg(sync);
+  const history = await loadHistory(indexer);
+
+  if (interval !== undefined) {
+    const frames = history.frames(interval).map(({ timestamp, blockNumber, graph }) => ({
+      timestamp,
+      date: new Date(timestamp * 1000).toISOString(),
+      blockNumber,
+      nodes: graph.nodes.map(({ address, rank, score, isSeed }) => ({ address, rank, score, isSeed })),
+      edges: graph.edges.map(({ from, to }) => ({ from, to })),
+    }));
+    const body = toPlainJson({ contract: client.address, interval, frames }, 2) + "\n";
+    const result = { contract: client.address, interval, frames: frames.length };
+    if (!args.out) {
+      // the frames themselves are the output
+      process.stdout.write(body);
+      return result;
+    }
+    fs.writeFileSync(args.out, body);
+    return emit(args.json, { ...result, out: args.out }, (r) => {
+      console.log(`🎞️  Wrote ${r.frames} snapshots, one per ${args.interval}, to ${r.out}`);
+    });
+  }
+
+  const at = "block" in point! ? `block ${point.block}` : point!.date.toISOString();
+  const result: HistoryResult = {
+    contract: client.address,
+    at,
+    graph: history.graphAt(point!),
+    ...(args.address ? { node: history.nodeAt(requireAddress("--address", args.address), point!) } : {}),
+  };
+  return emit(args.json, result, (r) => {
+    const { graph, node } = r as Extract<HistoryResult, { at: string }>;
+    console.log(`🕰️  ${r.contract} at ${at}`);
+    if (graph.blockNumber === null) {
+      console.log("   No vouches yet");
+      return;
+    }
+    console.log(`   Last change: block ${graph.blockNumber} (${new Date(graph.timestamp! * 1000).toISOString()})`);
+    console.log(`   ${graph.graph.nodes.length} nodes, ${graph.graph.edges.length} vouches, ${graph.graph.seeds.length} seeds`);
+    if (!node) return;
+    if (!node.node) {
+      console.log(`   ${args.address} had not taken part yet`);
+      return;
+    }
+    console.log(`\n👤 ${node.node.address}: rank ${node.node.rank}, score ${node.node.score}`);
+    for (const [label, list] of [["In", node.inNeighbors], ["Out", node.outNeighbors]] as const) {
+      if (list.length) console.log(`   ${label}: ${list.map((n) => `${n.address} (rank ${n.rank})`).join(", ")}`);
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { NeighborDirection, Neighborhood, neighborhood } from "../../sdk/node";
+import { OutputArgs, connect, requireAddress, emit } from "./common";
+
+export async function neighborsCommand(
+  hre: HardhatRuntimeEnvironment,
+  args: OutputArgs & { address: string; depth: number; direction: string }
+): Promise<Neighborhood> {
+  const direction = args.direction as NeighborDirection;
+  if (!["in", "out", "both"].includes(direction)) {
+    throw new HardhatPluginError("syb", `--direction must be in, out or both (got ${args.direction})`);
+  }
+  if (!Number.isInteger(args.depth) || args.depth < 1) {
+    throw new HardhatPluginError("syb", `--depth must be a positive integer (got ${args.depth})`);
+  }
+  const client = await connect(hre, args);
+  const address = requireAddress("address", args.address);
+  const result = await neighborhood(address, args.depth, direction, (a) => client.getConnections(a));
+
+  return emit(args.json, result, (n) => {
+    console.log(`🕸️  ${n.direction} neighbors of ${n.root}`);
+    n.layers.slice(1).forEach((layer, i) => {
+      console.log(`   ${i + 1} hop${i === 0 ? "" : "s"} (${layer.length}):`);
+      layer.forEach((a) => console.log(`     ${a}`));
+    });
+    if (n.layers.length === 1) console.log("   (none)");
+    console.log(`   Edges: ${n.edges.length}`);
+  });
+}
@@ -0,0 +1,23 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Node } from "../../sdk/node";
+import { OutputArgs, connect, requireAddress, emit } from "./common";
+
+export async function nodeCommand(
+  hre: HardhatRuntimeEnvironment,
+  args: OutputArgs & { address: string }
+): Promise<Node & { hasMinimumStake: boolean }> {
+  const client = await connect(hre, args);
+  const address = requireAddress("address", args.address);
+  const [node, hasMinimumStake] = await Promise.all([client.getNodeInfo(address), client.hasMinimumStake(address)]);
+
+  return emit(args.json, { ...node, hasMinimumStake }, (n) => {
+    console.log(`👤 ${n.address}`);
+    console.log(`   Rank: ${n.rank}`);
+    console.log(`   Score: ${n.score}`);
+    console.log(`   Incoming vouches: ${n.inCount}`);
+    console.log(`   Outgoing vouches: ${n.outCount}`);
+    console.log(`   Meets minimum stake: ${n.hasMinimumStake ? "yes" : "no"}`);
+    if (n.inNeighbors.length) console.log(`   In:  ${n.inNeighbors.join(", ")}`);
+    if (n.outNeighbors.length) console.log(`   Out: ${n.outNeighbors.join(", ")}`);
+  });
+}
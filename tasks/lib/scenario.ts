@@ -0,0 +1,117 @@
+import { id, parseEther } from "ethers";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  CheckpointResult,
+  ScenarioReport,
+  compileScenario,
+  predictScenario,
+  readScenario,
+  runScenario,
+  scenarioActorNames,
+} from "../../sdk/node";
+import { currentDeployment } from "../../scripts/lib/vouch-client";
+import { applyScenarioStakes, fundScenarioSenders } from "../../scripts/lib/scenario";
+import { scriptWallets } from "../../scripts/lib/wallets";
+import { OutputArgs, connect, emit } from "./common";
+
+export interface ScenarioArgs extends OutputArgs {
+  file: string;
+  dryRun: boolean;
+  wallets?: string;
+  // ETH per sending actor
+  funding: string;
+}
+
+export interface ScenarioResult {
+  scenario: string;
+  dryRun: boolean;
+  actors: Record<string, string>;
+  phases: { label: string; operations: number }[];
+  // dry runs: checkpoints as predicted by the off-chain model
+  predicted?: CheckpointResult[];
+  report?: ScenarioReport;
+}
+
+function printCheckpoint(result: CheckpointResult): void {
+  console.log(`   ${result.passed ? "🏁" : "🚩"} Checkpoint "${result.name}": ${result.passed ? "passed" : `${result.failures.length} failed`}`);
+  for (const f of result.failures) console.log(`      ${f.actor} ${f.field}: expected ${f.expected}, got ${f.actual}`);
+}
+
+/**
+ * Applies a scenario file. Actors are the wallet set --wallets (default
+ * scenario-<name>, throwaway wallets on local networks); senders are funded
+ * and stakes set (or checked on live networks) before the first step.
+ * --dry-run compiles the scenario and predicts its checkpoints on the
+ * off-chain model instead.
+ */
+export async function scenarioCommand(hre: HardhatRuntimeEnvironment, args: ScenarioArgs): Promise<ScenarioResult> {
+  let scenario;
+  try {
+    scenario = readScenario(args.file);
+  } catch (error: any) {
+    throw new HardhatPluginError("syb", `Cannot read scenario ${args.file}: ${error.message}`);
+  }
+  const names = scenarioActorNames(scenario);
+  const phaseSummary = (phases: ReturnType<typeof compileScenario>["phases"]) =>
+    phases.map((p) => (p.kind === "operations" ? { label: p.label, operations: p.operations.length } : { label: `checkpoint ${p.name}`, operations: 0 }));
+
+  if (args.dryRun) {
+    // stand-in addresses; only the actor names are shown
+    const compiled = compileScenario(scenario, names.map((name) => id(name).slice(0, 42)));
+    const address = args.contract || process.env.CONTRACT_ADDRESS || currentDeployment()?.address;
+    const minimumStake = address ? await (await connect(hre, args)).contract.minimumStake() : 0n;
+    const result: ScenarioResult = {
+      scenario: scenario.name,
+      dryRun: true,
+      actors: compiled.actors,
+      phases: phaseSummary(compiled.phases),
+      predicted: predictScenario(compiled, { minimumStake }),
+    };
+    return emit(args.json, result, (r) => {
+      console.log(`🧪 Scenario "${r.scenario}" (dry run, ${names.length} actors)`);
+      for (const phase of r.phases) if (phase.operations) console.log(`   ▶️  ${phase.label}: ${phase.operations} operations`);
+      console.log("   Predicted by the off-chain model:");
+      r.predicted!.forEach(printCheckpoint);
+    });
+  }
+
+  const { wallets } = await scriptWallets(args.wallets ?? `scenario-${scenario.name.replace(/[^\w.-]+/g, "-")}`, names.length);
+  const compiled = compileScenario(scenario, wallets.map((w) => w.address));
+  const client = await connect(hre, args);
+  const print = !args.json;
+  if (print) console.log(`🎬 Scenario "${scenario.name}" on ${hre.network.name} (${names.length} actors)`);
+
+  const funded = await fundScenarioSenders(compiled, parseEther(args.funding));
+  if (print && funded) console.log(`   💰 Funded ${funded} senders`);
+  const shortfalls = await applyScenarioStakes(client, compiled);
+  if (print) {
+    for (const s of shortfalls) console.log(`   ⚠️  ${s.actor} (${s.address}) has ${s.staked} staked, the scenario expects ${s.required}`);
+  }
+
+  const report = await runScenario(client, compiled, {
+    signers: wallets,
+    onPlan: print
+      ? (label, plan) => console.log(`   ▶️  ${label}: ✅ ${plan.confirmed}  ❌ ${plan.reverted}  ⏭️  ${plan.skipped}`)
+      : undefined,
+    onCheckpoint: print ? printCheckpoint : undefined,
+  });
+  const result: ScenarioResult = {
+    scenario: scenario.name,
+    dryRun: false,
+    actors: compiled.actors,
+    phases: phaseSummary(compiled.phases),
+    report,
+  };
+  emit(args.json, result, (r) => {
+    const rep = r.report!;
+    console.log(`\n📊 ${rep.confirmed} confirmed, ${rep.reverted} reverted, ${rep.skipped} skipped, gas used ${rep.gasUsed}`);
+    for (const p of rep.problems) {
+      const names = new Map(Object.entries(r.actors).map(([name, address]) => [address, name]));
+      console.log(`   ❌ ${p.phase}: ${p.operation.action} ${names.get(p.operation.from)} → ${names.get(p.operation.to)}: ${p.reason}`);
+    }
+  });
+  const failed = report.checkpoints.filter((c) => !c.passed).length;
+  if (failed) throw new HardhatPluginError("syb", `Scenario "${scenario.name}" failed ${failed} of ${report.checkpoints.length} checkpoints`);
+  return result;
+}
@@ -0,0 +1,91 @@
+import * as fs from "fs";
+import * as path from "path";
+import { HDNodeWallet, Mnemonic, Signer, Wallet } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { hdPath } from "../../sdk/node";
+import { openWalletSet, readPassword } from "../../scripts/lib/wallets";
+
+/**
+ * Signer selection for the syb CLI, in order of precedence:
+ *   --keystore <file>  encrypted JSON keystore (password from KEYSTORE_PASSWORD or a prompt)
+ *   --mnemonic         HD wallet from MNEMONIC, account --account (m/44'/60'/0'/0/<account>)
+ *   (neither)          the network's configured account --account (PRIVATE_KEY on live networks)
+ */
+
+export interface SignerOptions {
+  keystore?: string;
+  mnemonic?: boolean;
+  account?: number;
+}
+
+export async function resolveSigner(hre: HardhatRuntimeEnvironment, options: SignerOptions): Promise<Signer | null> {
+  const account = options.account ?? 0;
+  const provider = hre.ethers.provider;
+
+  if (options.keystore) {
+    const json = fs.readFileSync(options.keystore, "utf8");
+    const password = process.env.KEYSTORE_PASSWORD ?? (await readPassword(`Password for ${options.keystore}: `));
+    const wallet = await Wallet.fromEncryptedJson(json, password);
+    return wallet.connect(provider);
+  }
+
+  if (options.mnemonic) {
+    const phrase = process.env.MNEMONIC;
+    if (!phrase) throw new Error("--mnemonic needs the MNEMONIC environment variable");
+    return HDNodeWallet.fromMnemonic(Mnemonic.fromPhrase(phrase), hdPath(account)).connect(provider);
+  }
+
+  // Read-only networks (no PRIVATE_KEY) have no signers
+  const signers = await hre.ethers.getSigners();
+  return signers[account] ?? null;
+}
+
+export async function requireSigner(hre: HardhatRuntimeEnvironment, options: SignerOptions): Promise<Signer> {
+  const signer = await resolveSigner(hre, options);
+  if (!signer) {
+    throw new Error(`No signer on ${hre.network.name}: set PRIVATE_KEY, or pass --keystore or --mnemonic`);
+  }
+  return signer;
+}
+
+export interface SignerSetOptions {
+  // keystore files, or directories whose *.json files are keystores (one password for all)
+  keystores?: string[];
+  // number of MNEMONIC accounts to derive (m/44'/60'/0'/0/0 ... n-1)
+  mnemonicAccounts?: number;
+  // wallet sets of the network (wallets/<network>/<name>)
+  walletSets?: string[];
+}
+
+/**
+ * Every signer available to a batch run: the network's configured accounts,
+ * plus the first `mnemonicAccounts` MNEMONIC accounts, the given keystores
+ * and the wallets of the given wallet sets.
+ */
+export async function resolveSigners(hre: HardhatRuntimeEnvironment, options: SignerSetOptions): Promise<Signer[]> {
+  const signers: Signer[] = [...(await hre.ethers.getSigners())];
+
+  const count = options.mnemonicAccounts ?? 0;
+  if (count > 0) {
+    const phrase = process.env.MNEMONIC;
+    if (!phrase) throw new Error("Deriving mnemonic accounts needs the MNEMONIC environment variable");
+    const mnemonic = Mnemonic.fromPhrase(phrase);
+    for (let i = 0; i < count; i++) signers.push(HDNodeWallet.fromMnemonic(mnemonic, hdPath(i)).connect(hre.ethers.provider));
+  }
+
+  const files = (options.keystores ?? []).flatMap((entry) =>
+    fs.statSync(entry).isDirectory()
+      ? fs.readdirSync(entry).filter((f) => f.endsWith(".json")).map((f) => path.join(entry, f))
+      : [entry]
+  );
+  if (files.length > 0) {
+    const password = process.env.KEYSTORE_PASSWORD ?? (await readPassword("Keystore password: "));
+    for (const file of files) {
+      const wallet = await Wallet.fromEncryptedJson(fs.readFileSync(file, "utf8"), password);
+      signers.push(wallet.connect(hre.ethers.provider));
+    }
+  }
+
+  for (const name of options.walletSets ?? []) signers.push(...(await openWalletSet(name)).wallets);
+  return signers;
+}
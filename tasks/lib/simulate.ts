@@ -0,0 +1,44 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { SimulationResult, describeRevertReason, simulateOperation } from "../../sdk/node";
+import { SignerOptions, resolveSigner } from "./signer";
+import { OutputArgs, connect, requireAddress, emit } from "./common";
+
+export async function simulateCommand(
+  hre: HardhatRuntimeEnvironment,
+  args: OutputArgs & SignerOptions & { action: string; to: string; from?: string }
+): Promise<SimulationResult> {
+  if (args.action !== "vouch" && args.action !== "unvouch") {
+    throw new HardhatPluginError("syb", `Can only simulate vouch or unvouch (got ${args.action})`);
+  }
+  const to = requireAddress("to", args.to);
+  const from = args.from ? requireAddress("--from", args.from) : await (await resolveSigner(hre, args))?.getAddress();
+  if (!from) throw new HardhatPluginError("syb", "No signer to simulate as; pass --from");
+
+  const client = await connect(hre, args);
+  const result = await simulateOperation(client, { action: args.action, from, to });
+
+  return emit(args.json, result, (r) => {
+    console.log(`🔮 ${r.action} ${r.from} → ${r.to} (at block ${r.blockNumber})`);
+    if (r.revertReason) {
+      const description = describeRevertReason(r.revertReason);
+      console.log(`   ❌ Would revert: ${r.revertReason}${description === r.revertReason ? "" : ` (${description})`}`);
+    } else {
+      console.log(`   ✅ Would succeed, gas estimate ${r.gasEstimate}`);
+    }
+    const change = (v: { before: bigint; after: bigint }) => (v.before === v.after ? `${v.before}` : `${v.before} → ${v.after}`);
+    console.log(`   Target rank: ${change(r.target.rank)}, score: ${change(r.target.score)}`);
+    console.log(`   Sender score: ${change(r.sender.score)} (outdegree bonus ${change(r.sender.outBonus)})`);
+    if (r.bootstrap.consumesSlot) {
+      console.log(
+        `   🌱 Uses 1 of ${r.bootstrap.slotsRemaining} remaining bootstrap slots` +
+          (r.bootstrap.completesBootstrap ? " (the last one: bootstrap completes)" : "")
+      );
+    }
+    for (const event of r.events) {
+      const { name, ...fields } = event;
+      console.log(`   📣 ${name}(${Object.entries(fields).map(([k, v]) => `${k}=${v}`).join(", ")})`);
+    }
+    if (r.mismatch) console.log(`   ⚠️  ${r.mismatch}`);
+  });
+}
@@ -0,0 +1,20 @@
+import { formatUnits } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { StakeInfo } from "../../sdk/node";
+import { OutputArgs, WTON_DECIMALS, connect, requireAddress, emit } from "./common";
+
+export async function stakeCommand(
+  hre: HardhatRuntimeEnvironment,
+  args: OutputArgs & { address: string }
+): Promise<StakeInfo> {
+  const client = await connect(hre, args);
+  const stake = await client.getStakeInfo(requireAddress("address", args.address));
+
+  return emit(args.json, stake, (s) => {
+    console.log(`💰 ${s.address}`);
+    console.log(`   Staked: ${formatUnits(s.stakedAmount, WTON_DECIMALS)} WTON`);
+    console.log(`   Minimum stake: ${formatUnits(s.minimumStake, WTON_DECIMALS)} WTON`);
+    console.log(`   Can vouch: ${s.hasMinimumStake ? "yes" : "no"}`);
+    console.log(`   DepositManager: ${s.depositManager}`);
+  });
+}
@@ -0,0 +1,66 @@
+import * as fs from "fs";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { StalenessReport, analyzeStaleness, formatPlan, rankDistance } from "../../sdk/node";
+import { OutputArgs, connect, emit, indexedGraph } from "./common";
+
+export interface StaleResult extends StalenessReport {
+  contract: string;
+  // wave plan files, in the order to run them
+  planFiles?: string[];
+}
+
+/**
+ * Lists the nodes whose on-chain rank or score differs from the fixpoint
+ * of the live graph. With --plan, writes the repair as one plan file per
+ * wave (<plan>.wave-N.csv) for syb batch; only senders that meet the
+ * minimum stake are used, since the refresh vouches again.
+ */
+export async function staleCommand(
+  hre: HardhatRuntimeEnvironment,
+  args: OutputArgs & { plan?: string }
+): Promise<StaleResult> {
+  const client = await connect(hre, args);
+  const [constants, seedVouchCount] = await Promise.all([client.getConstants(), client.contract.seedVouchCount()]);
+  if (seedVouchCount < constants.maxSeedVouches) {
+    throw new HardhatPluginError(
+      "syb",
+      `The bootstrap is not finished (${seedVouchCount} of ${constants.maxSeedVouches} seed vouches); ranks have no fixpoint yet`
+    );
+  }
+  const graph = await indexedGraph(client, args.json);
+  const senders = [...new Set(graph.nodes.flatMap((n) => n.inNeighbors))];
+  const staked = await Promise.all(senders.map((a) => client.hasMinimumStake(a)));
+  const canSend = new Set(senders.filter((_, i) => staked[i]));
+  const report = analyzeStaleness(graph, { constants, canSend: (a) => canSend.has(a) });
+
+  let planFiles: string[] | undefined;
+  if (args.plan) {
+    const base = args.plan.replace(/\.(csv|json)$/i, "");
+    planFiles = report.plan.waves.map((ops, i) => {
+      const file = `${base}.wave-${i + 1}.csv`;
+      fs.writeFileSync(file, formatPlan(ops, "csv"));
+      return file;
+    });
+  }
+
+  return emit(args.json, { contract: client.address, ...report, ...(planFiles ? { planFiles } : {}) }, (r) => {
+    console.log(`🧭 ${r.stale.length} of ${r.nodes} nodes are off their fixpoint on ${r.contract}`);
+    for (const s of r.stale) {
+      const rank = s.rankStale ? `rank ${s.rank} → ${s.fixpointRank} (${rankDistance(s).toFixed(1)} hops)` : `rank ${s.rank}`;
+      const score = s.scoreStale ? `score ${s.score} → ${s.fixpointScore}` : `score ${s.score}`;
+      console.log(`   ${s.address}: ${rank}, ${score}, ${s.wave === null ? "not repairable" : `wave ${s.wave}`}`);
+    }
+    if (r.unanchored.length) {
+      console.log(`   ⚠️  ${r.unanchored.length} nodes are not reachable from a seed; their ranks rise with every recompute:`);
+      r.unanchored.forEach((a) => console.log(`      ${a}`));
+    }
+    if (r.plan.unrepaired.length) console.log(`   ⚠️  ${r.plan.unrepaired.length} stale nodes have no in-neighbor with the minimum stake to refresh them`);
+    const operations = r.plan.waves.reduce((n, ops) => n + ops.length, 0);
+    console.log(`   🛠️  Repair: ${operations} operations in ${r.plan.waves.length} waves`);
+    if (r.planFiles) {
+      console.log("   Run each wave after the previous one has finished:");
+      r.planFiles.forEach((file) => console.log(`      npx hardhat syb batch ${file} --network ${hre.network.name}`));
+    }
+  });
+}
@@ -0,0 +1,34 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { requireSigner } from "./signer";
+import {
+  WriteArgs,
+  TransactionResult,
+  connect,
+  requireAddress,
+  emit,
+  explainReverts,
+  transact,
+  printTransaction,
+} from "./common";
+
+async function vouchOrUnvouch(
+  hre: HardhatRuntimeEnvironment,
+  method: "vouch" | "unvouch",
+  args: WriteArgs & { to: string }
+): Promise<TransactionResult> {
+  const to = requireAddress("to", args.to);
+  const signer = await requireSigner(hre, args);
+  const client = await connect(hre, args, signer);
+  const result = await explainReverts(args.json, method, async () =>
+    transact(client, await signer.getAddress(), method, method, [to], args.dryRun)
+  );
+  return emit(args.json, result, printTransaction);
+}
+
+export function vouchCommand(hre: HardhatRuntimeEnvironment, args: WriteArgs & { to: string }) {
+  return vouchOrUnvouch(hre, "vouch", args);
+}
+
+export function unvouchCommand(hre: HardhatRuntimeEnvironment, args: WriteArgs & { to: string }) {
+  return vouchOrUnvouch(hre, "unvouch", args);
+}
@@ -0,0 +1,131 @@
+import * as path from "path";
+import { formatEther } from "ethers";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  SweepResult,
+  WalletSetKind,
+  WalletStatus,
+  createWalletSet,
+  listWalletSets,
+  nextMnemonicIndex,
+  readWalletSet,
+  sweepWallets,
+  walletStatuses,
+} from "../../sdk/node";
+import { currentDeployment } from "../../scripts/lib/vouch-client";
+import { networkWalletsDir, openWalletSet, walletPassword } from "../../scripts/lib/wallets";
+import { OutputArgs, connect, requireAddress, emit } from "./common";
+
+export interface WalletsArgs extends OutputArgs {
+  action: string;
+  name?: string;
+  count: number;
+  kind: string;
+  mnemonic: boolean;
+  to?: string;
+}
+
+export interface WalletSetListing {
+  name: string;
+  kind: WalletSetKind;
+  mnemonic?: "keystore" | "env";
+  wallets: WalletStatus[];
+}
+
+export type WalletsResult =
+  | { action: "create"; network: string; name: string; kind: WalletSetKind; dir: string; addresses: string[] }
+  | { action: "list"; network: string; contract: string | null; sets: WalletSetListing[] }
+  | { action: "sweep"; network: string; name: string; to: string; swept: bigint; wallets: SweepResult[] };
+
+export const WALLETS_ACTIONS = ["create", "list", "sweep"] as const;
+
+/**
+ * Wallet sets under wallets/<network>/: create one, list them with balances
+ * and graph roles, or sweep a set's ETH back to --to (the first configured
+ * account by default).
+ */
+export async function walletsCommand(hre: HardhatRuntimeEnvironment, args: WalletsArgs): Promise<WalletsResult> {
+  const dir = networkWalletsDir(hre.network.name);
+  const network = hre.network.name;
+
+  if (args.action === "create") {
+    const name = args.name ?? "default";
+    if (args.kind !== "hd" && args.kind !== "keystore") {
+      throw new HardhatPluginError("syb", `--kind must be hd or keystore (got ${args.kind})`);
+    }
+    if (args.mnemonic && args.kind !== "hd") throw new HardhatPluginError("syb", "--mnemonic only applies to --kind hd");
+    if (args.mnemonic && !process.env.MNEMONIC) throw new HardhatPluginError("syb", "--mnemonic needs the MNEMONIC environment variable");
+    const { manifest } = await createWalletSet(dir, name, {
+      kind: args.kind,
+      count: args.count,
+      network,
+      mnemonic: args.mnemonic ? process.env.MNEMONIC : undefined,
+      firstIndex: args.mnemonic ? nextMnemonicIndex(dir) : undefined,
+      password: args.mnemonic ? undefined : await walletPassword(`New password for wallet set ${name}: `),
+    });
+    const result: WalletsResult = {
+      action: "create",
+      network,
+      name,
+      kind: manifest.kind,
+      dir: path.relative(process.cwd(), path.join(dir, name)),
+      addresses: manifest.wallets.map((w) => w.address.toLowerCase()),
+    };
+    return emit(args.json, result, (r) => {
+      console.log(`🔑 Created wallet set "${r.name}" (${r.kind}, ${r.addresses.length} wallets) in ${r.dir}`);
+      r.addresses.forEach((a, i) => console.log(`   ${i}: ${a}`));
+    });
+  }
+
+  if (args.action === "list") {
+    const sets = args.name ? [readWalletSet(dir, args.name)] : listWalletSets(dir);
+    // roles need the contract; without one on this network, list balances only
+    const address = args.contract || process.env.CONTRACT_ADDRESS || currentDeployment()?.address;
+    const client = address ? await connect(hre, args) : undefined;
+    const listings: WalletSetListing[] = [];
+    for (const set of sets) {
+      const wallets = await walletStatuses(hre.ethers.provider, set.wallets.map((w) => w.address), client);
+      listings.push({ name: set.name, kind: set.kind, mnemonic: set.mnemonic, wallets });
+    }
+    const result: WalletsResult = { action: "list", network, contract: client?.address ?? null, sets: listings };
+    return emit(args.json, result, (r) => {
+      if (r.sets.length === 0) console.log(`No wallet sets for ${r.network} in ${path.relative(process.cwd(), dir)}`);
+      for (const set of r.sets) {
+        const source = set.kind === "keystore" ? "keystores" : set.mnemonic === "env" ? "MNEMONIC" : "encrypted mnemonic";
+        const total = set.wallets.reduce((sum, w) => sum + w.balance, 0n);
+        console.log(`👛 ${set.name} (${source}, ${set.wallets.length} wallets, ${formatEther(total)} ETH)`);
+        for (const w of set.wallets) {
+          console.log(`   ${w.address}  ${formatEther(w.balance)} ETH  ${r.contract ? w.roles.join(", ") : ""}`.trimEnd());
+        }
+      }
+    });
+  }
+
+  if (args.action === "sweep") {
+    if (!args.name) throw new HardhatPluginError("syb", "sweep needs --name <wallet set>");
+    const to = args.to ? requireAddress("--to", args.to) : (await hre.ethers.getSigners())[0]?.address;
+    if (!to) throw new HardhatPluginError("syb", `No account to sweep to on ${network}; pass --to`);
+    const { wallets } = await openWalletSet(args.name);
+    const results = await sweepWallets(wallets, to);
+    const result: WalletsResult = {
+      action: "sweep",
+      network,
+      name: args.name,
+      to: to.toLowerCase(),
+      swept: results.reduce((sum, r) => sum + r.swept, 0n),
+      wallets: results,
+    };
+    return emit(args.json, result, (r) => {
+      console.log(`🧹 Sweeping wallet set "${r.name}" to ${r.to}`);
+      for (const w of r.wallets) {
+        if (w.error) console.log(`   ❌ ${w.address}: ${w.error}`);
+        else if (w.txHash) console.log(`   ✅ ${w.address}: ${formatEther(w.swept)} ETH (${w.txHash})`);
+        else console.log(`   ⏭️  ${w.address}: nothing to sweep (${formatEther(w.balance)} ETH)`);
+      }
+      console.log(`   Total: ${formatEther(r.swept)} ETH`);
+    });
+  }
+
+  throw new HardhatPluginError("syb", `Unknown wallets action "${args.action}" (expected ${WALLETS_ACTIONS.join(", ")})`);
+}
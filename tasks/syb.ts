@@ -0,0 +1,128 @@
+import { scope, types } from "hardhat/config";
+import type { ConfigurableTaskDefinition } from "hardhat/types";
+
+/**
+ * `npx hardhat syb <command>`: the vouch network from the command line.
+ *
+ * Commands are loaded lazily: this file is imported by hardhat.config.ts,
+ * before TypeChain has generated the types the SDK depends on.
+ */
+
+const syb = scope("syb", "Vouch network CLI (vouch, unvouch, simulate, batch, scenario, node, neighbors, stake, export, explore, history, stale, analyze, attack, wallets, admin)");
+
+function withOutput(task: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+  return task
+    .addOptionalParam("contract", "VouchMinimal address (default: deployments/<network>.json or CONTRACT_ADDRESS)")
+    .addFlag("json", "Print the result as JSON");
+}
+
+function withSigner(task: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+  return withOutput(task)
+    .addOptionalParam("keystore", "Encrypted JSON keystore to sign with (password from KEYSTORE_PASSWORD or a prompt)")
+    .addFlag("mnemonic", "Sign with an account derived from the MNEMONIC environment variable")
+    .addOptionalParam("account", "Account index (HD index with --mnemonic, signer index otherwise)", 0, types.int);
+}
+
+function withWrite(task: ConfigurableTaskDefinition): ConfigurableTaskDefinition {
+  return withSigner(task).addFlag("dryRun", "Simulate with staticCall and estimate gas without sending");
+}
+
+withWrite(syb.task("vouch", "Vouch for an address"))
+  .addPositionalParam("to", "Address to vouch for")
+  .setAction(async (args, hre) => (await import("./lib/vouch")).vouchCommand(hre, args));
+
+withWrite(syb.task("unvouch", "Remove a vouch"))
+  .addPositionalParam("to", "Address to stop vouching for")
+  .setAction(async (args, hre) => (await import("./lib/vouch")).unvouchCommand(hre, args));
+
+withSigner(syb.task("simulate", "Predict the effect of a vouch or unvouch without sending it"))
+  .addPositionalParam("action", "vouch or unvouch")
+  .addPositionalParam("to", "Target address")
+  .addOptionalParam("from", "Sender to simulate (default: the selected signer)")
+  .setAction(async (args, hre) => (await import("./lib/simulate")).simulateCommand(hre, args));
+
+withOutput(syb.task("batch", "Execute a JSON or CSV plan of { from, to, action } operations"))
+  .addPositionalParam("plan", "Plan file (.json or .csv)")
+  .addOptionalParam("journal", "Progress journal; rerunning with it resumes the plan (default: <plan>.journal.jsonl)")
+  .addOptionalParam("keystore", "Comma-separated keystore files or directories to sign with (besides the configured accounts)")
+  .addOptionalParam("mnemonicAccounts", "Also sign with the first N accounts of MNEMONIC", 0, types.int)
+  .addOptionalParam("wallets", "Comma-separated wallet sets (see syb wallets) to sign with")
+  .addOptionalParam("concurrency", "Senders sending at once", 8, types.int)
+  .addOptionalParam("maxPending", "Unconfirmed transactions per sender", 4, types.int)
+  .addOptionalParam("report", "Write the final report as JSON to this file")
+  .setAction(async (args, hre) => (await import("./lib/batch")).batchCommand(hre, args));
+
+withOutput(syb.task("scenario", "Apply a scenario file (YAML or JSON) and check its checkpoints"))
+  .addPositionalParam("file", "Scenario file, e.g. scenarios/sybil-cluster.yaml")
+  .addFlag("dryRun", "Compile the scenario and predict its checkpoints on the off-chain model, without sending")
+  .addOptionalParam("wallets", "Wallet set holding the actors (default: scenario-<name>; throwaway wallets on local networks)")
+  .addOptionalParam("funding", "ETH each sending actor is topped up to", "0.01")
+  .setAction(async (args, hre) => (await import("./lib/scenario")).scenarioCommand(hre, args));
+
+withOutput(syb.task("node", "Show the rank, score and neighbors of an address"))
+  .addPositionalParam("address", "Node address")
+  .setAction(async (args, hre) => (await import("./lib/node")).nodeCommand(hre, args));
+
+withOutput(syb.task("neighbors", "List the addresses within --depth hops of an address"))
+  .addPositionalParam("address", "Node address")
+  .addOptionalParam("depth", "Number of hops", 1, types.int)
+  .addOptionalParam("direction", "Edges to follow: out (vouched for), in (vouched by) or both", "both")
+  .setAction(async (args, hre) => (await import("./lib/neighbors")).neighborsCommand(hre, args));
+
+withOutput(syb.task("stake", "Show an address's DepositManager stake against the minimum"))
+  .addPositionalParam("address", "Staker address")
+  .setAction(async (args, hre) => (await import("./lib/stake")).stakeCommand(hre, args));
+
+withOutput(syb.task("export", "Export the live graph"))
+  .addOptionalParam("format", "json (versioned graph document), graphml, gexf, cytoscape, dot or csv (node and edge files)", "json")
+  .addOptionalParam("out", "Output file, or base name for formats with several files (default: stdout)")
+  .setAction(async (args, hre) => (await import("./lib/export")).exportCommand(hre, args));
+
+withOutput(syb.task("explore", "Write an offline HTML explorer of the live graph or of an export"))
+  .addOptionalParam("graph", "Build it from a graph document (syb export --format json, or fetch-network-data output) instead of the live graph")
+  .addOptionalParam("out", "HTML file to write", "exports/explorer.html")
+  .setAction(async (args, hre) => (await import("./lib/explore")).exploreCommand(hre, args));
+
+withOutput(syb.task("history", "The graph and a node as they were at a block or date, or snapshots at intervals"))
+  .addOptionalParam("block", "Block number to look at", undefined, types.int)
+  .addOptionalParam("date", "Date to look at (ISO 8601 or unix seconds)")
+  .addOptionalParam("address", "Also show this address's rank, score and neighbors at that point")
+  .addOptionalParam("interval", "Write a graph snapshot per interval instead (e.g. 6h, 1d, 1w)")
+  .addOptionalParam("out", "File for the snapshots (default: stdout)")
+  .setAction(async (args, hre) => (await import("./lib/history")).historyCommand(hre, args));
+
+withOutput(syb.task("stale", "List nodes whose rank or score lags the graph, and plan the refreshes that repair them"))
+  .addOptionalParam("plan", "Write the repair plan as <plan>.wave-N.csv files for syb batch")
+  .setAction(async (args, hre) => (await import("./lib/stale")).staleCommand(hre, args));
+
+withOutput(syb.task("analyze", "Sybil-resistance report: components, rank and seed distance, reciprocity, suspicious clusters"))
+  .addOptionalParam("graph", "Analyze a graph export (syb export --format json, or fetch-network-data output) instead of the live graph")
+  .addOptionalParam("out", "Also write the report as JSON to this file")
+  .setAction(async (args, hre) => (await import("./lib/analyze")).analyzeCommand(hre, args));
+
+syb
+  .task("attack", "Simulate attack strategies on the off-chain model and compare the ranks they reach with their cost")
+  .addOptionalParam("graph", "Attack a graph export instead of a random honest network")
+  .addOptionalParam("honest", "Nodes in the random honest network", 200, types.int)
+  .addOptionalParam("degree", "Vouches each honest node receives", 2, types.int)
+  .addOptionalParam("seed", "Seed of the random network and of random vouch sellers", 1, types.int)
+  .addOptionalParam("sybils", "Sybil identities per attack", 10, types.int)
+  .addOptionalParam("vouches", "Honest vouches bought or rented", 3, types.int)
+  .addOptionalParam("strategy", "Comma-separated strategies (default: all of sybilRing, compromisedSeed, boughtVouches, churn)")
+  .addOptionalParam("minStake", "Minimum stake per vouching identity, in WTON", "0")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args, hre) => (await import("./lib/attack")).attackCommand(hre, args));
+
+withOutput(syb.task("wallets", "Test wallet sets in wallets/<network>/: create, list (balances and roles), sweep"))
+  .addPositionalParam("action", "create, list or sweep")
+  .addOptionalParam("name", "Wallet set name (create defaults to \"default\")")
+  .addOptionalParam("count", "Wallets to create", 5, types.int)
+  .addOptionalParam("kind", "hd (one encrypted mnemonic) or keystore (one encrypted keystore per wallet)", "hd")
+  .addFlag("mnemonic", "Derive the new set from MNEMONIC instead of generating and encrypting a mnemonic")
+  .addOptionalParam("to", "Where sweep sends the ETH (default: the first configured account)")
+  .setAction(async (args, hre) => (await import("./lib/wallets")).walletsCommand(hre, args));
+
+withWrite(syb.task("admin", "Owner actions: set-min-stake <WTON>, set-deposit-manager <address>"))
+  .addPositionalParam("action", "set-min-stake or set-deposit-manager")
+  .addPositionalParam("value", "New minimum stake in WTON (e.g. 0.5) or DepositManager address")
+  .setAction(async (args, hre) => (await import("./lib/admin")).adminCommand(hre, args));
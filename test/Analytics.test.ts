@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  Graph,
+  VouchModel,
+  analyzeSybilResistance,
+  edgesFromNodes,
+  parseGraph,
+  rankDistribution,
+  readGraph,
+  stronglyConnectedComponents,
+  toPlainJson,
+} from "../sdk/node";
+
+const address = (name: string) => `0x${Buffer.from(name).toString("hex").padStart(40, "0")}`;
+const nameOf = (address: string) => Buffer.from(address.slice(2), "hex").toString().replace(/\0/g, "");
+
+// seeds s0..s5, an honest chain h0..h3 with a vouch back, a 4-node Sybil clique attached through h3, and a spammer
+function sampleGraph(): Graph {
+  const model = new VouchModel();
+  const vouch = (from: string, to: string) => model.vouch(address(from), address(to));
+  for (let i = 0; i < 5; i++) vouch(`s${i}`, `s${i + 1}`);
+  vouch("s5", "h0");
+  for (let i = 0; i < 3; i++) vouch(`h${i}`, `h${i + 1}`);
+  vouch("h1", "h0");
+  const sybils = ["x0", "x1", "x2", "x3"];
+  for (const from of sybils) for (const to of sybils) if (from !== to) vouch(from, to);
+  vouch("h3", "x0");
+  for (const to of ["h0", "h1", "h2", "h3"]) vouch("spam", to);
+
+  const nodes = model.addresses().map((a) => model.getNodeInfo(a));
+  return { nodes, edges: edgesFromNodes(nodes), seeds: [0, 1, 2, 3, 4, 5].map((i) => address(`s${i}`)) };
+}
+
+describe("Sybil analytics", function () {
+  it("finds strongly connected components", function () {
+    const graph = sampleGraph();
+    const components = stronglyConnectedComponents(graph).map((c) => c.map(nameOf));
+    expect(components).to.deep.include.members([["h0", "h1"], ["x0", "x1", "x2", "x3"], ["s0"], ["spam"]]);
+    expect(components.flat()).to.have.length(graph.nodes.length);
+  });
+
+  it("reports distributions, reciprocity, the Sybil cluster and bonus-inflated scores", function () {
+    const graph = sampleGraph();
+    const report = analyzeSybilResistance(graph);
+
+    expect(report).to.include({ nodes: 15, edges: 27, seeds: 6, unreachable: 1 });
+    expect(report.components).to.deep.include({ largest: 4, sizes: [4, 2] });
+    // 12 clique edges and h0 ⇄ h1
+    expect(report.reciprocity.reciprocal).to.equal(14);
+    expect(report.seedDistance).to.deep.equal([
+      { hops: 0, count: 6 },
+      { hops: 1, count: 1 },
+      { hops: 2, count: 1 },
+      { hops: 3, count: 1 },
+      { hops: 4, count: 1 },
+      { hops: 5, count: 1 },
+      { hops: 6, count: 3 },
+    ]);
+
+    expect(report.clusters).to.have.length(1);
+    expect(report.clusters[0]).to.deep.include({ internalEdges: 12, density: 1, reciprocity: 1, inEdges: 1, coreInEdges: 0 });
+    expect(report.clusters[0].members).to.have.members(["x0", "x1", "x2", "x3"].map(address));
+
+    const inflated = report.bonusInflated.map((n) => n.address);
+    expect(inflated).to.include.members([address("spam"), address("s0")]);
+    expect(inflated).not.to.include(address("h0"));
+    expect(report.bonusInflated[0]).to.include({ share: 1 });
+  });
+
+  it("buckets ranks exactly up to DEFAULT_RANK and per power of three above it", function () {
+    expect(rankDistribution([1n, 1n, 3n, 6n, 7n, 9n, 10n, 243n])).to.deep.equal([
+      { min: 1n, max: 1n, count: 2 },
+      { min: 3n, max: 3n, count: 1 },
+      { min: 6n, max: 6n, count: 1 },
+      { min: 7n, max: 9n, count: 2 },
+      { min: 10n, max: 27n, count: 1 },
+      { min: 82n, max: 243n, count: 1 },
+    ]);
+  });
+
+  it("reads exports back, rebuilding neighbor lists from frontend edges, and names what a malformed one lacks", function () {
+    const graph = sampleGraph();
+    expect(parseGraph(toPlainJson(graph))).to.deep.equal(graph);
+
+    const frontend = {
+      nodes: graph.nodes.map((n) => ({ id: n.address, rank: n.rank.toString(), score: n.score.toString() })),
+      edges: graph.edges.map((e) => ({ source: e.from, target: e.to })),
+      seeds: graph.seeds,
+    };
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-graph-"));
+    try {
+      const file = path.join(dir, "graph.json");
+      fs.writeFileSync(file, JSON.stringify(frontend));
+      expect(analyzeSybilResistance(readGraph(file))).to.deep.equal(analyzeSybilResistance(graph));
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    expect(() => parseGraph("{}")).to.throw("not a graph export");
+    const node = { address: graph.nodes[0].address, rank: "1", score: "0" };
+    expect(() => parseGraph(JSON.stringify({ nodes: [node, { id: node.address }], edges: [] }))).to.throw(
+      "not a graph export: node 1 has no rank"
+    );
+    expect(() => parseGraph(JSON.stringify({ nodes: [{ ...node, score: "abc" }], edges: [] }))).to.throw(
+      "not a graph export: score of node 0 is not an integer"
+    );
+    expect(() => parseGraph(JSON.stringify({ nodes: [node], edges: [{ from: node.address }] }))).to.throw(
+      "not a graph export: edge 0 has no to or target"
+    );
+  });
+});
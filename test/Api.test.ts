@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type * as http from "http";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { GraphApi, VouchClient, apiUrl } from "../sdk/node";
+import { deployVouch, memoryIndexer } from "./helpers/deploy";
+
+describe("GraphApi", function () {
+  let server: http.Server | undefined;
+
+  afterEach(async function () {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  // Three of the five seed vouches: a ⇄ b and a → c
+  async function bootstrapFixture() {
+    const signers = await ethers.getSigners();
+    const deployment = await deployVouch();
+    const { vouch } = deployment;
+    const [a, b, c, d, e] = signers.slice(1, 6);
+    await vouch.connect(a).vouch(b.address);
+    await vouch.connect(b).vouch(a.address);
+    await vouch.connect(a).vouch(c.address);
+    return { ...deployment, signers: [a, b, c, d, e], actors: [a, b, c, d, e].map((s) => s.address.toLowerCase()) };
+  }
+
+  // Bootstrap finished by c → a and b → c; d joins through c, e through d, and a's vouch for d is withdrawn
+  async function networkFixture() {
+    const fixture = await bootstrapFixture();
+    const { vouch, signers: [a, b, c, d, e] } = fixture;
+    await vouch.connect(c).vouch(a.address);
+    await vouch.connect(b).vouch(c.address);
+    await vouch.connect(c).vouch(d.address);
+    await vouch.connect(d).vouch(e.address);
+    await vouch.connect(a).vouch(d.address);
+    await vouch.connect(a).unvouch(d.address);
+    return fixture;
+  }
+
+  async function serve(fixture: typeof networkFixture = networkFixture) {
+    const deployment = await loadFixture(fixture);
+    const indexer = memoryIndexer(deployment);
+    const constants = await VouchClient.connect(deployment.address, ethers.provider).getConstants();
+    server = await new GraphApi(indexer, { constants, syncIntervalMs: 0 }).listen(0);
+    const base = apiUrl(server);
+    const get = async (route: string) => {
+      const response = await fetch(base + route);
+      return { status: response.status, body: (await response.json()) as any };
+    };
+    return { ...deployment, get };
+  }
+
+  it("reports network metadata and the bootstrap status", async function () {
+    const { vouch, depositManager, signers: [a, b, c], get } = await serve(bootstrapFixture);
+
+    const before = (await get("/network")).body;
+    expect(before).to.include({
+      contractAddress: (await vouch.getAddress()).toLowerCase(),
+      chainId: "31337",
+      depositManager: (await depositManager.getAddress()).toLowerCase(),
+      minimumStake: "0",
+      nodes: 3,
+      edges: 3,
+    });
+    expect(before.bootstrap).to.deep.equal({ seedVouchCount: 3, maxSeedVouches: 5, complete: false, remaining: 2 });
+
+    await vouch.connect(c).vouch(a.address);
+    await vouch.connect(b).vouch(c.address);
+    await vouch.setMinimumStake(7n);
+    const after = (await get("/network")).body;
+    expect(after).to.include({ minimumStake: "7", edges: 5 });
+    expect(after.bootstrap).to.deep.equal({ seedVouchCount: Number(await vouch.seedVouchCount()), maxSeedVouches: 5, complete: true, remaining: 0 });
+  });
+
+  it("serves nodes and paginated neighbors as the contract stores them", async function () {
+    const { vouch, actors, get } = await serve();
+    const [a, b, c, d] = actors;
+
+    const { status, body: node } = await get(`/nodes/${ethers.getAddress(d)}`);
+    const info = await vouch.getNodeInfo(d);
+    expect(status).to.equal(200);
+    expect(node).to.include({ address: d, rank: info.rank.toString(), score: info.score.toString(), isSeed: false });
+    expect(node.inNeighbors).to.deep.equal([c]);
+
+    const outOfA = (await get(`/nodes/${a}/out-neighbors?limit=1&offset=1`)).body;
+    expect(outOfA).to.deep.include({ total: 2, offset: 1, limit: 1 });
+    expect(outOfA.items.map((n: any) => n.address)).to.deep.equal([c]);
+    expect((await get(`/nodes/${c}/in-neighbors`)).body.items.map((n: any) => n.address)).to.deep.equal([a, b]);
+  });
+
+  it("walks k-hop neighborhoods and orders leaderboards", async function () {
+    const { actors, get } = await serve();
+    const [a, b, c, d, e] = actors;
+
+    const out = (await get(`/nodes/${a}/neighborhood?depth=2&direction=out`)).body;
+    expect(out.layers).to.deep.equal([[a], [b, c], [d]]);
+    expect(out.nodes.map((n: any) => n.address)).to.deep.equal([a, b, c, d]);
+    expect((await get(`/nodes/${e}/neighborhood?direction=in&depth=4`)).body.layers).to.deep.equal([[e], [d], [c], [a, b]]);
+
+    const byRank = (await get("/leaderboard?by=rank")).body.items;
+    expect(byRank.slice(0, 3).map((n: any) => n.rank)).to.deep.equal(["1", "1", "1"]);
+    expect(byRank.slice(3).map((n: any) => n.address)).to.deep.equal(BigInt(byRank[3].rank) < BigInt(byRank[4].rank) ? [d, e] : [e, d]);
+    const byScore = (await get("/leaderboard?limit=2&offset=1")).body;
+    expect(byScore).to.deep.include({ total: 5, offset: 1, limit: 2 });
+    const scores = (await get("/leaderboard")).body.items.map((n: any) => BigInt(n.score));
+    expect(scores).to.deep.equal([...scores].sort((x, y) => (x > y ? -1 : x < y ? 1 : 0)));
+  });
+
+  it("lists an address's events with block timestamps and picks up new blocks", async function () {
+    const { vouch, signers, actors, get } = await serve();
+    const [a, b, , d, e] = actors;
+
+    const history = (await get(`/nodes/${d}/events`)).body;
+    expect(history.items.map((ev: any) => ev.name)).to.include.members(["NodeActivated", "VouchCreated", "VouchRemoved"]);
+    for (const event of history.items) {
+      expect([event.from, event.to, event.node]).to.include(d);
+      expect(event.timestamp).to.equal((await ethers.provider.getBlock(event.blockNumber))!.timestamp);
+    }
+    const firstPage = (await get(`/nodes/${a}/events?limit=1`)).body;
+    expect(firstPage).to.deep.include({ total: (await get(`/nodes/${a}/events`)).body.total, limit: 1 });
+    expect(firstPage.items[0]).to.include({ name: "NodeActivated", node: a });
+
+    await vouch.connect(signers[4]).vouch(b);
+    expect((await get(`/nodes/${e}`)).body.outNeighbors).to.deep.equal([b]);
+  });
+
+  it("answers bad requests with JSON errors", async function () {
+    const { get } = await serve();
+    const stranger = ethers.Wallet.createRandom().address;
+
+    expect(await get(`/nodes/${stranger}`)).to.deep.include({ status: 404 });
+    expect((await get("/nodes/0x12")).status).to.equal(404);
+    expect((await get("/leaderboard?by=age")).body.error).to.deep.equal({ status: 400, message: "by must be one of score, rank (got age)" });
+    expect((await get(`/nodes/${stranger}/neighborhood?depth=9`)).status).to.equal(400);
+    expect((await fetch(apiUrl(server!) + "/network", { method: "POST" })).status).to.equal(405);
+    expect((await get("/leaderboard?limit=0")).status).to.equal(400);
+    expect((await get("")).body.endpoints).to.include("GET /api/v1/network");
+  });
+});
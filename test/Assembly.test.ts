@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { VouchClient, assembleGraph, eventsNamed, liveEdges } from "../sdk";
+import { deployVouch, memoryIndexer, send } from "./helpers/deploy";
+
+describe("graph assembly", function () {
+  // a → b, b → c, b unvouches c and vouches again, a → c
+  async function assemblyFixture() {
+    const [owner, a, b, c] = await ethers.getSigners();
+    const deployment = await deployVouch();
+    const { vouch } = deployment;
+
+    const blocks = [
+      await send(vouch.connect(a).vouch(b.address)),
+      await send(vouch.connect(b).vouch(c.address)),
+      await send(vouch.connect(b).unvouch(c.address)),
+      await send(vouch.connect(b).vouch(c.address)),
+      await send(vouch.connect(a).vouch(c.address)),
+    ].map((receipt) => receipt.blockNumber);
+
+    const indexer = memoryIndexer(deployment);
+    await indexer.sync();
+    const client = VouchClient.connect(deployment.address, owner);
+    const source = {
+      created: eventsNamed(indexer.events, "VouchCreated"),
+      removed: eventsNamed(indexer.events, "VouchRemoved"),
+      seeds: indexer.state.seeds,
+    };
+    const [addrA, addrB, addrC] = [a, b, c].map((s) => s.address.toLowerCase());
+    return { client, source, blocks, addrA, addrB, addrC };
+  }
+
+  it("labels live edges with their creation block and earlier removals", async function () {
+    const { client, source, blocks, addrA, addrB, addrC } = await loadFixture(assemblyFixture);
+    const graph = await assembleGraph(client, source);
+
+    expect(graph.edges.map((e) => e.id)).to.deep.equal([`${addrA}-${addrB}`, `${addrB}-${addrC}`, `${addrA}-${addrC}`]);
+    expect(graph.edges[1]).to.deep.include({ createdAtBlock: blocks[3], priorRemovals: [blocks[2]] });
+    expect(graph.edges[0].priorRemovals).to.deep.equal([]);
+    expect(graph.removals).to.equal(1);
+    expect(graph.mismatches).to.deep.equal([]);
+    expect(graph.nodes.map((n) => n.address)).to.have.members([addrA, addrB, addrC]);
+    expect(liveEdges(source.created, source.removed)).to.deep.equal(graph.edges);
+  });
+
+  it("takes the live edge set from hasEdge when asked", async function () {
+    const { client, source } = await loadFixture(assemblyFixture);
+    const fromEvents = await assembleGraph(client, source);
+    const fromContract = await assembleGraph(client, source, { edges: "hasEdge" });
+
+    expect(fromContract.edges).to.deep.equal(fromEvents.edges);
+    expect(fromContract.mismatches).to.deep.equal([]);
+  });
+
+  it("reports edges on which the events and getOutNeighbors disagree", async function () {
+    const { client, source, blocks, addrB, addrC } = await loadFixture(assemblyFixture);
+    // without the re-vouch, the replay ends with b → c removed
+    const created = source.created.filter((e) => e.blockNumber !== blocks[3]);
+    const graph = await assembleGraph(client, { ...source, created });
+
+    expect(graph.edges.map((e) => e.id)).to.not.include(`${addrB}-${addrC}`);
+    expect(graph.mismatches).to.deep.equal([{ from: addrB, to: addrC, inEdgeSet: false, inOutNeighbors: true }]);
+  });
+});
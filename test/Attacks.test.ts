@@ -0,0 +1,61 @@
+import { expect } from "chai";
+import {
+  AttackStrategy,
+  computeFixpoint,
+  defaultAttacks,
+  edgesFromNodes,
+  honestNetwork,
+  networkFromGraph,
+  simulateAttacks,
+} from "../sdk";
+
+describe("attack simulations", function () {
+  const network = () => honestNetwork({ size: 40, degree: 2, seed: 7 });
+
+  it("builds a reproducible honest network whose ranks are at their fixpoint", function () {
+    const { model, honest, seeds } = network();
+    expect(honest).to.have.length(40);
+    expect(seeds.map((a) => model.getRank(a))).to.deep.equal([1n, 1n, 1n, 1n, 1n, 1n]);
+    expect(network().honest.map((a) => model.getRank(a))).to.deep.equal(honest.map((a) => model.getRank(a)));
+
+    const nodes = honest.map((a) => model.getNodeInfo(a));
+    const { ranks } = computeFixpoint({ nodes, edges: [], seeds });
+    expect(nodes.every((n) => ranks.get(n.address) === n.rank)).to.equal(true);
+    expect(() => honestNetwork({ size: 3 })).to.throw("needs at least 6 nodes");
+  });
+
+  it("compares the ranks each strategy reaches with its cost", function () {
+    const report = simulateAttacks(network(), defaultAttacks(4), { minimumStake: 10n });
+    const [ring, seed, randomBought, bestBought, churn] = report.results;
+
+    // Sybils on their own never get a rank that weighs anything
+    expect(ring.best.rank > 6n).to.equal(true);
+    expect(ring.identities.every((i) => i.fixpointRank === null)).to.equal(true);
+    expect(ring.cost).to.deep.include({ identities: 4, attackerEdges: 12, honestVouches: 0, stake: 40n });
+
+    // a stolen seed puts every Sybil one hop from rank 1
+    expect(seed.identities.filter((i) => i.name.startsWith("sybil")).map((i) => i.rank)).to.deep.equal([3n, 3n, 3n, 3n]);
+    expect(seed.cost).to.deep.include({ identities: 5, attackerEdges: 8, honestVouches: 0 });
+
+    // three vouches from seeds are as good as being a seed
+    expect(bestBought.identities[0]).to.include({ name: "entry", rank: 1n });
+    expect(bestBought.atHonestMedian).to.equal(5);
+    expect(randomBought.best.rank > bestBought.best.rank).to.equal(true);
+
+    // rented vouches leave the Sybils at ranks their fixpoint no longer supports
+    expect(churn.identities[0]).to.include({ name: "entry", rank: 6n });
+    expect(churn.stale).to.equal(4);
+    expect(churn.identities.slice(1).every((i) => i.rank === 3n && i.fixpointRank! > 3n)).to.equal(true);
+    expect(churn.cost).to.deep.include({ honestVouches: 3, transactions: 3 + 4 + 4 + 3 });
+  });
+
+  it("attacks a graph snapshot the same way as the network it came from", function () {
+    const honest = network();
+    const nodes = honest.honest.map((a) => honest.model.getNodeInfo(a));
+    const snapshot = networkFromGraph({ nodes, edges: edgesFromNodes(nodes), seeds: honest.seeds });
+    const strategies: AttackStrategy[] = [{ kind: "boughtVouches", vouches: 2, sybils: 3, topology: "clique" }];
+
+    expect(simulateAttacks(snapshot, strategies)).to.deep.equal(simulateAttacks(honest, strategies));
+    expect(() => simulateAttacks(honest, [{ kind: "sybilRing", sybils: 0 }])).to.throw("needs at least one Sybil");
+  });
+});
@@ -0,0 +1,53 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DeploymentRecord, readDeployment, readDeployments, writeDeployment } from "../sdk/node";
+
+describe("Deployment registry", function () {
+  let dir: string;
+
+  const record = (overrides: Partial<DeploymentRecord> = {}): DeploymentRecord => ({
+    contract: "VouchMinimal",
+    address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    network: "sepolia",
+    chainId: "11155111",
+    constructorArgs: ["0x90ffcc7F168DceDBEF1Cb6c6eB00cA73F922956F", "0"],
+    deployer: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266",
+    blockNumber: 123,
+    txHash: "0x" + "ab".repeat(32),
+    bytecodeHash: "0x" + "cd".repeat(32),
+    deployedAt: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  });
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vouch-deployments-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns null for a network without deployments", function () {
+    expect(readDeployment(dir, "sepolia")).to.equal(null);
+  });
+
+  it("writes one file per network and replaces the previous deployment", function () {
+    writeDeployment(dir, record());
+    writeDeployment(dir, record({ network: "base", chainId: "8453", blockNumber: 7 }));
+    const filePath = writeDeployment(dir, record({ blockNumber: 456 }));
+
+    expect(filePath).to.equal(path.join(dir, "sepolia.json"));
+    expect(readDeployment(dir, "sepolia")!.blockNumber).to.equal(456);
+    expect(readDeployment(dir, "base")!.chainId).to.equal("8453");
+  });
+
+  it("keeps other contracts recorded for the same network", function () {
+    writeDeployment(dir, record({ contract: "MockDepositManager", address: "0x" + "11".repeat(20) }));
+    writeDeployment(dir, record());
+
+    expect(Object.keys(readDeployments(dir, "sepolia"))).to.deep.equal(["MockDepositManager", "VouchMinimal"]);
+    expect(readDeployment(dir, "sepolia", "MockDepositManager")!.address).to.equal("0x" + "11".repeat(20));
+  });
+});
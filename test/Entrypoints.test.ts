@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import { builtinModules } from "module";
+import * as path from "path";
+
+// Runtime imports (type-only ones are erased) reachable from `entry`, by importing file
+function runtimeImports(entry: string): Map<string, string[]> {
+  const seen = new Map<string, string[]>();
+  const visit = (file: string) => {
+    if (seen.has(file)) return;
+    const specifiers: string[] = [];
+    seen.set(file, specifiers);
+    const source = fs.readFileSync(file, "utf8");
+    for (const [, , statement, specifier] of source.matchAll(/^(import|export)\b([^;]*?)\bfrom\s+"([^"]+)"/gms)) {
+      if (/^\s*type\b/.test(statement)) continue;
+      if (!specifier.startsWith(".")) {
+        specifiers.push(specifier);
+        continue;
+      }
+      const target = path.resolve(path.dirname(file), specifier);
+      visit(fs.existsSync(target + ".ts") ? target + ".ts" : path.join(target, "index.ts"));
+    }
+  };
+  visit(entry);
+  return seen;
+}
+
+describe("sdk entry points", function () {
+  const SDK = path.join(__dirname, "..", "sdk");
+  const builtins = (entry: string) =>
+    [...runtimeImports(path.join(SDK, entry))].flatMap(([file, specifiers]) =>
+      specifiers
+        .filter((s) => s.startsWith("node:") || builtinModules.includes(s.split("/")[0]))
+        .map((s) => `${path.relative(SDK, file)}: ${s}`)
+    );
+
+  it("keeps the main barrel free of Node built-ins, so it bundles for a browser", function () {
+    expect(builtins("index.ts")).to.deep.equal([]);
+  });
+
+  it("puts the file and server helpers behind sdk/node", function () {
+    expect(builtins("node.ts")).to.include.members(["files.ts: fs", "api.ts: http"]);
+  });
+});
@@ -0,0 +1,146 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  AssembledGraph,
+  GraphEvents,
+  Node,
+  VouchEventRecord,
+  graphDocument,
+  graphExportFormats,
+  graphExporter,
+  liveEdges,
+  parseGraph,
+  writeGraphExport,
+} from "../sdk/node";
+
+const [A, B, C] = ["0xaa", "0xbb", "0xcc"].map((p) => p.padEnd(42, "0"));
+
+describe("graph exporters", function () {
+  // a → b at block 10, b → c at 11, removed at 12 and vouched again at 14, a → c at 13 and removed at 15
+  function fixture(rankOfC = 18n) {
+    const event = (from: string, to: string, blockNumber: number): VouchEventRecord => ({
+      from,
+      to,
+      toRank: 1n,
+      fromScore: 1n,
+      toScore: 16n,
+      blockNumber,
+      logIndex: 0,
+      txHash: `0x${blockNumber.toString(16).padStart(64, "0")}`,
+    });
+    const events: GraphEvents = {
+      created: [event(A, B, 10), event(B, C, 11), event(A, C, 13), event(B, C, 14)],
+      removed: [event(B, C, 12), event(A, C, 15)],
+      seeds: [A, B],
+    };
+    const node = (address: string, rank: bigint, inNeighbors: string[], outNeighbors: string[], isSeed: boolean): Node => ({
+      address,
+      rank,
+      score: 16n,
+      inCount: inNeighbors.length,
+      outCount: outNeighbors.length,
+      inNeighbors,
+      outNeighbors,
+      isSeed,
+    });
+    const graph: AssembledGraph = {
+      nodes: [node(A, 1n, [], [B], true), node(B, 1n, [A], [C], true), node(C, rankOfC, [B], [], false)],
+      edges: liveEdges(events.created, events.removed),
+      seeds: events.seeds as string[],
+      removals: 2,
+      mismatches: [],
+    };
+    const document = graphDocument(graph, events, {
+      contractAddress: "0x" + "11".repeat(20),
+      chainId: "31337",
+      timestampOf: (block) => 1_700_000_000 + block * 12,
+      exportedAt: new Date("2025-06-01T00:00:00Z"),
+    });
+    return { graph, events, document };
+  }
+
+  it("builds a versioned document with edge intervals and the timeline", function () {
+    const { graph, document } = fixture();
+    const schema = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "schemas", "graph-export.v1.schema.json"), "utf8"));
+
+    expect(document).to.include({ format: schema.properties.format.const, version: schema.properties.version.const });
+    expect(Object.keys(document)).to.have.members(schema.required);
+    expect(Object.keys(document.metadata)).to.have.members(schema.properties.metadata.required);
+    expect(Object.keys(document.nodes[0])).to.have.members(schema.properties.nodes.items.required);
+    expect(Object.keys(document.edges[0])).to.have.members(schema.$defs.edge.required);
+    expect(document.metadata).to.include({ nodeCount: 3, edgeCount: 2, removedEdgeCount: 1, seedCount: 2 });
+
+    const bc = document.edges.find((e) => e.id === `${B}-${C}`)!;
+    expect(bc).to.deep.include({ createdAtBlock: 14, createdAt: 1_700_000_168, priorRemovals: [12] });
+    expect(bc.intervals.map((i) => [i.startBlock, i.endBlock])).to.deep.equal([[11, 12], [14, null]]);
+    expect(document.removedEdges.map((e) => [e.id, e.intervals.length, e.intervals[0].endBlock])).to.deep.equal([[`${A}-${C}`, 1, 15]]);
+    expect(document.timeline.map((e) => `${e.action}@${e.blockNumber}`)).to.deep.equal([
+      "vouch@10", "vouch@11", "unvouch@12", "vouch@13", "vouch@14", "unvouch@15",
+    ]);
+
+    // the document reads back as the graph it was built from
+    expect(parseGraph(JSON.stringify(document)).nodes).to.deep.equal(graph.nodes);
+  });
+
+  it("writes each format with typed node attributes", function () {
+    const { document } = fixture();
+    const write = (format: string) => graphExporter(format).write(document);
+    expect(graphExportFormats()).to.include.members(["json", "graphml", "gexf", "cytoscape", "dot", "csv", "html"]);
+
+    const graphml = write("graphml")[0].content;
+    expect(graphml).to.contain(`<key id="rank" for="node" attr.name="rank" attr.type="long"/>`);
+    expect(graphml).to.contain(`<key id="isSeed" for="node" attr.name="isSeed" attr.type="boolean"/>`);
+    expect(graphml.match(/<edge /g)).to.have.length(2);
+
+    const gexf = write("gexf")[0].content;
+    expect(gexf).to.contain(`mode="dynamic" timeformat="dateTime"`);
+    expect(gexf).to.contain(`<spell start="${new Date((1_700_000_000 + 11 * 12) * 1000).toISOString()}" end=`);
+    expect(gexf.match(/<edge /g)).to.have.length(3);
+
+    const cy = JSON.parse(write("cytoscape")[0].content);
+    expect(cy.elements.nodes[2].data).to.include({ id: C, rank: 18, isSeed: false });
+    expect(cy.elements.edges).to.have.length(2);
+
+    expect(write("dot")[0].content).to.contain(`"${A}" -> "${B}" [createdAtBlock=10, priorRemovals=0];`);
+
+    const [nodes, edges] = write("csv");
+    expect(nodes.content.split("\n")[0]).to.equal("id,label,rank,score,inCount,outCount,isSeed");
+    expect(edges.content).to.contain(`${B}-${C},${B},${C},14,1700000168,12\n`);
+
+    expect(() => graphExporter("xlsx")).to.throw(`Unknown export format "xlsx"`);
+  });
+
+  it("falls back to string attributes for ranks beyond 64 bits", function () {
+    const { document } = fixture(3n ** 45n);
+    expect(graphExporter("graphml").write(document)[0].content).to.contain(`attr.name="rank" attr.type="string"`);
+    expect(JSON.parse(graphExporter("cytoscape").write(document)[0].content).elements.nodes[2].data.rank).to.equal((3n ** 45n).toString());
+  });
+
+  it("writes a self-contained HTML explorer with the document embedded", function () {
+    const { document } = fixture();
+    const html = graphExporter("html").write({ ...document, metadata: { ...document.metadata, network: "</script><script>alert(1)" } })[0].content;
+
+    // nothing is loaded from elsewhere
+    expect(html).to.not.match(/<(script|link|img)[^>]+(src|href)=/);
+    expect(html.match(/<\/script>/g)).to.have.length(2);
+    const embedded = /<script type="application\/json" id="graph-data">(.*?)<\/script>/s.exec(html)![1];
+    expect(JSON.parse(embedded).nodes).to.deep.equal(document.nodes);
+    for (const id of ["search", "rank-min", "score-max", "time", "panel", "canvas"]) expect(html).to.contain(`id="${id}"`);
+  });
+
+  it("names the files of multi-file formats after --out", function () {
+    const { document } = fixture();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-exporters-"));
+    try {
+      expect(writeGraphExport(document, "csv", path.join(dir, "graph.csv"))).to.deep.equal([
+        path.join(dir, "graph.nodes.csv"),
+        path.join(dir, "graph.edges.csv"),
+      ]);
+      expect(writeGraphExport(document, "gexf", path.join(dir, "out", "g.xml"))).to.deep.equal([path.join(dir, "out", "g.xml")]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
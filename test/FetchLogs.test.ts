@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { Log, Provider } from "ethers";
+import { VouchClient, fetchLogs, isRangeTooLargeError } from "../sdk";
+import { deployVouch } from "./helpers/deploy";
+
+// Provider stand-in that serves one log per block and behaves like a strict public RPC
+class ThrottledProvider {
+  calls: { fromBlock: number; toBlock: number }[] = [];
+  inFlight = 0;
+  maxInFlight = 0;
+  private failedOnce = new Set<string>();
+
+  constructor(private head: number, private maxRange: number, private flakyEvery = 0) {}
+
+  async getBlockNumber(): Promise<number> {
+    return this.head;
+  }
+
+  async getLogs(filter: { fromBlock: number; toBlock: number }): Promise<Log[]> {
+    const { fromBlock, toBlock } = filter;
+    this.calls.push({ fromBlock, toBlock });
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      if (toBlock - fromBlock + 1 > this.maxRange) {
+        throw new Error(`could not coalesce error (error={ "code": -32600, "message": "exceed maximum block range: ${this.maxRange}" })`);
+      }
+      const key = `${fromBlock}-${toBlock}`;
+      if (this.flakyEvery && fromBlock % this.flakyEvery === 0 && !this.failedOnce.has(key)) {
+        this.failedOnce.add(key);
+        throw new Error("429 Too Many Requests");
+      }
+      const logs: Log[] = [];
+      for (let b = fromBlock; b <= toBlock; b++) logs.push({ blockNumber: b, index: 0 } as Log);
+      return logs;
+    } finally {
+      this.inFlight--;
+    }
+  }
+}
+
+describe("fetchLogs", function () {
+  it("splits ranges the node rejects and shrinks later chunks", async function () {
+    const provider = new ThrottledProvider(999, 100);
+    const logs = await fetchLogs(provider as unknown as Provider, {}, { chunkSize: 400, concurrency: 1 });
+
+    expect(logs.map((l) => l.blockNumber)).to.deep.equal(Array.from({ length: 1000 }, (_, i) => i));
+    // only the first chunk (0-399) and its two halves are rejected; later chunks start at 100
+    const rejected = provider.calls.filter((c) => c.toBlock - c.fromBlock + 1 > 100);
+    expect(rejected.length).to.equal(3);
+  });
+
+  it("starts at fromBlock, retries transient errors and respects the concurrency limit", async function () {
+    const provider = new ThrottledProvider(500, 1000, 30);
+    const progress: number[] = [];
+    const logs = await fetchLogs(provider as unknown as Provider, {}, {
+      fromBlock: 120,
+      chunkSize: 10,
+      concurrency: 3,
+      retryDelayMs: 1,
+      onProgress: (scanned) => progress.push(scanned),
+    });
+
+    expect(logs.length).to.equal(381);
+    expect(logs[0].blockNumber).to.equal(120);
+    expect(logs.map((l) => l.blockNumber)).to.deep.equal([...logs.map((l) => l.blockNumber)].sort((a, b) => a - b));
+    expect(provider.maxInFlight).to.equal(3);
+    expect(provider.calls.every((c) => c.fromBlock >= 120)).to.equal(true);
+    expect(progress[progress.length - 1]).to.equal(381);
+  });
+
+  it("gives up after maxRetries", async function () {
+    const provider = {
+      getBlockNumber: async () => 10,
+      getLogs: async () => {
+        throw new Error("service unavailable");
+      },
+    };
+    await expect(
+      fetchLogs(provider as unknown as Provider, {}, { maxRetries: 2, retryDelayMs: 1 })
+    ).to.be.rejectedWith("service unavailable");
+  });
+
+  it("recognizes common range-limit messages", function () {
+    expect(isRangeTooLargeError(new Error("Log response size exceeded. You can make eth_getLogs requests with up to a 2K block range"))).to.equal(true);
+    expect(isRangeTooLargeError(new Error("query returned more than 10000 results"))).to.equal(true);
+    expect(isRangeTooLargeError({ info: { error: { message: "query exceeds max block range 100000" } } })).to.equal(true);
+    expect(isRangeTooLargeError(new Error("429 Too Many Requests"))).to.equal(false);
+  });
+
+  it("returns the same events as a single query on a live chain", async function () {
+    const [owner, ...actors] = await ethers.getSigners();
+    const { vouch, startBlock } = await deployVouch();
+    for (let i = 0; i < 6; i++) await vouch.connect(actors[i]).vouch(actors[i + 1].address);
+
+    const client = VouchClient.connect(await vouch.getAddress(), owner, { startBlock, logs: { chunkSize: 2 } });
+    const chunked = await client.queryVouchCreated();
+    const single = await vouch.queryFilter(vouch.filters.VouchCreated(), startBlock);
+    expect(chunked.map((e) => e.txHash)).to.deep.equal(single.map((e) => e.transactionHash));
+    expect(chunked.map((e) => e.to)).to.deep.equal(actors.slice(1, 7).map((a) => a.address.toLowerCase()));
+  });
+});
@@ -0,0 +1,79 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { GraphHistory, fetchBlockTimestamps, parseDuration } from "../sdk";
+import { deployVouch, memoryIndexer, send } from "./helpers/deploy";
+
+const HOUR = 3600;
+
+describe("graph history", function () {
+  // a → b, then a day later b → c, then b unvouches c another day later
+  async function historyFixture() {
+    const [owner, a, b, c] = await ethers.getSigners();
+    const deployment = await deployVouch();
+    const { vouch } = deployment;
+
+    const receipts = [await send(vouch.connect(a).vouch(b.address))];
+    await time.increase(24 * HOUR);
+    receipts.push(await send(vouch.connect(b).vouch(c.address)));
+    await time.increase(24 * HOUR);
+    receipts.push(await send(vouch.connect(b).unvouch(c.address)));
+    const mined = await Promise.all(
+      receipts.map(async ({ blockNumber }) => ({ block: blockNumber, timestamp: (await ethers.provider.getBlock(blockNumber))!.timestamp }))
+    );
+
+    const indexer = memoryIndexer(deployment);
+    await indexer.sync();
+    const history = await GraphHistory.load(ethers.provider, indexer.events);
+    const [addrA, addrB, addrC] = [a, b, c].map((s) => s.address.toLowerCase());
+    return { owner, vouch, indexer, history, mined, addrA, addrB, addrC };
+  }
+
+  it("lists created and removed vouches with their block timestamps", async function () {
+    const { history, mined, addrB, addrC } = await loadFixture(historyFixture);
+    const timeline = history.timeline();
+
+    expect(timeline.map((e) => e.action)).to.deep.equal(["vouch", "vouch", "unvouch"]);
+    expect(timeline.map((e) => e.timestamp)).to.deep.equal(mined.map((m) => m.timestamp));
+    expect(timeline[2]).to.include({ from: addrB, to: addrC, blockNumber: mined[2].block });
+    expect(timeline[0].timestamp).to.be.greaterThan(1_600_000_000);
+  });
+
+  it("answers what the graph and a node looked like at a block or a date", async function () {
+    const { history, indexer, mined, addrA, addrB, addrC } = await loadFixture(historyFixture);
+
+    // only the deployment's events so far
+    expect(history.graphAt({ block: mined[0].block - 1 }).graph.nodes).to.deep.equal([]);
+    expect(history.graphAt({ block: mined[1].block }).graph.edges.map((e) => e.id)).to.deep.equal([`${addrA}-${addrB}`, `${addrB}-${addrC}`]);
+    expect(history.graphAt({ block: mined[2].block }).graph).to.deep.equal(indexer.toGraph());
+
+    // between the second and third transaction
+    const date = new Date((mined[1].timestamp + HOUR) * 1000);
+    const then = history.nodeAt(addrC, { date });
+    expect(then).to.include({ blockNumber: mined[1].block, timestamp: mined[1].timestamp });
+    expect(then.node).to.include({ rank: 1n, inCount: 1, isSeed: true });
+    expect(then.inNeighbors.map((n) => n.address)).to.deep.equal([addrB]);
+    expect(history.nodeAt(addrC, { date: new Date(mined[0].timestamp * 1000) }).node).to.equal(null);
+    expect(history.nodeAt(addrC, { block: mined[2].block }).inNeighbors).to.deep.equal([]);
+  });
+
+  it("produces snapshots at intervals for growth animations", async function () {
+    const { history, mined } = await loadFixture(historyFixture);
+    const frames = history.frames(parseDuration("12h"), { from: mined[0].timestamp });
+
+    expect(frames[0]).to.include({ timestamp: mined[0].timestamp, blockNumber: mined[0].block });
+    expect(frames[frames.length - 1]).to.include({ timestamp: mined[2].timestamp, blockNumber: mined[2].block });
+    expect(frames.map((f) => f.graph.edges.length)).to.deep.equal([1, 1, 1, 2, 2, 1]);
+    expect(() => history.frames(0)).to.throw("must be positive");
+    expect(() => parseDuration("soon")).to.throw("Not a duration");
+  });
+
+  it("fetches each block's timestamp once and refuses events without one", async function () {
+    const { indexer } = await loadFixture(historyFixture);
+    const cache = await fetchBlockTimestamps(ethers.provider, indexer.events);
+    const blocks = new Set(indexer.events.map((e) => e.blockHash));
+    expect(cache.size).to.equal(blocks.size);
+
+    expect(() => new GraphHistory(indexer.events, new Map())).to.throw("No timestamp for block");
+  });
+});
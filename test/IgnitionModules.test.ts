@@ -0,0 +1,58 @@
+import { expect } from "chai";
+import { ethers, ignition } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import MockDepositManagerModule from "../ignition/modules/MockDepositManager";
+import SetMinimumStakeModule from "../ignition/modules/SetMinimumStake";
+import VouchMinimalModule from "../ignition/modules/VouchMinimal";
+
+const PARAMETERS_DIR = path.join(__dirname, "..", "ignition", "parameters");
+
+describe("Ignition modules", function () {
+  async function localDeployFixture() {
+    const { depositManager } = await ignition.deploy(MockDepositManagerModule);
+    const parameters = {
+      VouchMinimalModule: { depositManager: await depositManager.getAddress(), minimumStake: 7n },
+      SetMinimumStakeModule: { minimumStake: 42n },
+    };
+    const { vouchMinimal } = await ignition.deploy(VouchMinimalModule, { parameters });
+    return { depositManager, vouchMinimal, parameters };
+  }
+
+  it("deploys VouchMinimal against the given DepositManager", async function () {
+    const { depositManager, vouchMinimal } = await loadFixture(localDeployFixture);
+    const vouch = await ethers.getContractAt("VouchMinimal", await vouchMinimal.getAddress());
+
+    expect(await vouch.depositManager()).to.equal(await depositManager.getAddress());
+    expect(await vouch.minimumStake()).to.equal(7n);
+    expect(await vouch.owner()).to.equal((await ethers.getSigners())[0].address);
+  });
+
+  it("applies setMinimumStake as a follow-up step", async function () {
+    const { parameters } = await loadFixture(localDeployFixture);
+    // the in-process network keeps no journal, so this deploys its own VouchMinimal before the call
+    const { vouchMinimal } = await ignition.deploy(SetMinimumStakeModule, { parameters });
+
+    const vouch = await ethers.getContractAt("VouchMinimal", await vouchMinimal.getAddress());
+    expect(await vouch.minimumStake()).to.equal(42n);
+  });
+
+  it("ships a valid parameter file for every live network", function () {
+    for (const network of ["sepolia", "arbitrumSepolia", "baseSepolia", "mainnet", "arbitrum", "base"]) {
+      const parameters = JSON.parse(fs.readFileSync(path.join(PARAMETERS_DIR, `${network}.json`), "utf8"));
+      const { depositManager, minimumStake } = parameters.VouchMinimalModule;
+      if (depositManager !== undefined) expect(ethers.isAddress(depositManager), `${network} depositManager`).to.equal(true);
+      expect(minimumStake, `${network} minimumStake`).to.match(/^\d+n$/);
+    }
+  });
+
+  it("keeps the Sepolia DepositManager out of other networks' files", function () {
+    const sepolia = JSON.parse(fs.readFileSync(path.join(PARAMETERS_DIR, "sepolia.json"), "utf8")).VouchMinimalModule.depositManager;
+    expect(ethers.isAddress(sepolia)).to.equal(true);
+    for (const network of ["arbitrumSepolia", "baseSepolia", "mainnet", "arbitrum", "base"]) {
+      const parameters = JSON.parse(fs.readFileSync(path.join(PARAMETERS_DIR, `${network}.json`), "utf8"));
+      expect(parameters.VouchMinimalModule.depositManager, network).to.not.equal(sepolia);
+    }
+  });
+});
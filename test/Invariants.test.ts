@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { VouchClient, VouchModel, checkInvariants, readInvariantSnapshot, separateStale } from "../sdk";
+import { deployVouch } from "./helpers/deploy";
+
+describe("invariant checks", function () {
+  async function deployFixture() {
+    const [owner, ...signers] = await ethers.getSigners();
+    const { vouch } = await deployVouch();
+    const client = VouchClient.connect(await vouch.getAddress(), owner);
+    const model = new VouchModel();
+    const actors = signers.slice(0, 9);
+    const addresses = actors.map((a) => a.address.toLowerCase());
+
+    const send = async (from: number, to: number) => {
+      await vouch.connect(actors[from]).vouch(actors[to].address);
+      model.apply({ action: "vouch", from: addresses[from], to: addresses[to] });
+    };
+    // bootstrap seeds 0..5, then the chain 5 → 6 → 7 → 8
+    for (let i = 0; i < 8; i++) await send(i, i + 1);
+    return { vouch, client, model, actors, addresses, send };
+  }
+
+  it("finds nothing wrong with a freshly built graph", async function () {
+    const { client, addresses } = await loadFixture(deployFixture);
+    const snapshot = await readInvariantSnapshot(client, addresses, { pairs: [[addresses[8], addresses[0]]] });
+
+    expect(snapshot.outdegrees.get(addresses[0])).to.equal(1n);
+    expect(snapshot.edges.get(`${addresses[0]}>${addresses[1]}`)).to.equal(true);
+    expect(snapshot.edges.get(`${addresses[8]}>${addresses[0]}`)).to.equal(false);
+    expect(checkInvariants(snapshot)).to.deep.equal([]);
+
+    // same answers when read call by call
+    const direct = VouchClient.connect(client.address, ethers.provider, { multicall: false });
+    expect(await direct.hasEdges([[addresses[0], addresses[1]], [addresses[1], addresses[0]]])).to.deep.equal([true, false]);
+    expect(await direct.getOutdegrees([addresses[0], addresses[8]])).to.deep.equal([1n, 0n]);
+  });
+
+  it("reports ranks left stale downstream of a change, which the model predicts", async function () {
+    const { client, model, addresses, send } = await loadFixture(deployFixture);
+    // 7 drops from rank 9 to 3, but 8 keeps the rank it got from 7's old rank
+    await send(2, 7);
+
+    const violations = checkInvariants(await readInvariantSnapshot(client, addresses));
+    expect(violations.map(({ kind, node, expected, actual }) => ({ kind, node, expected, actual }))).to.deep.include.members([
+      { kind: "rank", node: addresses[8], expected: "9", actual: "27" },
+    ]);
+    const { stale, violations: rest } = separateStale(violations, model);
+    expect(stale).to.have.length(violations.length);
+    expect(rest).to.deep.equal([]);
+  });
+
+  it("flags arrays, counters and hasEdge that disagree", async function () {
+    const { client, addresses } = await loadFixture(deployFixture);
+    const snapshot = await readInvariantSnapshot(client, addresses);
+    const [a, b, c] = addresses;
+    // storage the contract should never produce
+    snapshot.nodes.get(b)!.inNeighbors = [];
+    snapshot.outdegrees.set(c, 5n);
+    snapshot.edges.set(`${c}>${a}`, true);
+
+    const kinds = checkInvariants(snapshot).map((v) => `${v.kind} ${addresses.indexOf(v.node)}`);
+    expect(kinds).to.include.members(["edge 0", "edge 1", "outdegree 2", "score 2", "edge 2"]);
+  });
+});
@@ -0,0 +1,67 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { MULTICALL3_ADDRESS, Prng, VouchClient, hasMulticall } from "../sdk";
+import { deployVouch } from "./helpers/deploy";
+
+describe("Multicall node snapshots", function () {
+  async function networkFixture() {
+    const [owner, ...actors] = await ethers.getSigners();
+    const { vouch } = await deployVouch();
+    const multicall = await ethers.deployContract("Multicall3");
+
+    const rng = new Prng(5);
+    const members = actors.slice(0, 12);
+    for (let i = 0; i < 40; i++) {
+      const from = rng.pick(members);
+      const to = rng.pick(members);
+      if (from === to || (await vouch.hasEdge(from.address, to.address))) continue;
+      await vouch.connect(from).vouch(to.address);
+    }
+    // include an address that never took part
+    const addresses = [...members.map((m) => m.address), ethers.Wallet.createRandom().address];
+    return { owner, vouch, multicall, addresses };
+  }
+
+  it("reads the same nodes as one getNodeInfo call per address", async function () {
+    const { owner, vouch, multicall, addresses } = await loadFixture(networkFixture);
+    const address = await vouch.getAddress();
+
+    const batched = VouchClient.connect(address, owner, {
+      multicall: { address: await multicall.getAddress(), batchSize: 5 },
+    });
+    const sequential = VouchClient.connect(address, owner, { multicall: false });
+
+    const progress: number[] = [];
+    const seeds = [addresses[0].toLowerCase()];
+    const nodes = await batched.getNodes(addresses, seeds, (processed) => progress.push(processed));
+
+    expect(nodes).to.deep.equal(await sequential.getNodes(addresses, seeds));
+    expect(nodes[0].isSeed).to.equal(true);
+    expect(progress).to.deep.equal([5, 10, 13]);
+  });
+
+  it("falls back to node-by-node reads when the chain has no Multicall3", async function () {
+    const { owner, vouch, addresses } = await loadFixture(networkFixture);
+    expect(await hasMulticall(ethers.provider, MULTICALL3_ADDRESS)).to.equal(false);
+
+    const client = VouchClient.connect(await vouch.getAddress(), owner);
+    const progress: number[] = [];
+    const nodes = await client.getNodes(addresses, [], (processed) => progress.push(processed));
+
+    expect(nodes.map((n) => n.address)).to.deep.equal(addresses.map((a) => a.toLowerCase()));
+    expect(progress.length).to.equal(addresses.length);
+  });
+
+  it("works at the canonical address once installed with hardhat_setCode", async function () {
+    const { owner, vouch, multicall, addresses } = await loadFixture(networkFixture);
+    const code = await ethers.provider.getCode(await multicall.getAddress());
+    await ethers.provider.send("hardhat_setCode", [MULTICALL3_ADDRESS, code]);
+
+    const client = VouchClient.connect(await vouch.getAddress(), owner);
+    const nodes = await client.getNodes(addresses);
+    expect(nodes.map((n) => n.rank)).to.deep.equal(
+      await Promise.all(addresses.map((a) => vouch.getRank(a)))
+    );
+  });
+});
@@ -0,0 +1,217 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, network } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  JournalEntry,
+  MemoryJournal,
+  PlanJournal,
+  VouchClient,
+  VouchOperation,
+  executePlan,
+  formatPlan,
+  parsePlan,
+} from "../sdk";
+import { FileJournal } from "../sdk/node";
+import { deployVouch } from "./helpers/deploy";
+
+// Fails the run after `limit` results have been journaled, like a process killed mid-plan
+class CrashingJournal implements PlanJournal {
+  private results = 0;
+
+  constructor(readonly inner: PlanJournal, readonly limit: number) {}
+
+  load(): Promise<JournalEntry[]> {
+    return this.inner.load();
+  }
+
+  async append(entry: JournalEntry): Promise<void> {
+    if (entry.type === "result" && ++this.results > this.limit) throw new Error("crash");
+    await this.inner.append(entry);
+  }
+}
+
+describe("executePlan", function () {
+  async function deployFixture() {
+    const [owner, ...actors] = await ethers.getSigners();
+    const { depositManager, vouch } = await deployVouch(1);
+    const members = actors.slice(0, 8);
+    // the last member has no stake
+    for (const member of members.slice(0, -1)) await depositManager.setStake(member.address, 1n);
+    const client = VouchClient.connect(await vouch.getAddress(), owner);
+    return { vouch, client, members };
+  }
+
+  const op = (action: VouchOperation["action"], from: { address: string }, to: { address: string }): VouchOperation => ({
+    action,
+    from: from.address.toLowerCase(),
+    to: to.address.toLowerCase(),
+  });
+
+  async function vouchesCreated(vouch: Awaited<ReturnType<typeof deployFixture>>["vouch"]): Promise<number> {
+    return (await vouch.queryFilter(vouch.filters.VouchCreated())).length;
+  }
+
+  it("parses JSON and CSV plans", function () {
+    const a = "0x" + "aa".repeat(20);
+    const b = "0x" + "bb".repeat(20);
+    const plan: VouchOperation[] = [
+      { action: "vouch", from: a, to: b },
+      { action: "unvouch", from: b, to: a },
+    ];
+    expect(parsePlan(formatPlan(plan, "json"), "json")).to.deep.equal(plan);
+    expect(parsePlan(formatPlan(plan, "csv"), "csv")).to.deep.equal(plan);
+    expect(parsePlan(`# seed edges\nto,from,action\n${b.toUpperCase().replace("0X", "0x")},${a}, VOUCH \n\n`, "csv")).to.deep.equal([
+      plan[0],
+    ]);
+
+    expect(() => parsePlan(`from,to,action\n${a},${b},endorse`, "csv")).to.throw("Plan line 2: action must be vouch or unvouch");
+    expect(() => parsePlan(JSON.stringify([{ from: a, to: "nope", action: "vouch" }]), "json")).to.throw(
+      'Plan entry 0: to is not an address: "nope"'
+    );
+    expect(() => parsePlan("from,to\n", "csv")).to.throw("must name the columns from, to and action");
+  });
+
+  it("runs senders in parallel and reports successes, reverts and skips", async function () {
+    const { vouch, client, members } = await loadFixture(deployFixture);
+    const [a, b, c, d, e] = members;
+    const broke = members[members.length - 1];
+    const plan = [
+      op("vouch", a, b),
+      op("vouch", a, c),
+      op("vouch", b, c),
+      op("vouch", c, d),
+      op("vouch", a, b), // duplicate: already vouched by the time it comes up
+      op("vouch", d, d),
+      op("vouch", broke, a),
+      op("unvouch", e, a),
+      op("unvouch", a, c),
+      op("vouch", a, c),
+      op("vouch", e, a),
+    ];
+
+    const seen: number[] = [];
+    const report = await executePlan(client, plan, {
+      signers: members,
+      maxPending: 2,
+      onResult: (r) => seen.push(r.index),
+    });
+
+    expect(report).to.include({ total: 11, confirmed: 7, reverted: 2, skipped: 2, resumed: 0 });
+    expect(seen).to.have.members(plan.map((_, i) => i));
+    expect(report.results.map((r) => r.status)).to.deep.equal([
+      "confirmed",
+      "confirmed",
+      "confirmed",
+      "confirmed",
+      "skipped",
+      "reverted",
+      "reverted",
+      "skipped",
+      "confirmed",
+      "confirmed",
+      "confirmed",
+    ]);
+    expect(report.results[4].reason).to.equal("exists");
+    // neither was sent
+    expect(report.results[5]).to.include({ reason: "self" }).and.not.have.property("txHash");
+    expect(report.results[6]).to.include({ reason: "Insufficient stake to vouch" }).and.not.have.property("txHash");
+    expect(report.results[7].reason).to.equal("not exists");
+    expect(report.gasUsed).to.equal(report.results.reduce((sum, r) => sum + (r.gasUsed ?? 0n), 0n));
+
+    // a's three transactions went out with consecutive nonces, in plan order
+    const nonces = await Promise.all(
+      [0, 1, 8, 9].map(async (i) => (await ethers.provider.getTransaction(report.results[i].txHash!))!.nonce)
+    );
+    expect(nonces.map((n) => n - nonces[0])).to.deep.equal([0, 1, 2, 3]);
+
+    for (const [from, to] of [[a, b], [a, c], [b, c], [c, d], [e, a]]) {
+      expect(await vouch.hasEdge(from.address, to.address)).to.equal(true);
+    }
+    expect(await vouchesCreated(vouch)).to.equal(6);
+  });
+
+  it("waits for a pending transaction before sending an operation on the same edge", async function () {
+    const { vouch, client, members } = await loadFixture(deployFixture);
+    const [a, b, c] = members;
+    const plan = [op("vouch", a, b), op("vouch", a, c), op("unvouch", a, b), op("vouch", a, b)];
+
+    // transactions stay pending until the next interval block, as on a live network
+    await network.provider.send("evm_setAutomine", [false]);
+    await network.provider.send("evm_setIntervalMining", [200]);
+    try {
+      const report = await executePlan(client, plan, { signers: members, maxPending: 4 });
+      expect(report.results.map((r) => r.status)).to.deep.equal(["confirmed", "confirmed", "confirmed", "confirmed"]);
+      const blocks = report.results.map((r) => r.blockNumber!);
+      // the unvouch went out only after the vouch it undoes was mined, and the vouch after it
+      expect(blocks[2]).to.be.greaterThan(blocks[0]);
+      expect(blocks[3]).to.be.greaterThan(blocks[2]);
+    } finally {
+      await network.provider.send("evm_setIntervalMining", [0]);
+      await network.provider.send("evm_setAutomine", [true]);
+    }
+    expect(await vouch.hasEdge(a.address, b.address)).to.equal(true);
+    expect(await vouchesCreated(vouch)).to.equal(3);
+  });
+
+  it("resumes an interrupted run without duplicating edges", async function () {
+    const { vouch, client, members } = await loadFixture(deployFixture);
+    const plan: VouchOperation[] = [];
+    for (const from of members.slice(0, 4)) {
+      for (const to of members.slice(0, 6)) if (to !== from) plan.push(op("vouch", from, to));
+    }
+    plan.push(op("unvouch", members[0], members[1]));
+    const journal = new MemoryJournal();
+
+    await expect(executePlan(client, plan, { signers: members, journal: new CrashingJournal(journal, 7) })).to.be.rejectedWith(
+      "crash"
+    );
+    const sent = journal.entries.filter((e) => e.type === "sent").length;
+    const finished = journal.entries.filter((e) => e.type === "result").length;
+    expect(finished).to.equal(7);
+    // some transactions went out without their result being journaled
+    expect(sent).to.be.greaterThan(finished);
+
+    const report = await executePlan(client, plan, { signers: members, journal });
+    expect(report).to.include({ total: plan.length, confirmed: plan.length, reverted: 0, skipped: 0, resumed: 7 });
+    expect(await vouchesCreated(vouch)).to.equal(plan.length - 1);
+    expect(await vouch.hasEdge(members[0].address, members[1].address)).to.equal(false);
+
+    // a finished plan is a no-op, and the journal cannot be reused for another plan
+    const again = await executePlan(client, plan, { signers: members, journal });
+    expect(again.resumed).to.equal(plan.length);
+    await expect(executePlan(client, plan.slice(1), { signers: members, journal })).to.be.rejectedWith(
+      "The journal belongs to a different plan"
+    );
+  });
+
+  it("drops a partial last journal line and keeps appending after it", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-journal-"));
+    try {
+      const journal = new FileJournal(path.join(dir, "plan.json.journal.jsonl"));
+      const sent: JournalEntry = { type: "sent", index: 0, from: "0x" + "aa".repeat(20), txHash: "0x" + "11".repeat(32), nonce: 0 };
+      await journal.append(sent);
+      // a run killed halfway through writing the next entry
+      fs.appendFileSync(journal.filePath, '{"type":"sent","ind');
+
+      expect(await journal.load()).to.deep.equal([sent]);
+      const next: JournalEntry = { ...sent, index: 1, nonce: 1 };
+      await journal.append(next);
+      expect(await journal.load()).to.deep.equal([sent, next]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses to start without a signer for every sender", async function () {
+    const { vouch, client, members } = await loadFixture(deployFixture);
+    const plan = [op("vouch", members[0], members[1]), op("vouch", members[2], members[1])];
+
+    await expect(executePlan(client, plan, { signers: [members[0]] })).to.be.rejectedWith(
+      `No signer for plan senders: ${members[2].address.toLowerCase()}`
+    );
+    expect(await vouchesCreated(vouch)).to.equal(0);
+  });
+});
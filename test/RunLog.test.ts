@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RunLog, RunLogHeader, readRunLog } from "../sdk/node";
+
+describe("run logs", function () {
+  let dir: string;
+  const header: RunLogHeader = {
+    type: "run",
+    script: "test",
+    seed: 7,
+    network: "hardhat",
+    chainId: 31337n,
+    contract: "0x0000000000000000000000000000000000000001",
+    startedAt: "2026-01-01T00:00:00.000Z",
+    actors: ["0x00000000000000000000000000000000000000aa", "0x00000000000000000000000000000000000000bb"],
+  };
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-runlog-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads back the header and operations, tolerating a cut-off last line", function () {
+    const file = path.join(dir, "nested", "run.jsonl");
+    const log = RunLog.create(file, header);
+    log.append({ type: "op", step: "chain", action: "vouch", from: 0, to: 1, outcome: "confirmed", txHash: "0x01" });
+    log.append({ type: "op", step: "round 1 unvouch", action: "unvouch", from: 1, to: 0, outcome: "skipped", reason: "not exists" });
+    fs.appendFileSync(file, '{"type":"op","step":"ch');
+
+    const { header: read, entries } = readRunLog(file);
+    expect(read).to.deep.equal(header);
+    expect(entries.map((e) => [e.step, e.outcome, e.reason])).to.deep.equal([
+      ["chain", "confirmed", undefined],
+      ["round 1 unvouch", "skipped", "not exists"],
+    ]);
+
+    // a new run replaces the old log
+    RunLog.create(file, { ...header, seed: 8 });
+    expect(readRunLog(file)).to.deep.include({ entries: [] });
+    fs.writeFileSync(file, '{"type":"op"}\n');
+    expect(() => readRunLog(file)).to.throw("is not a run log");
+  });
+});
@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  Scenario,
+  VouchClient,
+  compileScenario,
+  parseScenario,
+  predictScenario,
+  runScenario,
+  scenarioActorNames,
+} from "../sdk";
+import { applyScenarioStakes } from "../scripts/lib/scenario";
+import { deployVouch } from "./helpers/deploy";
+
+const SCENARIO = `
+name: test
+seed: 7
+actors:
+  alice: { stake: 1 }
+  mallory:
+groups:
+  honest: { count: 5, stake: 1 }
+  sybil: { count: 3, stake: 1 }
+steps:
+  - star: { center: alice, actors: honest }
+  - chain: { actors: honest, cycle: true }
+  - vouch:
+      - [mallory, "honest[0]"]
+  - checkpoint:
+      name: honest
+      model: true
+      expect:
+        alice: { rank: 1, outCount: 5 }
+        honest[1:3]: { inCount: 2 }
+  - sybil: { actors: sybil, attach: "honest[3:]", k: 1 }
+  - unvouchRound: { count: 2, among: honest }
+  - checkpoint:
+      name: sybils
+      model: true
+      expect:
+        sybil: { inCount: { min: 2 }, rank: { min: 4 } }
+`;
+
+// Actor name of an address
+function names(compiled: { actors: Record<string, string> }): (address: string) => string {
+  const byAddress = new Map(Object.entries(compiled.actors).map(([name, address]) => [address, name]));
+  return (address) => byAddress.get(address)!;
+}
+
+describe("scenarios", function () {
+  const scenario: Scenario = parseScenario(SCENARIO);
+  const placeholders = scenarioActorNames(scenario).map((_, i) => ethers.zeroPadValue(ethers.toBeHex(i + 1), 20));
+
+  async function deployFixture() {
+    const [owner, ...signers] = await ethers.getSigners();
+    const { vouch } = await deployVouch(1);
+    const client = VouchClient.connect(await vouch.getAddress(), owner);
+    return { client, signers: signers.slice(0, scenarioActorNames(scenario).length) };
+  }
+
+  it("compiles generators and actor references deterministically", function () {
+    expect(scenarioActorNames(scenario)).to.deep.equal([
+      "alice",
+      "mallory",
+      ...[0, 1, 2, 3, 4].map((i) => `honest[${i}]`),
+      ...[0, 1, 2].map((i) => `sybil[${i}]`),
+    ]);
+    const compiled = compileScenario(scenario, placeholders);
+    const name = names(compiled);
+    const [star, chain, vouch, , sybil, round] = compiled.phases;
+
+    expect(star.kind === "operations" && star.operations.map((op) => name(op.to))).to.deep.equal(
+      [0, 1, 2, 3, 4].map((i) => `honest[${i}]`)
+    );
+    // 5 cycle edges
+    expect(chain.kind === "operations" && chain.operations.length).to.equal(5);
+    expect(vouch.kind === "operations" && vouch.operations.map((op) => `${name(op.from)}>${name(op.to)}`)).to.deep.equal([
+      "mallory>honest[0]",
+    ]);
+    // 6 clique edges plus one attack edge from honest[3] or honest[4]
+    expect(sybil.kind === "operations" && sybil.operations.length).to.equal(7);
+    const attack = sybil.kind === "operations" ? sybil.operations.filter((op) => name(op.from).startsWith("honest")) : [];
+    expect(attack).to.have.length(1);
+    expect(["honest[3]", "honest[4]"]).to.include(name(attack[0].from));
+    expect(round.kind === "operations" && round.operations.every((op) => op.action === "unvouch" && name(op.from).startsWith("honest")))
+      .to.equal(true);
+
+    expect(compileScenario(scenario, placeholders)).to.deep.equal(compiled);
+    expect(compileScenario({ ...scenario, seed: 8 }, placeholders).phases[5]).not.to.deep.equal(compiled.phases[5]);
+    expect(compiled.stakes[compiled.actors["honest[4]"]]).to.equal(1n);
+    expect(compiled.stakes).not.to.have.property(compiled.actors.mallory);
+    expect(compiled.senders).to.include(compiled.actors.mallory);
+  });
+
+  it("rejects malformed scenarios", function () {
+    expect(() => parseScenario("name: x\nsteps:\n  - wiggle: {}\n")).to.throw("Scenario step 1: expected exactly one of");
+    expect(() => parseScenario("steps: []\n")).to.throw("A scenario needs a name");
+    const unknown = parseScenario("name: x\nsteps:\n  - vouch: [[a, b]]\n");
+    expect(() => compileScenario(unknown, [])).to.throw('Scenario step 1: unknown actor or group "a"');
+    const badK = parseScenario("name: x\ngroups: { h: { count: 2 }, s: { count: 2 } }\nsteps:\n  - sybil: { actors: s, attach: h, k: 5 }\n");
+    expect(() => compileScenario(badK, placeholders)).to.throw("k must be an integer between 0 and 4");
+  });
+
+  it("runs on a local network with mock stakes and passes its checkpoints", async function () {
+    const { client, signers } = await loadFixture(deployFixture);
+    const compiled = compileScenario(scenario, signers.map((s) => s.address));
+    expect(await applyScenarioStakes(client, compiled)).to.deep.equal([]);
+
+    const plans: string[] = [];
+    const report = await runScenario(client, compiled, { signers, onPlan: (label) => plans.push(label) });
+    expect(plans).to.have.length(5);
+    expect(report.checkpoints.map((c) => [c.name, c.passed])).to.deep.equal([
+      ["honest", true],
+      ["sybils", true],
+    ]);
+    expect(report.passed).to.equal(true);
+    // mallory has no stake
+    expect(report.problems).to.deep.equal([
+      {
+        phase: "vouch (1 pairs)",
+        operation: { action: "vouch", from: compiled.actors.mallory, to: compiled.actors["honest[0]"] },
+        status: "reverted",
+        reason: "Insufficient stake to vouch",
+      },
+    ]);
+    expect(report.confirmed).to.equal(compiled.phases.reduce((n, p) => n + (p.kind === "operations" ? p.operations.length : 0), 0) - 1);
+
+    // the model predicts the same checkpoints without a chain
+    expect(predictScenario(compiled, { minimumStake: 1n }).map((c) => c.passed)).to.deep.equal([true, true]);
+  });
+
+  it("reports checkpoint values that do not match", async function () {
+    const { client, signers } = await loadFixture(deployFixture);
+    const failing = parseScenario(`
+name: failing
+actors: { a: { stake: 1 }, b: { stake: 1 } }
+steps:
+  - vouch: [[a, b]]
+  - checkpoint:
+      name: wrong
+      expect:
+        b: { inCount: 2, rank: { min: 1, max: 1 } }
+        a: { score: { min: 100 } }
+`);
+    const compiled = compileScenario(failing, signers.map((s) => s.address));
+    await applyScenarioStakes(client, compiled);
+    const report = await runScenario(client, compiled, { signers });
+
+    expect(report.passed).to.equal(false);
+    expect(report.checkpoints[0].failures.map(({ actor, field, expected, actual }) => ({ actor, field, expected, actual }))).to.deep.equal([
+      { actor: "b", field: "inCount", expected: "2", actual: "1" },
+      { actor: "a", field: "score", expected: ">= 100", actual: "1" },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { Prng, VouchClient, VouchContractEvent, decodeRevertReason, decodeVouchEvents, simulateOperation } from "../sdk";
+import { deployVouch } from "./helpers/deploy";
+
+describe("simulateOperation", function () {
+  async function deployFixture() {
+    const [owner, ...actors] = await ethers.getSigners();
+    const { depositManager, vouch } = await deployVouch(1);
+    // everyone but the last actor can vouch
+    const members = actors.slice(0, 10);
+    for (const member of members.slice(0, -1)) await depositManager.setStake(member.address, 1n);
+    const client = VouchClient.connect(await vouch.getAddress(), owner);
+    return { vouch, client, members };
+  }
+
+  it("predicts events, reverts and bootstrap slots of random calls", async function () {
+    const { vouch, client, members } = await loadFixture(deployFixture);
+    const rng = new Prng(12);
+    let seedVouches = 0;
+
+    for (let step = 0; step < 60; step++) {
+      const sender = rng.pick(members);
+      const target = rng.pick(members);
+      const action = (await vouch.hasEdge(sender.address, target.address)) && rng.chance(0.7) ? "unvouch" : "vouch";
+      const predicted = await simulateOperation(client, { action, from: sender.address, to: target.address });
+      expect(predicted.mismatch, `step ${step}`).to.equal(null);
+
+      let events: VouchContractEvent[] = [];
+      let reason: string | null = null;
+      try {
+        const tx = await vouch.connect(sender)[action](target.address);
+        const receipt = (await tx.wait())!;
+        events = decodeVouchEvents(receipt.logs, await vouch.getAddress());
+        expect(predicted.gasEstimate! >= receipt.gasUsed, `gas at step ${step}`).to.equal(true);
+      } catch (error) {
+        reason = decodeRevertReason(error);
+      }
+
+      expect(predicted.revertReason, `revert at step ${step}`).to.equal(reason);
+      expect(predicted.events, `events at step ${step}`).to.deep.equal(events);
+      expect(predicted.bootstrap.consumesSlot).to.equal(events.some((e) => e.name === "BootstrapVouchCreated"));
+      if (predicted.bootstrap.consumesSlot) seedVouches++;
+
+      const targetInfo = await vouch.getNodeInfo(target.address);
+      expect(predicted.target.rank.after).to.equal(targetInfo.rank);
+      expect(predicted.target.score.after).to.equal(targetInfo.score);
+      expect(predicted.sender.score.after).to.equal(await vouch.getScore(sender.address));
+    }
+    expect(seedVouches).to.equal(5);
+  });
+
+  it("reports the sender's outdegree bonus and the remaining bootstrap slots", async function () {
+    const { client, members } = await loadFixture(deployFixture);
+    const [a, b, c] = members;
+
+    const first = await simulateOperation(client, { action: "vouch", from: a.address, to: b.address });
+    expect(first.bootstrap).to.deep.equal({ slotsRemaining: 5n, consumesSlot: true, completesBootstrap: false });
+    expect(first.sender.outBonus).to.deep.equal({ before: 0n, after: 1n });
+    expect(first.target.rank).to.deep.equal({ before: 6n, after: 1n });
+    expect(first.events.map((e) => e.name)).to.deep.equal([
+      "NodeActivated",
+      "NodeActivated",
+      "BootstrapVouchCreated",
+      "VouchCreated",
+    ]);
+
+    // an unstaked sender is caught before anything is sent
+    const broke = members[members.length - 1];
+    const rejected = await simulateOperation(client, { action: "vouch", from: broke.address, to: c.address });
+    expect(rejected.revertReason).to.equal("Insufficient stake to vouch");
+    expect(rejected.gasEstimate).to.equal(null);
+    expect(rejected.bootstrap.consumesSlot).to.equal(false);
+    expect(rejected.target.rank.after).to.equal(rejected.target.rank.before);
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { Graph, VouchClient, analyzeStaleness, computeFixpoint, executePlan, rankDistance } from "../sdk";
+import { deployVouch } from "./helpers/deploy";
+
+describe("stale ranks", function () {
+  async function deployFixture() {
+    const [owner, ...signers] = await ethers.getSigners();
+    const { vouch } = await deployVouch();
+    const client = VouchClient.connect(await vouch.getAddress(), owner);
+    const actors = signers.slice(0, 12);
+    const addresses = actors.map((a) => a.address.toLowerCase());
+    const send = async (from: number, to: number, action: "vouch" | "unvouch" = "vouch") =>
+      (await vouch.connect(actors[from])[action](actors[to].address)).wait();
+
+    // seeds 0..5, then the chain 5 → 6 → 7 → 8 → 9 with a branch 7 → 10
+    for (let i = 0; i < 9; i++) await send(i, i + 1);
+    await send(7, 10);
+    // a shortcut lowers 7's rank; 8, 9 and 10 keep ranks derived from the old one
+    await send(1, 7);
+    return { client, actors, addresses, send };
+  }
+
+  it("computes fixpoint ranks and scores, and leaves unanchored cycles without a rank", function () {
+    const node = (address: string, rank: bigint, inNeighbors: string[], outNeighbors: string[]) => ({
+      address,
+      rank,
+      score: 0n,
+      inCount: inNeighbors.length,
+      outCount: outNeighbors.length,
+      inNeighbors,
+      outNeighbors,
+    });
+    const graph: Graph = {
+      seeds: ["s"],
+      nodes: [
+        node("s", 1n, [], ["a"]),
+        node("a", 99n, ["s", "b"], ["b"]),
+        node("b", 99n, ["a"], ["a"]),
+        node("x", 7n, ["y"], ["y"]),
+        node("y", 7n, ["x"], ["x"]),
+        node("lone", 6n, [], []),
+      ],
+      edges: [],
+    };
+    const { ranks, scores } = computeFixpoint(graph);
+    expect(Object.fromEntries(ranks)).to.deep.equal({ s: 1n, a: 3n, b: 9n, x: null, y: null, lone: 6n });
+    // a: weights of s (2^4) and b (0) plus one outgoing vouch
+    expect(scores.get("a")).to.equal(17n);
+  });
+
+  it("lists stale nodes with their fixpoint and repairs them in waves", async function () {
+    const { client, actors, addresses } = await loadFixture(deployFixture);
+    const graph = await client.getGraph();
+    const report = analyzeStaleness(graph);
+
+    const byAddress = new Map(report.stale.map((s) => [s.address, s]));
+    const eight = byAddress.get(addresses[8])!;
+    expect(eight).to.include({ rank: 27n, fixpointRank: 9n, rankStale: true, wave: 1 });
+    expect(rankDistance(eight)).to.be.closeTo(1, 1e-9);
+    expect(byAddress.get(addresses[9])).to.include({ rank: 81n, fixpointRank: 27n, wave: 2 });
+    expect(byAddress.get(addresses[10])).to.include({ rank: 27n, fixpointRank: 9n, wave: 1 });
+    expect(report.unanchored).to.deep.equal([]);
+    expect(report.plan.unrepaired).to.deep.equal([]);
+
+    // each wave refreshes an edge: unvouch, then vouch again
+    expect(report.plan.waves[0]).to.deep.include.members([
+      { action: "unvouch", from: addresses[7], to: addresses[8] },
+      { action: "vouch", from: addresses[7], to: addresses[8] },
+    ]);
+    expect(report.plan.waves[1]).to.deep.include({ action: "vouch", from: addresses[8], to: addresses[9] });
+
+    for (const wave of report.plan.waves) {
+      const result = await executePlan(client, wave, { signers: actors });
+      expect(result.confirmed).to.equal(wave.length);
+    }
+    const after = analyzeStaleness(await client.getGraph());
+    expect(after.stale).to.deep.equal([]);
+    expect((await client.getGraph()).edges).to.have.length(graph.edges.length);
+  });
+
+  it("leaves nodes unrepaired when no in-neighbor can send", async function () {
+    const { client, addresses } = await loadFixture(deployFixture);
+    const report = analyzeStaleness(await client.getGraph(), { canSend: (a) => a !== addresses[8] });
+
+    expect(report.plan.unrepaired).to.include(addresses[9]);
+    expect(report.plan.unrepaired).not.to.include(addresses[8]);
+    expect(report.plan.waves.flat().some((op) => op.from === addresses[8])).to.equal(false);
+  });
+});
@@ -0,0 +1,368 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { encryptKeystoreJsonSync, parseUnits } from "ethers";
+import { deployVouch } from "./helpers/deploy";
+
+// Hardhat's default accounts come from this mnemonic
+const HARDHAT_MNEMONIC = "test test test test test test test test test test test junk";
+
+// Runs `syb <task>` and returns its result together with what it printed
+async function syb(task: string, args: Record<string, unknown>): Promise<{ result: any; output: string }> {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...values: unknown[]) => lines.push(values.join(" "));
+  try {
+    const result = await hre.run({ scope: "syb", task }, args);
+    return { result, output: lines.join("\n") };
+  } finally {
+    console.log = log;
+  }
+}
+
+describe("syb CLI", function () {
+  async function deployFixture() {
+    const [owner, ...actors] = await ethers.getSigners();
+    const { depositManager, vouch } = await deployVouch();
+    return { owner, actors, vouch, depositManager, contract: await vouch.getAddress() };
+  }
+
+  it("vouches and decodes the emitted events", async function () {
+    const { owner, actors, vouch, contract } = await loadFixture(deployFixture);
+    const { result } = await syb("vouch", { to: actors[0].address, contract, json: true });
+
+    expect(result.from).to.equal(owner.address.toLowerCase());
+    expect(result.txHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(result.events.map((e: any) => e.name)).to.include.members(["BootstrapVouchCreated", "VouchCreated"]);
+    expect(result.events.find((e: any) => e.name === "VouchCreated").args).to.deep.equal({
+      from: owner.address.toLowerCase(),
+      to: actors[0].address.toLowerCase(),
+      toRank: 1n,
+      fromScore: 1n,
+      toScore: 16n,
+    });
+    expect(await vouch.hasEdge(owner.address, actors[0].address)).to.equal(true);
+
+    const { result: node } = await syb("node", { address: actors[0].address, contract, json: true });
+    expect(node.inNeighbors).to.deep.equal([owner.address.toLowerCase()]);
+    expect(node.rank).to.equal(1n);
+  });
+
+  it("simulates with --dry-run without sending", async function () {
+    const { owner, actors, vouch, contract } = await loadFixture(deployFixture);
+    const { result, output } = await syb("vouch", { to: actors[0].address, contract, dryRun: true });
+
+    expect(result.dryRun).to.equal(true);
+    expect(result.gasEstimate > 0n).to.equal(true);
+    expect(result.txHash).to.equal(undefined);
+    expect(output).to.contain("would succeed");
+    expect(await vouch.hasEdge(owner.address, actors[0].address)).to.equal(false);
+  });
+
+  it("simulates a vouch as the selected signer or --from", async function () {
+    const { owner, actors, vouch, contract } = await loadFixture(deployFixture);
+    const { result, output } = await syb("simulate", { action: "vouch", to: actors[0].address, contract });
+
+    expect(result.from).to.equal(owner.address.toLowerCase());
+    expect(result.bootstrap.consumesSlot).to.equal(true);
+    expect(output).to.contain("Uses 1 of 5 remaining bootstrap slots");
+    expect(await vouch.hasEdge(owner.address, actors[0].address)).to.equal(false);
+
+    const { result: missing } = await syb("simulate", {
+      action: "unvouch",
+      to: actors[0].address,
+      from: actors[1].address,
+      contract,
+    });
+    expect(missing.revertReason).to.equal("not exists");
+  });
+
+  it("explains revert reasons, also as JSON", async function () {
+    const { actors, contract } = await loadFixture(deployFixture);
+    await syb("vouch", { to: actors[0].address, contract });
+
+    await expect(syb("vouch", { to: actors[0].address, contract, dryRun: true })).to.be.rejectedWith(
+      "vouch reverted: exists (the sender already vouches for this address)"
+    );
+    await expect(syb("unvouch", { to: actors[1].address, contract })).to.be.rejectedWith("unvouch reverted: not exists");
+
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (value: string) => lines.push(value);
+    try {
+      await hre.run({ scope: "syb", task: "vouch" }, { to: actors[0].address, contract, json: true });
+    } catch {
+      // expected
+    } finally {
+      console.log = log;
+    }
+    expect(JSON.parse(lines.join("\n")).error).to.deep.equal({
+      action: "vouch",
+      reason: "exists",
+      description: "the sender already vouches for this address",
+    });
+  });
+
+  it("signs with an account from MNEMONIC or an encrypted keystore", async function () {
+    const { actors, vouch, contract } = await loadFixture(deployFixture);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-keystore-"));
+    const env = { MNEMONIC: process.env.MNEMONIC, KEYSTORE_PASSWORD: process.env.KEYSTORE_PASSWORD };
+
+    try {
+      process.env.MNEMONIC = HARDHAT_MNEMONIC;
+      const { result } = await syb("vouch", { to: actors[5].address, contract, mnemonic: true, account: 2 });
+      expect(result.from).to.equal(actors[1].address.toLowerCase());
+
+      // a keystore for hardhat account #4 (cheap scrypt to keep the test fast)
+      const wallet = ethers.HDNodeWallet.fromPhrase(HARDHAT_MNEMONIC, undefined, "m/44'/60'/0'/0/4");
+      const keystore = path.join(dir, "key.json");
+      const account = { address: wallet.address, privateKey: wallet.privateKey };
+      fs.writeFileSync(keystore, encryptKeystoreJsonSync(account, "pw", { scrypt: { N: 1024 } }));
+      process.env.KEYSTORE_PASSWORD = "pw";
+      await syb("unvouch", { to: actors[5].address, contract, mnemonic: true, account: 2 });
+      const { result: fromKeystore } = await syb("vouch", { to: actors[5].address, contract, keystore });
+      expect(fromKeystore.from).to.equal(actors[3].address.toLowerCase());
+      expect(await vouch.hasEdge(actors[3].address, actors[5].address)).to.equal(true);
+    } finally {
+      for (const [key, value] of Object.entries(env)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("executes a CSV plan and resumes it from the journal", async function () {
+    const { actors, vouch, contract } = await loadFixture(deployFixture);
+    const [a, b, c] = actors.map((x) => x.address.toLowerCase());
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-batch-"));
+
+    try {
+      const plan = path.join(dir, "plan.csv");
+      fs.writeFileSync(plan, `from,to,action\n${a},${b},vouch\n${b},${c},vouch\n${a},${a},vouch\n${a},${b},vouch\n`);
+      const report = path.join(dir, "report.json");
+      const { result, output } = await syb("batch", { plan, contract, report, mnemonicAccounts: 0, concurrency: 8, maxPending: 4 });
+
+      expect(result).to.include({ total: 4, confirmed: 2, reverted: 1, skipped: 1 });
+      expect(output).to.contain("1 × self");
+      expect(JSON.parse(fs.readFileSync(report, "utf8")).gasUsed).to.equal(result.gasUsed.toString());
+      expect(fs.existsSync(`${plan}.journal.jsonl`)).to.equal(true);
+      expect(await vouch.hasEdge(b, c)).to.equal(true);
+
+      const { result: rerun } = await syb("batch", { plan, contract, json: true, mnemonicAccounts: 0, concurrency: 8, maxPending: 4 });
+      expect(rerun).to.include({ resumed: 4, confirmed: 2 });
+      expect((await vouch.queryFilter(vouch.filters.VouchCreated())).length).to.equal(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("applies a scenario file and predicts it with --dry-run", async function () {
+    const { contract } = await loadFixture(deployFixture);
+    const file = path.join(__dirname, "..", "scenarios", "sepolia-bootstrap.yaml");
+
+    const { result: dry, output } = await syb("scenario", { file, contract, dryRun: true, funding: "0.01" });
+    expect(dry.phases.map((p: any) => p.operations)).to.deep.equal([4, 2, 0]);
+    expect(output).to.contain('Checkpoint "bootstrapped": passed');
+
+    const { result } = await syb("scenario", { file, contract, dryRun: false, funding: "0.01", json: true });
+    expect(result.report).to.include({ confirmed: 6, reverted: 0, passed: true });
+    expect(result.actors).to.have.all.keys(...[0, 1, 2, 3, 4].map((i) => `wallet[${i}]`));
+  });
+
+  it("creates, lists and sweeps a wallet set", async function () {
+    const { owner, contract } = await loadFixture(deployFixture);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-wallets-"));
+    const env = { WALLETS_DIR: process.env.WALLETS_DIR, KEYSTORE_PASSWORD: process.env.KEYSTORE_PASSWORD };
+    const defaults = { count: 5, kind: "hd", mnemonic: false, contract };
+
+    try {
+      process.env.WALLETS_DIR = dir;
+      process.env.KEYSTORE_PASSWORD = "pw";
+      const { result: created } = await syb("wallets", { ...defaults, action: "create", name: "demo", count: 2 });
+      expect(created.addresses).to.have.length(2);
+      expect(fs.existsSync(path.join(dir, "hardhat", "demo", "mnemonic.json"))).to.equal(true);
+
+      await owner.sendTransaction({ to: created.addresses[0], value: ethers.parseEther("1") });
+      const { result: listed, output } = await syb("wallets", { ...defaults, action: "list" });
+      expect(listed.sets[0].wallets[0]).to.deep.include({ balance: ethers.parseEther("1"), roles: ["unconnected"] });
+      expect(output).to.contain("👛 demo (encrypted mnemonic, 2 wallets, 1.0 ETH)");
+
+      const { result: swept } = await syb("wallets", { ...defaults, action: "sweep", name: "demo" });
+      expect(swept.to).to.equal(owner.address.toLowerCase());
+      expect(swept.swept > ethers.parseEther("0.99")).to.equal(true);
+      await expect(syb("wallets", { ...defaults, action: "burn" })).to.be.rejectedWith('Unknown wallets action "burn"');
+    } finally {
+      for (const [key, value] of Object.entries(env)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("walks neighbors up to --depth hops", async function () {
+    const { actors, vouch, contract } = await loadFixture(deployFixture);
+    const [a, b, c, d] = actors;
+    await vouch.connect(a).vouch(b.address);
+    await vouch.connect(b).vouch(c.address);
+    await vouch.connect(c).vouch(d.address);
+
+    const { result: out } = await syb("neighbors", { address: a.address, depth: 2, direction: "out", contract });
+    expect(out.layers).to.deep.equal([[a.address], [b.address], [c.address]].map((l) => l.map((x) => x.toLowerCase())));
+    expect(out.edges.length).to.equal(2);
+
+    const { result: both } = await syb("neighbors", { address: c.address, depth: 1, contract });
+    expect(both.layers[1]).to.have.members([d.address.toLowerCase(), b.address.toLowerCase()]);
+  });
+
+  it("runs admin actions for the owner only and reports stakes", async function () {
+    const { actors, vouch, depositManager, contract } = await loadFixture(deployFixture);
+
+    await expect(
+      syb("admin", { action: "set-min-stake", value: "100", contract, account: 1 })
+    ).to.be.rejectedWith("set-min-stake reverted: OwnableUnauthorizedAccount (only the contract owner can call this)");
+    await expect(syb("admin", { action: "set-min-stake", value: "1e3", contract })).to.be.rejectedWith("Minimum stake must be an amount in WTON: 1e3");
+    await syb("admin", { action: "set-min-stake", value: "100", contract });
+    expect(await vouch.minimumStake()).to.equal(parseUnits("100", 27));
+
+    await depositManager.setStake(actors[0].address, parseUnits("40", 27));
+    const { result: stake } = await syb("stake", { address: actors[0].address, contract });
+    expect(stake).to.include({ stakedAmount: parseUnits("40", 27), minimumStake: parseUnits("100", 27), hasMinimumStake: false });
+    await expect(syb("vouch", { to: actors[1].address, contract, account: 1 })).to.be.rejectedWith(
+      "Insufficient stake to vouch"
+    );
+  });
+
+  it("exports the live graph as node and edge files", async function () {
+    const { actors, vouch, contract } = await loadFixture(deployFixture);
+    await vouch.connect(actors[0]).vouch(actors[1].address);
+    await vouch.connect(actors[1]).vouch(actors[2].address);
+    await vouch.connect(actors[1]).unvouch(actors[2].address);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-export-"));
+    const indexFile = process.env.INDEX_FILE;
+    process.env.INDEX_FILE = path.join(dir, "index.json");
+    try {
+      const [a, b, c] = actors.map((s) => s.address.toLowerCase());
+      const { result } = await syb("export", { format: "csv", out: path.join(dir, "graph.csv"), contract });
+      expect(result).to.include({ nodes: 3, edges: 1, removals: 1, mismatches: 0 });
+      expect(result.files).to.deep.equal([path.join(dir, "graph.nodes.csv"), path.join(dir, "graph.edges.csv")]);
+      const edges = fs.readFileSync(result.files[1], "utf8").split("\n");
+      expect(edges.slice(1, -1).map((line: string) => line.split(",").slice(1, 3).join(","))).to.deep.equal([`${a},${b}`]);
+
+      const { result: json } = await syb("export", { format: "json", out: path.join(dir, "graph.json"), contract });
+      const document = JSON.parse(fs.readFileSync(json.files[0], "utf8"));
+      expect(document).to.include({ format: "syb-graph", version: 1 });
+      expect(document.removedEdges.map((e: any) => e.id)).to.deep.equal([`${b}-${c}`]);
+      expect(document.timeline.every((e: any) => e.timestamp > 0)).to.equal(true);
+
+      await expect(syb("export", { format: "csv", contract })).to.be.rejectedWith("give --out as their base name");
+
+      // the explorer works from the export alone
+      const { result: explored } = await syb("explore", { graph: json.files[0], out: path.join(dir, "explorer.html"), json: true });
+      expect(explored).to.include({ source: json.files[0], nodes: 3, edges: 1 });
+      expect(fs.readFileSync(explored.out, "utf8")).to.contain(`"removedEdgeCount":1`);
+      const legacy = path.join(dir, "legacy.json");
+      fs.writeFileSync(legacy, JSON.stringify({ nodes: [], edges: [] }));
+      await expect(syb("explore", { graph: legacy, out: path.join(dir, "x.html") })).to.be.rejectedWith("not a syb-graph v1 document");
+      await expect(syb("export", { format: "xml", contract })).to.be.rejectedWith("--format must be one of json, graphml");
+    } finally {
+      if (indexFile === undefined) delete process.env.INDEX_FILE;
+      else process.env.INDEX_FILE = indexFile;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("lists stale nodes and writes the repair as one plan per wave", async function () {
+    const { actors, vouch, contract } = await loadFixture(deployFixture);
+    await expect(syb("stale", { contract })).to.be.rejectedWith("The bootstrap is not finished");
+    for (let i = 0; i < 8; i++) await vouch.connect(actors[i]).vouch(actors[i + 1].address);
+    // 6's rank drops, 7 and 8 keep ranks derived from the old one
+    await vouch.connect(actors[0]).vouch(actors[6].address);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-stale-"));
+    const indexFile = process.env.INDEX_FILE;
+    process.env.INDEX_FILE = path.join(dir, "index.json");
+    try {
+      const { result, output } = await syb("stale", { contract, plan: path.join(dir, "repair.csv") });
+      expect(result.stale.map((s: any) => s.address)).to.include.members([7, 8].map((i) => actors[i].address.toLowerCase()));
+      expect(result.planFiles).to.deep.equal([1, 2].map((n) => path.join(dir, `repair.wave-${n}.csv`)));
+      expect(output).to.contain("rank 27 → 18 (0.4 hops)");
+
+      for (const plan of result.planFiles) {
+        await syb("batch", { plan, contract, json: true, mnemonicAccounts: 0, concurrency: 8, maxPending: 4 });
+      }
+      const { result: after } = await syb("stale", { contract, json: true });
+      expect(after.stale).to.deep.equal([]);
+    } finally {
+      if (indexFile === undefined) delete process.env.INDEX_FILE;
+      else process.env.INDEX_FILE = indexFile;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("analyzes the live graph and writes the report", async function () {
+    const { actors, vouch, contract } = await loadFixture(deployFixture);
+    for (let i = 0; i < 6; i++) await vouch.connect(actors[i]).vouch(actors[i + 1].address);
+    await vouch.connect(actors[6]).vouch(actors[5].address);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-analyze-"));
+    const indexFile = process.env.INDEX_FILE;
+    process.env.INDEX_FILE = path.join(dir, "index.json");
+    try {
+      const out = path.join(dir, "report.json");
+      const { result, output } = await syb("analyze", { contract, out });
+      expect(result).to.include({ source: contract, nodes: 7, edges: 7, seeds: 6 });
+      expect(result.reciprocity.reciprocal).to.equal(2);
+      expect(output).to.contain("Reciprocal vouches: 2 of 7 edges (28.6%)");
+      expect(JSON.parse(fs.readFileSync(out, "utf8")).components.sizes).to.deep.equal([2]);
+    } finally {
+      if (indexFile === undefined) delete process.env.INDEX_FILE;
+      else process.env.INDEX_FILE = indexFile;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("simulates attacks without a contract", async function () {
+    const args = { honest: 30, degree: 2, seed: 3, sybils: 4, vouches: 3, minStake: "1" };
+    const { result, output } = await syb("attack", { ...args, strategy: "compromisedSeed,churn" });
+    expect(result.results.map((r: any) => r.strategy.kind)).to.deep.equal(["compromisedSeed", "churn"]);
+    expect(result.results[0].cost.stake).to.equal(5n * 10n ** 27n);
+    expect(output).to.contain("3 rented vouches, withdrawn afterwards (4 Sybils, ring)");
+    await expect(syb("attack", { ...args, strategy: "bribe" })).to.be.rejectedWith("Unknown strategy bribe");
+  });
+
+  it("looks the graph up at a block and writes snapshots at intervals", async function () {
+    const { actors, vouch, contract } = await loadFixture(deployFixture);
+    const first = await (await vouch.connect(actors[0]).vouch(actors[1].address)).wait();
+    await vouch.connect(actors[1]).vouch(actors[2].address);
+    await vouch.connect(actors[1]).unvouch(actors[2].address);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-history-"));
+    const indexFile = process.env.INDEX_FILE;
+    process.env.INDEX_FILE = path.join(dir, "index.json");
+    try {
+      const { result, output } = await syb("history", { contract, block: first!.blockNumber, address: actors[1].address });
+      expect(result.graph.graph.edges).to.have.length(1);
+      expect(result.node.inNeighbors.map((n: any) => n.address)).to.deep.equal([actors[0].address.toLowerCase()]);
+      expect(output).to.contain(`at block ${first!.blockNumber}`);
+      expect(fs.existsSync(path.join(dir, "index.timestamps.json"))).to.equal(true);
+
+      const out = path.join(dir, "frames.json");
+      const { result: frames } = await syb("history", { contract, interval: "1h", out });
+      const written = JSON.parse(fs.readFileSync(out, "utf8")).frames;
+      expect(written).to.have.length(frames.frames);
+      // the last snapshot is taken after the unvouch
+      expect(written[written.length - 1].edges).to.have.length(1);
+      await expect(syb("history", { contract })).to.be.rejectedWith("Pass --block or --date");
+    } finally {
+      if (indexFile === undefined) delete process.env.INDEX_FILE;
+      else process.env.INDEX_FILE = indexFile;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
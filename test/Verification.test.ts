@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { DeploymentRecord, decodeConstructorArgs, resolveConstructorArgs } from "../sdk/node";
+
+describe("Constructor argument recovery", function () {
+  async function deploy(minimumStake: bigint) {
+    const depositManager = await ethers.deployContract("MockDepositManager");
+    const vouch = await ethers.deployContract("VouchMinimal", [await depositManager.getAddress(), minimumStake]);
+    const tx = vouch.deploymentTransaction()!;
+    await tx.wait();
+    return { vouch, depositManager, tx };
+  }
+
+  it("decodes the arguments from the creation transaction input", async function () {
+    const stake = 10n ** 27n;
+    const { vouch, depositManager, tx } = await deploy(stake);
+
+    expect(decodeConstructorArgs(tx.data)).to.deep.equal([await depositManager.getAddress(), stake.toString()]);
+
+    const resolved = await resolveConstructorArgs(ethers.provider, await vouch.getAddress(), { creationTxHash: tx.hash });
+    expect(resolved.source).to.equal("creation-tx");
+    expect(resolved.args).to.deep.equal([await depositManager.getAddress(), stake.toString()]);
+  });
+
+  it("prefers the deployment record when it describes the same contract", async function () {
+    const { vouch, tx } = await deploy(0n);
+    const address = await vouch.getAddress();
+    const deployment = { address, constructorArgs: ["0x90ffcc7F168DceDBEF1Cb6c6eB00cA73F922956F", "0"] } as DeploymentRecord;
+
+    const resolved = await resolveConstructorArgs(ethers.provider, address, { deployment, creationTxHash: tx.hash });
+    expect(resolved).to.deep.equal({ args: deployment.constructorArgs, source: "registry" });
+  });
+
+  it("rejects a transaction that did not create the contract", async function () {
+    const { vouch } = await deploy(0n);
+    const other = await deploy(0n);
+    await expect(
+      resolveConstructorArgs(ethers.provider, await vouch.getAddress(), { creationTxHash: other.tx.hash })
+    ).to.be.rejectedWith(/did not create/);
+    await expect(resolveConstructorArgs(ethers.provider, await vouch.getAddress(), {})).to.be.rejectedWith(
+      /No deployment record/
+    );
+  });
+});
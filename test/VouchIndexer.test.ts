@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { VouchMinimal } from "../typechain-types";
+import { INDEX_SNAPSHOT_VERSION, JsonFileStore, MemoryStore, Prng, ReorgTooDeepError, VouchIndexer } from "../sdk/node";
+import { deployVouch } from "./helpers/deploy";
+
+// Sends `count` random vouch/unvouch transactions between the actors
+async function randomActivity(vouch: VouchMinimal, actors: HardhatEthersSigner[], rng: Prng, count: number) {
+  for (let i = 0; i < count; i++) {
+    const from = rng.pick(actors);
+    const to = rng.pick(actors);
+    if (from === to) continue;
+    const connected = vouch.connect(from);
+    if (await vouch.hasEdge(from.address, to.address)) {
+      if (rng.chance(0.5)) await connected.unvouch(to.address);
+    } else {
+      await connected.vouch(to.address);
+    }
+  }
+}
+
+async function expectMatchesChain(indexer: VouchIndexer, vouch: VouchMinimal) {
+  const state = indexer.state;
+  for (const node of Object.values(state.nodes)) {
+    const info = await vouch.getNodeInfo(node.address);
+    expect(node.rank, `rank of ${node.address}`).to.equal(info.rank);
+    expect(node.score, `score of ${node.address}`).to.equal(info.score);
+    expect(node.outdegree).to.equal(Number(await vouch.getOutdegree(node.address)));
+    expect(node.inNeighbors).to.deep.equal(info.inNeighbors.map((a) => a.toLowerCase()));
+    expect(node.outNeighbors).to.deep.equal(info.outNeighbors.map((a) => a.toLowerCase()));
+  }
+  expect(state.seedVouchCount).to.equal(Number(await vouch.seedVouchCount()));
+  expect(state.minimumStake).to.equal(await vouch.minimumStake());
+  expect(state.depositManager).to.equal((await vouch.depositManager()).toLowerCase());
+  expect(state.owner).to.equal((await vouch.owner()).toLowerCase());
+}
+
+describe("VouchIndexer", function () {
+  async function deployFixture() {
+    const signers = await ethers.getSigners();
+    const { depositManager, vouch, startBlock } = await deployVouch();
+    return { vouch, depositManager, startBlock, owner: signers[0], actors: signers.slice(1, 9) };
+  }
+
+  it("rebuilds the graph from events alone", async function () {
+    const { vouch, startBlock, actors } = await loadFixture(deployFixture);
+    await randomActivity(vouch, actors, new Prng(7), 60);
+    await vouch.setMinimumStake(5n);
+
+    const indexer = new VouchIndexer(ethers.provider, await vouch.getAddress(), new MemoryStore(), {
+      startBlock,
+      batchSize: 7,
+    });
+    const result = await indexer.sync();
+
+    expect(result.applied).to.be.greaterThan(0);
+    expect(indexer.state.bootstrapComplete).to.equal(true);
+    expect(indexer.state.seeds.length).to.be.greaterThan(1);
+    await expectMatchesChain(indexer, vouch);
+  });
+
+  it("resumes from the stored checkpoint without reapplying events", async function () {
+    const { vouch, startBlock, actors } = await loadFixture(deployFixture);
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vouch-index-"));
+    const storePath = path.join(dir, "index.json");
+    const address = await vouch.getAddress();
+    const rng = new Prng(11);
+
+    try {
+      await randomActivity(vouch, actors, rng, 30);
+      const first = new VouchIndexer(ethers.provider, address, new JsonFileStore(storePath), { startBlock });
+      await first.sync();
+      const eventCount = first.events.length;
+
+      // a fresh process picks up the stored checkpoint
+      await randomActivity(vouch, actors, rng, 30);
+      const second = new VouchIndexer(ethers.provider, address, new JsonFileStore(storePath), { startBlock });
+      const snapshot = await second.load();
+      expect(snapshot.events.length).to.equal(eventCount);
+      const checkpoint = snapshot.state.checkpoint!;
+
+      const result = await second.sync();
+      expect(result.fromBlock).to.equal(checkpoint.blockNumber);
+      expect(second.events.length).to.equal(eventCount + result.applied);
+
+      // nothing new: nothing applied
+      expect((await second.sync()).applied).to.equal(0);
+      await expectMatchesChain(second, vouch);
+
+      const keys = second.events.map((e) => `${e.blockNumber}:${e.logIndex}`);
+      expect(new Set(keys).size).to.equal(keys.length);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses a store that belongs to another contract", async function () {
+    const { vouch, startBlock } = await loadFixture(deployFixture);
+    const store = new MemoryStore();
+    await new VouchIndexer(ethers.provider, await vouch.getAddress(), store, { startBlock }).sync();
+
+    const other = new VouchIndexer(ethers.provider, ethers.Wallet.createRandom().address, store);
+    await expect(other.load()).to.be.rejectedWith(/Index store belongs to/);
+  });
+
+  it("refuses index files of another version or layout", async function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vouch-index-"));
+    const storePath = path.join(dir, "index.json");
+    try {
+      fs.writeFileSync(storePath, JSON.stringify({ version: 1, events: [] }));
+      await expect(new JsonFileStore(storePath).load()).to.be.rejectedWith(/Unsupported index version 1/);
+      fs.writeFileSync(storePath, JSON.stringify({ version: INDEX_SNAPSHOT_VERSION, events: {} }));
+      await expect(new JsonFileStore(storePath).load()).to.be.rejectedWith(/Corrupt index/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe("chain reorganizations", function () {
+    it("rolls back orphaned events and re-ingests the new branch", async function () {
+      const { vouch, startBlock, actors } = await loadFixture(deployFixture);
+      const address = await vouch.getAddress();
+      await randomActivity(vouch, actors, new Prng(21), 20);
+      const forkBlock = await ethers.provider.getBlockNumber();
+      const forkId = await network.provider.send("evm_snapshot");
+
+      // the branch that will be orphaned
+      await randomActivity(vouch, actors, new Prng(22), 12);
+      const indexer = new VouchIndexer(ethers.provider, address, new MemoryStore(), { startBlock, confirmations: 64 });
+      await indexer.sync();
+      const orphaned = indexer.events.filter((e) => e.blockNumber > forkBlock).length;
+      expect(orphaned).to.be.greaterThan(0);
+
+      // a competing branch replaces it
+      await network.provider.send("evm_revert", [forkId]);
+      await randomActivity(vouch, actors, new Prng(23), 15);
+
+      const result = await indexer.sync();
+      expect(result.reorg).to.not.equal(null);
+      expect(result.reorg!.forkBlock).to.be.at.most(forkBlock);
+      expect(result.reorg!.removedEvents).to.be.at.least(orphaned);
+      await expectMatchesChain(indexer, vouch);
+
+      // identical to an index built from scratch on the new branch
+      const fresh = new VouchIndexer(ethers.provider, address, new MemoryStore(), { startBlock });
+      await fresh.sync();
+      expect(indexer.events).to.deep.equal(fresh.events);
+      expect((await indexer.sync()).reorg).to.equal(null);
+    });
+
+    it("fails loudly when the reorg is deeper than the confirmation depth", async function () {
+      const { vouch, startBlock, actors } = await loadFixture(deployFixture);
+      const forkId = await network.provider.send("evm_snapshot");
+      await randomActivity(vouch, actors, new Prng(31), 10);
+
+      const indexer = new VouchIndexer(ethers.provider, await vouch.getAddress(), new MemoryStore(), {
+        startBlock,
+        confirmations: 1,
+      });
+      await indexer.sync();
+
+      await network.provider.send("evm_revert", [forkId]);
+      await randomActivity(vouch, actors, new Prng(32), 10);
+      await expect(indexer.sync()).to.be.rejectedWith(ReorgTooDeepError);
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { VouchMinimal } from "../typechain-types";
+import { deployVouch } from "./helpers/deploy";
+
+const DEFAULT_RANK = 6n;
+const MAX_SEEDVOUCHES = 5;
+
+// c_r = 2^(R - r) for r <= R, 0 otherwise
+function weight(rank: bigint): bigint {
+  return rank >= DEFAULT_RANK ? 0n : 1n << (5n - rank);
+}
+
+function randomAddress(): string {
+  return ethers.Wallet.createRandom().address;
+}
+
+describe("VouchMinimal", function () {
+  async function deployFixture() {
+    const signers = await ethers.getSigners();
+    const [owner] = signers;
+
+    const { depositManager, vouch } = await deployVouch();
+
+    return { vouch, depositManager, owner, signers };
+  }
+
+  // Runs the five bootstrap vouches s1 -> s2 -> ... -> s6, leaving s1..s6 at rank 1
+  async function bootstrappedFixture() {
+    const fixture = await deployFixture();
+    const { vouch, signers } = fixture;
+    for (let i = 1; i <= MAX_SEEDVOUCHES; i++) {
+      await vouch.connect(signers[i]).vouch(signers[i + 1].address);
+    }
+    return { ...fixture, seeds: signers.slice(1, MAX_SEEDVOUCHES + 2), others: signers.slice(MAX_SEEDVOUCHES + 2) };
+  }
+
+  async function nodeOf(vouch: VouchMinimal, who: HardhatEthersSigner | string) {
+    const address = typeof who === "string" ? who : who.address;
+    return vouch.getNodeInfo(address);
+  }
+
+  describe("Deployment", function () {
+    it("stores the deposit manager and minimum stake", async function () {
+      const { vouch, depositManager, owner } = await loadFixture(deployFixture);
+
+      expect(await vouch.depositManager()).to.equal(await depositManager.getAddress());
+      expect(await vouch.minimumStake()).to.equal(0n);
+      expect(await vouch.owner()).to.equal(owner.address);
+      expect(await vouch.seedVouchCount()).to.equal(0n);
+    });
+
+    it("emits the configuration events", async function () {
+      const { depositManager } = await loadFixture(deployFixture);
+      const factory = await ethers.getContractFactory("VouchMinimal");
+      const vouch = await factory.deploy(await depositManager.getAddress(), 42n);
+      const tx = vouch.deploymentTransaction()!;
+
+      await expect(tx)
+        .to.emit(vouch, "DepositManagerUpdated")
+        .withArgs(ethers.ZeroAddress, await depositManager.getAddress());
+      await expect(tx).to.emit(vouch, "MinimumStakeUpdated").withArgs(0n, 42n);
+    });
+
+    it("rejects a zero deposit manager", async function () {
+      const factory = await ethers.getContractFactory("VouchMinimal");
+      await expect(factory.deploy(ethers.ZeroAddress, 0)).to.be.revertedWith("Invalid deposit manager");
+    });
+  });
+
+  describe("Admin", function () {
+    it("lets the owner update the minimum stake", async function () {
+      const { vouch } = await loadFixture(deployFixture);
+
+      await expect(vouch.setMinimumStake(100n)).to.emit(vouch, "MinimumStakeUpdated").withArgs(0n, 100n);
+      expect(await vouch.minimumStake()).to.equal(100n);
+    });
+
+    it("lets the owner update the deposit manager", async function () {
+      const { vouch, depositManager } = await loadFixture(deployFixture);
+      const next = randomAddress();
+
+      await expect(vouch.setDepositManager(next))
+        .to.emit(vouch, "DepositManagerUpdated")
+        .withArgs(await depositManager.getAddress(), next);
+      await expect(vouch.setDepositManager(ethers.ZeroAddress)).to.be.revertedWith("Invalid deposit manager");
+    });
+
+    it("rejects admin calls from other accounts", async function () {
+      const { vouch, signers } = await loadFixture(deployFixture);
+      const stranger = signers[1];
+
+      await expect(vouch.connect(stranger).setMinimumStake(1n))
+        .to.be.revertedWithCustomError(vouch, "OwnableUnauthorizedAccount")
+        .withArgs(stranger.address);
+      await expect(vouch.connect(stranger).setDepositManager(randomAddress()))
+        .to.be.revertedWithCustomError(vouch, "OwnableUnauthorizedAccount")
+        .withArgs(stranger.address);
+    });
+  });
+
+  describe("Input validation", function () {
+    it("reverts vouch with the contract's reason strings", async function () {
+      const { vouch, signers } = await loadFixture(deployFixture);
+      const [, a, b] = signers;
+
+      await expect(vouch.connect(a).vouch(ethers.ZeroAddress)).to.be.revertedWith("zero");
+      await expect(vouch.connect(a).vouch(a.address)).to.be.revertedWith("self");
+
+      await vouch.connect(a).vouch(b.address);
+      await expect(vouch.connect(a).vouch(b.address)).to.be.revertedWith("exists");
+    });
+
+    it("reverts unvouch with the contract's reason strings", async function () {
+      const { vouch, signers } = await loadFixture(deployFixture);
+      const [, a, b] = signers;
+
+      await expect(vouch.connect(a).unvouch(ethers.ZeroAddress)).to.be.revertedWith("zero");
+      await expect(vouch.connect(a).unvouch(a.address)).to.be.revertedWith("self");
+      await expect(vouch.connect(a).unvouch(b.address)).to.be.revertedWith("not exists");
+    });
+  });
+
+  describe("Stake gate", function () {
+    it("requires the voucher to hold the minimum stake", async function () {
+      const { vouch, depositManager, signers } = await loadFixture(deployFixture);
+      const [, staker, nonStaker, target] = signers;
+
+      await vouch.setMinimumStake(100n);
+      await depositManager.setStake(staker.address, 100n);
+      await depositManager.setStake(nonStaker.address, 99n);
+
+      expect(await vouch.hasMinimumStake(staker.address)).to.equal(true);
+      expect(await vouch.hasMinimumStake(nonStaker.address)).to.equal(false);
+      expect(await vouch.getStakedAmount(nonStaker.address)).to.equal(99n);
+
+      await expect(vouch.connect(nonStaker).vouch(target.address)).to.be.revertedWith("Insufficient stake to vouch");
+      await expect(vouch.connect(staker).vouch(target.address)).to.emit(vouch, "VouchCreated");
+    });
+
+    it("does not require stake to unvouch", async function () {
+      const { vouch, depositManager, signers } = await loadFixture(deployFixture);
+      const [, staker, target] = signers;
+
+      await vouch.connect(staker).vouch(target.address);
+      await vouch.setMinimumStake(100n);
+      await depositManager.setStake(staker.address, 0n);
+
+      await expect(vouch.connect(staker).unvouch(target.address)).to.emit(vouch, "VouchRemoved");
+    });
+  });
+
+  describe("Bootstrap", function () {
+    it("seeds both endpoints of the first MAX_SEEDVOUCHES vouches at rank 1", async function () {
+      const { vouch, signers } = await loadFixture(deployFixture);
+      expect(await vouch.MAX_SEEDVOUCHES()).to.equal(BigInt(MAX_SEEDVOUCHES));
+
+      for (let i = 1; i <= MAX_SEEDVOUCHES; i++) {
+        const from = signers[i];
+        const to = signers[i + 1];
+        const tx = vouch.connect(from).vouch(to.address);
+
+        await expect(tx)
+          .to.emit(vouch, "BootstrapVouchCreated")
+          .withArgs(from.address, to.address, BigInt(i - 1));
+        // Only the very first vouch activates its sender; every later one activates just the target
+        if (i === 1) {
+          await expect(tx).to.emit(vouch, "NodeActivated").withArgs(from.address, 1n);
+        }
+        await expect(tx).to.emit(vouch, "NodeActivated").withArgs(to.address, 1n);
+
+        if (i < MAX_SEEDVOUCHES) {
+          await expect(tx).not.to.emit(vouch, "BootstrapComplete");
+        } else {
+          await expect(tx).to.emit(vouch, "BootstrapComplete");
+        }
+        expect(await vouch.seedVouchCount()).to.equal(BigInt(i));
+      }
+
+      for (let i = 1; i <= MAX_SEEDVOUCHES + 1; i++) {
+        expect(await vouch.getRank(signers[i].address)).to.equal(1n);
+      }
+    });
+
+    it("scores seed endpoints using their rank-1 in-neighbors", async function () {
+      const { vouch, seeds } = await loadFixture(bootstrappedFixture);
+
+      // head of the chain: no IN, one OUT
+      expect(await vouch.getScore(seeds[0].address)).to.equal(1n);
+      // middle: one rank-1 IN (16) and one OUT (1)
+      expect(await vouch.getScore(seeds[2].address)).to.equal(17n);
+      // tail: one rank-1 IN, no OUT
+      expect(await vouch.getScore(seeds[MAX_SEEDVOUCHES].address)).to.equal(16n);
+    });
+
+    it("switches to the normal rule once bootstrap is complete", async function () {
+      const { vouch, seeds, others } = await loadFixture(bootstrappedFixture);
+      const tx = vouch.connect(seeds[0]).vouch(others[0].address);
+
+      await expect(tx).not.to.emit(vouch, "BootstrapVouchCreated");
+      await expect(tx).not.to.emit(vouch, "BootstrapComplete");
+      expect(await vouch.seedVouchCount()).to.equal(BigInt(MAX_SEEDVOUCHES));
+      expect(await vouch.getRank(others[0].address)).to.equal(3n);
+    });
+  });
+
+  describe("Rank: 3k + 1 - min(m, 3)", function () {
+    it("reports DEFAULT_RANK for unknown nodes", async function () {
+      const { vouch } = await loadFixture(deployFixture);
+      expect(await vouch.getRank(randomAddress())).to.equal(DEFAULT_RANK);
+    });
+
+    it("improves with the multiplicity of the best in-neighbor rank, capped at 3", async function () {
+      const { vouch, seeds, others } = await loadFixture(bootstrappedFixture);
+      const target = others[0].address;
+      const expected = [3n, 2n, 1n, 1n];
+
+      for (let m = 0; m < expected.length; m++) {
+        const oldRank = await vouch.getRank(target);
+        const tx = vouch.connect(seeds[m]).vouch(target);
+        if (oldRank !== expected[m]) {
+          await expect(tx).to.emit(vouch, "RankChanged").withArgs(target, oldRank, expected[m]);
+        } else {
+          await expect(tx).not.to.emit(vouch, "RankChanged");
+        }
+        await expect(tx)
+          .to.emit(vouch, "VouchCreated")
+          .withArgs(seeds[m].address, target, expected[m], anyValue, anyValue);
+        expect(await vouch.getRank(target)).to.equal(expected[m]);
+      }
+    });
+
+    it("uses only the minimum in-neighbor rank", async function () {
+      const { vouch, seeds, others } = await loadFixture(bootstrappedFixture);
+      const [mid, low, target] = others;
+
+      await vouch.connect(seeds[0]).vouch(mid.address); // mid: rank 3
+      await vouch.connect(mid).vouch(low.address); // low: 3*3 + 1 - 1 = 9
+      expect(await vouch.getRank(low.address)).to.equal(9n);
+
+      await vouch.connect(low).vouch(target.address); // k = 9 -> 27
+      expect(await vouch.getRank(target.address)).to.equal(27n);
+      await vouch.connect(mid).vouch(target.address); // k = 3 -> 9
+      expect(await vouch.getRank(target.address)).to.equal(9n);
+    });
+
+    it("treats default-rank vouchers as rank 6 and activates new nodes", async function () {
+      const { vouch, others } = await loadFixture(bootstrappedFixture);
+      const [newcomer, target] = others;
+      const tx = vouch.connect(newcomer).vouch(target.address);
+
+      await expect(tx).to.emit(vouch, "NodeActivated").withArgs(newcomer.address, DEFAULT_RANK);
+      await expect(tx).to.emit(vouch, "NodeActivated").withArgs(target.address, 18n);
+      await expect(tx).to.emit(vouch, "RankChanged").withArgs(target.address, DEFAULT_RANK, 18n);
+      expect(await vouch.getRank(target.address)).to.equal(18n);
+      expect(await vouch.getScore(target.address)).to.equal(0n);
+    });
+
+    it("recomputes the target rank on unvouch", async function () {
+      const { vouch, seeds, others } = await loadFixture(bootstrappedFixture);
+      const target = others[0].address;
+
+      await vouch.connect(seeds[0]).vouch(target);
+      await vouch.connect(seeds[1]).vouch(target);
+      expect(await vouch.getRank(target)).to.equal(2n);
+
+      await expect(vouch.connect(seeds[1]).unvouch(target))
+        .to.emit(vouch, "RankChanged")
+        .withArgs(target, 2n, 3n);
+
+      await expect(vouch.connect(seeds[0]).unvouch(target))
+        .to.emit(vouch, "VouchRemoved")
+        .withArgs(seeds[0].address, target, DEFAULT_RANK, anyValue, 0n);
+      expect(await vouch.getRank(target)).to.equal(DEFAULT_RANK);
+      expect(await vouch.hasEdge(seeds[0].address, target)).to.equal(false);
+    });
+  });
+
+  describe("Score", function () {
+    it("weights each in-neighbor by 2^(R - rank)", async function () {
+      const { vouch, seeds, others } = await loadFixture(bootstrappedFixture);
+      const [rank3, rank2, target] = others;
+
+      await vouch.connect(seeds[0]).vouch(rank3.address); // 3
+      await vouch.connect(seeds[1]).vouch(rank2.address);
+      await vouch.connect(seeds[2]).vouch(rank2.address); // 2
+
+      const inRanks: bigint[] = [];
+      for (const voucher of [seeds[3], rank2, rank3]) {
+        await vouch.connect(voucher).vouch(target.address);
+        inRanks.push(await vouch.getRank(voucher.address));
+      }
+      expect(inRanks).to.deep.equal([1n, 2n, 3n]);
+
+      const expected = inRanks.reduce((sum, r) => sum + weight(r), 0n);
+      expect(expected).to.equal(16n + 8n + 4n);
+      expect(await vouch.getScore(target.address)).to.equal(expected);
+    });
+
+    it("gives no weight to in-neighbors at or beyond DEFAULT_RANK", async function () {
+      const { vouch, others } = await loadFixture(bootstrappedFixture);
+      const [a, b, target] = others;
+
+      await vouch.connect(a).vouch(target.address);
+      await vouch.connect(b).vouch(target.address);
+      expect(await vouch.getScore(target.address)).to.equal(0n);
+    });
+
+    it("adds BONUS_OUT per out-edge, clamped at BONUS_CAP", async function () {
+      const { vouch, signers } = await loadFixture(deployFixture);
+      const voucher = signers[1];
+      const bonusCap = await vouch.BONUS_CAP();
+      const bonusOut = await vouch.BONUS_OUT();
+
+      for (let i = 1n; i <= bonusCap + 2n; i++) {
+        await vouch.connect(voucher).vouch(randomAddress());
+        const expected = bonusOut * (i < bonusCap ? i : bonusCap);
+        expect(await vouch.getScore(voucher.address)).to.equal(expected);
+      }
+      expect(await vouch.getOutdegree(voucher.address)).to.equal(bonusCap + 2n);
+    });
+
+    it("drops the bonus again on unvouch", async function () {
+      const { vouch, signers } = await loadFixture(deployFixture);
+      const [, voucher, a, b] = signers;
+
+      await vouch.connect(voucher).vouch(a.address);
+      await vouch.connect(voucher).vouch(b.address);
+      expect(await vouch.getScore(voucher.address)).to.equal(2n);
+
+      await vouch.connect(voucher).unvouch(a.address);
+      expect(await vouch.getScore(voucher.address)).to.equal(1n);
+    });
+  });
+
+  describe("Graph views", function () {
+    it("keeps neighbor arrays in sync with hasEdge", async function () {
+      const { vouch, seeds, others } = await loadFixture(bootstrappedFixture);
+      const [a, b, c] = others;
+
+      await vouch.connect(a).vouch(b.address);
+      await vouch.connect(a).vouch(c.address);
+      await vouch.connect(seeds[0]).vouch(b.address);
+      await vouch.connect(a).unvouch(b.address);
+
+      const nodeA = await nodeOf(vouch, a);
+      expect(nodeA.outNeighbors).to.deep.equal([c.address]);
+      expect(nodeA.outCount).to.equal(1n);
+      expect(await vouch.getOutdegree(a.address)).to.equal(1n);
+
+      const nodeB = await nodeOf(vouch, b);
+      expect(nodeB.inNeighbors).to.deep.equal([seeds[0].address]);
+      expect(await vouch.getInCount(b.address)).to.equal(1n);
+      expect(await vouch.getInNeighborAt(b.address, 0)).to.equal(seeds[0].address);
+
+      const connections = await vouch.getConnections(b.address);
+      expect(connections.inNeighbors).to.deep.equal(nodeB.inNeighbors);
+      expect(connections.outNeighbors).to.deep.equal(nodeB.outNeighbors);
+
+      const basic = await vouch.getNodeBasicInfo(b.address);
+      expect(basic.rank).to.equal(nodeB.rank);
+      expect(basic.score).to.equal(nodeB.score);
+    });
+  });
+});
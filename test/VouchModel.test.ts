@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { VouchModel, VouchRevertError, computeRank, computeScore, randomSeed, rankWeight } from "../sdk";
+import { formatDivergence, runDifferential } from "./helpers/differential";
+
+// Fixed seeds by default, so every run checks the same sequences. DIFF_SEED=<n>
+// replays a single failing sequence and DIFF_SEED=random draws fresh ones;
+// DIFF_RUNS / DIFF_STEPS widen the search
+const RUNS = Number(process.env.DIFF_RUNS ?? 4);
+const STEPS = Number(process.env.DIFF_STEPS ?? 80);
+
+function differentialSeeds(): number[] {
+  if (process.env.DIFF_SEED === "random") return Array.from({ length: RUNS }, () => randomSeed());
+  if (process.env.DIFF_SEED) return [Number(process.env.DIFF_SEED)];
+  return Array.from({ length: RUNS }, (_, i) => i + 1);
+}
+
+describe("VouchModel", function () {
+  describe("formulas", function () {
+    it("weights ranks 1..5 as 16..1 and everything else as 0", function () {
+      expect([1n, 2n, 3n, 4n, 5n, 6n, 9n].map((r) => rankWeight(r))).to.deep.equal([16n, 8n, 4n, 2n, 1n, 0n, 0n]);
+    });
+
+    it("computes 3k + 1 - min(m, 3)", function () {
+      expect(computeRank([])).to.equal(6n);
+      expect(computeRank([6n])).to.equal(18n);
+      expect(computeRank([1n, 3n])).to.equal(3n);
+      expect(computeRank([1n, 1n, 3n])).to.equal(2n);
+      expect(computeRank([1n, 1n, 1n, 1n])).to.equal(1n);
+    });
+
+    it("caps the outdegree bonus", function () {
+      expect(computeScore([1n, 2n], 3n)).to.equal(27n);
+      expect(computeScore([], 40n)).to.equal(15n);
+    });
+  });
+
+  describe("operations", function () {
+    const [a, b, c] = ["0x" + "a".repeat(40), "0x" + "b".repeat(40), "0x" + "c".repeat(40)];
+
+    it("reverts like the contract", function () {
+      const model = new VouchModel();
+      expect(() => model.vouch(a, ethers.ZeroAddress)).to.throw(VouchRevertError, "zero");
+      expect(() => model.vouch(a, a)).to.throw(VouchRevertError, "self");
+      model.vouch(a, b);
+      expect(() => model.vouch(a, b)).to.throw(VouchRevertError, "exists");
+      expect(() => model.unvouch(b, a)).to.throw(VouchRevertError, "not exists");
+
+      model.minimumStake = 1n;
+      expect(() => model.vouch(b, c)).to.throw(VouchRevertError, "Insufficient stake to vouch");
+    });
+
+    it("predicts bootstrap events", function () {
+      const model = new VouchModel();
+      expect(model.vouch(a, b).map((e) => e.name)).to.deep.equal([
+        "NodeActivated",
+        "NodeActivated",
+        "BootstrapVouchCreated",
+        "VouchCreated",
+      ]);
+      expect(model.getRank(a)).to.equal(1n);
+      expect(model.getRank(b)).to.equal(1n);
+    });
+
+    it("clones independently", function () {
+      const model = new VouchModel();
+      model.vouch(a, b);
+      const copy = model.clone();
+      copy.vouch(b, c);
+      expect(model.hasEdge(b, c)).to.equal(false);
+      expect(copy.hasEdge(b, c)).to.equal(true);
+    });
+  });
+
+  describe("differential against VouchMinimal", function () {
+    for (const seed of differentialSeeds()) {
+      it(`matches the contract on a random sequence (seed ${seed})`, async function () {
+        this.timeout(120_000);
+        const signers = await ethers.getSigners();
+        const { divergence } = await runDifferential({ seed, steps: STEPS, actors: signers.slice(1, 11) });
+        if (divergence) {
+          expect.fail(`${formatDivergence(divergence)}\n  replay with: DIFF_SEED=${seed} npm test`);
+        }
+      });
+    }
+
+    it("replays the same operations, outsiders included, from the same seed", async function () {
+      const actors = (await ethers.getSigners()).slice(1, 6);
+      const first = await runDifferential({ seed: 42, steps: 40, actors });
+      const second = await runDifferential({ seed: 42, steps: 40, actors });
+      expect(second.steps).to.deep.equal(first.steps);
+      const signers = new Set(actors.map((a) => a.address.toLowerCase()));
+      const outsiders = first.steps.filter((s) => s.kind === "op" && !signers.has(s.op.to) && s.op.to !== ethers.ZeroAddress);
+      expect(outsiders).to.not.be.empty;
+    });
+  });
+});
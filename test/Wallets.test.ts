@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  GAS_PRICE_ORACLE_ADDRESS,
+  VouchClient,
+  createWalletSet,
+  listWalletSets,
+  nextMnemonicIndex,
+  readWalletSet,
+  seededWallets,
+  sweepWallets,
+  unlockWalletSet,
+  walletStatuses,
+} from "../sdk/node";
+import { deployVouch } from "./helpers/deploy";
+
+const HARDHAT_MNEMONIC = "test test test test test test test test test test test junk";
+// cheap scrypt to keep the tests fast
+const scryptN = 1024;
+
+describe("wallet sets", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "syb-wallets-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function deployFixture() {
+    const [owner] = await ethers.getSigners();
+    const { vouch } = await deployVouch();
+    const client = VouchClient.connect(await vouch.getAddress(), owner);
+    return { owner, vouch, client };
+  }
+
+  it("stores a generated mnemonic encrypted and never writes keys in the clear", async function () {
+    const { manifest, wallets } = await createWalletSet(dir, "hd", { kind: "hd", count: 3, network: "hardhat", password: "pw", scryptN });
+    expect(manifest.mnemonic).to.equal("keystore");
+    expect(manifest.wallets.map((w) => w.index)).to.deep.equal([0, 1, 2]);
+
+    const files = fs.readdirSync(path.join(dir, "hd")).sort();
+    expect(files).to.deep.equal(["manifest.json", "mnemonic.json"]);
+    const onDisk = files.map((f) => fs.readFileSync(path.join(dir, "hd", f), "utf8")).join("\n");
+    for (const wallet of wallets) expect(onDisk).not.to.contain(wallet.privateKey.slice(2));
+
+    const unlocked = await unlockWalletSet(dir, readWalletSet(dir, "hd"), { password: "pw" });
+    expect(unlocked.map((w) => w.privateKey)).to.deep.equal(wallets.map((w) => w.privateKey));
+    await expect(unlockWalletSet(dir, manifest, { password: "wrong" })).to.be.rejectedWith("incorrect password");
+    await expect(createWalletSet(dir, "hd", { kind: "hd", count: 1, network: "hardhat", password: "pw" })).to.be.rejectedWith(
+      'Wallet set "hd" already exists'
+    );
+  });
+
+  it("derives sets from MNEMONIC without storing it, in disjoint index ranges", async function () {
+    const first = await createWalletSet(dir, "a", { kind: "hd", count: 2, network: "hardhat", mnemonic: HARDHAT_MNEMONIC });
+    const second = await createWalletSet(dir, "b", {
+      kind: "hd",
+      count: 2,
+      network: "hardhat",
+      mnemonic: HARDHAT_MNEMONIC,
+      firstIndex: nextMnemonicIndex(dir),
+    });
+    expect(first.manifest.wallets.map((w) => w.index)).to.deep.equal([1, 2]);
+    expect(second.manifest.wallets.map((w) => w.index)).to.deep.equal([3, 4]);
+    expect(fs.readdirSync(path.join(dir, "a"))).to.deep.equal(["manifest.json"]);
+
+    // hardhat's accounts come from the same mnemonic
+    const signers = await ethers.getSigners();
+    expect(second.manifest.wallets[0].address).to.equal(signers[3].address);
+
+    await expect(unlockWalletSet(dir, first.manifest, {})).to.be.rejectedWith("derived from MNEMONIC, which is not set");
+    await expect(
+      unlockWalletSet(dir, first.manifest, { mnemonic: "legal winner thank year wave sausage worth useful legal winner thank yellow" })
+    ).to.be.rejectedWith("does not unlock to the addresses in its manifest");
+    expect(listWalletSets(dir).map((s) => s.name)).to.deep.equal(["a", "b"]);
+  });
+
+  it("derives the same throwaway wallets from the same seed", function () {
+    const wallets = seededWallets(42, 3).map((w) => w.address);
+    expect(seededWallets(42, 3).map((w) => w.address)).to.deep.equal(wallets);
+    expect(seededWallets(42, 5).slice(0, 3).map((w) => w.address)).to.deep.equal(wallets);
+    expect(seededWallets(43, 3).map((w) => w.address)).not.to.include.members([wallets[0]]);
+  });
+
+  it("lists balances and graph roles, and sweeps leftover ETH back", async function () {
+    const { owner, vouch, client } = await loadFixture(deployFixture);
+    const { manifest } = await createWalletSet(dir, "ks", { kind: "keystore", count: 3, network: "hardhat", password: "pw", scryptN });
+    const wallets = await unlockWalletSet(dir, manifest, { password: "pw" }, ethers.provider);
+    const [a, b, c] = wallets;
+    for (const wallet of [a, b]) await owner.sendTransaction({ to: wallet.address, value: ethers.parseEther("1") });
+    await vouch.connect(a).vouch(b.address);
+
+    const statuses = await walletStatuses(ethers.provider, wallets.map((w) => w.address), client);
+    expect(statuses.map((s) => s.roles)).to.deep.equal([["seed", "voucher"], ["seed", "vouched"], ["unconnected"]]);
+    expect(statuses[1].balance).to.equal(ethers.parseEther("1"));
+
+    const before = await ethers.provider.getBalance(owner.address);
+    const results = await sweepWallets(wallets, owner.address);
+    expect(results.map((r) => r.swept > 0n)).to.deep.equal([true, true, false]);
+    expect(results[2]).to.include({ balance: 0n, swept: 0n });
+    expect(await ethers.provider.getBalance(owner.address)).to.equal(before + results[0].swept + results[1].swept);
+    for (const wallet of [a, b]) {
+      // only the unused part of the fee budget stays behind
+      expect(await ethers.provider.getBalance(wallet.address)).to.be.lessThan(ethers.parseEther("0.001"));
+    }
+  });
+
+  it("leaves the L1 data fee behind when sweeping on an OP-stack chain", async function () {
+    const { owner } = await loadFixture(deployFixture);
+    const l1Fee = ethers.parseEther("0.01");
+    const oracle = await ethers.deployContract("MockGasPriceOracle", [l1Fee]);
+    await ethers.provider.send("hardhat_setCode", [GAS_PRICE_ORACLE_ADDRESS, await ethers.provider.getCode(await oracle.getAddress())]);
+    try {
+      const wallet = seededWallets(7, 1)[0].connect(ethers.provider);
+      await owner.sendTransaction({ to: wallet.address, value: ethers.parseEther("1") });
+
+      const [result] = await sweepWallets([wallet], owner.address);
+      expect(result.error).to.equal(undefined);
+      // Hardhat charges no L1 fee, so its budget (twice the quote) stays behind
+      const left = await ethers.provider.getBalance(wallet.address);
+      expect(left).to.be.greaterThanOrEqual(2n * l1Fee);
+      expect(left).to.be.lessThan(2n * l1Fee + ethers.parseEther("0.001"));
+    } finally {
+      await ethers.provider.send("hardhat_setCode", [GAS_PRICE_ORACLE_ADDRESS, "0x"]);
+    }
+  });
+});
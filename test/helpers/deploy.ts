@@ -0,0 +1,29 @@
+import { ethers } from "hardhat";
+import type { BigNumberish, ContractTransactionReceipt, ContractTransactionResponse } from "ethers";
+import { MemoryStore, VouchIndexer, VouchIndexerOptions } from "../../sdk";
+
+/**
+ * Deployments most suites start from: a MockDepositManager, a VouchMinimal
+ * wired to it, and the block the contract was deployed in (where event
+ * queries and indexers start).
+ */
+
+export async function deployVouch(minimumStake: BigNumberish = 0) {
+  const depositManager = await ethers.deployContract("MockDepositManager");
+  const vouch = await ethers.deployContract("VouchMinimal", [await depositManager.getAddress(), minimumStake]);
+  const startBlock = (await vouch.deploymentTransaction()!.wait())!.blockNumber;
+  return { depositManager, vouch, startBlock, address: await vouch.getAddress() };
+}
+
+// An indexer over a deployVouch() contract that keeps its snapshot in memory
+export function memoryIndexer(
+  { address, startBlock }: { address: string; startBlock: number },
+  options: Omit<VouchIndexerOptions, "startBlock"> = {}
+): VouchIndexer {
+  return new VouchIndexer(ethers.provider, address, new MemoryStore(), { startBlock, ...options });
+}
+
+// Waits for a contract call to be mined and returns its receipt
+export async function send(tx: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+  return (await (await tx).wait())!;
+}
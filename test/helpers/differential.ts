@@ -0,0 +1,211 @@
+import { ethers } from "hardhat";
+import { hexlify } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { VouchMinimal } from "../../typechain-types";
+import {
+  Prng,
+  VouchContractEvent,
+  VouchModel,
+  VouchOperation,
+  VouchRevertError,
+  decodeRevertReason,
+  decodeVouchEvents,
+} from "../../sdk";
+import { deployVouch } from "./deploy";
+
+/**
+ * Differential harness: replays one random operation sequence against both the
+ * off-chain VouchModel and a freshly deployed VouchMinimal, and stops at the
+ * first step where reverts, emitted events or stored state disagree.
+ */
+
+export interface DifferentialOptions {
+  seed: number;
+  steps: number;
+  actors: HardhatEthersSigner[];
+  minimumStake?: bigint;
+}
+
+export type Step =
+  | { kind: "op"; op: VouchOperation }
+  | { kind: "stake"; account: string; amount: bigint };
+
+export interface Divergence {
+  seed: number;
+  step: number;
+  input: Step;
+  what: "revert" | "events" | "state";
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface DifferentialResult {
+  steps: Step[];
+  divergence: Divergence | null;
+}
+
+type Outcome = { reverted: string } | { events: VouchContractEvent[] };
+
+export async function runDifferential(options: DifferentialOptions): Promise<DifferentialResult> {
+  const { seed, steps: stepCount, actors } = options;
+  const minimumStake = options.minimumStake ?? 10n;
+  const rng = new Prng(seed);
+
+  const { depositManager, vouch: contract } = await deployVouch(minimumStake);
+  const model = new VouchModel({ minimumStake });
+
+  const bySigner = new Map(actors.map((s) => [s.address.toLowerCase(), s]));
+  const addresses = actors.map((s) => s.address.toLowerCase());
+  // addresses that never sign, drawn from the seed so a reported divergence replays with the same ones
+  const outsiders = [hexlify(rng.bytes(20)), hexlify(rng.bytes(20))];
+
+  // most actors can vouch; a few start below the minimum
+  for (const address of addresses) {
+    const amount = rng.chance(0.85) ? minimumStake + BigInt(rng.int(5)) : BigInt(rng.int(Number(minimumStake)));
+    await depositManager.setStake(address, amount);
+    model.setStake(address, amount);
+  }
+
+  const steps: Step[] = [];
+  for (let i = 0; i < stepCount; i++) {
+    const step = nextStep(rng, model, addresses, outsiders, minimumStake);
+    steps.push(step);
+
+    if (step.kind === "stake") {
+      await depositManager.setStake(step.account, step.amount);
+      model.setStake(step.account, step.amount);
+      continue;
+    }
+
+    const { op } = step;
+    const expected = applyToModel(model, op);
+    const actual = await applyToContract(contract, bySigner.get(op.from)!, op);
+    const diverge = (what: Divergence["what"], e: unknown, a: unknown): DifferentialResult => ({
+      steps,
+      divergence: { seed, step: i, input: step, what, expected: e, actual: a },
+    });
+
+    if ("reverted" in expected || "reverted" in actual) {
+      const e = "reverted" in expected ? expected.reverted : null;
+      const a = "reverted" in actual ? actual.reverted : null;
+      if (e !== a) return diverge("revert", e, a);
+      continue;
+    }
+
+    if (!sameJson(expected.events, actual.events)) {
+      return diverge("events", expected.events, actual.events);
+    }
+
+    const touched = [op.from, op.to];
+    for (const address of touched) {
+      const mismatch = await compareNode(contract, model, address);
+      if (mismatch) return diverge("state", mismatch.expected, mismatch.actual);
+    }
+    const seedVouchCount = await contract.seedVouchCount();
+    if (seedVouchCount !== model.seedVouchCount) {
+      return diverge("state", { seedVouchCount: model.seedVouchCount }, { seedVouchCount });
+    }
+  }
+
+  // final sweep over every node, catching anything the per-step checks missed
+  for (const address of new Set([...addresses, ...model.addresses()])) {
+    const mismatch = await compareNode(contract, model, address);
+    if (mismatch) {
+      return {
+        steps,
+        divergence: { seed, step: stepCount, input: steps[steps.length - 1], what: "state", ...mismatch },
+      };
+    }
+  }
+
+  return { steps, divergence: null };
+}
+
+export function formatDivergence(d: Divergence): string {
+  return [
+    `model and contract diverged at step ${d.step} (seed ${d.seed}, ${d.what})`,
+    `  input:    ${toJson(d.input)}`,
+    `  expected: ${toJson(d.expected)}`,
+    `  actual:   ${toJson(d.actual)}`,
+  ].join("\n");
+}
+
+function nextStep(rng: Prng, model: VouchModel, addresses: string[], outsiders: string[], minimumStake: bigint): Step {
+  if (rng.chance(0.04)) {
+    return { kind: "stake", account: rng.pick(addresses), amount: BigInt(rng.int(Number(minimumStake) * 2)) };
+  }
+
+  const from = rng.pick(addresses);
+  const action = rng.chance(0.65) ? "vouch" : "unvouch";
+  const outs = model.getNodeInfo(from).outNeighbors;
+
+  let to: string;
+  if (rng.chance(0.02)) {
+    to = ethers.ZeroAddress;
+  } else if (action === "unvouch" && outs.length > 0 && rng.chance(0.8)) {
+    to = rng.pick(outs);
+  } else if (rng.chance(0.05)) {
+    to = rng.pick(outsiders);
+  } else {
+    to = rng.pick(addresses); // may pick `from` itself -> "self"
+  }
+  return { kind: "op", op: { action, from, to } };
+}
+
+function applyToModel(model: VouchModel, op: VouchOperation): Outcome {
+  try {
+    return { events: model.apply(op) };
+  } catch (error) {
+    if (error instanceof VouchRevertError) return { reverted: error.reason };
+    throw error;
+  }
+}
+
+async function applyToContract(
+  contract: VouchMinimal,
+  signer: HardhatEthersSigner,
+  op: VouchOperation
+): Promise<Outcome> {
+  try {
+    const connected = contract.connect(signer);
+    const tx = op.action === "vouch" ? await connected.vouch(op.to) : await connected.unvouch(op.to);
+    const receipt = await tx.wait();
+    return { events: decodeVouchEvents(receipt!.logs, await contract.getAddress()) };
+  } catch (error) {
+    return { reverted: decodeRevertReason(error) };
+  }
+}
+
+async function compareNode(
+  contract: VouchMinimal,
+  model: VouchModel,
+  address: string
+): Promise<{ expected: unknown; actual: unknown } | null> {
+  const info = await contract.getNodeInfo(address);
+  const actual = {
+    address,
+    rank: info.rank,
+    score: info.score,
+    outdegree: await contract.getOutdegree(address),
+    inNeighbors: info.inNeighbors.map((a) => a.toLowerCase()),
+    outNeighbors: info.outNeighbors.map((a) => a.toLowerCase()),
+  };
+  const node = model.getNodeInfo(address);
+  const expected = {
+    address,
+    rank: node.rank,
+    score: node.score,
+    outdegree: model.getOutdegree(address),
+    inNeighbors: node.inNeighbors,
+    outNeighbors: node.outNeighbors,
+  };
+  return sameJson(expected, actual) ? null : { expected, actual };
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return toJson(a) === toJson(b);
+}